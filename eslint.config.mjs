@@ -40,7 +40,11 @@ export default [
             },
             {
               sourceTag: 'scope:swarm-relay',
-              onlyDependOnLibsWithTags: ['scope:shared', 'scope:swarm-relay'],
+              onlyDependOnLibsWithTags: [
+                'scope:shared',
+                'scope:async',
+                'scope:swarm-relay',
+              ],
             },
           ],
         },
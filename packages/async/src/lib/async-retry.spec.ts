@@ -72,6 +72,31 @@ describe('async-retry', () => {
       expect(fn).toHaveBeenCalledWith(1);
       expect(fn).toHaveBeenCalledWith(2);
     });
+
+    it('should apply jitter to each delay', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      const onRetry = vi.fn();
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('fail'))
+        .mockResolvedValue('success');
+
+      const promise = retry(fn, {
+        retries: 1,
+        delay: 100,
+        jitter: 0.5,
+        onRetry,
+      });
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 0, 150);
+
+      await vi.advanceTimersByTimeAsync(149);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await promise).toBe('success');
+    });
   });
 
   describe('createRetry', () => {
@@ -10,6 +10,8 @@ export interface RetryOptions {
   maxDelay?: number;
   /** Exponential backoff factor (default: 2) */
   factor?: number;
+  /** Random jitter applied to each delay, as a fraction of it from 0 to 1 (default: 0) */
+  jitter?: number;
   /** Callback on each retry */
   onRetry?: (error: Error, attempt: number, nextDelay: number) => void;
   /** Function to determine if should retry */
@@ -56,6 +58,7 @@ export async function retry<T>(
     delay = 1000,
     maxDelay = 30000,
     factor = 2,
+    jitter = 0,
     onRetry = () => {
       return;
     },
@@ -76,11 +79,17 @@ export async function retry<T>(
         throw error;
       }
 
+      // Spread retries out so many callers do not retry in lockstep
+      const nextDelay =
+        jitter > 0
+          ? Math.round(currentDelay * (1 + (Math.random() * 2 - 1) * jitter))
+          : currentDelay;
+
       // Call onRetry callback
-      onRetry(lastError, attempt, currentDelay);
+      onRetry(lastError, attempt, nextDelay);
 
       // Wait before retrying
-      await sleep(currentDelay);
+      await sleep(nextDelay);
 
       // Calculate next delay with exponential backoff
       currentDelay = Math.min(currentDelay * factor, maxDelay);
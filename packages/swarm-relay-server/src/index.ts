@@ -0,0 +1,10 @@
+export * from './lib/swarm-relay-server.js';
+export {
+  ACK_PROTOCOL_VERSION,
+  INSPECTOR_BUFFER_SIZE,
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  STREAM_PROTOCOL_VERSION,
+  matchesEventPattern,
+} from '@org/swarm-relay/hub';
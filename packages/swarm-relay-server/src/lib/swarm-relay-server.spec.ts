@@ -0,0 +1,687 @@
+import { once } from 'node:events';
+import { WebSocket } from 'ws';
+import {
+  ConnectionState,
+  PROTOCOL_VERSION as CLIENT_PROTOCOL_VERSION,
+  SwarmRelay,
+  SwarmRelayErrorCode,
+  WebSocketTransport,
+} from '@org/swarm-relay';
+import { SwarmRelayServer } from './swarm-relay-server.js';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from '@org/swarm-relay/hub';
+
+type TestEvents = {
+  'slide:change': { index: number };
+  'user:login': { userId: string };
+  'file:chunk': Uint8Array;
+};
+
+type TestRequests = {
+  'slide:current': { request: void; response: number };
+};
+
+function createSilentLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+// ── Raw protocol client ────────────────────────────────────
+
+/** Speaks the wire protocol directly and records every frame it receives. */
+class TestClient {
+  readonly received: Record<string, unknown>[] = [];
+
+  private constructor(private readonly socket: WebSocket) {
+    socket.on('message', (raw) => {
+      this.received.push(JSON.parse(raw.toString()));
+    });
+  }
+
+  static async connect(
+    port: number,
+    clientId: string,
+    versions: Record<string, unknown> = {
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+    }
+  ): Promise<TestClient> {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    const client = new TestClient(socket);
+    await once(socket, 'open');
+    client.send({ type: '__swarm_register__', clientId, ...versions });
+    await vi.waitFor(() => expect(client.received.length).toBeGreaterThan(0));
+    return client;
+  }
+
+  send(data: unknown): void {
+    this.socket.send(JSON.stringify(data));
+  }
+
+  ofType(type: string): Record<string, unknown>[] {
+    return this.received.filter((data) => data.type === type);
+  }
+
+  /** Messages received so far, unwrapped from their frames. */
+  messages(): Record<string, unknown>[] {
+    return this.ofType('__swarm_message__').map(
+      (data) => data.message as Record<string, unknown>
+    );
+  }
+
+  async close(): Promise<void> {
+    this.socket.close();
+    await once(this.socket, 'close');
+  }
+}
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('SwarmRelayServer', () => {
+  let server: SwarmRelayServer;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new SwarmRelayServer({ logger: createSilentLogger() });
+    await server.listen();
+    port = server.port as number;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should speak the same protocol version as the client library', () => {
+    expect(PROTOCOL_VERSION).toBe(CLIENT_PROTOCOL_VERSION);
+  });
+
+  describe('routing', () => {
+    it('should acknowledge registration with the negotiated version', async () => {
+      const client = await TestClient.connect(port, 'kiosk');
+
+      expect(client.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({
+          clientId: 'kiosk',
+          peers: [],
+          version: PROTOCOL_VERSION,
+        }),
+      ]);
+      expect(server.clientIds).toEqual(['kiosk']);
+      await client.close();
+    });
+
+    it('should deliver targeted messages only to the target', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const screen = await TestClient.connect(port, 'screen');
+      const other = await TestClient.connect(port, 'other');
+      const targeted = {
+        id: '1',
+        source: 'kiosk',
+        target: 'screen',
+        event: 'e',
+      };
+      const marker = { id: '2', source: 'kiosk', event: 'marker' };
+
+      kiosk.send({ type: '__swarm_message__', message: targeted });
+      kiosk.send({ type: '__swarm_message__', message: marker });
+
+      await vi.waitFor(() => expect(screen.messages()).toHaveLength(2));
+      await vi.waitFor(() => expect(other.messages()).toHaveLength(1));
+      expect(screen.messages()).toEqual([targeted, marker]);
+      expect(other.messages()).toEqual([marker]);
+      await Promise.all([kiosk.close(), screen.close(), other.close()]);
+    });
+
+    it('should broadcast to everyone except the sender', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const screen = await TestClient.connect(port, 'screen');
+      const message = { id: '1', source: 'kiosk', event: 'e' };
+
+      kiosk.send({ type: '__swarm_message__', message });
+      screen.send({
+        type: '__swarm_message__',
+        message: { ...message, source: 'screen', id: '2' },
+      });
+
+      await vi.waitFor(() => expect(screen.messages()).toEqual([message]));
+      await vi.waitFor(() => expect(kiosk.messages()).toHaveLength(1));
+      expect(kiosk.messages()[0].source).toBe('screen');
+      await Promise.all([kiosk.close(), screen.close()]);
+    });
+
+    it('should replay retained broadcasts to late joiners', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const observer = await TestClient.connect(port, 'observer');
+      const message = { id: '1', source: 'kiosk', event: 'e', retain: true };
+
+      kiosk.send({ type: '__swarm_message__', message });
+      await vi.waitFor(() => expect(observer.messages()).toEqual([message]));
+
+      const late = await TestClient.connect(port, 'late');
+      await vi.waitFor(() => expect(late.messages()).toEqual([message]));
+      await Promise.all([kiosk.close(), observer.close(), late.close()]);
+    });
+
+    it('should only forward broadcasts a client subscribed to', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const screen = await TestClient.connect(port, 'screen');
+      screen.send({ type: '__swarm_subscribe__', patterns: ['slide:*'] });
+
+      kiosk.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'kiosk', event: 'user:login' },
+      });
+      kiosk.send({
+        type: '__swarm_message__',
+        message: { id: '2', source: 'kiosk', event: 'slide:change' },
+      });
+
+      await vi.waitFor(() => expect(screen.messages()).toHaveLength(1));
+      expect(screen.messages()[0].id).toBe('2');
+      await Promise.all([kiosk.close(), screen.close()]);
+    });
+
+    it('should ignore messages from sockets that have not registered', async () => {
+      const screen = await TestClient.connect(port, 'screen');
+      const stranger = new WebSocket(`ws://127.0.0.1:${port}`);
+      await once(stranger, 'open');
+
+      stranger.send(
+        JSON.stringify({
+          type: '__swarm_message__',
+          message: { id: '1', source: 'kiosk', target: 'screen', event: 'e' },
+        })
+      );
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const marker = { id: '2', source: 'kiosk', target: 'screen', event: 'e' };
+      kiosk.send({ type: '__swarm_message__', message: marker });
+
+      await vi.waitFor(() => expect(screen.messages()).toEqual([marker]));
+      stranger.close();
+      await Promise.all([kiosk.close(), screen.close()]);
+    });
+
+    it('should ignore messages whose source is another client', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const screen = await TestClient.connect(port, 'screen');
+      const spoofed = {
+        id: '1',
+        source: 'kiosk',
+        target: 'screen',
+        event: 'e',
+      };
+      const marker = {
+        id: '2',
+        source: 'screen',
+        target: 'screen',
+        event: 'e',
+      };
+
+      screen.send({ type: '__swarm_message__', message: spoofed });
+      screen.send({ type: '__swarm_message__', message: marker });
+
+      await vi.waitFor(() => expect(screen.messages()).toEqual([marker]));
+      await Promise.all([kiosk.close(), screen.close()]);
+    });
+
+    it('should ignore malformed frames', async () => {
+      const logger = createSilentLogger();
+      await server.close();
+      server = new SwarmRelayServer({ logger });
+      await server.listen();
+
+      const socket = new WebSocket(`ws://127.0.0.1:${server.port}`);
+      await once(socket, 'open');
+      socket.send('not json');
+
+      await vi.waitFor(() =>
+        expect(logger.warn).toHaveBeenCalledWith('Ignoring malformed frame')
+      );
+      socket.close();
+    });
+
+    it('should drop a client whose frame is not valid UTF-8 and serve the rest', async () => {
+      const logger = createSilentLogger();
+      await server.close();
+      server = new SwarmRelayServer({ logger });
+      await server.listen();
+      port = server.port as number;
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const screen = await TestClient.connect(port, 'screen');
+      const broken = new WebSocket(`ws://127.0.0.1:${port}`);
+      await once(broken, 'open');
+      broken.send(
+        JSON.stringify({ type: '__swarm_register__', clientId: 'broken' })
+      );
+      await vi.waitFor(() => expect(server.clientIds).toContain('broken'));
+
+      broken.send(Buffer.from([0xc3, 0x28]), { binary: false });
+
+      await vi.waitFor(() =>
+        expect(logger.warn).toHaveBeenCalledWith(
+          'Dropping connection after a socket error',
+          expect.any(Error)
+        )
+      );
+      expect(server.clientIds).toEqual(['kiosk', 'screen']);
+      const message = {
+        id: '1',
+        source: 'kiosk',
+        target: 'screen',
+        event: 'e',
+      };
+      kiosk.send({ type: '__swarm_message__', message });
+      await vi.waitFor(() => expect(screen.messages()).toEqual([message]));
+      await Promise.all([kiosk.close(), screen.close()]);
+    });
+  });
+
+  describe('presence', () => {
+    it('should announce joins and leaves to other clients', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const screen = await TestClient.connect(port, 'screen');
+
+      await vi.waitFor(() =>
+        expect(kiosk.ofType('__swarm_peer_join__')).toEqual([
+          expect.objectContaining({
+            peer: expect.objectContaining({ clientId: 'screen' }),
+          }),
+        ])
+      );
+
+      await screen.close();
+
+      await vi.waitFor(() =>
+        expect(kiosk.ofType('__swarm_peer_leave__')).toHaveLength(1)
+      );
+      expect(server.clientIds).toEqual(['kiosk']);
+      await kiosk.close();
+    });
+  });
+
+  describe('inspection', () => {
+    it('should ignore requests to inspect unless enabled', async () => {
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const devtools = await TestClient.connect(port, 'devtools');
+
+      devtools.send({ type: '__swarm_inspect__', enabled: true });
+      devtools.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'devtools', event: 'slide:change' },
+      });
+      await vi.waitFor(() => expect(kiosk.messages()).toHaveLength(1));
+      // Sent after the request was handled, so any snapshot came first.
+      kiosk.send({
+        type: '__swarm_message__',
+        message: { id: '2', source: 'kiosk', event: 'slide:change' },
+      });
+      await vi.waitFor(() => expect(devtools.messages()).toHaveLength(1));
+
+      expect(devtools.ofType('__swarm_inspector__')).toEqual([]);
+      await kiosk.close();
+      await devtools.close();
+    });
+
+    it('should report traffic and clients to inspecting clients', async () => {
+      await server.close();
+      server = new SwarmRelayServer({
+        logger: createSilentLogger(),
+        inspector: true,
+      });
+      await server.listen();
+      port = server.port as number;
+
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const devtools = await TestClient.connect(port, 'devtools');
+      const message = { id: '1', source: 'kiosk', event: 'slide:change' };
+      kiosk.send({ type: '__swarm_message__', message });
+      await vi.waitFor(() => expect(devtools.messages()).toHaveLength(1));
+
+      devtools.send({ type: '__swarm_inspect__', enabled: true });
+      await vi.waitFor(() =>
+        expect(devtools.ofType('__swarm_inspector__')).toHaveLength(1)
+      );
+      await kiosk.close();
+
+      await vi.waitFor(() =>
+        expect(devtools.ofType('__swarm_inspector__')).toHaveLength(2)
+      );
+      expect(
+        devtools.ofType('__swarm_inspector__').map((data) => data.update)
+      ).toEqual([
+        {
+          type: 'snapshot',
+          clients: [
+            expect.objectContaining({ clientId: 'kiosk', subscriptions: null }),
+            expect.objectContaining({ clientId: 'devtools' }),
+          ],
+          traffic: [
+            expect.objectContaining({ message, recipients: ['devtools'] }),
+          ],
+        },
+        {
+          type: 'clients',
+          clients: [expect.objectContaining({ clientId: 'devtools' })],
+        },
+      ]);
+      await devtools.close();
+    });
+  });
+
+  describe('protocol negotiation', () => {
+    it('should reject clients whose versions do not overlap', async () => {
+      const future = await TestClient.connect(port, 'future', {
+        version: PROTOCOL_VERSION + 2,
+        minVersion: PROTOCOL_VERSION + 1,
+      });
+
+      expect(future.ofType('__swarm_rejected__')).toEqual([
+        expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }),
+      ]);
+      expect(server.clientIds).toEqual([]);
+      await future.close();
+    });
+
+    it('should keep binary payloads from clients before protocol 4', async () => {
+      const older = await TestClient.connect(port, 'older', {
+        version: 3,
+        minVersion: 1,
+      });
+      const screen = await TestClient.connect(port, 'screen');
+      const kiosk = await TestClient.connect(port, 'kiosk');
+      const message = {
+        id: '1',
+        source: 'kiosk',
+        event: 'file:chunk',
+        payload: { data: { __swarm_binary__: 'Uint8Array', base64: 'AQID' } },
+      };
+
+      kiosk.send({ type: '__swarm_message__', message });
+
+      await vi.waitFor(() => expect(screen.messages()).toEqual([message]));
+      expect(older.messages()).toEqual([]);
+      await Promise.all([older.close(), screen.close(), kiosk.close()]);
+    });
+
+    it('should keep stream frames from clients before protocol 4', async () => {
+      const older = await TestClient.connect(port, 'older', {
+        version: 3,
+        minVersion: 1,
+      });
+      const kiosk = await TestClient.connect(port, 'kiosk');
+
+      kiosk.send({
+        type: '__swarm_message__',
+        message: {
+          id: 's1',
+          source: 'kiosk',
+          target: 'older',
+          event: 'e',
+          ack: { kind: 'request' },
+          stream: { id: 's1', kind: 'open' },
+        },
+      });
+
+      await vi.waitFor(() =>
+        expect(kiosk.messages().map((message) => message.ack)).toEqual([
+          { kind: 'receipt', messageId: 's1', status: 'protocol-mismatch' },
+        ])
+      );
+      expect(older.messages()).toEqual([]);
+      await Promise.all([older.close(), kiosk.close()]);
+    });
+
+    it('should strip newer envelope fields for protocol 1 clients', async () => {
+      const legacy = await TestClient.connect(port, 'legacy', {});
+      const kiosk = await TestClient.connect(port, 'kiosk');
+
+      kiosk.send({
+        type: '__swarm_message__',
+        message: {
+          id: '1',
+          source: 'kiosk',
+          event: 'e',
+          version: 2,
+          retain: true,
+        },
+      });
+
+      await vi.waitFor(() =>
+        expect(legacy.messages()).toEqual([
+          { id: '1', source: 'kiosk', event: 'e' },
+        ])
+      );
+      await Promise.all([legacy.close(), kiosk.close()]);
+    });
+  });
+
+  describe('with WebSocketTransport', () => {
+    function createRelay(clientId: string, tabId?: string) {
+      return new SwarmRelay<TestEvents, TestRequests>({
+        clientId,
+        tabId,
+        transport: new WebSocketTransport<TestEvents>({
+          url: `ws://127.0.0.1:${port}`,
+          WebSocket: WebSocket as unknown as typeof globalThis.WebSocket,
+        }),
+        logger: createSilentLogger(),
+      });
+    }
+
+    it('should relay broadcasts, targeted messages and requests', async () => {
+      const kiosk = createRelay('kiosk');
+      const screen = createRelay('screen');
+      await kiosk.connect();
+      await screen.connect();
+
+      const onSlide = vi.fn();
+      screen.on('slide:change', onSlide);
+      screen.handle('slide:current', () => 3);
+
+      kiosk.broadcast('slide:change', { index: 1 });
+      kiosk.send('screen', 'slide:change', { index: 2 });
+
+      await vi.waitFor(() => expect(onSlide).toHaveBeenCalledTimes(2));
+      expect(onSlide).toHaveBeenLastCalledWith(
+        { index: 2 },
+        expect.objectContaining({ source: 'kiosk', target: 'screen' })
+      );
+      await expect(
+        kiosk.request('screen', 'slide:current', undefined)
+      ).resolves.toBe(3);
+      expect(kiosk.getPeers().map((peer) => peer.clientId)).toEqual(['screen']);
+
+      kiosk.disconnect();
+      screen.disconnect();
+    });
+
+    it('should confirm acknowledged sends end to end', async () => {
+      const kiosk = createRelay('kiosk');
+      const screen = createRelay('screen');
+      await kiosk.connect();
+      await screen.connect();
+      const onSlide = vi.fn();
+      screen.on('slide:change', onSlide);
+
+      await expect(
+        kiosk.send('screen', 'slide:change', { index: 1 }, { ack: true })
+      ).resolves.toBeUndefined();
+      expect(onSlide).toHaveBeenCalledTimes(1);
+
+      await expect(
+        kiosk.send(
+          'gone',
+          'slide:change',
+          { index: 2 },
+          { ack: true, retries: 0 }
+        )
+      ).rejects.toMatchObject({ code: SwarmRelayErrorCode.UnknownTarget });
+
+      kiosk.disconnect();
+      screen.disconnect();
+    });
+
+    it('should stream chunks end to end', async () => {
+      const kiosk = createRelay('kiosk');
+      const screen = createRelay('screen');
+      await kiosk.connect();
+      await screen.connect();
+      const received: number[] = [];
+      const done = new Promise<void>((resolve) => {
+        screen.onStream('slide:change', async (stream) => {
+          for await (const slide of stream) received.push(slide.index);
+          resolve();
+        });
+      });
+
+      const writer = kiosk.openStream('screen', 'slide:change');
+      for (const index of [1, 2, 3]) {
+        await writer.write({ index });
+      }
+      await writer.close();
+      await done;
+      expect(received).toEqual([1, 2, 3]);
+
+      kiosk.disconnect();
+      screen.disconnect();
+    });
+
+    it('should stream binary chunks end to end', async () => {
+      const kiosk = createRelay('kiosk');
+      const screen = createRelay('screen');
+      await kiosk.connect();
+      await screen.connect();
+      const received: Uint8Array[] = [];
+      const done = new Promise<void>((resolve) => {
+        screen.onStream('file:chunk', async (stream) => {
+          for await (const chunk of stream) received.push(chunk);
+          resolve();
+        });
+      });
+
+      const writer = kiosk.openStream('screen', 'file:chunk');
+      await writer.write(Uint8Array.from([1, 2, 3]));
+      await writer.write(Uint8Array.from([4, 5]));
+      await writer.close();
+      await done;
+      expect(received).toEqual([
+        Uint8Array.from([1, 2, 3]),
+        Uint8Array.from([4, 5]),
+      ]);
+
+      kiosk.disconnect();
+      screen.disconnect();
+    });
+
+    it('should scope channel messages to the clients that joined', async () => {
+      const kiosk = createRelay('kiosk');
+      const screen = createRelay('screen');
+      const wall = createRelay('wall');
+      await Promise.all([kiosk.connect(), screen.connect(), wall.connect()]);
+      const lobby = kiosk.channel('lobby');
+      const screenLobby = screen.channel('lobby');
+      await Promise.all([lobby.connect(), screenLobby.connect()]);
+      const inLobby = vi.fn();
+      const outside = vi.fn();
+      screenLobby.on('slide:change', inLobby);
+      screen.on('slide:change', outside);
+      wall.on('slide:change', outside);
+
+      lobby.broadcast('slide:change', { index: 1 });
+      await expect(
+        lobby.send('screen', 'slide:change', { index: 2 }, { ack: true })
+      ).resolves.toBeUndefined();
+
+      expect(inLobby.mock.calls.map(([payload]) => payload.index)).toEqual([
+        1, 2,
+      ]);
+      expect(outside).not.toHaveBeenCalled();
+
+      kiosk.disconnect();
+      screen.disconnect();
+      wall.disconnect();
+    });
+
+    it('should settle client ID conflicts by the connecting policy', async () => {
+      const first = createRelay('kiosk');
+      await first.connect();
+
+      const rejected = createRelay('kiosk');
+      await expect(
+        rejected.connect({ onConflict: 'reject' })
+      ).rejects.toMatchObject({ code: SwarmRelayErrorCode.ClientIdConflict });
+
+      const suffixed = createRelay('kiosk');
+      await suffixed.connect({ onConflict: 'suffix' });
+      expect(suffixed.id).toBe('kiosk#2');
+
+      const successor = createRelay('kiosk');
+      await successor.connect({ onConflict: 'takeover' });
+      await vi.waitFor(() => expect(first.state).toBe(ConnectionState.Error));
+      expect(server.clientIds.sort()).toEqual(['kiosk', 'kiosk#2']);
+
+      first.disconnect();
+      suffixed.disconnect();
+      successor.disconnect();
+    });
+
+    it('should scope tab messages and hand leadership between tabs', async () => {
+      const kiosk = createRelay('kiosk', 'tab-1');
+      const screen = createRelay('screen', 'tab-1');
+      const wall = createRelay('wall', 'tab-2');
+      await Promise.all([kiosk.connect(), screen.connect(), wall.connect()]);
+      const inTab = vi.fn();
+      const otherTab = vi.fn();
+      screen.on('slide:change', inTab);
+      wall.on('slide:change', otherTab);
+
+      kiosk.broadcast('slide:change', { index: 1 }, { scope: 'tab' });
+      await expect(
+        kiosk.send(
+          'screen',
+          'slide:change',
+          { index: 2 },
+          { ack: true, scope: 'tab' }
+        )
+      ).resolves.toBeUndefined();
+      expect(inTab).toHaveBeenCalledTimes(2);
+      expect(otherTab).not.toHaveBeenCalled();
+
+      const first = kiosk.electLeader('sync');
+      await first.whenLeader();
+      const second = wall.electLeader('sync');
+      await vi.waitFor(() => expect(second.leader).toBe('kiosk'));
+      kiosk.disconnect();
+      await second.whenLeader();
+
+      screen.disconnect();
+      wall.disconnect();
+    });
+
+    it('should report the connection lost when the server stops', async () => {
+      const onError = vi.fn();
+      const kiosk = new SwarmRelay<TestEvents>({
+        clientId: 'kiosk',
+        transport: new WebSocketTransport<TestEvents>({
+          url: `ws://127.0.0.1:${port}`,
+          WebSocket: WebSocket as unknown as typeof globalThis.WebSocket,
+        }),
+        logger: createSilentLogger(),
+        onError,
+      });
+      await kiosk.connect();
+
+      await server.close();
+
+      await vi.waitFor(() =>
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ code: SwarmRelayErrorCode.TransportError })
+        )
+      );
+      kiosk.disconnect();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import type { Server } from 'node:http';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import type { SwarmRelayLogger } from '@org/swarm-relay';
+import {
+  HubRouter,
+  type HubConnection,
+  type HubFrame,
+} from '@org/swarm-relay/hub';
+
+/** Default console-based logger. */
+const defaultLogger: SwarmRelayLogger = {
+  debug: (...args) => console.debug('[SwarmRelayServer]', ...args),
+  info: (...args) => console.info('[SwarmRelayServer]', ...args),
+  warn: (...args) => console.warn('[SwarmRelayServer]', ...args),
+  error: (...args) => console.error('[SwarmRelayServer]', ...args),
+};
+
+/**
+ * Configuration options for the relay server.
+ */
+export interface SwarmRelayServerOptions {
+  /**
+   * Port to listen on. Use `0` to pick a free port (see {@link SwarmRelayServer.port}).
+   * Ignored when `server` is given.
+   * @default 0
+   */
+  port?: number;
+  /** Host to bind to. Ignored when `server` is given. */
+  host?: string;
+  /** Existing HTTP(S) server to attach to instead of listening on `port`. */
+  server?: Server;
+  /** Only accept WebSocket upgrades on this path, e.g. `/swarm`. */
+  path?: string;
+  /** Custom logger instance. Defaults to console-based logger. */
+  logger?: SwarmRelayLogger;
+  /**
+   * Let clients inspect the hub with `relay.inspect()`. Inspectors see
+   * every client and the payloads of all traffic, so only enable this
+   * when every client that can reach the server is trusted.
+   * @default false
+   */
+  inspector?: boolean;
+}
+
+/**
+ * WebSocket relay server for `WebSocketTransport` clients.
+ *
+ * Routes messages with the `HubRouter` from `@org/swarm-relay`, exactly
+ * like the SharedWorker hub: clients register by `clientId`, targeted
+ * messages reach one client, broadcasts reach every other subscribed
+ * client, and channels, tab scopes, retained events, acknowledgements,
+ * streams, inspection (once enabled by `inspector`) and leader elections
+ * all work the same way.
+ * Disconnected clients are cleaned up.
+ *
+ * @example
+ * ```typescript
+ * const server = new SwarmRelayServer({ port: 8080, path: '/swarm' });
+ * await server.listen();
+ *
+ * // In each browser:
+ * // new WebSocketTransport({ url: 'ws://relay.local:8080/swarm' })
+ * ```
+ */
+export class SwarmRelayServer {
+  private wss: WebSocketServer | null = null;
+  private readonly router: HubRouter;
+  private readonly logger: SwarmRelayLogger;
+
+  constructor(private readonly options: SwarmRelayServerOptions = {}) {
+    this.logger = options.logger ?? defaultLogger;
+    this.router = new HubRouter({
+      logger: this.logger,
+      inspector: options.inspector ?? false,
+    });
+  }
+
+  /** Port the server is listening on, or `null` when not listening. */
+  get port(): number | null {
+    const address = this.wss?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  /** Client IDs currently registered. */
+  get clientIds(): string[] {
+    return this.router.clientIds;
+  }
+
+  // ── Lifecycle ────────────────────────────────────────────
+
+  /**
+   * Start accepting connections.
+   * Resolves once listening (immediately when attached to `server`).
+   */
+  listen(): Promise<void> {
+    if (this.wss) {
+      return Promise.resolve();
+    }
+
+    const { server, path, port = 0, host } = this.options;
+    const wss = server
+      ? new WebSocketServer({ server, path })
+      : new WebSocketServer({ port, host, path });
+    this.wss = wss;
+    wss.on('connection', this.handleConnection);
+    // Without a listener, an error would crash the process.
+    wss.on('error', (error) => {
+      this.logger.error('WebSocket server error', error);
+    });
+
+    if (server) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      wss.once('listening', () => {
+        this.logger.info(`Listening on port ${this.port}`);
+        resolve();
+      });
+      wss.once('error', (error) => {
+        this.wss = null;
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Disconnect every client and stop accepting connections.
+   * An attached `server` is left running.
+   */
+  close(): Promise<void> {
+    const wss = this.wss;
+    if (!wss) {
+      return Promise.resolve();
+    }
+
+    this.wss = null;
+    for (const client of wss.clients) {
+      client.close(1001, 'Relay server shutting down');
+    }
+    this.router.reset();
+
+    return new Promise<void>((resolve, reject) => {
+      wss.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  private handleConnection = (socket: WebSocket): void => {
+    const connection: HubConnection = {
+      post: (frame) => this.post(socket, frame),
+    };
+
+    socket.on('message', (raw: RawData) => {
+      const frame = this.parse(raw);
+      if (!frame) return;
+
+      // Nothing can be transferred over a socket.
+      delete frame.transfer;
+      this.router.receive(connection, frame);
+    });
+
+    // Invalid frames, such as text that is not UTF-8, fail the socket;
+    // without a listener the error would crash the process.
+    socket.on('error', (error) => {
+      this.logger.warn('Dropping connection after a socket error', error);
+      this.router.drop(connection);
+    });
+
+    socket.on('close', () => this.router.drop(connection));
+  };
+
+  // ── Framing ──────────────────────────────────────────────
+
+  private post(socket: WebSocket, frame: HubFrame): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  }
+
+  /** Decode a frame, ignoring anything that is not a JSON object. */
+  private parse(raw: RawData): HubFrame | null {
+    try {
+      const data = JSON.parse(raw.toString());
+      if (data && typeof data === 'object') return data;
+    } catch {
+      // Logged below.
+    }
+    this.logger.warn('Ignoring malformed frame');
+    return null;
+  }
+}
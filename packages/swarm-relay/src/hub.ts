@@ -0,0 +1,22 @@
+// Hub side of the wire protocol, without the React integration, for hubs
+// that run outside the browser such as `@org/swarm-relay-server`.
+
+// Routing
+export {
+  HubRouter,
+  type HubConnection,
+  type HubFrame,
+  type HubRouterOptions,
+} from './lib/hub/hub-router.js';
+
+// Wire protocol
+export {
+  ACK_PROTOCOL_VERSION,
+  BINARY_PROTOCOL_VERSION,
+  INSPECTOR_BUFFER_SIZE,
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  STREAM_PROTOCOL_VERSION,
+  matchesEventPattern,
+} from './lib/protocol.js';
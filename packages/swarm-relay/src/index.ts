@@ -4,24 +4,127 @@ export { SwarmRelay } from './lib/swarm-relay.js';
 // Types
 export {
   ConnectionState,
+  type BroadcastOptions,
+  type ClientIdConflictPolicy,
+  type ChannelOptions,
+  type ClientMetadata,
+  type DeliveryStatus,
   type EventMap,
+  type EventPattern,
+  type InspectedClient,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type MatchingEvents,
   type MessageHandler,
+  type MessageScope,
+  type MiddlewareResult,
+  type PeerHandler,
+  type PatternHandler,
+  type PayloadSchema,
+  type PeerInfo,
+  type PresenceEvent,
+  type RequestHandler,
+  type RequestMap,
+  type RequestOptions,
+  type RequestPayloadMap,
+  type SchemaRegistry,
+  type SendOptions,
+  type SwarmAckMeta,
   type SwarmMessage,
+  type SwarmMiddleware,
+  type SwarmRelayConnectOptions,
   type SwarmRelayLogger,
   type SwarmRelayOptions,
+  type SwarmRpcMeta,
+  type SwarmStreamMeta,
+  type TrafficRecord,
   type TransportAdapter,
+  type TransportConnectOptions,
+  type TransportSendOptions,
   type WildcardHandler,
 } from './lib/types.js';
 
+// Tabs and leader election
+export { getTabId } from './lib/ids.js';
+export {
+  LeaderElection,
+  type LeaderChangeHandler,
+} from './lib/leader-election.js';
+
+// Streams
+export {
+  SwarmStream,
+  SwarmStreamWriter,
+  type StreamHandler,
+  type StreamHandlerOptions,
+  type StreamOptions,
+} from './lib/stream.js';
+
+// Shared state
+export {
+  SharedStore,
+  createSharedStore,
+  type SharedStoreListener,
+} from './lib/shared-store.js';
+
+// Devtools
+export { diffPayloads, type PayloadChange } from './lib/payload-diff.js';
+
+// Recording and replay
+export {
+  SwarmRecorder,
+  parseRecording,
+  type RecordedMessage,
+  type SwarmRecorderOptions,
+  type SwarmRecording,
+} from './lib/swarm-recorder.js';
+
+// Outbound queue
+export { type OutboxOptions, type OutboxOverflowPolicy } from './lib/outbox.js';
+
+// Inbound de-duplication
+export { type DedupeOptions } from './lib/dedupe-window.js';
+
+// Wire protocol
+export { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from './lib/protocol.js';
+
 // Errors
 export { SwarmRelayError, SwarmRelayErrorCode } from './lib/errors.js';
 
 // Transport adapters
-export { SharedWorkerTransport } from './lib/transport/shared-worker-transport.js';
+export {
+  SharedWorkerTransport,
+  type SharedWorkerTransportOptions,
+} from './lib/transport/shared-worker-transport.js';
 export {
   BroadcastChannelTransport,
   type BroadcastChannelTransportOptions,
 } from './lib/transport/broadcast-channel-transport.js';
+export {
+  WebSocketTransport,
+  type WebSocketTransportOptions,
+} from './lib/transport/websocket-transport.js';
+export {
+  FallbackTransport,
+  type FallbackTransportOptions,
+} from './lib/transport/fallback-transport.js';
+export {
+  PostMessageTransport,
+  type PostMessageTransportOptions,
+} from './lib/transport/post-message-transport.js';
+export {
+  ReplayTransport,
+  type ReplayTransportOptions,
+} from './lib/transport/replay-transport.js';
+
+// Hubs
+export { getWorkerScript } from './lib/worker/swarm-relay-worker.js';
+export {
+  PostMessageHub,
+  type PostMessageHubLink,
+  type PostMessageHubOptions,
+} from './lib/hub/post-message-hub.js';
 
 // React integration
 export {
@@ -31,7 +134,20 @@ export {
   type SwarmRelayProviderProps,
 } from './lib/react/swarm-relay-context.js';
 export { useSwarmRelay } from './lib/react/use-swarm-relay.js';
-export { useSwarmEvent } from './lib/react/use-swarm-event.js';
+export {
+  useSwarmEvent,
+  type UseSwarmEventOptions,
+} from './lib/react/use-swarm-event.js';
+export { useSharedState } from './lib/react/use-shared-state.js';
+export {
+  useSwarmInspector,
+  type SwarmInspectorState,
+  type UseSwarmInspectorOptions,
+} from './lib/react/use-swarm-inspector.js';
+export {
+  SwarmRelayDevtools,
+  type SwarmRelayDevtoolsProps,
+} from './lib/react/swarm-relay-devtools.js';
 export {
   useSendEvent,
   type SendEventActions,
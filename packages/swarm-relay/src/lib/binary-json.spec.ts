@@ -0,0 +1,59 @@
+import {
+  BINARY_TAG,
+  decodeBinary,
+  encodeBinary,
+  hasEncodedBinary,
+} from './binary-json.js';
+
+function roundTrip(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, encodeBinary), decodeBinary);
+}
+
+describe('binary JSON', () => {
+  it('should restore buffers and typed arrays of each kind', () => {
+    const values = [
+      Uint8Array.from([0, 127, 255]).buffer,
+      Uint8Array.from([1, 2, 3]),
+      Int16Array.from([-2, 300]),
+      Float64Array.from([0.5, -1e10]),
+      BigInt64Array.from([-1n, 2n ** 40n]),
+      new DataView(Uint8Array.from([9, 8]).buffer),
+    ];
+
+    for (const value of values) {
+      expect(roundTrip({ value })).toEqual({ value });
+    }
+  });
+
+  it('should only encode the bytes a view covers', () => {
+    const view = Uint8Array.from([1, 2, 3, 4]).subarray(1, 3);
+
+    expect(JSON.parse(JSON.stringify(view, encodeBinary))).toEqual({
+      [BINARY_TAG]: 'Uint8Array',
+      base64: 'AgM=',
+    });
+    expect(roundTrip(view)).toEqual(Uint8Array.from([2, 3]));
+  });
+
+  it('should encode large buffers', () => {
+    const bytes = new Uint8Array(40_000).map((_, i) => i % 251);
+
+    expect(roundTrip(bytes)).toEqual(bytes);
+  });
+
+  it('should leave other values alone', () => {
+    const value = { text: 'a', list: [1, { nested: null }], flag: true };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should find encoded binary anywhere in a value', () => {
+    const encoded = JSON.parse(
+      JSON.stringify({ files: [{ data: new ArrayBuffer(2) }] }, encodeBinary)
+    );
+
+    expect(hasEncodedBinary(encoded)).toBe(true);
+    expect(hasEncodedBinary({ files: [{ data: 'none' }] })).toBe(false);
+    expect(hasEncodedBinary(undefined)).toBe(false);
+  });
+});
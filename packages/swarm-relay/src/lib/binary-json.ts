@@ -0,0 +1,104 @@
+/**
+ * Key marking an `ArrayBuffer` or typed array encoded for a JSON transport,
+ * e.g. `{ __swarm_binary__: 'Uint8Array', base64: 'AQID' }`.
+ */
+export const BINARY_TAG = '__swarm_binary__';
+
+/** Kinds of binary data that survive the trip, by their `toStringTag`. */
+const VIEWS: Record<string, new (buffer: ArrayBuffer) => ArrayBufferView> = {
+  DataView,
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+/** Base64 is built from strings of this many bytes at a time. */
+const CHUNK_SIZE = 0x8000;
+
+interface EncodedBinary {
+  [BINARY_TAG]: string;
+  base64: string;
+}
+
+/**
+ * `JSON.stringify` replacer that encodes `ArrayBuffer`s and typed arrays,
+ * which JSON would otherwise turn into `{}` or index-keyed objects, as
+ * tagged base64. Reverse it with {@link decodeBinary}.
+ */
+export function encodeBinary(
+  this: unknown,
+  key: string,
+  value: unknown
+): unknown {
+  // Read the property itself: Node's `Buffer` has already been through
+  // its `toJSON()` by the time the replacer sees `value`.
+  const raw = (this as Record<string, unknown>)[key];
+  if (ArrayBuffer.isView(raw)) {
+    const bytes = new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength);
+    const type = tagOf(raw);
+    return encode(type in VIEWS ? type : 'Uint8Array', bytes);
+  }
+  if (tagOf(raw) === 'ArrayBuffer') {
+    return encode('ArrayBuffer', new Uint8Array(raw as ArrayBuffer));
+  }
+  return value;
+}
+
+/** `JSON.parse` reviver that restores what {@link encodeBinary} encoded. */
+export function decodeBinary(_key: string, value: unknown): unknown {
+  if (!isEncodedBinary(value)) {
+    return value;
+  }
+
+  const type = value[BINARY_TAG];
+  const binary = atob(value.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  if (type === 'ArrayBuffer') {
+    return bytes.buffer;
+  }
+  const View = VIEWS[type];
+  return View ? new View(bytes.buffer) : value;
+}
+
+/** Whether `value` holds binary data encoded by {@link encodeBinary}. */
+export function hasEncodedBinary(value: unknown): boolean {
+  if (isEncodedBinary(value)) {
+    return true;
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(hasEncodedBinary);
+  }
+  return false;
+}
+
+function encode(type: string, bytes: Uint8Array): EncodedBinary {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return { [BINARY_TAG]: type, base64: btoa(binary) };
+}
+
+function tagOf(value: unknown): string {
+  return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+function isEncodedBinary(value: unknown): value is EncodedBinary {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as EncodedBinary)[BINARY_TAG] === 'string' &&
+    typeof (value as EncodedBinary).base64 === 'string'
+  );
+}
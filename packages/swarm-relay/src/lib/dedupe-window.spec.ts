@@ -0,0 +1,49 @@
+import { DedupeWindow } from './dedupe-window.js';
+
+describe('DedupeWindow', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('should remember added IDs', () => {
+    const window = new DedupeWindow();
+    window.add('a');
+
+    expect(window.has('a')).toBe(true);
+    expect(window.has('b')).toBe(false);
+  });
+
+  it('should forget the least recently seen ID when full', () => {
+    const window = new DedupeWindow({ maxSize: 2 });
+    window.add('a');
+    window.add('b');
+    window.add('a');
+    window.add('c');
+
+    expect(window.has('a')).toBe(true);
+    expect(window.has('b')).toBe(false);
+    expect(window.size).toBe(2);
+  });
+
+  it('should forget IDs not seen within the ttl', () => {
+    vi.useFakeTimers();
+    const window = new DedupeWindow({ ttl: 1_000 });
+    window.add('a');
+
+    vi.advanceTimersByTime(999);
+    expect(window.has('a')).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(window.has('a')).toBe(false);
+
+    window.add('b');
+    expect(window.size).toBe(1);
+  });
+
+  it('should keep IDs until evicted when ttl is 0', () => {
+    vi.useFakeTimers();
+    const window = new DedupeWindow({ ttl: 0 });
+    window.add('a');
+
+    vi.advanceTimersByTime(3_600_000);
+    expect(window.has('a')).toBe(true);
+  });
+});
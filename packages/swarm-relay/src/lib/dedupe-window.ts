@@ -0,0 +1,67 @@
+/**
+ * Configuration for the window of recently received message IDs.
+ */
+export interface DedupeOptions {
+  /**
+   * Maximum number of IDs remembered. Once reached, the least recently
+   * seen ID is forgotten.
+   * @default 1000
+   */
+  maxSize?: number;
+  /**
+   * Time in milliseconds an ID is remembered after it was last seen.
+   * `0` keeps IDs until they are evicted by `maxSize`.
+   * @default 60000
+   */
+  ttl?: number;
+}
+
+/**
+ * Bounded set of recently seen message IDs, forgetting the least recently
+ * seen first and any not seen for `ttl` milliseconds.
+ *
+ * SwarmRelay drops received messages whose ID is still in the window, so
+ * copies delivered twice — by combined transports or around a reconnect —
+ * only reach handlers once.
+ */
+export class DedupeWindow {
+  /** Time each ID was last seen, least recently seen first. */
+  private readonly seenAt = new Map<string, number>();
+  private readonly maxSize: number;
+  private readonly ttl: number;
+
+  constructor(options: DedupeOptions = {}) {
+    this.maxSize = options.maxSize ?? 1_000;
+    this.ttl = options.ttl ?? 60_000;
+  }
+
+  /** Number of remembered IDs, including any that have expired. */
+  get size(): number {
+    return this.seenAt.size;
+  }
+
+  /** Whether `id` was seen within the window. */
+  has(id: string): boolean {
+    const seenAt = this.seenAt.get(id);
+    if (seenAt === undefined) return false;
+    return this.ttl <= 0 || Date.now() - seenAt < this.ttl;
+  }
+
+  /** Remember `id` as seen now, forgetting IDs that fall out of the window. */
+  add(id: string): void {
+    const now = Date.now();
+    this.seenAt.delete(id);
+    this.seenAt.set(id, now);
+
+    for (const [oldest, seenAt] of this.seenAt) {
+      const expired = this.ttl > 0 && now - seenAt >= this.ttl;
+      if (!expired && this.seenAt.size <= this.maxSize) break;
+      this.seenAt.delete(oldest);
+    }
+  }
+
+  /** Forget every ID. */
+  clear(): void {
+    this.seenAt.clear();
+  }
+}
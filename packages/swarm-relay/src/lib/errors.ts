@@ -14,6 +14,24 @@ export enum SwarmRelayErrorCode {
   InvalidMessage = 'INVALID_MESSAGE',
   /** SharedWorker or the required API is not supported in this environment. */
   WorkerNotSupported = 'WORKER_NOT_SUPPORTED',
+  /** A request did not receive a response within its timeout. */
+  RequestTimeout = 'REQUEST_TIMEOUT',
+  /** The target client has no responder registered for the request. */
+  NoResponder = 'NO_RESPONDER',
+  /** The responder threw or rejected while handling the request. */
+  RequestFailed = 'REQUEST_FAILED',
+  /** The outbound queue is full and its overflow policy is `throw`. */
+  OutboxFull = 'OUTBOX_FULL',
+  /** This client and the hub (or a peer) share no supported protocol version. */
+  ProtocolMismatch = 'PROTOCOL_MISMATCH',
+  /** No client with the target ID is connected to the hub. */
+  UnknownTarget = 'UNKNOWN_TARGET',
+  /** The target did not confirm a message sent with `ack` in time. */
+  DeliveryTimeout = 'DELIVERY_TIMEOUT',
+  /** Another client is registered, or took over, with the same client ID. */
+  ClientIdConflict = 'CLIENT_ID_CONFLICT',
+  /** The other end cancelled a stream, or left before it ended. */
+  StreamCancelled = 'STREAM_CANCELLED',
 }
 
 /**
@@ -0,0 +1,746 @@
+import type {
+  DeliveryStatus,
+  EventMap,
+  InspectedClient,
+  InspectorUpdate,
+  PeerInfo,
+  SwarmMessage,
+  SwarmRelayLogger,
+  TrafficRecord,
+} from '../types.js';
+import {
+  ACK_PROTOCOL_VERSION,
+  BINARY_PROTOCOL_VERSION,
+  INSPECTOR_BUFFER_SIZE,
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  STREAM_PROTOCOL_VERSION,
+  matchesEventPattern,
+} from '../protocol.js';
+import { hasEncodedBinary } from '../binary-json.js';
+
+/** A wire frame such as `{ type: '__swarm_register__', … }`. */
+export type HubFrame = Record<string, unknown>;
+
+/** A client connection as seen by the router. */
+export interface HubConnection {
+  /** Deliver a frame to the client, moving the `transfer` objects in it. */
+  post(frame: HubFrame, transfer?: Transferable[]): void;
+}
+
+/** Logger used when none is given: the router stays quiet. */
+const silentLogger: SwarmRelayLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Configuration options for the hub router.
+ */
+export interface HubRouterOptions {
+  /**
+   * Logger for registrations, rejections and departures.
+   * @default a logger that discards everything
+   */
+  logger?: SwarmRelayLogger;
+  /**
+   * Let clients inspect the hub. Inspectors see every client and the
+   * payloads of all traffic, so only enable this where every client is
+   * trusted. While disabled, requests to inspect are ignored and no
+   * traffic is recorded.
+   * @default false
+   */
+  inspector?: boolean;
+}
+
+/** Any envelope routed by the hub; payloads are opaque to it. */
+type Envelope = SwarmMessage<EventMap>;
+
+/**
+ * Key of a retained broadcast: its event, within its channel if any, and
+ * within the sender's tab if tab-scoped.
+ */
+function retainedKey(message: Envelope): string {
+  let key = String(message.event);
+  if (message.channel !== undefined) key = `${message.channel}\n${key}`;
+  if (message.scope === 'tab') key = `${message.tabId}\t${key}`;
+  return key;
+}
+
+/**
+ * Transport-agnostic message router implementing the hub side of the wire
+ * protocol, shared by the hubs that run outside the SharedWorker script:
+ * `PostMessageHub` and `@org/swarm-relay-server`.
+ *
+ * It routes exactly like the SharedWorker hub script:
+ * - Registers clients by their unique `clientId`, negotiating the highest
+ *   protocol version both sides speak (or rejecting the client if none)
+ * - Ignores messages from connections that have not registered, and
+ *   messages whose `source` is not the client ID their connection
+ *   registered as
+ * - Settles a `clientId` already in use by the client's conflict policy:
+ *   evicting the previous connection, rejecting the client, or
+ *   registering it under a free `<clientId>#<n>`
+ * - Routes targeted messages to a specific client
+ * - Broadcasts messages to all connected clients (except the sender)
+ *   that subscribe to the event; clients that never announced their
+ *   subscriptions receive every broadcast
+ * - Scopes messages sent on a channel to the clients that joined it, and
+ *   tab-scoped messages to the clients in the sender's tab; a tab-scoped
+ *   targeted message reaches the target's instance in that tab
+ * - Tracks peer metadata and announces joins / leaves to other clients
+ * - Retains the last broadcast of events flagged `retain` and replays
+ *   them to clients as they register (or join the broadcast's channel)
+ * - Downgrades envelopes for clients on an older protocol version, and
+ *   keeps stream frames and binary payloads encoded by a JSON transport
+ *   from clients too old to read them
+ * - Tells the sender of a targeted message sent with `ack` whether it
+ *   reached its target
+ * - Moves objects the sender transferred on to the target of a targeted
+ *   message; broadcasts are copied to each recipient
+ * - Records recent traffic and pushes it, with the client list, to
+ *   clients that ask to inspect the hub, if enabled by `inspector`
+ * - Runs named leader elections: the longest standing candidate leads,
+ *   and every candidate is told whenever the leader changes
+ */
+export class HubRouter {
+  private readonly connections = new Map<string, HubConnection>();
+  private readonly registrations = new Map<HubConnection, string>();
+  private readonly peers = new Map<string, PeerInfo>();
+  /** Protocol version negotiated with each client. */
+  private readonly versions = new Map<string, number>();
+  /** Last retained broadcast per channel and event, replayed to late joiners. */
+  private readonly retained = new Map<string, Envelope>();
+  /** Event patterns each client subscribes to; absent = every event. */
+  private readonly subscriptions = new Map<string, string[]>();
+  /** Channels each client has joined. */
+  private readonly channels = new Map<string, Set<string>>();
+  /** Clients receiving inspector updates. */
+  private readonly inspectors = new Set<string>();
+  /** Candidates of each election, longest standing (the leader) first. */
+  private readonly elections = new Map<string, string[]>();
+  /** The most recently routed messages, oldest first. */
+  private readonly traffic: TrafficRecord[] = [];
+  private trafficSeq = 0;
+  private readonly logger: SwarmRelayLogger;
+  private readonly inspector: boolean;
+
+  constructor(options: HubRouterOptions = {}) {
+    this.logger = options.logger ?? silentLogger;
+    this.inspector = options.inspector ?? false;
+  }
+
+  /** Client IDs currently registered. */
+  get clientIds(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  /** Handle a frame a client sent on `connection`. */
+  receive(connection: HubConnection, frame: HubFrame): void {
+    switch (frame.type) {
+      case '__swarm_register__':
+        this.register(connection, frame);
+        return;
+      case '__swarm_disconnect__':
+        this.drop(connection);
+        return;
+      case '__swarm_subscribe__':
+        this.subscribe(connection, frame.patterns);
+        return;
+      case '__swarm_join__':
+        this.join(connection, frame.channel);
+        return;
+      case '__swarm_leave__':
+        this.leave(connection, frame.channel);
+        return;
+      case '__swarm_inspect__':
+        this.inspect(connection, frame.enabled === true);
+        return;
+      case '__swarm_elect__':
+        this.elect(connection, frame.name);
+        return;
+      case '__swarm_resign__':
+        this.resign(connection, frame.name);
+        return;
+      case '__swarm_message__':
+        if (this.isFromSender(connection, frame.message)) {
+          this.route(
+            frame.message as Envelope,
+            Array.isArray(frame.transfer) ? frame.transfer : undefined
+          );
+        }
+        return;
+    }
+  }
+
+  /** Forget `connection`, announcing its client's departure. */
+  drop(connection: HubConnection): void {
+    const clientId = this.registrations.get(connection);
+    this.registrations.delete(connection);
+
+    // A newer connection for the same clientId may have replaced this one.
+    if (
+      clientId === undefined ||
+      this.connections.get(clientId) !== connection
+    ) {
+      return;
+    }
+    this.connections.delete(clientId);
+    this.versions.delete(clientId);
+    this.subscriptions.delete(clientId);
+    this.channels.delete(clientId);
+    this.inspectors.delete(clientId);
+    this.withdraw(clientId);
+    const peer = this.peers.get(clientId);
+    this.peers.delete(clientId);
+    this.logger.debug(`Unregistered "${clientId}"`);
+    if (peer) {
+      this.notifyPeers('__swarm_peer_leave__', peer, clientId);
+    }
+    this.announceClients();
+  }
+
+  /** Forget all clients, retained messages and traffic without notifying anyone. */
+  reset(): void {
+    this.connections.clear();
+    this.registrations.clear();
+    this.peers.clear();
+    this.versions.clear();
+    this.retained.clear();
+    this.subscriptions.clear();
+    this.channels.clear();
+    this.inspectors.clear();
+    this.elections.clear();
+    this.traffic.length = 0;
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /**
+   * Whether `message` comes from the client registered on `connection`,
+   * so that no client can speak for another.
+   */
+  private isFromSender(connection: HubConnection, message: unknown): boolean {
+    const clientId = this.registrations.get(connection);
+    return (
+      clientId !== undefined &&
+      typeof message === 'object' &&
+      message !== null &&
+      (message as Envelope).source === clientId
+    );
+  }
+
+  private register(connection: HubConnection, frame: HubFrame): void {
+    // Clients from before protocol 2 send no version.
+    const clientVersion = Number(frame.version ?? LEGACY_PROTOCOL_VERSION);
+    const clientMin = Number(frame.minVersion ?? clientVersion);
+    const version = Math.min(PROTOCOL_VERSION, clientVersion);
+    if (version < Math.max(MIN_PROTOCOL_VERSION, clientMin)) {
+      this.logger.warn(`Rejected "${frame.clientId}": no common protocol`);
+      connection.post({
+        type: '__swarm_rejected__',
+        clientId: frame.clientId,
+        code: 'PROTOCOL_MISMATCH',
+        reason:
+          `Hub speaks protocol ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}; ` +
+          `client speaks ${clientMin}-${clientVersion}`,
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+      });
+      return;
+    }
+
+    const clientId = this.resolveConflict(connection, frame);
+    if (clientId === null) return;
+
+    const isNew = !this.peers.has(clientId);
+    const peer: PeerInfo = {
+      clientId,
+      metadata: frame.metadata as PeerInfo['metadata'],
+      connectedAt: Date.now(),
+    };
+    if (typeof frame.tabId === 'string') {
+      peer.tabId = frame.tabId;
+    }
+    this.connections.set(clientId, connection);
+    this.registrations.set(connection, clientId);
+    this.peers.set(clientId, peer);
+    this.versions.set(clientId, version);
+    // A new connection starts out receiving everything, in no channel, not
+    // inspecting and standing in no election.
+    this.subscriptions.delete(clientId);
+    this.channels.delete(clientId);
+    this.inspectors.delete(clientId);
+    this.withdraw(clientId);
+
+    connection.post({
+      type: '__swarm_registered__',
+      clientId,
+      peers: [...this.peers.values()].filter((p) => p.clientId !== clientId),
+      version,
+    });
+    this.logger.debug(`Registered "${clientId}" (protocol ${version})`);
+
+    if (isNew) {
+      this.notifyPeers('__swarm_peer_join__', peer, clientId);
+    }
+
+    this.replayRetained(clientId, undefined);
+    this.announceClients();
+  }
+
+  /**
+   * Apply the client's conflict policy when its ID is registered on another
+   * connection.
+   *
+   * @returns The ID to register the client under, or `null` if it was rejected.
+   */
+  private resolveConflict(
+    connection: HubConnection,
+    frame: HubFrame
+  ): string | null {
+    const clientId = String(frame.clientId);
+    const existing = this.connections.get(clientId);
+    if (!existing || existing === connection) {
+      return clientId;
+    }
+
+    switch (frame.onConflict) {
+      case 'reject':
+        this.logger.warn(`Rejected "${clientId}": client ID in use`);
+        connection.post({
+          type: '__swarm_rejected__',
+          clientId,
+          code: 'CLIENT_ID_CONFLICT',
+          reason: `Client ID "${clientId}" is already registered`,
+        });
+        return null;
+      case 'suffix': {
+        let n = 2;
+        while (this.connections.has(`${clientId}#${n}`)) n++;
+        return `${clientId}#${n}`;
+      }
+      default:
+        // Take over: the previous connection no longer receives anything.
+        this.logger.debug(`"${clientId}" taken over by a new connection`);
+        this.registrations.delete(existing);
+        existing.post({
+          type: '__swarm_evicted__',
+          clientId,
+          code: 'CLIENT_ID_CONFLICT',
+          reason: `Another client registered as "${clientId}"`,
+        });
+        return clientId;
+    }
+  }
+
+  /** Deliver the retained broadcasts of `channel` to `clientId`. */
+  private replayRetained(clientId: string, channel: string | undefined): void {
+    for (const message of this.retained.values()) {
+      if (
+        message.channel === channel &&
+        message.source !== clientId &&
+        this.inScope(clientId, message)
+      ) {
+        this.deliver(clientId, message);
+      }
+    }
+  }
+
+  /** Replace the event patterns the client on `connection` subscribes to. */
+  private subscribe(connection: HubConnection, patterns: unknown): void {
+    const clientId = this.registrations.get(connection);
+    if (
+      clientId !== undefined &&
+      this.connections.get(clientId) === connection &&
+      Array.isArray(patterns)
+    ) {
+      this.subscriptions.set(clientId, patterns.map(String));
+      this.announceClients();
+    }
+  }
+
+  /** Add the client on `connection` to `channel`. */
+  private join(connection: HubConnection, channel: unknown): void {
+    const clientId = this.registrations.get(connection);
+    if (
+      clientId === undefined ||
+      this.connections.get(clientId) !== connection ||
+      typeof channel !== 'string'
+    ) {
+      return;
+    }
+
+    const joined = this.channels.get(clientId) ?? new Set<string>();
+    if (joined.has(channel)) return;
+    joined.add(channel);
+    this.channels.set(clientId, joined);
+    this.replayRetained(clientId, channel);
+    this.announceClients();
+  }
+
+  /** Remove the client on `connection` from `channel`. */
+  private leave(connection: HubConnection, channel: unknown): void {
+    const clientId = this.registrations.get(connection);
+    if (
+      clientId !== undefined &&
+      this.connections.get(clientId) === connection &&
+      typeof channel === 'string' &&
+      this.channels.get(clientId)?.delete(channel)
+    ) {
+      this.announceClients();
+    }
+  }
+
+  /** Whether `clientId` may receive messages sent on `channel`. */
+  private isMember(clientId: string, channel: string | undefined): boolean {
+    return channel === undefined || !!this.channels.get(clientId)?.has(channel);
+  }
+
+  /** Whether `clientId` runs in the tab a tab-scoped `message` is limited to. */
+  private inScope(clientId: string, message: Envelope): boolean {
+    return (
+      message.scope !== 'tab' ||
+      (message.tabId !== undefined &&
+        this.peers.get(clientId)?.tabId === message.tabId)
+    );
+  }
+
+  /**
+   * Client a tab-scoped targeted message is for: its target if that runs
+   * in the sender's tab, otherwise the target's `<target>#<n>` instance
+   * there. Other messages go to their target as addressed.
+   */
+  private resolveTarget(message: Envelope, target: string): string {
+    if (message.scope !== 'tab' || this.inScope(target, message)) {
+      return target;
+    }
+    const prefix = `${target}#`;
+    for (const clientId of this.connections.keys()) {
+      if (clientId.startsWith(prefix) && this.inScope(clientId, message)) {
+        return clientId;
+      }
+    }
+    return target;
+  }
+
+  /**
+   * Whether `clientId` wants `message`. Channel broadcasts reach every
+   * member of the channel; retained broadcasts are always delivered so
+   * every client knows the event's last value.
+   */
+  private isSubscribed(clientId: string, message: Envelope): boolean {
+    if (message.channel !== undefined) {
+      return this.isMember(clientId, message.channel);
+    }
+    const patterns = this.subscriptions.get(clientId);
+    if (!patterns || message.retain) {
+      return true;
+    }
+    return patterns.some((pattern) =>
+      matchesEventPattern(String(message.event), pattern)
+    );
+  }
+
+  /**
+   * Route a client's message.
+   *
+   * @param transfer - Objects in the payload the sender transferred; moved
+   *   on to the target of a targeted message, copied for broadcasts.
+   */
+  private route(message: Envelope, transfer?: Transferable[]): void {
+    const recipients: string[] = [];
+
+    if (message.scope === 'tab') {
+      // Stamp the sender's tab, which its recipients must share.
+      message = { ...message, tabId: this.peers.get(message.source)?.tabId };
+    }
+
+    if (message.target) {
+      const target = this.resolveTarget(message, message.target);
+      if (target !== message.target) {
+        message = { ...message, target };
+      }
+
+      // Targeted: deliver to a single client, if it joined the channel
+      // and is in scope
+      const member =
+        this.isMember(target, message.channel) && this.inScope(target, message);
+      const delivered = member && this.deliver(target, message, transfer);
+      const connected = member && this.connections.has(target);
+      if (delivered) {
+        recipients.push(target);
+        if (transfer?.length) {
+          // The payload moved on, so the traffic log cannot keep it.
+          message = { ...message, payload: undefined };
+        }
+      } else if (connected && message.rpc?.kind === 'request') {
+        this.rejectRequest(message);
+      }
+      if (message.ack?.kind === 'request') {
+        let status: DeliveryStatus = 'delivered';
+        if (!delivered) {
+          status = connected ? 'protocol-mismatch' : 'unknown-target';
+        }
+        this.acknowledge(message, status);
+      }
+    } else {
+      if (message.retain) {
+        this.retained.set(retainedKey(message), message);
+      }
+
+      // Broadcast: deliver to every subscribed client except the sender
+      for (const clientId of this.connections.keys()) {
+        if (
+          clientId !== message.source &&
+          this.isSubscribed(clientId, message) &&
+          this.inScope(clientId, message) &&
+          this.deliver(clientId, message)
+        ) {
+          recipients.push(clientId);
+        }
+      }
+    }
+
+    this.record(message, recipients);
+  }
+
+  /**
+   * Post `message` to `clientId`, downgraded to the client's protocol
+   * version, moving the objects in `transfer` to it.
+   *
+   * @returns `false` if the client is unknown or cannot understand the message.
+   */
+  private deliver(
+    clientId: string,
+    message: Envelope,
+    transfer?: Transferable[]
+  ): boolean {
+    const connection = this.connections.get(clientId);
+    if (!connection) {
+      return false;
+    }
+
+    const version = this.versions.get(clientId) ?? LEGACY_PROTOCOL_VERSION;
+    // Older clients would handle an acknowledged message without confirming
+    // it, so its sender would keep sending it again.
+    if (message.ack && version < ACK_PROTOCOL_VERSION) {
+      return false;
+    }
+    // Older clients would hand stream frames to their event handlers.
+    if (message.stream && version < STREAM_PROTOCOL_VERSION) {
+      return false;
+    }
+    // Older clients would hand on binary data that a JSON transport
+    // encoded without decoding it.
+    if (
+      version < BINARY_PROTOCOL_VERSION &&
+      hasEncodedBinary(message.payload)
+    ) {
+      return false;
+    }
+
+    let envelope = message;
+    if (version === LEGACY_PROTOCOL_VERSION) {
+      // Protocol 1 has no request/response: a legacy client would hand the
+      // envelope to its event handlers as if it were an ordinary event.
+      if (message.rpc) {
+        return false;
+      }
+      envelope = { ...message };
+      delete envelope.version;
+      delete envelope.retain;
+    }
+    connection.post({ type: '__swarm_message__', message: envelope }, transfer);
+    return true;
+  }
+
+  /** Answer a request the target cannot receive with a ProtocolMismatch error. */
+  private rejectRequest(message: Envelope): void {
+    this.connections.get(message.source)?.post({
+      type: '__swarm_message__',
+      message: {
+        id: `${message.id}:rejected`,
+        source: message.target,
+        target: message.source,
+        event: message.event,
+        payload: undefined,
+        timestamp: Date.now(),
+        version: PROTOCOL_VERSION,
+        channel: message.channel,
+        rpc: {
+          kind: 'response',
+          requestId: message.id,
+          error: {
+            message:
+              `Client "${message.target}" speaks protocol ` +
+              `${LEGACY_PROTOCOL_VERSION} and cannot handle requests`,
+            code: 'PROTOCOL_MISMATCH',
+          },
+        },
+      },
+    });
+  }
+
+  /** Tell the sender of an acknowledged message how far it got. */
+  private acknowledge(message: Envelope, status: DeliveryStatus): void {
+    this.connections.get(message.source)?.post({
+      type: '__swarm_message__',
+      message: {
+        id: `${message.id}:${status}`,
+        source: message.target,
+        target: message.source,
+        event: message.event,
+        payload: undefined,
+        timestamp: Date.now(),
+        version: PROTOCOL_VERSION,
+        channel: message.channel,
+        ack: { kind: 'receipt', messageId: message.id, status },
+      },
+    });
+  }
+
+  /** Post a presence notice to every registered client except `exceptId`. */
+  private notifyPeers(type: string, peer: PeerInfo, exceptId: string): void {
+    for (const [clientId, connection] of this.connections) {
+      if (clientId !== exceptId) {
+        connection.post({ type, peer });
+      }
+    }
+  }
+
+  // ── Elections ────────────────────────────────────────────
+
+  /** Add the client on `connection` to the candidates of election `name`. */
+  private elect(connection: HubConnection, name: unknown): void {
+    const clientId = this.registrations.get(connection);
+    if (
+      clientId === undefined ||
+      this.connections.get(clientId) !== connection ||
+      typeof name !== 'string'
+    ) {
+      return;
+    }
+
+    const candidates = this.elections.get(name) ?? [];
+    if (!candidates.includes(clientId)) {
+      candidates.push(clientId);
+      this.elections.set(name, candidates);
+    }
+    connection.post({ type: '__swarm_leader__', name, leader: candidates[0] });
+  }
+
+  /** Remove the client on `connection` from the candidates of election `name`. */
+  private resign(connection: HubConnection, name: unknown): void {
+    const clientId = this.registrations.get(connection);
+    if (
+      clientId !== undefined &&
+      this.connections.get(clientId) === connection &&
+      typeof name === 'string'
+    ) {
+      this.removeCandidate(name, clientId);
+    }
+  }
+
+  /** Remove `clientId` from every election it stands in. */
+  private withdraw(clientId: string): void {
+    for (const name of [...this.elections.keys()]) {
+      this.removeCandidate(name, clientId);
+    }
+  }
+
+  /** Remove a candidate, telling the others if it was their leader. */
+  private removeCandidate(name: string, clientId: string): void {
+    const candidates = this.elections.get(name);
+    const index = candidates?.indexOf(clientId) ?? -1;
+    if (!candidates || index < 0) return;
+
+    candidates.splice(index, 1);
+    if (candidates.length === 0) {
+      this.elections.delete(name);
+    } else if (index === 0) {
+      for (const candidate of candidates) {
+        this.connections.get(candidate)?.post({
+          type: '__swarm_leader__',
+          name,
+          leader: candidates[0],
+        });
+      }
+    }
+  }
+
+  // ── Inspection ───────────────────────────────────────────
+
+  /** Start or stop pushing inspector updates to the client on `connection`. */
+  private inspect(connection: HubConnection, enabled: boolean): void {
+    const clientId = this.registrations.get(connection);
+    if (!this.inspector) {
+      if (enabled) {
+        this.logger.warn(`Ignored "${clientId}" asking to inspect the hub`);
+      }
+      return;
+    }
+    if (
+      clientId === undefined ||
+      this.connections.get(clientId) !== connection
+    ) {
+      return;
+    }
+
+    if (!enabled) {
+      this.inspectors.delete(clientId);
+      return;
+    }
+    this.inspectors.add(clientId);
+    const update: InspectorUpdate = {
+      type: 'snapshot',
+      clients: this.inspectedClients(),
+      traffic: [...this.traffic],
+    };
+    connection.post({ type: '__swarm_inspector__', update });
+  }
+
+  /** Add a routed message to the traffic log and push it to inspectors. */
+  private record(message: Envelope, recipients: string[]): void {
+    if (!this.inspector) return;
+
+    const record: TrafficRecord = {
+      seq: ++this.trafficSeq,
+      routedAt: Date.now(),
+      message,
+      recipients,
+    };
+    this.traffic.push(record);
+    if (this.traffic.length > INSPECTOR_BUFFER_SIZE) {
+      this.traffic.shift();
+    }
+    this.notifyInspectors({ type: 'traffic', record });
+  }
+
+  /** Push the client list to inspectors after it changed. */
+  private announceClients(): void {
+    this.notifyInspectors({
+      type: 'clients',
+      clients: this.inspectedClients(),
+    });
+  }
+
+  private inspectedClients(): InspectedClient[] {
+    return [...this.peers.values()].map((peer) => ({
+      ...peer,
+      version: this.versions.get(peer.clientId) ?? LEGACY_PROTOCOL_VERSION,
+      subscriptions: this.subscriptions.get(peer.clientId) ?? null,
+      channels: [...(this.channels.get(peer.clientId) ?? [])],
+    }));
+  }
+
+  private notifyInspectors(update: InspectorUpdate): void {
+    for (const clientId of this.inspectors) {
+      const connection = this.connections.get(clientId);
+      connection?.post({ type: '__swarm_inspector__', update });
+    }
+  }
+}
@@ -0,0 +1,520 @@
+import { PostMessageHub } from './post-message-hub.js';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../protocol.js';
+
+const CART_ORIGIN = 'https://cart.example.com';
+const EVIL_ORIGIN = 'https://evil.example.com';
+
+// ── Window mock ────────────────────────────────────────────
+
+let connections = 0;
+
+/**
+ * A transport in a child iframe, posting frames tagged with its connection
+ * ID. The window records what the hub posts to it.
+ */
+class MockFrame {
+  readonly received: Record<string, unknown>[] = [];
+  readonly postMessage = vi.fn((data: Record<string, unknown>) => {
+    this.received.push(data);
+  });
+  /** Window the transport runs in; its own unless made by `sibling()`. */
+  window: MockFrame = this;
+  readonly connection = `connection-${++connections}`;
+
+  constructor(public origin = CART_ORIGIN) {}
+
+  /** Another transport in the same window. */
+  sibling(): MockFrame {
+    const frame = new MockFrame(this.origin);
+    frame.window = this.window;
+    return frame;
+  }
+
+  /** Post a frame to the hub as if it came from this transport. */
+  send(
+    data: Record<string, unknown>,
+    origin = this.origin,
+    connection = this.connection
+  ): void {
+    const event = Object.assign(new Event('message'), {
+      data: { ...data, connection },
+      origin,
+      source: this.window,
+    });
+    window.dispatchEvent(event);
+  }
+
+  register(
+    clientId: string,
+    versions: Record<string, unknown> = {
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+    }
+  ): void {
+    this.send({ type: '__swarm_register__', clientId, ...versions });
+  }
+
+  ofType(type: string): Record<string, unknown>[] {
+    return this.window.received.filter(
+      (data) => data.type === type && data.connection === this.connection
+    );
+  }
+
+  /** Messages received so far, unwrapped from their frames. */
+  messages(): Record<string, unknown>[] {
+    return this.ofType('__swarm_message__').map(
+      (data) => data.message as Record<string, unknown>
+    );
+  }
+}
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('PostMessageHub', () => {
+  let hub: PostMessageHub;
+
+  beforeEach(() => {
+    hub = new PostMessageHub({ allowedOrigins: [CART_ORIGIN] });
+    hub.start();
+  });
+
+  afterEach(() => {
+    hub.stop();
+  });
+
+  it('should acknowledge registration to the iframe origin', () => {
+    const cart = new MockFrame();
+
+    cart.register('cart');
+
+    expect(cart.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: '__swarm_registered__',
+        clientId: 'cart',
+        version: PROTOCOL_VERSION,
+      }),
+      CART_ORIGIN
+    );
+    expect(hub.clientIds).toEqual(['cart']);
+  });
+
+  it('should route targeted messages and broadcasts between iframes', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    const other = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+    other.register('other');
+    const targeted = {
+      id: '1',
+      source: 'cart',
+      target: 'checkout',
+      event: 'e',
+    };
+    const broadcast = { id: '2', source: 'cart', event: 'e' };
+
+    cart.send({ type: '__swarm_message__', message: targeted });
+    cart.send({ type: '__swarm_message__', message: broadcast });
+
+    expect(checkout.messages()).toEqual([targeted, broadcast]);
+    expect(other.messages()).toEqual([broadcast]);
+    expect(cart.messages()).toEqual([]);
+  });
+
+  it('should only forward broadcasts an iframe subscribed to', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+    checkout.send({ type: '__swarm_subscribe__', patterns: ['checkout:*'] });
+
+    cart.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'cart', event: 'cart:update' },
+    });
+    cart.send({
+      type: '__swarm_message__',
+      message: { id: '2', source: 'cart', event: 'checkout:start' },
+    });
+
+    expect(checkout.messages().map((message) => message.id)).toEqual(['2']);
+  });
+
+  it('should scope channel broadcasts to iframes that joined', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    const other = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+    other.register('other');
+    checkout.send({ type: '__swarm_join__', channel: 'payment' });
+
+    cart.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'cart', event: 'e', channel: 'payment' },
+    });
+
+    expect(checkout.messages().map((message) => message.id)).toEqual(['1']);
+    expect(other.messages()).toEqual([]);
+  });
+
+  it('should tell senders whether acknowledged messages reached their target', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    const older = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+    older.register('older', { version: 2, minVersion: 1 });
+
+    for (const target of ['checkout', 'older', 'gone']) {
+      cart.send({
+        type: '__swarm_message__',
+        message: {
+          id: target,
+          source: 'cart',
+          target,
+          event: 'e',
+          ack: { kind: 'request' },
+        },
+      });
+    }
+
+    expect(checkout.messages().map((message) => message.id)).toEqual([
+      'checkout',
+    ]);
+    expect(older.messages()).toEqual([]);
+    expect(cart.messages().map((message) => message.ack)).toEqual([
+      { kind: 'receipt', messageId: 'checkout', status: 'delivered' },
+      { kind: 'receipt', messageId: 'older', status: 'protocol-mismatch' },
+      { kind: 'receipt', messageId: 'gone', status: 'unknown-target' },
+    ]);
+  });
+
+  it('should keep stream frames from clients before protocol 4', () => {
+    const cart = new MockFrame();
+    const older = new MockFrame();
+    cart.register('cart');
+    older.register('older', { version: 3, minVersion: 1 });
+
+    cart.send({
+      type: '__swarm_message__',
+      message: {
+        id: 's1',
+        source: 'cart',
+        target: 'older',
+        event: 'e',
+        ack: { kind: 'request' },
+        stream: { id: 's1', kind: 'open' },
+      },
+    });
+
+    expect(older.messages()).toEqual([]);
+    expect(cart.messages().map((message) => message.ack)).toEqual([
+      { kind: 'receipt', messageId: 's1', status: 'protocol-mismatch' },
+    ]);
+  });
+
+  it('should report routed traffic and clients to inspecting iframes', () => {
+    const cart = new MockFrame();
+    const devtools = new MockFrame();
+    cart.register('cart');
+    devtools.register('devtools');
+    const message = { id: '1', source: 'cart', event: 'cart:update' };
+    cart.send({ type: '__swarm_message__', message });
+
+    devtools.send({ type: '__swarm_inspect__', enabled: true });
+    cart.send({ type: '__swarm_disconnect__' });
+
+    expect(
+      devtools.ofType('__swarm_inspector__').map((data) => data.update)
+    ).toEqual([
+      {
+        type: 'snapshot',
+        clients: [
+          expect.objectContaining({ clientId: 'cart', subscriptions: null }),
+          expect.objectContaining({ clientId: 'devtools' }),
+        ],
+        traffic: [
+          expect.objectContaining({
+            seq: 1,
+            message,
+            recipients: ['devtools'],
+          }),
+        ],
+      },
+      {
+        type: 'clients',
+        clients: [expect.objectContaining({ clientId: 'devtools' })],
+      },
+    ]);
+  });
+
+  it('should ignore frames from origins not in allowedOrigins', () => {
+    const evil = new MockFrame(EVIL_ORIGIN);
+
+    evil.register('evil');
+
+    expect(evil.postMessage).not.toHaveBeenCalled();
+    expect(hub.clientIds).toEqual([]);
+  });
+
+  it('should ignore messages from windows that have not registered', () => {
+    const cart = new MockFrame();
+    const stranger = new MockFrame();
+    cart.register('cart');
+
+    stranger.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'stranger', event: 'e' },
+    });
+
+    expect(cart.messages()).toEqual([]);
+  });
+
+  it('should ignore messages whose source is another client', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+
+    checkout.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'cart', event: 'e' },
+    });
+
+    expect(cart.messages()).toEqual([]);
+  });
+
+  it('should give each transport in a window its own connection', () => {
+    const cart = new MockFrame();
+    const widget = cart.sibling();
+    const checkout = new MockFrame();
+    cart.register('cart');
+    widget.register('cart-widget');
+    checkout.register('checkout');
+
+    widget.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'cart-widget', target: 'cart', event: 'e' },
+    });
+    checkout.send({
+      type: '__swarm_message__',
+      message: {
+        id: '2',
+        source: 'checkout',
+        target: 'cart-widget',
+        event: 'e',
+      },
+    });
+    widget.send({ type: '__swarm_disconnect__' });
+
+    expect(cart.messages().map((message) => message.id)).toEqual(['1']);
+    expect(widget.messages().map((message) => message.id)).toEqual(['2']);
+    expect(hub.clientIds).toEqual(['cart', 'checkout']);
+  });
+
+  it('should ignore connection IDs claimed from another window', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    const evil = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+
+    evil.send(
+      {
+        type: '__swarm_message__',
+        message: { id: '1', source: 'cart', target: 'checkout', event: 'e' },
+      },
+      CART_ORIGIN,
+      cart.connection
+    );
+
+    expect(checkout.messages()).toEqual([]);
+  });
+
+  it('should ignore frames from a registered window on another origin', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+
+    cart.send(
+      {
+        type: '__swarm_message__',
+        message: { id: '1', source: 'cart', event: 'e' },
+      },
+      EVIL_ORIGIN
+    );
+
+    expect(checkout.messages()).toEqual([]);
+  });
+
+  it('should announce iframes that disconnect', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+
+    checkout.send({ type: '__swarm_disconnect__' });
+
+    expect(cart.ofType('__swarm_peer_leave__')).toEqual([
+      expect.objectContaining({
+        peer: expect.objectContaining({ clientId: 'checkout' }),
+      }),
+    ]);
+    expect(hub.clientIds).toEqual(['cart']);
+  });
+
+  it('should evict an iframe whose client ID another iframe takes over', () => {
+    const checkout = new MockFrame();
+    const first = new MockFrame();
+    const second = new MockFrame();
+    checkout.register('checkout');
+    first.register('cart');
+    second.register('cart');
+
+    first.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'cart', event: 'e' },
+    });
+
+    expect(first.ofType('__swarm_evicted__')).toEqual([
+      expect.objectContaining({ code: 'CLIENT_ID_CONFLICT' }),
+    ]);
+    expect(checkout.messages()).toEqual([]);
+    expect(hub.clientIds).toEqual(['checkout', 'cart']);
+  });
+
+  it('should scope tab messages and run leader elections', () => {
+    const shell = new MockFrame();
+    const cart = new MockFrame();
+    const other = new MockFrame();
+    const version = { version: PROTOCOL_VERSION };
+    shell.register('shell', { ...version, tabId: 'tab-1' });
+    cart.register('cart', { ...version, tabId: 'tab-1' });
+    other.register('other', { ...version, tabId: 'tab-2' });
+
+    shell.send({
+      type: '__swarm_message__',
+      message: { id: '1', source: 'shell', event: 'e', scope: 'tab' },
+    });
+    shell.send({ type: '__swarm_elect__', name: 'sync' });
+    cart.send({ type: '__swarm_elect__', name: 'sync' });
+    shell.send({ type: '__swarm_disconnect__' });
+
+    expect(cart.messages()).toEqual([
+      expect.objectContaining({ id: '1', tabId: 'tab-1' }),
+    ]);
+    expect(other.messages()).toEqual([]);
+    expect(cart.ofType('__swarm_leader__').map((data) => data.leader)).toEqual([
+      'shell',
+      'cart',
+    ]);
+  });
+
+  it('should move transferred objects on to the target iframe', () => {
+    const cart = new MockFrame();
+    const checkout = new MockFrame();
+    cart.register('cart');
+    checkout.register('checkout');
+    const buffer = new ArrayBuffer(8);
+    const message = {
+      id: '1',
+      source: 'cart',
+      target: 'checkout',
+      event: 'e',
+      payload: buffer,
+    };
+
+    cart.send({ type: '__swarm_message__', message, transfer: [buffer] });
+    cart.send({
+      type: '__swarm_message__',
+      message: { ...message, id: '2', target: undefined },
+      transfer: [buffer],
+    });
+
+    expect(checkout.postMessage).toHaveBeenCalledWith(
+      { type: '__swarm_message__', message, connection: checkout.connection },
+      CART_ORIGIN,
+      [buffer]
+    );
+    expect(checkout.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: '__swarm_message__' }),
+      CART_ORIGIN
+    );
+  });
+
+  it('should replay retained broadcasts and downgrade them for legacy iframes', () => {
+    const cart = new MockFrame();
+    cart.register('cart');
+    cart.send({
+      type: '__swarm_message__',
+      message: {
+        id: '1',
+        source: 'cart',
+        event: 'e',
+        version: 2,
+        retain: true,
+      },
+    });
+
+    const legacy = new MockFrame();
+    legacy.register('legacy', {});
+
+    expect(legacy.messages()).toEqual([
+      { id: '1', source: 'cart', event: 'e' },
+    ]);
+  });
+
+  it('should reject iframes whose protocol versions do not overlap', () => {
+    const future = new MockFrame();
+
+    future.register('future', {
+      version: PROTOCOL_VERSION + 2,
+      minVersion: PROTOCOL_VERSION + 1,
+    });
+
+    expect(future.ofType('__swarm_rejected__')).toEqual([
+      expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }),
+    ]);
+    expect(hub.clientIds).toEqual([]);
+  });
+
+  it('should stop listening when stopped', () => {
+    const cart = new MockFrame();
+
+    hub.stop();
+    cart.register('cart');
+
+    expect(cart.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should deliver to same-page clients that join directly', async () => {
+    const cart = new MockFrame();
+    const receive = vi.fn();
+    const link = hub.join(receive);
+    link.post({
+      type: '__swarm_register__',
+      clientId: 'shell',
+      version: PROTOCOL_VERSION,
+    });
+    cart.register('cart');
+
+    const message = { id: '1', source: 'cart', event: 'e' };
+    cart.send({ type: '__swarm_message__', message });
+
+    await vi.waitFor(() =>
+      expect(receive).toHaveBeenCalledWith({
+        type: '__swarm_message__',
+        message,
+      })
+    );
+    expect(cart.ofType('__swarm_peer_join__')).toEqual([]);
+    expect(cart.ofType('__swarm_registered__')[0].peers).toEqual([
+      expect.objectContaining({ clientId: 'shell' }),
+    ]);
+
+    link.close();
+    expect(hub.clientIds).toEqual(['cart']);
+  });
+});
@@ -0,0 +1,163 @@
+import { HubRouter, type HubConnection, type HubFrame } from './hub-router.js';
+
+/**
+ * Configuration options for the postMessage hub.
+ */
+export interface PostMessageHubOptions {
+  /**
+   * Origins of the iframes allowed to join, e.g. `['https://cart.example.com']`.
+   * Frames from any other origin are ignored.
+   */
+  allowedOrigins: string[];
+}
+
+/** A transport in a child window that has registered with the hub. */
+interface RemoteConnection extends HubConnection {
+  /** Window the transport runs in. */
+  window: MessageEventSource;
+  /** Origin the window was on when it last registered. */
+  origin: string;
+}
+
+/** A same-page client's link to the hub (see {@link PostMessageHub.join}). */
+export interface PostMessageHubLink {
+  /** Send a frame to the hub, moving the `transfer` objects in it. */
+  post(frame: HubFrame, transfer?: Transferable[]): void;
+  /** Leave the hub. */
+  close(): void;
+}
+
+/**
+ * Hub for microfrontends embedded as cross-origin iframes, run by the host
+ * page and reached by the iframes through `window.postMessage`.
+ *
+ * Routing is the same as the SharedWorker hub (see `HubRouter`). Every
+ * inbound frame is verified before it is routed:
+ * - Its origin must be in `allowedOrigins`
+ * - Transports must register before anything else they send is accepted
+ * - A message's `source` must be the client ID its transport registered as
+ *
+ * Each transport tags its frames with a connection ID of its own, and the
+ * hub tags the frames it posts back, so several relays in one iframe each
+ * get a connection of their own.
+ *
+ * Windows have no close event, so iframes announce their departure when
+ * they disconnect or unload; the host page's own relay joins through
+ * `new PostMessageTransport({ hub })`.
+ *
+ * @example
+ * ```typescript
+ * const hub = new PostMessageHub({
+ *   allowedOrigins: ['https://cart.example.com'],
+ * });
+ * hub.start();
+ *
+ * const relay = new SwarmRelay({
+ *   clientId: 'shell',
+ *   transport: new PostMessageTransport({ hub }),
+ * });
+ * ```
+ */
+export class PostMessageHub {
+  private readonly router = new HubRouter({ inspector: true });
+  /** Connections of iframe transports, by connection ID. */
+  private readonly remotes = new Map<string, RemoteConnection>();
+  private readonly allowedOrigins: ReadonlySet<string>;
+  private started = false;
+
+  constructor(options: PostMessageHubOptions) {
+    this.allowedOrigins = new Set(options.allowedOrigins);
+  }
+
+  /** Client IDs currently registered, including same-page clients. */
+  get clientIds(): string[] {
+    return this.router.clientIds;
+  }
+
+  /** Start accepting frames from iframes. */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    window.addEventListener('message', this.handleWindowMessage);
+  }
+
+  /**
+   * Stop accepting frames and forget every client.
+   * Clients are not notified; their next connect will fail to register.
+   */
+  stop(): void {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+    window.removeEventListener('message', this.handleWindowMessage);
+    this.remotes.clear();
+    this.router.reset();
+  }
+
+  /**
+   * Join the hub from the page it runs on, without `postMessage`.
+   * Frames for the client are handed to `receive` asynchronously, as they
+   * would be for an iframe. Nothing is cloned on the way, so transferred
+   * objects are shared with the sender rather than moved.
+   */
+  join(receive: (frame: HubFrame) => void): PostMessageHubLink {
+    const connection: HubConnection = {
+      post: (frame) => queueMicrotask(() => receive(frame)),
+    };
+    return {
+      post: (frame) => this.router.receive(connection, frame),
+      close: () => this.router.drop(connection),
+    };
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  private handleWindowMessage = (event: MessageEvent): void => {
+    const frame = event.data as HubFrame | null;
+    if (
+      !event.source ||
+      typeof frame?.type !== 'string' ||
+      !frame.type.startsWith('__swarm_') ||
+      typeof frame.connection !== 'string' ||
+      !this.allowedOrigins.has(event.origin)
+    ) {
+      return;
+    }
+
+    const source = event.source;
+    const id = frame.connection;
+    let connection = this.remotes.get(id);
+    if (connection && connection.window !== source) {
+      return;
+    }
+    if (frame.type === '__swarm_register__') {
+      if (!connection) {
+        connection = {
+          window: source,
+          origin: event.origin,
+          post(data, transfer) {
+            const tagged = { ...data, connection: id };
+            if (transfer?.length) {
+              (source as Window).postMessage(tagged, this.origin, transfer);
+            } else {
+              (source as Window).postMessage(tagged, this.origin);
+            }
+          },
+        };
+        this.remotes.set(id, connection);
+      }
+      // The iframe may have navigated to another allowed origin.
+      connection.origin = event.origin;
+    } else if (!connection || connection.origin !== event.origin) {
+      return;
+    }
+
+    this.router.receive(connection, frame);
+    if (frame.type === '__swarm_disconnect__') {
+      this.remotes.delete(id);
+    }
+  };
+}
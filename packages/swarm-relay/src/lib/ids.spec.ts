@@ -0,0 +1,21 @@
+import { generateId, getTabId } from './ids.js';
+
+describe('generateId', () => {
+  it('should generate distinct IDs', () => {
+    expect(generateId()).not.toBe(generateId());
+  });
+});
+
+describe('getTabId', () => {
+  it('should return the same ID for the whole tab', () => {
+    const tabId = getTabId();
+
+    expect(tabId).toEqual(expect.any(String));
+    expect(getTabId()).toBe(tabId);
+    expect(
+      (window.top as unknown as Record<symbol, unknown>)[
+        Symbol.for('@org/swarm-relay/tab-id')
+      ]
+    ).toBe(tabId);
+  });
+});
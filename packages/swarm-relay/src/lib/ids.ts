@@ -0,0 +1,46 @@
+/** Global key under which the tab's ID is kept, shared by every copy of the library. */
+const TAB_ID_KEY = Symbol.for('@org/swarm-relay/tab-id');
+
+type TabIdHolder = { [TAB_ID_KEY]?: string };
+
+/**
+ * Generate a unique identifier: a random UUID where the platform provides
+ * one (secure contexts only), otherwise a timestamp and random suffix.
+ */
+export function generateId(): string {
+  if (
+    typeof crypto !== 'undefined' &&
+    typeof crypto.randomUUID === 'function'
+  ) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * ID of the browser tab this code runs in, generated on first use.
+ *
+ * It is kept on the top-level window when that is reachable, so relays in
+ * same-origin iframes share the tab's ID; cross-origin iframes get their
+ * own. It lives in memory only: a reloaded tab gets a new ID, and so does
+ * a duplicated one, which sessionStorage would have copied.
+ */
+export function getTabId(): string {
+  const holder = tabIdHolder();
+  holder[TAB_ID_KEY] ??= generateId();
+  return holder[TAB_ID_KEY];
+}
+
+function tabIdHolder(): TabIdHolder {
+  try {
+    const top = (globalThis as { top?: unknown }).top;
+    if (top && typeof top === 'object') {
+      // Throws for a cross-origin top window.
+      void (top as TabIdHolder)[TAB_ID_KEY];
+      return top as TabIdHolder;
+    }
+  } catch {
+    // Fall back to this frame.
+  }
+  return globalThis as TabIdHolder;
+}
@@ -0,0 +1,130 @@
+import type { EventMap } from './types.js';
+import type { SwarmRelay } from './swarm-relay.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+
+/** What a {@link LeaderElection} needs from the relay that entered it. */
+export interface ElectionHost {
+  /** The relay itself, whose client ID the leader is compared with. */
+  readonly relay: Pick<SwarmRelay<EventMap>, 'id'>;
+  /** Called once the election has been resigned from. */
+  resign(): void;
+}
+
+/** Handler invoked whenever the leader of an election changes. */
+export type LeaderChangeHandler = (
+  isLeader: boolean,
+  leader: string | null
+) => void;
+
+/**
+ * A relay's candidacy in a named election, returned by
+ * `SwarmRelay.electLeader()`.
+ *
+ * The hub makes its longest standing candidate the leader and tells every
+ * candidate when that changes. While the relay is not connected there is
+ * no leader as far as it knows, so a tab that lost its connection stops
+ * leading; it stands again once reconnected.
+ *
+ * @example
+ * ```typescript
+ * const election = relay.electLeader('background-sync');
+ * election.onChange((isLeader) => (isLeader ? sync.start() : sync.stop()));
+ * ```
+ */
+export class LeaderElection {
+  private readonly handlers = new Set<LeaderChangeHandler>();
+  private waiters: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private _leader: string | null = null;
+  private _ended = false;
+
+  constructor(readonly name: string, private readonly host: ElectionHost) {}
+
+  /** Client ID of the current leader, or `null` while none is known. */
+  get leader(): string | null {
+    return this._leader;
+  }
+
+  /** Whether this relay currently leads the election. */
+  get isLeader(): boolean {
+    return this._leader !== null && this._leader === this.host.relay.id;
+  }
+
+  /** Whether the relay resigned or disconnected, ending its candidacy. */
+  get ended(): boolean {
+    return this._ended;
+  }
+
+  /**
+   * Subscribe to leader changes.
+   *
+   * @returns A cleanup function that removes this subscription.
+   */
+  onChange(handler: LeaderChangeHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  /**
+   * Wait until this relay leads the election.
+   *
+   * @throws {SwarmRelayError} `NotConnected` if the candidacy ends first.
+   */
+  whenLeader(): Promise<void> {
+    if (this.isLeader) return Promise.resolve();
+    if (this._ended) return Promise.reject(this.endedError());
+    return new Promise<void>((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /** Withdraw from the election, handing leadership to the next candidate. */
+  resign(): void {
+    if (this._ended) return;
+    this.end();
+    this.host.resign();
+  }
+
+  // ── Relay ────────────────────────────────────────────────
+
+  /** Record the leader the hub announced (`null` while disconnected). */
+  settle(leader: string | null): void {
+    if (this._ended) return;
+
+    const wasLeader = this.isLeader;
+    const changed = leader !== this._leader;
+    this._leader = leader;
+    const isLeader = this.isLeader;
+
+    if (isLeader) {
+      const waiters = this.waiters;
+      this.waiters = [];
+      for (const waiter of waiters) waiter.resolve();
+    }
+    if (changed || isLeader !== wasLeader) {
+      for (const handler of this.handlers) {
+        handler(isLeader, leader);
+      }
+    }
+  }
+
+  /** End the candidacy, e.g. because the relay disconnected. */
+  end(): void {
+    if (this._ended) return;
+    this.settle(null);
+    this._ended = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) waiter.reject(this.endedError());
+    this.handlers.clear();
+  }
+
+  private endedError(): SwarmRelayError {
+    return new SwarmRelayError(
+      `Election "${this.name}" ended before this client led it`,
+      SwarmRelayErrorCode.NotConnected
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { Outbox } from './outbox.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+
+describe('Outbox', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('should drain items in insertion order', () => {
+    const outbox = new Outbox<string>();
+    outbox.enqueue('a');
+    outbox.enqueue('b');
+
+    expect(outbox.drain()).toEqual({ items: ['a', 'b'], expired: 0 });
+    expect(outbox.size).toBe(0);
+  });
+
+  it('should evict the oldest item by default when full', () => {
+    const outbox = new Outbox<string>({ maxSize: 2 });
+    outbox.enqueue('a');
+    outbox.enqueue('b');
+
+    expect(outbox.enqueue('c')).toBe('a');
+    expect(outbox.drain().items).toEqual(['b', 'c']);
+  });
+
+  it('should discard the incoming item with drop-newest', () => {
+    const outbox = new Outbox<string>({ maxSize: 1, overflow: 'drop-newest' });
+    outbox.enqueue('a');
+
+    expect(outbox.enqueue('b')).toBe('b');
+    expect(outbox.drain().items).toEqual(['a']);
+  });
+
+  it('should throw OutboxFull with the throw policy', () => {
+    const outbox = new Outbox<string>({ maxSize: 1, overflow: 'throw' });
+    outbox.enqueue('a');
+
+    expect(() => outbox.enqueue('b')).toThrow(SwarmRelayError);
+    expect(() => outbox.enqueue('b')).toThrow(
+      expect.objectContaining({ code: SwarmRelayErrorCode.OutboxFull })
+    );
+  });
+
+  it('should skip items older than the TTL when draining', () => {
+    vi.useFakeTimers();
+    const outbox = new Outbox<string>({ ttl: 1_000 });
+    outbox.enqueue('stale');
+    vi.advanceTimersByTime(1_500);
+    outbox.enqueue('fresh');
+
+    expect(outbox.drain()).toEqual({ items: ['fresh'], expired: 1 });
+  });
+
+  it('should never expire items when the TTL is 0', () => {
+    vi.useFakeTimers();
+    const outbox = new Outbox<string>({ ttl: 0 });
+    outbox.enqueue('a');
+    vi.advanceTimersByTime(1_000_000);
+
+    expect(outbox.drain().items).toEqual(['a']);
+  });
+
+  it('should report how many items clear() discarded', () => {
+    const outbox = new Outbox<string>();
+    outbox.enqueue('a');
+    outbox.enqueue('b');
+
+    expect(outbox.clear()).toBe(2);
+    expect(outbox.size).toBe(0);
+  });
+});
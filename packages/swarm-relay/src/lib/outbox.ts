@@ -0,0 +1,125 @@
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+
+/**
+ * What the outbox does when a new message arrives while it is full.
+ *
+ * - `drop-oldest` — evict the oldest queued message to make room.
+ * - `drop-newest` — discard the incoming message.
+ * - `throw` — reject the incoming message with an `OutboxFull` error.
+ */
+export type OutboxOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'throw';
+
+/**
+ * Configuration for the outbound message queue used while connecting.
+ */
+export interface OutboxOptions {
+  /**
+   * Maximum number of queued messages.
+   * @default 100
+   */
+  maxSize?: number;
+  /**
+   * Behaviour when the queue is full.
+   * @default 'drop-oldest'
+   */
+  overflow?: OutboxOverflowPolicy;
+  /**
+   * Time in milliseconds a queued message stays deliverable.
+   * Expired messages are discarded at flush time. `0` disables expiry.
+   * @default 30000
+   */
+  ttl?: number;
+}
+
+interface OutboxEntry<T> {
+  item: T;
+  enqueuedAt: number;
+}
+
+/**
+ * Bounded FIFO queue with per-entry TTL.
+ *
+ * SwarmRelay buffers `send()` / `broadcast()` calls here while it is
+ * connecting or reconnecting, then drains them in order once connected.
+ */
+export class Outbox<T> {
+  private entries: OutboxEntry<T>[] = [];
+  private readonly maxSize: number;
+  private readonly overflow: OutboxOverflowPolicy;
+  private readonly ttl: number;
+
+  constructor(options: OutboxOptions = {}) {
+    this.maxSize = options.maxSize ?? 100;
+    this.overflow = options.overflow ?? 'drop-oldest';
+    this.ttl = options.ttl ?? 30_000;
+  }
+
+  /** Number of queued entries, including any that have expired. */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Queue an item.
+   *
+   * @returns The item discarded to honour the overflow policy, if any.
+   * @throws {SwarmRelayError} `OutboxFull` when full and the policy is `throw`.
+   */
+  enqueue(item: T): T | undefined {
+    const entry = { item, enqueuedAt: Date.now() };
+
+    if (this.entries.length < this.maxSize) {
+      this.entries.push(entry);
+      return undefined;
+    }
+
+    switch (this.overflow) {
+      case 'drop-newest':
+        return item;
+      case 'throw':
+        throw new SwarmRelayError(
+          `Outbox is full (${this.maxSize} messages)`,
+          SwarmRelayErrorCode.OutboxFull
+        );
+      case 'drop-oldest':
+      default: {
+        const evicted = this.entries.shift();
+        this.entries.push(entry);
+        return evicted?.item;
+      }
+    }
+  }
+
+  /**
+   * Remove and return every queued item that has not expired, oldest first.
+   *
+   * @returns The live items and the number of expired ones that were discarded.
+   */
+  drain(): { items: T[]; expired: number } {
+    const cutoff = this.ttl > 0 ? Date.now() - this.ttl : -Infinity;
+    const items: T[] = [];
+    let expired = 0;
+
+    for (const entry of this.entries) {
+      if (entry.enqueuedAt < cutoff) {
+        expired++;
+      } else {
+        items.push(entry.item);
+      }
+    }
+
+    this.entries = [];
+    return { items, expired };
+  }
+
+  /**
+   * Discard every queued item.
+   *
+   * @returns The number of items discarded.
+   */
+  clear(): number {
+    const count = this.entries.length;
+    this.entries = [];
+    return count;
+  }
+}
@@ -0,0 +1,34 @@
+import { diffPayloads } from './payload-diff.js';
+
+describe('diffPayloads', () => {
+  it('should find no changes between equal payloads', () => {
+    expect(diffPayloads({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual(
+      []
+    );
+    expect(diffPayloads(NaN, NaN)).toEqual([]);
+  });
+
+  it('should report changed, added and removed keys by path', () => {
+    expect(
+      diffPayloads(
+        { user: { name: 'Ada', role: 'admin' }, items: [1, 2] },
+        { user: { name: 'Grace', team: 'core' }, items: [1, 3, 4] }
+      )
+    ).toEqual([
+      { path: 'user.name', kind: 'changed', before: 'Ada', after: 'Grace' },
+      { path: 'user.role', kind: 'removed', before: 'admin' },
+      { path: 'user.team', kind: 'added', after: 'core' },
+      { path: 'items[1]', kind: 'changed', before: 2, after: 3 },
+      { path: 'items[2]', kind: 'added', after: 4 },
+    ]);
+  });
+
+  it('should report a change of kind at the root', () => {
+    expect(diffPayloads([1], { 0: 1 })).toEqual([
+      { path: '', kind: 'changed', before: [1], after: { 0: 1 } },
+    ]);
+    expect(diffPayloads(undefined, 'x')).toEqual([
+      { path: '', kind: 'changed', before: undefined, after: 'x' },
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * One difference between two payloads, found by {@link diffPayloads}.
+ */
+export interface PayloadChange {
+  /** Where the values differ, e.g. `items[0].price`; `''` for the root. */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** Value in the older payload (absent for `added`). */
+  before?: unknown;
+  /** Value in the newer payload (absent for `removed`). */
+  after?: unknown;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function childPath(path: string, key: string, inArray: boolean): string {
+  if (inArray) return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * List the differences between two payloads, descending into plain objects
+ * and arrays. Values of any other kind are compared with `Object.is`.
+ *
+ * @example
+ * ```typescript
+ * diffPayloads({ items: 1, total: 10 }, { items: 2, total: 10 });
+ * // [{ path: 'items', kind: 'changed', before: 1, after: 2 }]
+ * ```
+ */
+export function diffPayloads(
+  before: unknown,
+  after: unknown,
+  path = ''
+): PayloadChange[] {
+  if (Object.is(before, after)) return [];
+
+  if (
+    !isContainer(before) ||
+    !isContainer(after) ||
+    Array.isArray(before) !== Array.isArray(after)
+  ) {
+    return [{ path, kind: 'changed', before, after }];
+  }
+
+  const inArray = Array.isArray(before);
+  const changes: PayloadChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    const keyPath = childPath(path, key, inArray);
+    if (!(key in after)) {
+      changes.push({ path: keyPath, kind: 'removed', before: before[key] });
+    } else if (!(key in before)) {
+      changes.push({ path: keyPath, kind: 'added', after: after[key] });
+    } else {
+      changes.push(...diffPayloads(before[key], after[key], keyPath));
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,75 @@
+import {
+  LEGACY_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  matchesEventPattern,
+  negotiateProtocolVersion,
+  upgradeMessage,
+} from './protocol.js';
+
+describe('protocol', () => {
+  describe('negotiateProtocolVersion', () => {
+    it('should agree on the current version with an identical build', () => {
+      expect(negotiateProtocolVersion(PROTOCOL_VERSION)).toBe(PROTOCOL_VERSION);
+    });
+
+    it('should treat a missing version as legacy', () => {
+      expect(negotiateProtocolVersion()).toBe(LEGACY_PROTOCOL_VERSION);
+    });
+
+    it('should settle on this build’s version with a newer remote', () => {
+      expect(negotiateProtocolVersion(PROTOCOL_VERSION + 3, 1)).toBe(
+        PROTOCOL_VERSION
+      );
+    });
+
+    it('should return null when the ranges do not overlap', () => {
+      expect(
+        negotiateProtocolVersion(PROTOCOL_VERSION + 2, PROTOCOL_VERSION + 1)
+      ).toBeNull();
+    });
+  });
+
+  describe('upgradeMessage', () => {
+    it('should stamp unversioned envelopes with the legacy version', () => {
+      const message = {
+        id: '1',
+        source: 'old-app',
+        event: 'e',
+        payload: {},
+        timestamp: 1,
+      };
+
+      expect(upgradeMessage(message)).toEqual({
+        ...message,
+        version: LEGACY_PROTOCOL_VERSION,
+      });
+    });
+
+    it('should return versioned envelopes unchanged', () => {
+      const message = {
+        id: '1',
+        source: 'app',
+        event: 'e',
+        payload: {},
+        timestamp: 1,
+        version: PROTOCOL_VERSION,
+      };
+
+      expect(upgradeMessage(message)).toBe(message);
+    });
+  });
+
+  describe('matchesEventPattern', () => {
+    it('should match exact names', () => {
+      expect(matchesEventPattern('cart:update', 'cart:update')).toBe(true);
+      expect(matchesEventPattern('cart:update', 'cart:clear')).toBe(false);
+    });
+
+    it('should match prefixes ending in "*"', () => {
+      expect(matchesEventPattern('cart:update', 'cart:*')).toBe(true);
+      expect(matchesEventPattern('cart:item:add', 'cart:*')).toBe(true);
+      expect(matchesEventPattern('user:login', 'cart:*')).toBe(false);
+      expect(matchesEventPattern('user:login', '*')).toBe(true);
+    });
+  });
+});
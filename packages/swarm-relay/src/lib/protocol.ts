@@ -0,0 +1,96 @@
+import type { EventMap, SwarmMessage } from './types.js';
+import { SwarmRelayErrorCode } from './errors.js';
+
+/**
+ * Wire protocol version spoken by this build.
+ *
+ * - `1` — original, unversioned envelopes and handshake.
+ * - `2` — versioned envelopes and handshake; request/response (`rpc`)
+ *   and retained (`retain`) messages.
+ * - `3` — delivery acknowledgements (`ack`).
+ * - `4` — streams (`stream`), and binary payloads encoded as tagged base64
+ *   on JSON transports.
+ */
+export const PROTOCOL_VERSION = 4;
+
+/** Oldest protocol version this build can still talk to. */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Version assumed for envelopes and handshakes that carry none. */
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+/** Oldest protocol version whose clients confirm acknowledged messages. */
+export const ACK_PROTOCOL_VERSION = 3;
+
+/** Oldest protocol version whose clients can read streams. */
+export const STREAM_PROTOCOL_VERSION = 4;
+
+/** Oldest protocol version whose clients decode binary payloads sent as JSON. */
+export const BINARY_PROTOCOL_VERSION = 4;
+
+/** Number of routed messages each hub keeps for inspectors. */
+export const INSPECTOR_BUFFER_SIZE = 200;
+
+/**
+ * Pick the highest protocol version supported by both this build and a
+ * remote party (the hub, or a client registering with it).
+ *
+ * @param remoteVersion - Highest version the remote speaks; legacy if absent.
+ * @param remoteMin     - Oldest version the remote accepts; `remoteVersion` if absent.
+ * @returns The negotiated version, or `null` if the ranges do not overlap.
+ */
+export function negotiateProtocolVersion(
+  remoteVersion: number = LEGACY_PROTOCOL_VERSION,
+  remoteMin: number = remoteVersion
+): number | null {
+  const version = Math.min(PROTOCOL_VERSION, remoteVersion);
+  return version >= Math.max(MIN_PROTOCOL_VERSION, remoteMin) ? version : null;
+}
+
+/**
+ * Error code for a hub's `__swarm_rejected__` frame. Hubs that predate
+ * client ID conflicts only reject clients that share no protocol version.
+ */
+export function rejectionCode(code: unknown): SwarmRelayErrorCode {
+  return code === SwarmRelayErrorCode.ClientIdConflict
+    ? SwarmRelayErrorCode.ClientIdConflict
+    : SwarmRelayErrorCode.ProtocolMismatch;
+}
+
+/**
+ * Error code for a hub's `__swarm_evicted__` frame: another client took
+ * over the ID, or the hub stopped hearing from this one.
+ */
+export function evictionCode(code: unknown): SwarmRelayErrorCode {
+  return code === SwarmRelayErrorCode.ClientIdConflict
+    ? SwarmRelayErrorCode.ClientIdConflict
+    : SwarmRelayErrorCode.TransportError;
+}
+
+/**
+ * Compatibility shim for envelopes produced by older builds.
+ * Unversioned (protocol 1) envelopes are stamped with the legacy version
+ * so the rest of the relay can treat every message alike.
+ */
+export function upgradeMessage<TEventMap extends EventMap>(
+  message: SwarmMessage<TEventMap>
+): SwarmMessage<TEventMap> {
+  if (message.version !== undefined) return message;
+
+  return {
+    ...message,
+    timestamp: message.timestamp ?? Date.now(),
+    version: LEGACY_PROTOCOL_VERSION,
+  };
+}
+
+/**
+ * Whether `event` matches `pattern`: an exact name, a prefix followed by
+ * `*`, or `'*'` for every event. Used for pattern subscriptions and by hubs
+ * to route broadcasts to subscribed clients only.
+ */
+export function matchesEventPattern(event: string, pattern: string): boolean {
+  return pattern.endsWith('*')
+    ? event.startsWith(pattern.slice(0, -1))
+    : event === pattern;
+}
@@ -4,6 +4,7 @@ import { SwarmRelayProvider } from './swarm-relay-context.js';
 import { useSwarmRelay } from './use-swarm-relay.js';
 import { useSwarmEvent } from './use-swarm-event.js';
 import { useSendEvent } from './use-send-event.js';
+import { useSharedState } from './use-shared-state.js';
 import { MockTransportAdapter } from '../testing/mock-transport-adapter.js';
 import { ConnectionState } from '../types.js';
 
@@ -26,7 +27,10 @@ describe('React hooks', () => {
     transport = new MockTransportAdapter<TestEvents>();
   });
 
-  function createWrapper(overrides?: { autoConnect?: boolean }) {
+  function createWrapper(overrides?: {
+    autoConnect?: boolean;
+    channel?: string;
+  }) {
     return function Wrapper({ children }: { children: ReactNode }) {
       return (
         <SwarmRelayProvider<TestEvents>
@@ -34,6 +38,7 @@ describe('React hooks', () => {
           transport={transport}
           autoConnect={overrides?.autoConnect ?? true}
           logger={silentLogger}
+          channel={overrides?.channel}
         >
           {children}
         </SwarmRelayProvider>
@@ -64,6 +69,23 @@ describe('React hooks', () => {
       );
       spy.mockRestore();
     });
+
+    it('should provide the relay of the channel prop', async () => {
+      const { result } = renderHook(() => useSwarmRelay<TestEvents>(), {
+        wrapper: createWrapper({ channel: 'checkout' }),
+      });
+
+      await waitFor(() => {
+        expect(result.current.state).toBe(ConnectionState.Connected);
+      });
+      expect([...transport.channels]).toEqual(['checkout']);
+
+      act(() => {
+        result.current.relay?.broadcast('test:event', { message: 'hi' });
+      });
+
+      expect(transport.sentMessages[0].channel).toBe('checkout');
+    });
   });
 
   // ── useSwarmEvent ────────────────────────────────────────
@@ -121,6 +143,122 @@ describe('React hooks', () => {
     });
   });
 
+  describe('useSwarmEvent (pattern)', () => {
+    it('should receive every event matching the pattern', async () => {
+      const handler = vi.fn();
+
+      renderHook(() => useSwarmEvent<TestEvents, 'test:*'>('test:*', handler), {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(transport.connectCalled).toBe(true);
+      });
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'other',
+        event: 'test:event',
+        payload: { message: 'hello' },
+        timestamp: Date.now(),
+      });
+      transport.simulateMessage({
+        id: '2',
+        source: 'other',
+        event: 'test:other',
+        payload: { count: 1 },
+        timestamp: Date.now(),
+      });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler).toHaveBeenLastCalledWith(
+        { count: 1 },
+        expect.objectContaining({ event: 'test:other' })
+      );
+    });
+  });
+
+  describe('useSwarmEvent (retained)', () => {
+    it('should replay the last retained value and return the latest payload', async () => {
+      const handler = vi.fn();
+
+      const { result } = renderHook(
+        () => {
+          const { state } = useSwarmRelay<TestEvents>();
+          const value = useSwarmEvent<TestEvents, 'test:event'>(
+            'test:event',
+            handler,
+            { retained: true }
+          );
+          return { state, value };
+        },
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(result.current.state).toBe(ConnectionState.Connected);
+      });
+
+      act(() => {
+        transport.simulateMessage({
+          id: '1',
+          source: 'other',
+          event: 'test:event',
+          payload: { message: 'current' },
+          timestamp: Date.now(),
+          retain: true,
+        });
+      });
+
+      expect(result.current.value).toEqual({ message: 'current' });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start from a value retained before mounting', async () => {
+      const { result: relayResult } = renderHook(
+        () => useSwarmRelay<TestEvents>(),
+        { wrapper: createWrapper() }
+      );
+      await waitFor(() => {
+        expect(relayResult.current.state).toBe(ConnectionState.Connected);
+      });
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'other',
+        event: 'test:event',
+        payload: { message: 'earlier' },
+        timestamp: Date.now(),
+        retain: true,
+      });
+
+      const relay = relayResult.current.relay;
+      expect(relay?.getLast('test:event')).toEqual({ message: 'earlier' });
+    });
+
+    it('should return undefined when retained is not requested', async () => {
+      const { result } = renderHook(
+        () => useSwarmEvent<TestEvents, 'test:event'>('test:event', vi.fn()),
+        { wrapper: createWrapper() }
+      );
+
+      await waitFor(() => {
+        expect(transport.connectCalled).toBe(true);
+      });
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'other',
+        event: 'test:event',
+        payload: { message: 'x' },
+        timestamp: Date.now(),
+        retain: true,
+      });
+
+      expect(result.current).toBeUndefined();
+    });
+  });
+
   // ── useSendEvent ─────────────────────────────────────────
 
   describe('useSendEvent', () => {
@@ -159,4 +297,56 @@ describe('React hooks', () => {
       expect(transport.sentMessages[0].payload).toEqual({ count: 42 });
     });
   });
+
+  // ── useSharedState ───────────────────────────────────────
+
+  describe('useSharedState', () => {
+    it('should share a value between components', async () => {
+      const { result } = renderHook(
+        () => ({
+          relay: useSwarmRelay<TestEvents>(),
+          first: useSharedState('theme', 'light'),
+          second: useSharedState('theme', 'light'),
+        }),
+        { wrapper: createWrapper() }
+      );
+      await waitFor(() => {
+        expect(result.current.relay.state).toBe(ConnectionState.Connected);
+      });
+
+      act(() => {
+        result.current.first[1]((theme) => `${theme}-dark`);
+      });
+
+      expect(result.current.first[0]).toBe('light-dark');
+      expect(result.current.second[0]).toBe('light-dark');
+      expect(transport.sentMessages[0].retain).toBe(true);
+    });
+
+    it('should render values written by other microfrontends', async () => {
+      const { result } = renderHook(
+        () => ({
+          relay: useSwarmRelay<TestEvents>(),
+          theme: useSharedState('theme', 'light'),
+        }),
+        { wrapper: createWrapper() }
+      );
+      await waitFor(() => {
+        expect(result.current.relay.state).toBe(ConnectionState.Connected);
+      });
+
+      act(() => {
+        transport.simulateMessage({
+          id: '1',
+          source: 'other',
+          event: '__swarm_store__:theme',
+          payload: { value: 'dark', version: 1, writer: 'other' },
+          timestamp: Date.now(),
+          retain: true,
+        } as never);
+      });
+
+      expect(result.current.theme[0]).toBe('dark');
+    });
+  });
 });
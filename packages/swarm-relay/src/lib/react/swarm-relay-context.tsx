@@ -8,6 +8,8 @@ import {
 import { SwarmRelay } from '../swarm-relay.js';
 import {
   ConnectionState,
+  type ClientIdConflictPolicy,
+  type ClientMetadata,
   type EventMap,
   type SwarmRelayOptions,
 } from '../types.js';
@@ -40,6 +42,19 @@ export interface SwarmRelayProviderProps<TEventMap extends EventMap>
    * @default true
    */
   autoConnect?: boolean;
+  /** Metadata (version, route, capabilities…) announced to peers on connect. */
+  metadata?: ClientMetadata;
+  /**
+   * What the hub does when another client already uses `clientId`.
+   * @default 'takeover'
+   */
+  onConflict?: ClientIdConflictPolicy;
+  /**
+   * Join this channel and provide the channel's relay (see
+   * `SwarmRelay.channel()`), so the subtree only exchanges broadcasts with
+   * providers on the same channel. The state is `Connected` once joined.
+   */
+  channel?: string;
 }
 
 /**
@@ -50,6 +65,10 @@ export interface SwarmRelayProviderProps<TEventMap extends EventMap>
  * <SwarmRelayProvider<MyEvents> clientId="shell-app">
  *   <App />
  * </SwarmRelayProvider>
+ *
+ * <SwarmRelayProvider<MyEvents> clientId="checkout-widgets" channel="checkout">
+ *   <CheckoutWidgets />
+ * </SwarmRelayProvider>
  * ```
  */
 export function SwarmRelayProvider<TEventMap extends EventMap>({
@@ -58,6 +77,12 @@ export function SwarmRelayProvider<TEventMap extends EventMap>({
   clientId,
   transport,
   logger,
+  reconnect,
+  outbox,
+  retain,
+  metadata,
+  onConflict,
+  channel,
   onStateChange: externalOnStateChange,
   onError: externalOnError,
 }: SwarmRelayProviderProps<TEventMap>) {
@@ -77,29 +102,57 @@ export function SwarmRelayProvider<TEventMap extends EventMap>({
   useEffect(() => {
     let cancelled = false;
 
-    const relay = new SwarmRelay<TEventMap>({
+    const reportState = (newState: ConnectionState) => {
+      if (cancelled) return;
+      setState(newState);
+      onStateChangeRef.current?.(newState);
+    };
+    const reportError = (err: Error) => {
+      if (cancelled) return;
+      setError(err);
+      onErrorRef.current?.(err);
+    };
+
+    const relay: SwarmRelay<TEventMap> = new SwarmRelay<TEventMap>({
       clientId,
       transport,
       logger,
+      reconnect,
+      outbox,
+      retain: channel ? undefined : retain,
       onStateChange: (newState) => {
-        if (cancelled) return;
-        setState(newState);
-        onStateChangeRef.current?.(newState);
-      },
-      onError: (err) => {
-        if (cancelled) return;
-        setError(err);
-        onErrorRef.current?.(err);
+        // With a channel, the provider is connected once it has joined.
+        if (
+          newState === ConnectionState.Connected &&
+          scoped !== relay &&
+          scoped.state !== ConnectionState.Connected
+        ) {
+          return;
+        }
+        reportState(newState);
       },
+      onError: reportError,
     });
+    const scoped = channel
+      ? relay.channel(channel, {
+          retain,
+          onError: reportError,
+          onStateChange: (newState) => {
+            if (newState === ConnectionState.Connected) reportState(newState);
+          },
+        })
+      : relay;
 
-    relayRef.current = relay;
+    relayRef.current = scoped;
 
     if (autoConnect) {
-      relay.connect().catch((err: unknown) => {
-        if (cancelled) return;
-        setError(err instanceof Error ? err : new Error(String(err)));
-      });
+      relay
+        .connect({ metadata, onConflict })
+        .then(() => (scoped === relay ? undefined : scoped.connect()))
+        .catch((err: unknown) => {
+          if (cancelled) return;
+          setError(err instanceof Error ? err : new Error(String(err)));
+        });
     }
 
     return () => {
@@ -107,9 +160,9 @@ export function SwarmRelayProvider<TEventMap extends EventMap>({
       relay.disconnect();
       relayRef.current = null;
     };
-    // Re-create the relay only when the identity changes.
+    // Re-create the relay only when the identity or channel changes.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [clientId]);
+  }, [clientId, channel]);
 
   return (
     <SwarmRelayContext value={{ relay: relayRef.current, state, error }}>
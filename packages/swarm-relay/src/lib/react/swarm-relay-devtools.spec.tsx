@@ -0,0 +1,143 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { SwarmRelayProvider } from './swarm-relay-context.js';
+import { SwarmRelayDevtools } from './swarm-relay-devtools.js';
+import { MockTransportAdapter } from '../testing/mock-transport-adapter.js';
+import type { TrafficRecord } from '../types.js';
+
+type TestEvents = {
+  'cart:updated': { items: number; total: number };
+  'user:login': { userId: string };
+};
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+function record(
+  seq: number,
+  source: string,
+  event: keyof TestEvents,
+  payload: unknown,
+  recipients: string[]
+): TrafficRecord {
+  return {
+    seq,
+    routedAt: 1_700_000_000_000 + seq,
+    message: { id: `msg-${seq}`, source, event, payload, timestamp: seq },
+    recipients,
+  };
+}
+
+describe('SwarmRelayDevtools', () => {
+  let transport: MockTransportAdapter<TestEvents>;
+
+  beforeEach(() => {
+    transport = new MockTransportAdapter<TestEvents>();
+  });
+
+  async function renderDevtools() {
+    render(
+      <SwarmRelayProvider<TestEvents>
+        clientId="shell"
+        transport={transport}
+        logger={silentLogger}
+      >
+        <SwarmRelayDevtools />
+      </SwarmRelayProvider>
+    );
+    await screen.findByText('SwarmRelay');
+  }
+
+  async function open() {
+    fireEvent.click(screen.getByRole('button', { name: 'SwarmRelay' }));
+    await screen.findByRole('dialog', { name: 'SwarmRelay devtools' });
+  }
+
+  it('should only inspect the hub while open', async () => {
+    await renderDevtools();
+    expect(transport.inspecting).toBe(false);
+
+    await open();
+    expect(transport.inspecting).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close devtools' }));
+    expect(transport.inspecting).toBe(false);
+  });
+
+  it('should show and filter traffic, diff payloads and list peers', async () => {
+    await renderDevtools();
+    await open();
+
+    act(() => {
+      transport.simulateInspectorUpdate({
+        type: 'snapshot',
+        clients: [
+          {
+            clientId: 'shell',
+            connectedAt: 1,
+            version: 2,
+            subscriptions: null,
+          },
+          {
+            clientId: 'cart',
+            connectedAt: 2,
+            version: 2,
+            subscriptions: ['user:*'],
+            channels: ['checkout'],
+          },
+        ],
+        traffic: [
+          record(1, 'cart', 'cart:updated', { items: 1, total: 10 }, ['shell']),
+          record(2, 'shell', 'user:login', { userId: 'ada' }, ['cart']),
+        ],
+      });
+      transport.simulateInspectorUpdate({
+        type: 'traffic',
+        record: record(3, 'cart', 'cart:updated', { items: 2, total: 10 }, [
+          'shell',
+        ]),
+      });
+    });
+
+    const traffic = screen.getByRole('region', { name: 'Traffic' });
+    expect(traffic.querySelectorAll('li')).toHaveLength(3);
+
+    const clients = screen.getByRole('region', { name: 'Clients' });
+    expect(clients.textContent).toContain('Clients (2)');
+    expect(clients.textContent).toContain('user:*');
+    expect(clients.textContent).toContain('in checkout');
+
+    fireEvent.change(screen.getByLabelText('Filter by source'), {
+      target: { value: 'cart' },
+    });
+    expect(traffic.querySelectorAll('li')).toHaveLength(2);
+
+    fireEvent.change(screen.getByLabelText('Filter by target'), {
+      target: { value: 'nobody' },
+    });
+    expect(traffic.querySelectorAll('li')).toHaveLength(0);
+
+    fireEvent.change(screen.getByLabelText('Filter by target'), {
+      target: { value: '' },
+    });
+    fireEvent.click(traffic.querySelectorAll('button')[1]);
+
+    const details = screen.getByRole('region', { name: 'Message details' });
+    expect(details.textContent).toContain('Changes since #1');
+    expect(details.textContent).toContain('~ items: 1 → 2');
+    expect(details.textContent).not.toContain('total:');
+  });
+
+  it('should explain when the transport has no hub to inspect', async () => {
+    Object.assign(transport, { setInspecting: undefined });
+    await renderDevtools();
+    await open();
+
+    expect(screen.getByRole('alert').textContent).toContain(
+      'The transport has no hub to inspect'
+    );
+  });
+});
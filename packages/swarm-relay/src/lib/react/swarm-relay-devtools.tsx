@@ -0,0 +1,347 @@
+import { useMemo, useState, type CSSProperties } from 'react';
+import { useSwarmRelay } from './use-swarm-relay.js';
+import { useSwarmInspector } from './use-swarm-inspector.js';
+import { diffPayloads, type PayloadChange } from '../payload-diff.js';
+import type { TrafficRecord } from '../types.js';
+
+/**
+ * Props for {@link SwarmRelayDevtools}.
+ */
+export interface SwarmRelayDevtoolsProps {
+  /**
+   * Whether the panel starts open rather than as a toggle button.
+   * @default false
+   */
+  initialOpen?: boolean;
+  /**
+   * Corner of the viewport the panel docks to.
+   * @default 'bottom-right'
+   */
+  position?: 'bottom-left' | 'bottom-right';
+  /**
+   * Number of routed messages to keep, most recent last.
+   * @default 200
+   */
+  maxRecords?: number;
+}
+
+type TrafficFilters = Record<'event' | 'source' | 'target', string>;
+
+const NO_FILTERS: TrafficFilters = { event: '', source: '', target: '' };
+
+const styles = {
+  toggle: {
+    position: 'fixed',
+    bottom: 16,
+    zIndex: 2147483647,
+    padding: '6px 10px',
+    border: 'none',
+    borderRadius: 4,
+    background: '#1e1e2e',
+    color: '#cdd6f4',
+    font: '12px monospace',
+    cursor: 'pointer',
+  },
+  panel: {
+    position: 'fixed',
+    bottom: 16,
+    zIndex: 2147483647,
+    display: 'flex',
+    flexDirection: 'column',
+    width: 720,
+    maxWidth: 'calc(100vw - 32px)',
+    height: 360,
+    borderRadius: 4,
+    background: '#1e1e2e',
+    color: '#cdd6f4',
+    font: '12px monospace',
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.4)',
+  },
+  header: {
+    display: 'flex',
+    gap: 8,
+    alignItems: 'center',
+    padding: '6px 8px',
+    borderBottom: '1px solid #45475a',
+  },
+  close: {
+    marginLeft: 'auto',
+    border: 'none',
+    background: 'none',
+    color: 'inherit',
+    cursor: 'pointer',
+  },
+  body: { display: 'flex', flex: 1, minHeight: 0 },
+  traffic: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 3,
+    minWidth: 0,
+    borderRight: '1px solid #45475a',
+  },
+  side: { flex: 2, minWidth: 0, overflow: 'auto', padding: 8 },
+  filters: { display: 'flex', gap: 4, padding: 4 },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    border: '1px solid #45475a',
+    background: '#11111b',
+    color: 'inherit',
+    font: 'inherit',
+  },
+  list: { margin: 0, padding: 0, overflow: 'auto', listStyle: 'none' },
+  row: {
+    display: 'block',
+    width: '100%',
+    padding: '2px 8px',
+    border: 'none',
+    background: 'none',
+    color: 'inherit',
+    font: 'inherit',
+    textAlign: 'left',
+    whiteSpace: 'nowrap',
+    cursor: 'pointer',
+  },
+  selectedRow: { background: '#313244' },
+  heading: { margin: '8px 0 4px', fontSize: 12 },
+  muted: { color: '#7f849c' },
+  pre: { margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-all' },
+  error: { margin: 8, color: '#f38ba8' },
+  added: { color: '#a6e3a1' },
+  removed: { color: '#f38ba8' },
+  changed: { color: '#f9e2af' },
+} satisfies Record<string, CSSProperties>;
+
+function includes(value: string, filter: string): boolean {
+  return value.toLowerCase().includes(filter.trim().toLowerCase());
+}
+
+/** Whether `record` matches every filter; the target filter also matches recipients. */
+function matchesFilters(record: TrafficRecord, filters: TrafficFilters) {
+  const { message, recipients } = record;
+  return (
+    includes(String(message.event), filters.event) &&
+    includes(message.source, filters.source) &&
+    [message.target ?? '', ...recipients].some((id) =>
+      includes(id, filters.target)
+    )
+  );
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value, null, 2) ?? String(value);
+}
+
+function describeChange(change: PayloadChange): string {
+  const path = change.path || 'payload';
+  switch (change.kind) {
+    case 'added':
+      return `+ ${path}: ${JSON.stringify(change.after)}`;
+    case 'removed':
+      return `- ${path}: ${JSON.stringify(change.before)}`;
+    case 'changed':
+      return `~ ${path}: ${JSON.stringify(change.before)} → ${JSON.stringify(
+        change.after
+      )}`;
+  }
+}
+
+/** Payload of the selected message, diffed against the previous one of the same event. */
+function MessageDetails({
+  record,
+  previous,
+}: {
+  record: TrafficRecord;
+  previous: TrafficRecord | undefined;
+}) {
+  const { message, recipients } = record;
+  const changes = previous
+    ? diffPayloads(previous.message.payload, message.payload)
+    : null;
+
+  return (
+    <section aria-label="Message details">
+      <h3 style={styles.heading}>{String(message.event)}</h3>
+      <div style={styles.muted}>
+        #{record.seq} {message.source} → {recipients.join(', ') || 'nobody'}
+      </div>
+      <pre style={styles.pre}>{formatValue(message.payload)}</pre>
+      <h3 style={styles.heading}>
+        {previous ? `Changes since #${previous.seq}` : 'First in the log'}
+      </h3>
+      {changes && (
+        <ul style={styles.list}>
+          {changes.length === 0 && <li style={styles.muted}>No changes</li>}
+          {changes.map((change) => (
+            <li key={change.path} style={styles[change.kind]}>
+              {describeChange(change)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Drop-in devtools panel for SwarmRelay: live hub traffic filtered by
+ * event, source or target, payload diffs between consecutive messages of
+ * an event, and the clients connected to the hub.
+ *
+ * Must be rendered inside a {@link SwarmRelayProvider} whose transport has a
+ * hub to inspect (see `SwarmRelay.inspect()`). The hub is only inspected
+ * while the panel is open.
+ *
+ * @example
+ * ```tsx
+ * <SwarmRelayProvider<MyEvents> clientId="shell-app">
+ *   <App />
+ *   {import.meta.env.DEV && <SwarmRelayDevtools />}
+ * </SwarmRelayProvider>
+ * ```
+ */
+export function SwarmRelayDevtools({
+  initialOpen = false,
+  position = 'bottom-right',
+  maxRecords,
+}: SwarmRelayDevtoolsProps) {
+  const { relay, state } = useSwarmRelay();
+  const [open, setOpen] = useState(initialOpen);
+  const { clients, traffic, error } = useSwarmInspector({
+    enabled: open,
+    maxRecords,
+  });
+  const [filters, setFilters] = useState(NO_FILTERS);
+  const [selectedSeq, setSelectedSeq] = useState<number | null>(null);
+
+  const visible = useMemo(
+    () => traffic.filter((record) => matchesFilters(record, filters)),
+    [traffic, filters]
+  );
+  const selectedIndex = traffic.findIndex(
+    (record) => record.seq === selectedSeq
+  );
+  const selected = traffic[selectedIndex];
+  const previous = selected
+    ? traffic
+        .slice(0, selectedIndex)
+        .reverse()
+        .find((record) => record.message.event === selected.message.event)
+    : undefined;
+
+  const dock = position === 'bottom-left' ? { left: 16 } : { right: 16 };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        style={{ ...styles.toggle, ...dock }}
+        onClick={() => setOpen(true)}
+      >
+        SwarmRelay
+      </button>
+    );
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="SwarmRelay devtools"
+      style={{ ...styles.panel, ...dock }}
+    >
+      <header style={styles.header}>
+        <strong>SwarmRelay</strong>
+        <span style={styles.muted}>
+          {relay?.id ?? '—'} · {state}
+        </span>
+        <button
+          type="button"
+          aria-label="Close devtools"
+          style={styles.close}
+          onClick={() => setOpen(false)}
+        >
+          ×
+        </button>
+      </header>
+
+      {error ? (
+        <p role="alert" style={styles.error}>
+          {error.message}
+        </p>
+      ) : (
+        <div style={styles.body}>
+          <section aria-label="Traffic" style={styles.traffic}>
+            <div style={styles.filters}>
+              {(['event', 'source', 'target'] as const).map((field) => (
+                <input
+                  key={field}
+                  aria-label={`Filter by ${field}`}
+                  placeholder={field}
+                  value={filters[field]}
+                  style={styles.input}
+                  onChange={(e) =>
+                    setFilters((current) => ({
+                      ...current,
+                      [field]: e.target.value,
+                    }))
+                  }
+                />
+              ))}
+            </div>
+            <ol style={styles.list}>
+              {visible.map((record) => (
+                <li key={record.seq}>
+                  <button
+                    type="button"
+                    aria-pressed={record.seq === selectedSeq}
+                    style={
+                      record.seq === selectedSeq
+                        ? { ...styles.row, ...styles.selectedRow }
+                        : styles.row
+                    }
+                    onClick={() => setSelectedSeq(record.seq)}
+                  >
+                    <span style={styles.muted}>
+                      {new Date(record.routedAt).toLocaleTimeString()}
+                    </span>{' '}
+                    {String(record.message.event)}{' '}
+                    <span style={styles.muted}>
+                      {record.message.source} →{' '}
+                      {record.message.target ??
+                        `all (${record.recipients.length})`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </section>
+
+          <aside style={styles.side}>
+            {selected && (
+              <MessageDetails record={selected} previous={previous} />
+            )}
+            <section aria-label="Clients">
+              <h3 style={styles.heading}>Clients ({clients.length})</h3>
+              <ul style={styles.list}>
+                {clients.map((client) => (
+                  <li key={client.clientId}>
+                    {client.clientId}{' '}
+                    <span style={styles.muted}>
+                      v{client.version} ·{' '}
+                      {client.subscriptions
+                        ? client.subscriptions.join(', ') || 'no events'
+                        : 'all events'}
+                      {client.channels?.length
+                        ? ` · in ${client.channels.join(', ')}`
+                        : null}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </aside>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { useSwarmRelay } from './use-swarm-relay.js';
+import { createSharedStore } from '../shared-store.js';
+
+/**
+ * Read and write a shared store (see `createSharedStore()`) from a React
+ * component. Every component — in any microfrontend — using the same `key`
+ * renders the same value, and re-renders when any of them changes it.
+ *
+ * Until the relay is initialised the hook returns `initial`; calling the
+ * setter before then throws.
+ *
+ * @param key     - Name shared by every client using the store.
+ * @param initial - Value until the store is first written or hydrated.
+ * @returns The current value and a setter accepting a value or an updater.
+ *
+ * @example
+ * ```tsx
+ * function ThemeToggle() {
+ *   const [theme, setTheme] = useSharedState('theme', 'light');
+ *
+ *   return (
+ *     <button onClick={() => setTheme((t) => (t === 'light' ? 'dark' : 'light'))}>
+ *       {theme}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useSharedState<T>(
+  key: string,
+  initial: T
+): [T, (next: T | ((current: T) => T)) => void] {
+  const { relay } = useSwarmRelay();
+  // Only the first `initial` counts, like `useState`.
+  const initialRef = useRef(initial);
+
+  const store = useMemo(
+    () => (relay ? createSharedStore(relay, key, initialRef.current) : null),
+    [relay, key]
+  );
+
+  const subscribe = useCallback(
+    (onChange: () => void) => store?.subscribe(onChange) ?? (() => undefined),
+    [store]
+  );
+  const value = useSyncExternalStore(subscribe, () =>
+    store ? store.get() : initialRef.current
+  );
+
+  const setValue = useCallback(
+    (next: T | ((current: T) => T)) => {
+      if (!store) {
+        throw new Error(
+          'SwarmRelay is not initialised. Ensure <SwarmRelayProvider> has mounted and connected.'
+        );
+      }
+      if (typeof next === 'function') {
+        store.update(next as (current: T) => T);
+      } else {
+        store.set(next);
+      }
+    },
+    [store]
+  );
+
+  return [value, setValue];
+}
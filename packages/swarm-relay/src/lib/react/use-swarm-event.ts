@@ -1,16 +1,38 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSwarmRelay } from './use-swarm-relay.js';
-import type { EventMap, MessageHandler } from '../types.js';
+import type {
+  EventMap,
+  EventPattern,
+  MatchingEvents,
+  PatternHandler,
+} from '../types.js';
 
 /**
- * Subscribe to a specific SwarmRelay event inside a React component.
+ * Options for {@link useSwarmEvent}.
+ */
+export interface UseSwarmEventOptions {
+  /**
+   * Treat the event as retained: replay its last known value to the handler
+   * on subscribe and return the latest payload so the component can render
+   * with it immediately.
+   * @default false
+   */
+  retained?: boolean;
+}
+
+/**
+ * Subscribe to a SwarmRelay event, or to every event matching a pattern
+ * such as `'cart:*'` (see `SwarmRelay.onPattern()`), inside a React component.
  *
  * The handler is kept stable via a ref so callers do not need to memoise it.
  * The subscription is automatically cleaned up when the component unmounts
  * or when the `event` name changes.
  *
- * @param event   - Event name to listen for.
+ * @param event   - Event name or pattern to listen for.
  * @param handler - Callback invoked with the typed payload and full message.
+ * @param options - Set `retained: true` to start from the event's last value
+ *                  (for a pattern, the last values of the matching events).
+ * @returns The latest payload when `retained` is set, otherwise `undefined`.
  *
  * @example
  * ```tsx
@@ -23,16 +45,44 @@ import type { EventMap, MessageHandler } from '../types.js';
  *
  *   return <span>{count}</span>;
  * }
+ *
+ * function Greeting() {
+ *   const login = useSwarmEvent<MyEvents, 'user:login'>(
+ *     'user:login',
+ *     () => undefined,
+ *     { retained: true }
+ *   );
+ *
+ *   return <span>{login ? `Hi ${login.userId}` : 'Signed out'}</span>;
+ * }
+ *
+ * function CartLog() {
+ *   useSwarmEvent<MyEvents, 'cart:*'>('cart:*', (payload, message) => {
+ *     console.log(message.event, payload);
+ *   });
+ *   return null;
+ * }
  * ```
  */
 export function useSwarmEvent<
   TEventMap extends EventMap,
-  K extends keyof TEventMap & string
->(event: K, handler: MessageHandler<TEventMap, K>): void {
+  K extends EventPattern<TEventMap>
+>(
+  event: K,
+  handler: PatternHandler<TEventMap, MatchingEvents<TEventMap, K>>,
+  options: UseSwarmEventOptions = {}
+): TEventMap[MatchingEvents<TEventMap, K>] | undefined {
   const { relay } = useSwarmRelay<TEventMap>();
   const handlerRef = useRef(handler);
   handlerRef.current = handler;
 
+  const retained = options.retained ?? false;
+  const [last, setLast] = useState<
+    TEventMap[MatchingEvents<TEventMap, K>] | undefined
+  >(() =>
+    retained ? relay?.getLastMessages(event).pop()?.payload : undefined
+  );
+
   useEffect(() => {
     if (!relay) {
       console.warn(
@@ -42,12 +92,24 @@ export function useSwarmEvent<
       return;
     }
 
-    const stableHandler: MessageHandler<TEventMap, K> = (payload, message) => {
+    const stableHandler: PatternHandler<
+      TEventMap,
+      MatchingEvents<TEventMap, K>
+    > = (payload, message) => {
+      if (retained) setLast(payload);
       handlerRef.current(payload, message);
     };
 
+    if (retained) {
+      for (const lastMessage of relay.getLastMessages(event)) {
+        stableHandler(lastMessage.payload, lastMessage);
+      }
+    }
+
     console.log(`Subscribing to "${event}"`, { clientId: relay.id });
 
-    return relay.on(event, stableHandler);
-  }, [relay, event]);
+    return relay.onPattern(event, stableHandler);
+  }, [relay, event, retained]);
+
+  return retained ? last : undefined;
 }
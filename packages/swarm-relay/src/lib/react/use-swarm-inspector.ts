@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { useSwarmRelay } from './use-swarm-relay.js';
+import { INSPECTOR_BUFFER_SIZE } from '../protocol.js';
+import type {
+  InspectedClient,
+  InspectorUpdate,
+  TrafficRecord,
+} from '../types.js';
+
+/**
+ * Options for {@link useSwarmInspector}.
+ */
+export interface UseSwarmInspectorOptions {
+  /**
+   * Whether to inspect the hub. Inspection costs the hub a frame per routed
+   * message, so turn it off while nothing shows the results.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Number of routed messages to keep, most recent last.
+   * @default 200
+   */
+  maxRecords?: number;
+}
+
+/**
+ * What {@link useSwarmInspector} knows about the hub.
+ */
+export interface SwarmInspectorState {
+  /** Clients connected to the hub, including this one. */
+  clients: InspectedClient[];
+  /** Messages routed by the hub, oldest first. */
+  traffic: TrafficRecord[];
+  /** Why the hub cannot be inspected, or `null`. */
+  error: Error | null;
+}
+
+const EMPTY_STATE: SwarmInspectorState = {
+  clients: [],
+  traffic: [],
+  error: null,
+};
+
+function applyUpdate(
+  state: SwarmInspectorState,
+  update: InspectorUpdate,
+  maxRecords: number
+): SwarmInspectorState {
+  switch (update.type) {
+    case 'snapshot':
+      return {
+        clients: update.clients,
+        traffic: update.traffic.slice(-maxRecords),
+        error: null,
+      };
+    case 'traffic':
+      return {
+        ...state,
+        traffic: [...state.traffic, update.record].slice(-maxRecords),
+      };
+    case 'clients':
+      return { ...state, clients: update.clients };
+  }
+}
+
+/**
+ * Watch the hub's live traffic and client list (see `SwarmRelay.inspect()`)
+ * from a React component. Powers {@link SwarmRelayDevtools}.
+ *
+ * @example
+ * ```tsx
+ * function TrafficCounter() {
+ *   const { traffic } = useSwarmInspector();
+ *   return <span>{traffic.length} messages</span>;
+ * }
+ * ```
+ */
+export function useSwarmInspector(
+  options: UseSwarmInspectorOptions = {}
+): SwarmInspectorState {
+  const { relay } = useSwarmRelay();
+  const enabled = options.enabled ?? true;
+  const maxRecords = options.maxRecords ?? INSPECTOR_BUFFER_SIZE;
+  const [state, setState] = useState(EMPTY_STATE);
+
+  useEffect(() => {
+    if (!relay || !enabled) return;
+
+    try {
+      return relay.inspect((update) =>
+        setState((current) => applyUpdate(current, update, maxRecords))
+      );
+    } catch (error) {
+      setState({
+        ...EMPTY_STATE,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return;
+    }
+  }, [relay, enabled, maxRecords]);
+
+  return state;
+}
@@ -0,0 +1,157 @@
+import { createSharedStore } from './shared-store.js';
+import { SwarmRelay } from './swarm-relay.js';
+import { SwarmRelayError } from './errors.js';
+import { MockTransportAdapter } from './testing/mock-transport-adapter.js';
+import type { EventMap } from './types.js';
+
+const EVENT = '__swarm_store__:theme';
+
+function createSilentLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+describe('createSharedStore', () => {
+  let transport: MockTransportAdapter<EventMap>;
+  let relay: SwarmRelay<EventMap>;
+
+  function receive(version: number, writer: string, value: string) {
+    transport.simulateMessage({
+      id: `${writer}-${version}`,
+      source: writer,
+      event: EVENT,
+      payload: { value, version, writer },
+      timestamp: 0,
+      retain: true,
+    });
+  }
+
+  beforeEach(async () => {
+    transport = new MockTransportAdapter<EventMap>();
+    relay = new SwarmRelay<EventMap>({
+      clientId: 'shell',
+      transport,
+      logger: createSilentLogger(),
+    });
+    await relay.connect();
+  });
+
+  it('should start from the initial value', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+
+    expect(store.get()).toBe('light');
+    expect(store.version).toBe(0);
+  });
+
+  it('should return the same store for the same key', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+
+    expect(createSharedStore(relay, 'theme', 'dark')).toBe(store);
+    store.destroy();
+    expect(createSharedStore(relay, 'theme', 'dark').get()).toBe('dark');
+  });
+
+  it('should broadcast writes as retained messages', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.set('dark');
+    store.update((theme) => `${theme}!`);
+
+    expect(store.get()).toBe('dark!');
+    expect(listener.mock.calls).toEqual([
+      ['dark', 'shell'],
+      ['dark!', 'shell'],
+    ]);
+    expect(transport.sentMessages.map((m) => [m.event, m.retain])).toEqual([
+      [EVENT, true],
+      [EVENT, true],
+    ]);
+    expect(transport.sentMessages[1].payload).toEqual({
+      value: 'dark!',
+      version: 2,
+      writer: 'shell',
+    });
+  });
+
+  it('should apply newer writes from peers', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    receive(3, 'cart', 'dark');
+    store.set('blue');
+
+    expect(listener).toHaveBeenCalledWith('dark', 'cart');
+    expect(store.get()).toBe('blue');
+    expect(store.version).toBe(4);
+  });
+
+  it('should resolve concurrent writes by client ID', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+
+    receive(1, 'cart', 'dark');
+    receive(1, 'admin', 'blue');
+    receive(1, 'search', 'green');
+
+    expect(store.get()).toBe('green');
+  });
+
+  it('should ignore stale writes and re-assert its own winning value', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+    store.set('dark');
+    store.set('darker');
+    transport.sentMessages.length = 0;
+
+    receive(1, 'cart', 'blue');
+
+    expect(store.get()).toBe('darker');
+    expect(transport.sentMessages).toHaveLength(1);
+    expect(transport.sentMessages[0].payload).toEqual({
+      value: 'darker',
+      version: 2,
+      writer: 'shell',
+    });
+  });
+
+  it('should hydrate from a value the hub replayed', () => {
+    receive(5, 'cart', 'dark');
+
+    const store = createSharedStore(relay, 'theme', 'light');
+
+    expect(store.get()).toBe('dark');
+    expect(store.version).toBe(5);
+  });
+
+  it('should subscribe at the hub to its event', async () => {
+    createSharedStore(relay, 'theme', 'light');
+    await Promise.resolve();
+
+    expect(transport.subscriptions).toEqual([EVENT]);
+  });
+
+  it('should leave the value unchanged when the write cannot be sent', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+    relay.disconnect();
+
+    expect(() => store.set('dark')).toThrow(SwarmRelayError);
+    expect(store.get()).toBe('light');
+  });
+
+  it('should stop syncing once destroyed', () => {
+    const store = createSharedStore(relay, 'theme', 'light');
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.destroy();
+    receive(1, 'cart', 'dark');
+
+    expect(store.get()).toBe('light');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,202 @@
+import type { SwarmRelay } from './swarm-relay.js';
+
+/** Prefix of the reserved events carrying shared store state. */
+const STORE_EVENT_PREFIX = '__swarm_store__:';
+
+/**
+ * A store's value as it travels between clients. `version` is a Lamport
+ * clock: every write is numbered one past the newest version its writer
+ * has seen, so newer writes win regardless of wall-clock skew.
+ */
+interface SharedStoreState<T> {
+  value: T;
+  version: number;
+  /** Client ID of the writer, breaking ties between concurrent writes. */
+  writer: string;
+}
+
+type SharedStoreEvents = Record<string, SharedStoreState<unknown>>;
+
+/** Stores work with a relay of any event map. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRelay = SwarmRelay<any, any>;
+
+/**
+ * Called when a shared store's value changes.
+ *
+ * @param value  - The new value.
+ * @param source - Client ID of the writer (this client's own ID for `set()`).
+ */
+export type SharedStoreListener<T> = (value: T, source: string) => void;
+
+/** Stores created per relay, so every caller of a key shares one instance. */
+const stores = new WeakMap<AnyRelay, Map<string, SharedStore<unknown>>>();
+
+/**
+ * A value kept in sync across every microfrontend using the same `key`.
+ *
+ * Writes are broadcast as retained messages, so the hub hands the latest
+ * value to clients that connect later. Concurrent writes are resolved
+ * last-writer-wins: the higher version wins, then the higher client ID, so
+ * every client settles on the same value whatever order writes arrive in.
+ *
+ * Create stores with {@link createSharedStore}.
+ */
+export class SharedStore<T> {
+  private state: SharedStoreState<T>;
+  private readonly listeners = new Set<SharedStoreListener<T>>();
+  private readonly relay: SwarmRelay<SharedStoreEvents>;
+  private readonly event: string;
+  private readonly unsubscribe: () => void;
+
+  /** @internal Use {@link createSharedStore}. */
+  constructor(relay: AnyRelay, readonly key: string, initial: T) {
+    this.relay = relay as SwarmRelay<SharedStoreEvents>;
+    this.event = `${STORE_EVENT_PREFIX}${key}`;
+    this.state = { value: initial, version: 0, writer: '' };
+
+    // Hydrate from a value the hub replayed before the store existed.
+    const last = this.relay.getLastMessage(this.event);
+    if (last) this.receive(last.payload, last.source);
+    this.unsubscribe = this.relay.on(this.event, (payload, message) =>
+      this.receive(payload, message.source)
+    );
+  }
+
+  /** The current value. */
+  get(): T {
+    return this.state.value;
+  }
+
+  /** Version of the current value; `0` until it is first written. */
+  get version(): number {
+    return this.state.version;
+  }
+
+  /**
+   * Replace the value and broadcast it to every other client.
+   *
+   * @throws {SwarmRelayError} `NotConnected` if the relay is not connected
+   *   and has no outbox; the value is left unchanged.
+   */
+  set(value: T): void {
+    const next: SharedStoreState<T> = {
+      value,
+      version: this.state.version + 1,
+      writer: this.relay.id,
+    };
+    this.relay.broadcast(this.event, next, { retain: true });
+    this.apply(next, this.relay.id);
+  }
+
+  /** Replace the value with one computed from the current value. */
+  update(updater: (current: T) => T): void {
+    this.set(updater(this.state.value));
+  }
+
+  /**
+   * Listen for changes, local and remote. The listener is not called with
+   * the current value; read it with {@link get}.
+   *
+   * @returns A cleanup function that removes the listener.
+   */
+  subscribe(listener: SharedStoreListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop syncing and drop all listeners. A later `createSharedStore()` for
+   * the same key creates a fresh store.
+   */
+  destroy(): void {
+    this.unsubscribe();
+    this.listeners.clear();
+    const byKey = stores.get(this.relay);
+    if (byKey?.get(this.key) === this) {
+      byKey.delete(this.key);
+    }
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  private receive(incoming: SharedStoreState<unknown>, source: string): void {
+    if (typeof incoming?.version !== 'number') return;
+
+    if (this.wins(incoming)) {
+      this.apply(incoming as SharedStoreState<T>, source);
+      return;
+    }
+
+    // The hub retains whichever write reached it last, which may be the one
+    // that lost. The winner's writer re-asserts its value so late joiners
+    // hydrate with the value everyone else settled on.
+    if (
+      this.state.writer === this.relay.id &&
+      (incoming.version !== this.state.version ||
+        incoming.writer !== this.state.writer)
+    ) {
+      try {
+        this.relay.broadcast(this.event, this.state, { retain: true });
+      } catch {
+        // Not connected — the next write will re-assert the value.
+      }
+    }
+  }
+
+  private wins(incoming: SharedStoreState<unknown>): boolean {
+    return (
+      incoming.version > this.state.version ||
+      (incoming.version === this.state.version &&
+        incoming.writer > this.state.writer)
+    );
+  }
+
+  private apply(next: SharedStoreState<T>, source: string): void {
+    this.state = next;
+    for (const listener of this.listeners) {
+      listener(next.value, source);
+    }
+  }
+}
+
+/**
+ * Get the store synchronising `key` over `relay`, creating it on first use.
+ *
+ * Every call with the same relay and key returns the same store, so
+ * `initial` only applies to the first call — and only until a value arrives
+ * from the hub. Stores stop syncing once `relay.disconnect()` drops the
+ * relay's handlers; `destroy()` them before connecting the same relay again.
+ *
+ * @param relay   - Relay to synchronise over.
+ * @param key     - Name shared by every client using the store.
+ * @param initial - Value until the store is first written or hydrated.
+ *
+ * @example
+ * ```typescript
+ * const theme = createSharedStore(relay, 'theme', 'light');
+ *
+ * theme.subscribe((value) => document.body.dataset.theme = value);
+ * theme.set('dark');
+ * ```
+ */
+export function createSharedStore<T>(
+  relay: AnyRelay,
+  key: string,
+  initial: T
+): SharedStore<T> {
+  let byKey = stores.get(relay);
+  if (!byKey) {
+    byKey = new Map();
+    stores.set(relay, byKey);
+  }
+
+  let store = byKey.get(key) as SharedStore<T> | undefined;
+  if (!store) {
+    store = new SharedStore(relay, key, initial);
+    byKey.set(key, store as SharedStore<unknown>);
+  }
+  return store;
+}
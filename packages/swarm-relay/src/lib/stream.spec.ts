@@ -0,0 +1,283 @@
+import { SwarmStream, SwarmStreamWriter, type StreamHost } from './stream.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+import type { SwarmStreamMeta } from './types.js';
+
+function createHost(validate: (value: unknown) => unknown = (value) => value) {
+  const frames: {
+    meta: SwarmStreamMeta;
+    payload?: unknown;
+    transfer?: Transferable[];
+  }[] = [];
+  const host: StreamHost = {
+    send: vi.fn((meta, payload, transfer) => {
+      frames.push({ meta, payload, transfer });
+      return undefined;
+    }),
+    validate: vi.fn(validate),
+    close: vi.fn(),
+  };
+  return { host, frames };
+}
+
+describe('SwarmStreamWriter', () => {
+  it('should wait for credit before sending chunks', async () => {
+    const { host, frames } = createHost();
+    const writer = new SwarmStreamWriter<string>('s1', 'viewer', 'log', host);
+
+    const first = writer.write('a');
+    const second = writer.write('b');
+    expect(frames).toHaveLength(0);
+
+    writer.grant(1);
+    await first;
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      { id: 's1', kind: 'chunk', seq: 0 },
+    ]);
+
+    writer.grant(1);
+    await second;
+    expect(frames[1]).toEqual({
+      meta: { id: 's1', kind: 'chunk', seq: 1 },
+      payload: 'b',
+      transfer: undefined,
+    });
+  });
+
+  it('should split long values into transferred copies', () => {
+    const { host, frames } = createHost();
+    const writer = new SwarmStreamWriter<Uint8Array>(
+      's1',
+      'viewer',
+      'bytes',
+      host,
+      4
+    );
+    const bytes = Uint8Array.from([1, 2, 3, 4, 5, 6]);
+
+    writer.grant(10);
+    void writer.write(bytes);
+
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      { id: 's1', kind: 'chunk', seq: 0, partial: true },
+      { id: 's1', kind: 'chunk', seq: 1 },
+    ]);
+    expect(frames[0].payload).toEqual(Uint8Array.from([1, 2, 3, 4]));
+    expect(frames[0].transfer).toEqual([
+      (frames[0].payload as Uint8Array).buffer,
+    ]);
+    expect(frames[1].payload).toEqual(Uint8Array.from([5, 6]));
+    expect(bytes).toEqual(Uint8Array.from([1, 2, 3, 4, 5, 6]));
+  });
+
+  it('should send the end once written chunks drained', async () => {
+    const { host, frames } = createHost();
+    const writer = new SwarmStreamWriter<string>('s1', 'viewer', 'log', host);
+
+    void writer.write('a');
+    const closed = writer.close();
+    expect(frames).toHaveLength(0);
+
+    writer.grant(1);
+    await closed;
+    await writer.closed;
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      { id: 's1', kind: 'chunk', seq: 0 },
+      { id: 's1', kind: 'end', seq: 1 },
+    ]);
+    expect(host.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject writes after close() and invalid chunks', async () => {
+    const { host } = createHost((value) => {
+      if (typeof value !== 'string') throw new Error('not a string');
+      return value;
+    });
+    const writer = new SwarmStreamWriter<string>('s1', 'viewer', 'log', host);
+
+    await expect(writer.write(42 as unknown as string)).rejects.toThrow(
+      'not a string'
+    );
+
+    void writer.close();
+    await expect(writer.write('a')).rejects.toMatchObject({
+      code: SwarmRelayErrorCode.InvalidMessage,
+    });
+  });
+
+  it('should reject pending writes and tell the reader when aborted', async () => {
+    const { host, frames } = createHost();
+    const writer = new SwarmStreamWriter<string>('s1', 'viewer', 'log', host);
+
+    const pending = writer.write('a');
+    writer.abort('Upload cancelled');
+
+    const expected = {
+      message: 'Upload cancelled',
+      code: SwarmRelayErrorCode.StreamCancelled,
+    };
+    await expect(pending).rejects.toMatchObject(expected);
+    await expect(writer.closed).rejects.toMatchObject(expected);
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      { id: 's1', kind: 'cancel', error: expected },
+    ]);
+  });
+
+  it('should fail and tell the reader when a chunk cannot be sent', async () => {
+    const { host, frames } = createHost();
+    const refused = new SwarmRelayError(
+      'Failed to send message',
+      SwarmRelayErrorCode.SendFailed
+    );
+    vi.mocked(host.send).mockImplementationOnce(() => {
+      throw refused;
+    });
+    const writer = new SwarmStreamWriter<Uint8Array>(
+      's1',
+      'viewer',
+      'bytes',
+      host
+    );
+
+    writer.grant(1);
+
+    await expect(writer.write(Uint8Array.from([1]))).rejects.toBe(refused);
+    await expect(writer.closed).rejects.toBe(refused);
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      {
+        id: 's1',
+        kind: 'cancel',
+        error: {
+          message: refused.message,
+          code: SwarmRelayErrorCode.SendFailed,
+        },
+      },
+    ]);
+  });
+});
+
+describe('SwarmStream', () => {
+  function createStream<T>(
+    highWaterMark = 4,
+    validate?: StreamHost['validate']
+  ) {
+    const { host, frames } = createHost(validate);
+    const stream = new SwarmStream<T>(
+      's1',
+      'editor',
+      'log',
+      highWaterMark,
+      host
+    );
+    stream.start();
+    return { stream, host, frames };
+  }
+
+  it('should grant its high water mark as initial credit', () => {
+    const { frames } = createStream(4);
+
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      { id: 's1', kind: 'credit', credit: 4 },
+    ]);
+  });
+
+  it('should yield chunks in order, ignoring duplicates, until the end', async () => {
+    const { stream, host } = createStream<string>();
+
+    stream.receive({ id: 's1', kind: 'chunk', seq: 1 }, 'b');
+    stream.receive({ id: 's1', kind: 'end', seq: 2 }, undefined);
+    stream.receive({ id: 's1', kind: 'chunk', seq: 0 }, 'a');
+    stream.receive({ id: 's1', kind: 'chunk', seq: 0 }, 'a');
+
+    const received: string[] = [];
+    for await (const chunk of stream) received.push(chunk);
+
+    expect(received).toEqual(['a', 'b']);
+    expect(host.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should put split values back together', async () => {
+    const { stream } = createStream<ArrayBuffer | string>();
+
+    stream.receive(
+      { id: 's1', kind: 'chunk', seq: 0, partial: true },
+      Uint8Array.from([1, 2]).buffer
+    );
+    stream.receive(
+      { id: 's1', kind: 'chunk', seq: 1 },
+      Uint8Array.from([3]).buffer
+    );
+    stream.receive({ id: 's1', kind: 'chunk', seq: 2, partial: true }, 'ab');
+    stream.receive({ id: 's1', kind: 'chunk', seq: 3 }, 'c');
+
+    const bytes = await stream.read();
+    expect(new Uint8Array(bytes.value as ArrayBuffer)).toEqual(
+      Uint8Array.from([1, 2, 3])
+    );
+    expect((await stream.read()).value).toBe('abc');
+  });
+
+  it('should grant credit again in batches as chunks are read', async () => {
+    const { stream, frames } = createStream<string>(4);
+    for (let seq = 0; seq < 4; seq++) {
+      stream.receive({ id: 's1', kind: 'chunk', seq }, String(seq));
+    }
+
+    await stream.read();
+    expect(frames).toHaveLength(1);
+
+    await stream.read();
+    expect(frames.map((frame) => frame.meta)).toEqual([
+      { id: 's1', kind: 'credit', credit: 4 },
+      { id: 's1', kind: 'credit', credit: 2 },
+    ]);
+  });
+
+  it('should tell the writer and finish when cancelled', async () => {
+    const { stream, frames } = createStream<string>();
+    const pending = stream.read();
+
+    stream.cancel('Not interested');
+
+    await expect(pending).resolves.toEqual({ done: true, value: undefined });
+    expect(frames.at(-1)?.meta).toEqual({
+      id: 's1',
+      kind: 'cancel',
+      error: {
+        message: 'Not interested',
+        code: SwarmRelayErrorCode.StreamCancelled,
+      },
+    });
+  });
+
+  it('should cancel the stream on an invalid chunk and surface the error', async () => {
+    const invalid = new SwarmRelayError(
+      'Invalid incoming payload for "log"',
+      SwarmRelayErrorCode.InvalidMessage
+    );
+    const { stream, frames } = createStream<string>(4, () => {
+      throw invalid;
+    });
+
+    stream.receive({ id: 's1', kind: 'chunk', seq: 0 }, 42);
+
+    await expect(stream.read()).rejects.toBe(invalid);
+    expect(frames.at(-1)?.meta).toMatchObject({
+      kind: 'cancel',
+      error: { code: SwarmRelayErrorCode.InvalidMessage },
+    });
+  });
+
+  it('should reject reads once failed', async () => {
+    const { stream } = createStream<string>();
+    const pending = stream.read();
+    const error = new SwarmRelayError(
+      'Writer left',
+      SwarmRelayErrorCode.StreamCancelled
+    );
+
+    stream.fail(error);
+
+    await expect(pending).rejects.toBe(error);
+    await expect(stream.read()).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,570 @@
+import type { SwarmStreamMeta } from './types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+
+/**
+ * Options for `SwarmRelay.openStream()`.
+ */
+export interface StreamOptions {
+  /**
+   * Longest string (in characters) or binary value (in bytes) sent as one
+   * chunk. Longer strings, `ArrayBuffer`s and `Uint8Array`s are split, and
+   * the reader puts them back together before handing them out.
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * Time in milliseconds to wait for the target to accept the stream
+   * before asking again (see `SendOptions.ackTimeout`).
+   * @default 5000
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for `SwarmRelay.onStream()`.
+ */
+export interface StreamHandlerOptions {
+  /**
+   * Number of chunks buffered for the handler before the writer has to
+   * wait for it to catch up.
+   * @default 16
+   */
+  highWaterMark?: number;
+}
+
+/** Handler invoked with each stream opened to the relay for its event. */
+export type StreamHandler<T> = (stream: SwarmStream<T>) => void | Promise<void>;
+
+/** What a stream needs from the relay at its end. */
+export interface StreamHost {
+  /**
+   * Send a frame of the stream to the other end.
+   *
+   * @returns A promise if middleware made sending asynchronous.
+   */
+  send(
+    meta: SwarmStreamMeta,
+    payload?: unknown,
+    transfer?: Transferable[]
+  ): Promise<void> | undefined;
+  /** Run a whole value through the event's schema, if any. */
+  validate(value: unknown): unknown;
+  /** Called once the stream needs no more frames. */
+  close(): void;
+}
+
+const DEFAULT_CHUNK_SIZE = 65_536;
+
+/** One frame's worth of a written value. */
+interface Part {
+  payload: unknown;
+  /** Parts that are copies made here, and so safe to transfer. */
+  transfer?: Transferable[];
+}
+
+/**
+ * Split strings and binary values longer than `chunkSize` into parts;
+ * anything else travels whole.
+ */
+function split(value: unknown, chunkSize: number): Part[] {
+  const parts: Part[] = [];
+  if (typeof value === 'string' && value.length > chunkSize) {
+    for (let i = 0; i < value.length; i += chunkSize) {
+      parts.push({ payload: value.slice(i, i + chunkSize) });
+    }
+  } else if (value instanceof ArrayBuffer && value.byteLength > chunkSize) {
+    for (let i = 0; i < value.byteLength; i += chunkSize) {
+      const part = value.slice(i, i + chunkSize);
+      parts.push({ payload: part, transfer: [part] });
+    }
+  } else if (value instanceof Uint8Array && value.byteLength > chunkSize) {
+    for (let i = 0; i < value.byteLength; i += chunkSize) {
+      // Copy, so that transferring the part leaves `value` intact.
+      const part = new Uint8Array(value.subarray(i, i + chunkSize));
+      parts.push({ payload: part, transfer: [part.buffer] });
+    }
+  } else {
+    parts.push({ payload: value });
+  }
+  return parts;
+}
+
+/** Put back together the parts {@link split} made of one value. */
+function join(parts: unknown[]): unknown {
+  if (typeof parts[0] === 'string') return parts.join('');
+
+  const views = parts.map((part) =>
+    part instanceof ArrayBuffer ? new Uint8Array(part) : (part as Uint8Array)
+  );
+  const joined = new Uint8Array(
+    views.reduce((length, view) => length + view.byteLength, 0)
+  );
+  let offset = 0;
+  for (const view of views) {
+    joined.set(view, offset);
+    offset += view.byteLength;
+  }
+  return parts[0] instanceof ArrayBuffer ? joined.buffer : joined;
+}
+
+function cancelMeta(id: string, error: SwarmRelayError): SwarmStreamMeta {
+  return {
+    id,
+    kind: 'cancel',
+    error: { message: error.message, code: error.code },
+  };
+}
+
+/**
+ * Writing end of a stream, returned by `SwarmRelay.openStream()`.
+ *
+ * Each written value reaches the reader once and in order. The reader
+ * grants credit for the chunks it is ready to buffer; while it has none
+ * left, `write()` waits, so a fast writer cannot flood a slow reader.
+ *
+ * @example
+ * ```typescript
+ * const writer = relay.openStream('reports', 'report:rows');
+ * for (const row of rows) {
+ *   await writer.write(row);
+ * }
+ * await writer.close();
+ * ```
+ */
+export class SwarmStreamWriter<T> {
+  /** Resolves once the stream was closed, rejects if it failed first. */
+  readonly closed: Promise<void>;
+
+  private readonly queue: (Part & {
+    partial: boolean;
+    resolve?: () => void;
+    reject?: (error: Error) => void;
+  })[] = [];
+  private readonly chunkSize: number;
+  private credit = 0;
+  private seq = 0;
+  private _accepted = false;
+  private closing: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private ended = false;
+  private error: Error | null = null;
+  private settleClosed!: (error?: Error) => void;
+
+  constructor(
+    readonly id: string,
+    readonly target: string,
+    readonly event: string,
+    private readonly host: StreamHost,
+    chunkSize = DEFAULT_CHUNK_SIZE
+  ) {
+    this.chunkSize = Math.max(1, chunkSize);
+    this.closed = new Promise<void>((resolve, reject) => {
+      this.settleClosed = (error) => (error ? reject(error) : resolve());
+    });
+    // Failures also reject pending writes; nobody has to watch `closed`.
+    this.closed.catch(() => undefined);
+  }
+
+  /**
+   * Send `chunk` to the reader.
+   *
+   * @returns A promise resolving once the chunk was sent, which waits while
+   *   the reader has no room for it.
+   * @throws {SwarmRelayError} (as a rejection) `InvalidMessage` if the
+   *   chunk fails its schema or the stream was closed, or the error the
+   *   stream failed with.
+   */
+  write(chunk: T): Promise<void> {
+    if (this.error) return Promise.reject(this.error);
+    if (this.closing) {
+      return Promise.reject(
+        new SwarmRelayError(
+          `Cannot write to stream "${this.event}" after close()`,
+          SwarmRelayErrorCode.InvalidMessage
+        )
+      );
+    }
+
+    let value: unknown;
+    try {
+      value = this.host.validate(chunk);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return new Promise<void>((resolve, reject) => {
+      const parts = split(value, this.chunkSize);
+      parts.forEach((part, index) => {
+        const last = index === parts.length - 1;
+        this.queue.push(
+          last
+            ? { ...part, partial: false, resolve, reject }
+            : { ...part, partial: true }
+        );
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * End the stream once every written chunk was sent.
+   *
+   * @returns A promise resolving once the reader was told the stream ended.
+   */
+  close(): Promise<void> {
+    if (this.error) return Promise.reject(this.error);
+    if (this.ended) return Promise.resolve();
+    return new Promise<void>((resolve, reject) => {
+      const previous = this.closing;
+      this.closing = {
+        resolve: () => {
+          previous?.resolve();
+          resolve();
+        },
+        reject: (error) => {
+          previous?.reject(error);
+          reject(error);
+        },
+      };
+      this.pump();
+    });
+  }
+
+  /**
+   * Abandon the stream: pending writes reject, and the reader fails with a
+   * `StreamCancelled` error carrying `reason`.
+   */
+  abort(reason = 'Stream aborted by the writer'): void {
+    this.cancel(
+      new SwarmRelayError(reason, SwarmRelayErrorCode.StreamCancelled)
+    );
+  }
+
+  // ── Relay ────────────────────────────────────────────────
+
+  /** Whether the reader granted credit, and so accepted the stream. */
+  get accepted(): boolean {
+    return this._accepted;
+  }
+
+  /** Let the reader's credit for `credit` more chunks be used. */
+  grant(credit: number): void {
+    if (this.error || this.ended) return;
+    this._accepted = true;
+    this.credit += credit;
+    this.pump();
+  }
+
+  /** Fail the stream, e.g. because the reader cancelled or left. */
+  fail(error: Error): void {
+    if (this.error || this.ended) return;
+
+    this.error = error;
+    for (const part of this.queue.splice(0)) {
+      part.reject?.(error);
+    }
+    this.closing?.reject(error);
+    this.closing = null;
+    this.settleClosed(error);
+    this.host.close();
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /** Send queued chunks while credit lasts, then the end if closing. */
+  private pump(): void {
+    while (this.credit > 0) {
+      const part = this.queue.shift();
+      if (!part) break;
+      this.credit--;
+      const meta: SwarmStreamMeta = {
+        id: this.id,
+        kind: 'chunk',
+        seq: this.seq++,
+      };
+      if (part.partial) meta.partial = true;
+
+      this.sendFrame(meta, part.payload, part.transfer);
+      if (this.error) {
+        part.reject?.(this.error);
+        return;
+      }
+      part.resolve?.();
+    }
+
+    // The end waits for the reader's credit too, so that it cannot
+    // overtake an `open` frame that has to be sent again.
+    if (
+      this.closing &&
+      this.queue.length === 0 &&
+      this._accepted &&
+      !this.error
+    ) {
+      this.sendFrame({ id: this.id, kind: 'end', seq: this.seq });
+      if (this.error) return;
+
+      this.ended = true;
+      this.closing.resolve();
+      this.closing = null;
+      this.settleClosed();
+      this.host.close();
+    }
+  }
+
+  /** Fail the stream and tell the reader why. */
+  private cancel(error: SwarmRelayError): void {
+    if (this.error || this.ended) return;
+
+    this.fail(error);
+    try {
+      this.host.send(cancelMeta(this.id, error))?.catch(() => undefined);
+    } catch {
+      // The reader learns of it when it finds the writer gone.
+    }
+  }
+
+  private sendFrame(
+    meta: SwarmStreamMeta,
+    payload?: unknown,
+    transfer?: Transferable[]
+  ): void {
+    // The reader would otherwise wait for the lost frame forever.
+    const fail = (error: unknown) =>
+      this.cancel(
+        error instanceof SwarmRelayError
+          ? error
+          : new SwarmRelayError(
+              `Failed to send stream "${this.event}"`,
+              SwarmRelayErrorCode.SendFailed,
+              error instanceof Error ? error : undefined
+            )
+      );
+    try {
+      this.host.send(meta, payload, transfer)?.catch(fail);
+    } catch (error) {
+      fail(error);
+    }
+  }
+}
+
+/**
+ * Reading end of a stream, handed to the handler registered with
+ * `SwarmRelay.onStream()`.
+ *
+ * Iterate it with `for await` to receive the written chunks in order;
+ * iteration finishes once the writer closes the stream. Breaking out of
+ * the loop cancels the stream. If the writer aborts or leaves first,
+ * iteration throws a `StreamCancelled` error.
+ *
+ * @example
+ * ```typescript
+ * relay.onStream('report:rows', async (stream) => {
+ *   for await (const row of stream) {
+ *     table.append(row);
+ *   }
+ * });
+ * ```
+ */
+export class SwarmStream<T> implements AsyncIterable<T> {
+  /** Chunks ready to be read. */
+  private readonly values: T[] = [];
+  /** Parts of the value being put back together. */
+  private parts: unknown[] = [];
+  /** Frames that arrived ahead of those before them, by position. */
+  private readonly early = new Map<
+    number,
+    { meta: SwarmStreamMeta; payload: unknown }
+  >();
+  private readonly waiters: {
+    resolve: (result: IteratorResult<T, undefined>) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private readonly creditBatch: number;
+  private nextSeq = 0;
+  /** Credit for frames taken off the buffer, not yet granted again. */
+  private freed = 0;
+  private ended = false;
+  private cancelled = false;
+  private error: Error | null = null;
+
+  constructor(
+    readonly id: string,
+    readonly source: string,
+    readonly event: string,
+    private readonly highWaterMark: number,
+    private readonly host: StreamHost
+  ) {
+    this.creditBatch = Math.max(1, Math.floor(highWaterMark / 2));
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T, undefined> {
+    return {
+      next: () => this.read(),
+      return: () => {
+        this.cancel();
+        return Promise.resolve({ done: true, value: undefined });
+      },
+    };
+  }
+
+  /**
+   * Read the next chunk, waiting for the writer if none is buffered.
+   * Done once the writer closed the stream and every chunk was read, or
+   * once the stream was cancelled.
+   *
+   * @throws {SwarmRelayError} (as a rejection) `StreamCancelled` if the
+   *   writer aborted or left, `InvalidMessage` if a chunk failed its
+   *   schema, or `NotConnected` if this relay lost its connection.
+   */
+  read(): Promise<IteratorResult<T, undefined>> {
+    if (this.error) return Promise.reject(this.error);
+
+    if (this.values.length > 0) {
+      const value = this.values.shift() as T;
+      this.free(1);
+      return Promise.resolve({ done: false, value });
+    }
+    if (this.ended || this.cancelled) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Stop reading: buffered chunks are dropped, reads are done, and the
+   * writer's pending writes reject with a `StreamCancelled` error.
+   */
+  cancel(reason = 'Stream cancelled by the reader'): void {
+    if (this.cancelled || this.error) return;
+
+    this.cancelled = true;
+    this.values.length = 0;
+    this.parts = [];
+    this.early.clear();
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ done: true, value: undefined });
+    }
+    if (this.ended) return;
+
+    const error = new SwarmRelayError(
+      reason,
+      SwarmRelayErrorCode.StreamCancelled
+    );
+    this.sendFrame(cancelMeta(this.id, error));
+    this.host.close();
+  }
+
+  // ── Relay ────────────────────────────────────────────────
+
+  /** Grant the writer its initial credit. */
+  start(): void {
+    this.sendFrame({ id: this.id, kind: 'credit', credit: this.highWaterMark });
+  }
+
+  /** Take a chunk or end frame, in whatever order frames arrive. */
+  receive(meta: SwarmStreamMeta, payload: unknown): void {
+    const seq = meta.seq ?? -1;
+    if (this.finished || seq < this.nextSeq || this.early.has(seq)) return;
+
+    this.early.set(seq, { meta, payload });
+    for (
+      let frame = this.early.get(this.nextSeq);
+      frame && !this.finished;
+      frame = this.early.get(this.nextSeq)
+    ) {
+      this.early.delete(this.nextSeq);
+      this.nextSeq++;
+      if (frame.meta.kind === 'end') {
+        this.end();
+      } else {
+        this.take(frame.meta, frame.payload);
+      }
+    }
+  }
+
+  /** Fail the stream, e.g. because the writer aborted or left. */
+  fail(error: Error): void {
+    if (this.finished) return;
+
+    this.error = error;
+    this.values.length = 0;
+    this.parts = [];
+    this.early.clear();
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+    this.host.close();
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /** Whether the stream takes no more frames. */
+  private get finished(): boolean {
+    return this.ended || this.cancelled || this.error !== null;
+  }
+
+  private take(meta: SwarmStreamMeta, payload: unknown): void {
+    if (meta.partial) {
+      // Parts never wait to be read, so the writer can send the rest.
+      this.parts.push(payload);
+      this.free(1);
+      return;
+    }
+
+    let value = payload;
+    if (this.parts.length > 0) {
+      value = join([...this.parts, payload]);
+      this.parts = [];
+    }
+    try {
+      value = this.host.validate(value);
+    } catch (error) {
+      const relayError =
+        error instanceof SwarmRelayError
+          ? error
+          : new SwarmRelayError(
+              String(error),
+              SwarmRelayErrorCode.InvalidMessage
+            );
+      this.sendFrame(cancelMeta(this.id, relayError));
+      this.fail(relayError);
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.free(1);
+      waiter.resolve({ done: false, value: value as T });
+    } else {
+      this.values.push(value as T);
+    }
+  }
+
+  private end(): void {
+    this.ended = true;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ done: true, value: undefined });
+    }
+    this.host.close();
+  }
+
+  /** Grant credit again for `frames` taken off the buffer, in batches. */
+  private free(frames: number): void {
+    this.freed += frames;
+    if (this.freed < this.creditBatch || this.finished) return;
+
+    this.sendFrame({ id: this.id, kind: 'credit', credit: this.freed });
+    this.freed = 0;
+  }
+
+  private sendFrame(meta: SwarmStreamMeta): void {
+    try {
+      this.host.send(meta)?.catch(() => undefined);
+    } catch {
+      // The relay lost its connection; it fails the stream itself.
+    }
+  }
+}
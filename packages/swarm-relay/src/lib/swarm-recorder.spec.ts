@@ -0,0 +1,139 @@
+import { SwarmRecorder, parseRecording } from './swarm-recorder.js';
+import { SwarmRelay } from './swarm-relay.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+import { MockTransportAdapter } from './testing/mock-transport-adapter.js';
+
+type TestEvents = {
+  'cart:add': { sku: string };
+  'user:login': { userId: string };
+};
+
+function createSilentLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+describe('SwarmRecorder', () => {
+  let transport: MockTransportAdapter<TestEvents>;
+  let relay: SwarmRelay<TestEvents>;
+
+  function receive(id: string) {
+    transport.simulateMessage({
+      id,
+      source: 'auth',
+      event: 'user:login',
+      payload: { userId: id },
+      timestamp: 0,
+    });
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    transport = new MockTransportAdapter<TestEvents>();
+    relay = new SwarmRelay<TestEvents>({
+      clientId: 'cart',
+      transport,
+      logger: createSilentLogger(),
+    });
+    await relay.connect();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should capture inbound and outbound messages with timing', async () => {
+    const recorder = new SwarmRecorder(relay);
+    recorder.start();
+
+    receive('m1');
+    await vi.advanceTimersByTimeAsync(250);
+    relay.broadcast('cart:add', { sku: 'A1' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const recording = recorder.toJSON();
+    expect(recording).toMatchObject({
+      format: 'swarm-relay-recording',
+      version: 1,
+      clientId: 'cart',
+      startedAt: 1_000,
+    });
+    expect(
+      recording.entries.map((entry) => [
+        entry.direction,
+        entry.at,
+        entry.message.event,
+      ])
+    ).toEqual([
+      ['inbound', 0, 'user:login'],
+      ['outbound', 250, 'cart:add'],
+    ]);
+    expect(transport.sentMessages).toHaveLength(1);
+  });
+
+  it('should stop capturing and keep the recording', async () => {
+    const recorder = new SwarmRecorder(relay);
+    recorder.start();
+    receive('m1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    recorder.stop();
+    receive('m2');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(recorder.recording).toBe(false);
+    expect(recorder.size).toBe(1);
+    expect(transport.subscriptions).not.toContain('*');
+  });
+
+  it('should drop the oldest messages beyond maxEntries', async () => {
+    const recorder = new SwarmRecorder(relay, { maxEntries: 2 });
+    recorder.start();
+    receive('m1');
+    receive('m2');
+    receive('m3');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(recorder.toJSON().entries.map((entry) => entry.message.id)).toEqual([
+      'm2',
+      'm3',
+    ]);
+  });
+
+  it('should round-trip through JSON', async () => {
+    const recorder = new SwarmRecorder(relay);
+    recorder.start();
+    receive('m1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(parseRecording(JSON.stringify(recorder))).toEqual(recorder.toJSON());
+  });
+});
+
+describe('parseRecording', () => {
+  it.each([
+    ['invalid JSON', '{'],
+    ['another format', { format: 'har', entries: [] }],
+    [
+      'a newer version',
+      {
+        format: 'swarm-relay-recording',
+        version: 2,
+        clientId: 'cart',
+        startedAt: 0,
+        entries: [],
+      },
+    ],
+  ])('should reject %s', (_, input) => {
+    expect(() => parseRecording(input)).toThrow(
+      expect.objectContaining({
+        constructor: SwarmRelayError,
+        code: SwarmRelayErrorCode.InvalidMessage,
+      })
+    );
+  });
+});
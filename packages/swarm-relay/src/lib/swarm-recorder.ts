@@ -0,0 +1,193 @@
+import type { SwarmRelay } from './swarm-relay.js';
+import type { EventMap, SwarmMessage } from './types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+
+/** Identifies JSON produced by {@link SwarmRecorder}. */
+const RECORDING_FORMAT = 'swarm-relay-recording';
+
+/** Version of the recording format, bumped on incompatible changes. */
+const RECORDING_VERSION = 1;
+
+/**
+ * A message captured by {@link SwarmRecorder}.
+ */
+export interface RecordedMessage<TEventMap extends EventMap = EventMap> {
+  /** Whether the relay received (`inbound`) or sent (`outbound`) the message */
+  direction: 'inbound' | 'outbound';
+  /** Milliseconds between the start of the recording and the message */
+  at: number;
+  /** The envelope as it crossed the transport */
+  message: SwarmMessage<TEventMap>;
+}
+
+/**
+ * Portable recording of one relay's traffic, as produced by
+ * `SwarmRecorder.toJSON()` and played back by `ReplayTransport`.
+ */
+export interface SwarmRecording<TEventMap extends EventMap = EventMap> {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  /** Client ID of the recorded relay */
+  clientId: string;
+  /** Unix timestamp in milliseconds at which the recording started */
+  startedAt: number;
+  /** Captured messages, oldest first */
+  entries: RecordedMessage<TEventMap>[];
+}
+
+/**
+ * Configuration options for {@link SwarmRecorder}.
+ */
+export interface SwarmRecorderOptions {
+  /**
+   * Maximum number of messages to keep. Once reached, the oldest
+   * messages are discarded.
+   * @default 10000
+   */
+  maxEntries?: number;
+}
+
+/** Recorders work with a relay of any request map. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRelay<TEventMap extends EventMap> = SwarmRelay<TEventMap, any>;
+
+/**
+ * Captures every message a relay sends and receives, with timing, into a
+ * portable JSON recording that `ReplayTransport` can play back.
+ *
+ * The recorder is a middleware, so it sees messages at its place in the
+ * pipeline: start it after adding your own middleware to record messages
+ * as they cross the transport. While recording, the relay asks its hub for
+ * every event (see Subscription Routing).
+ *
+ * @example
+ * ```typescript
+ * const recorder = new SwarmRecorder(relay);
+ * recorder.start();
+ * // … reproduce the bug …
+ * recorder.stop();
+ * download(JSON.stringify(recorder));
+ * ```
+ */
+export class SwarmRecorder<TEventMap extends EventMap> {
+  private readonly entries: RecordedMessage<TEventMap>[] = [];
+  private readonly maxEntries: number;
+  private startedAt: number | null = null;
+  private removeMiddleware: (() => void) | null = null;
+
+  constructor(
+    private readonly relay: AnyRelay<TEventMap>,
+    options: SwarmRecorderOptions = {}
+  ) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+  }
+
+  /** Whether the recorder is currently capturing messages. */
+  get recording(): boolean {
+    return this.removeMiddleware !== null;
+  }
+
+  /** Number of messages captured so far. */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Start (or resume) capturing messages. Resuming keeps the original
+   * start time, so the pause shows up as a gap in the recording.
+   */
+  start(): void {
+    if (this.removeMiddleware) return;
+
+    this.startedAt ??= Date.now();
+    this.removeMiddleware = this.relay.use({
+      name: 'swarm-recorder',
+      outbound: (message) => this.capture('outbound', message),
+      inbound: (message) => this.capture('inbound', message),
+    });
+  }
+
+  /** Stop capturing messages. The recording is kept. */
+  stop(): void {
+    this.removeMiddleware?.();
+    this.removeMiddleware = null;
+  }
+
+  /** Discard the captured messages; the next `start()` begins a new recording. */
+  clear(): void {
+    this.entries.length = 0;
+    this.startedAt = this.recording ? Date.now() : null;
+  }
+
+  /** The recording so far. Called by `JSON.stringify(recorder)`. */
+  toJSON(): SwarmRecording<TEventMap> {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      clientId: this.relay.id,
+      startedAt: this.startedAt ?? Date.now(),
+      entries: [...this.entries],
+    };
+  }
+
+  private capture(
+    direction: RecordedMessage['direction'],
+    message: SwarmMessage<TEventMap>
+  ): SwarmMessage<TEventMap> {
+    this.entries.push({
+      direction,
+      at: Date.now() - (this.startedAt ?? Date.now()),
+      message,
+    });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+    return message;
+  }
+}
+
+/**
+ * Read a recording produced by {@link SwarmRecorder}, e.g. one attached to
+ * a bug report.
+ *
+ * @param input - The recording, or its JSON text.
+ * @throws {SwarmRelayError} `InvalidMessage` if `input` is not a recording
+ *   of a supported version.
+ */
+export function parseRecording<TEventMap extends EventMap = EventMap>(
+  input: unknown
+): SwarmRecording<TEventMap> {
+  let recording: Partial<SwarmRecording<TEventMap>> | null = null;
+  try {
+    recording = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch (error) {
+    throw new SwarmRelayError(
+      'Recording is not valid JSON',
+      SwarmRelayErrorCode.InvalidMessage,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (
+    typeof recording !== 'object' ||
+    recording === null ||
+    recording.format !== RECORDING_FORMAT ||
+    typeof recording.clientId !== 'string' ||
+    typeof recording.startedAt !== 'number' ||
+    !Array.isArray(recording.entries)
+  ) {
+    throw new SwarmRelayError(
+      'Not a SwarmRelay recording',
+      SwarmRelayErrorCode.InvalidMessage
+    );
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new SwarmRelayError(
+      `Unsupported recording version ${recording.version}; ` +
+        `expected ${RECORDING_VERSION}`,
+      SwarmRelayErrorCode.InvalidMessage
+    );
+  }
+
+  return recording as SwarmRecording<TEventMap>;
+}
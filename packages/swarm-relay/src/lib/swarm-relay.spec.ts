@@ -1,12 +1,26 @@
 import { SwarmRelay } from './swarm-relay.js';
-import { ConnectionState } from './types.js';
-import { SwarmRelayError } from './errors.js';
+import {
+  ConnectionState,
+  type DeliveryStatus,
+  type InspectorUpdate,
+} from './types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
 import { MockTransportAdapter } from './testing/mock-transport-adapter.js';
+import { PROTOCOL_VERSION } from './protocol.js';
+import type { SwarmStream } from './stream.js';
 
 type TestEvents = {
   'user:login': { userId: string };
   'user:logout': { reason: string };
   'data:update': { key: string; value: number };
+  'file:upload': { name: string; data: ArrayBuffer };
+  'log:line': { text: string };
+  'file:chunk': ArrayBuffer;
+};
+
+type TestRequests = {
+  'user:current': { request: void; response: { userId: string } };
+  'math:double': { request: number; response: number };
 };
 
 function createSilentLogger() {
@@ -318,6 +332,2129 @@ describe('SwarmRelay', () => {
     });
   });
 
+  describe('onPattern / offPattern', () => {
+    function simulate(id: string, event: keyof TestEvents, payload: unknown) {
+      transport.simulateMessage({
+        id,
+        source: 'other',
+        event,
+        payload: payload as never,
+        timestamp: Number(id),
+      });
+    }
+
+    it('should receive every event in a namespace', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.onPattern('user:*', handler);
+
+      simulate('1', 'user:login', { userId: 'u1' });
+      simulate('2', 'data:update', { key: 'k', value: 1 });
+      simulate('3', 'user:logout', { reason: 'bye' });
+
+      expect(handler.mock.calls.map(([payload]) => payload)).toEqual([
+        { userId: 'u1' },
+        { reason: 'bye' },
+      ]);
+    });
+
+    it('should match exact names and "*"', async () => {
+      await relay.connect();
+      const exact = vi.fn();
+      const all = vi.fn();
+      relay.onPattern('user:login', exact);
+      relay.onPattern('*', all);
+
+      simulate('1', 'user:login', { userId: 'u1' });
+      simulate('2', 'user:logout', { reason: 'bye' });
+
+      expect(exact).toHaveBeenCalledTimes(1);
+      expect(all).toHaveBeenCalledTimes(2);
+    });
+
+    it('should type the payload as the union of matching events', () => {
+      relay.onPattern('user:*', (payload, message) => {
+        expectTypeOf(payload).toEqualTypeOf<
+          { userId: string } | { reason: string }
+        >();
+        if (message.event === 'user:login') {
+          expectTypeOf(message.payload).toEqualTypeOf<{ userId: string }>();
+        }
+      });
+
+      // @ts-expect-error — no events in the "cart:" namespace
+      relay.onPattern('cart:*', vi.fn());
+    });
+
+    it('should unsubscribe via the cleanup function and offPattern()', async () => {
+      await relay.connect();
+      const first = vi.fn();
+      const second = vi.fn();
+      const unsubscribe = relay.onPattern('user:*', first);
+      relay.onPattern('user:*', second);
+
+      unsubscribe();
+      relay.offPattern('user:*', second);
+      simulate('1', 'user:login', { userId: 'u1' });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should list the last retained messages matching a pattern', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        retain: ['user:login', 'user:logout', 'data:update'],
+      });
+      await relay.connect();
+
+      simulate('2', 'user:logout', { reason: 'bye' });
+      simulate('1', 'user:login', { userId: 'u1' });
+      simulate('3', 'data:update', { key: 'k', value: 1 });
+
+      expect(relay.getLastMessages('user:*').map((m) => m.event)).toEqual([
+        'user:login',
+        'user:logout',
+      ]);
+    });
+  });
+
+  describe('subscription routing', () => {
+    it('should announce its subscriptions once connected', async () => {
+      relay.on('user:login', vi.fn());
+      relay.onPattern('data:*', vi.fn());
+
+      await relay.connect();
+
+      expect(transport.subscriptions).toEqual(['data:*', 'user:login']);
+    });
+
+    it('should batch updates as handlers come and go', async () => {
+      await relay.connect();
+      const setSubscriptions = vi.spyOn(transport, 'setSubscriptions');
+
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+      relay.on('user:logout', vi.fn());
+      await Promise.resolve();
+      relay.off('user:login', handler);
+      await Promise.resolve();
+
+      expect(setSubscriptions.mock.calls).toEqual([
+        [['user:login', 'user:logout']],
+        [['user:logout']],
+      ]);
+    });
+
+    it('should include retained events', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        retain: ['user:login'],
+      });
+
+      await relay.connect();
+
+      expect(transport.subscriptions).toEqual(['user:login']);
+    });
+
+    it('should ask for everything while wildcard handlers or inbound middleware exist', async () => {
+      await relay.connect();
+
+      const unsubscribe = relay.onAny(vi.fn());
+      await Promise.resolve();
+      expect(transport.subscriptions).toEqual(['*']);
+
+      unsubscribe();
+      relay.use({ inbound: (message) => message });
+      await Promise.resolve();
+      expect(transport.subscriptions).toEqual(['*']);
+    });
+
+    it('should announce again after reconnecting', async () => {
+      relay.on('user:login', vi.fn());
+      await relay.connect();
+      transport.subscriptions = null;
+
+      relay.disconnect();
+      relay.on('user:logout', vi.fn());
+      await relay.connect();
+
+      expect(transport.subscriptions).toEqual(['user:logout']);
+    });
+  });
+
+  // ── Request / Response ───────────────────────────────────
+
+  describe('request / handle', () => {
+    let rpcRelay: SwarmRelay<TestEvents, TestRequests>;
+
+    beforeEach(async () => {
+      rpcRelay = new SwarmRelay<TestEvents, TestRequests>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+      });
+      await rpcRelay.connect();
+    });
+
+    it('should send a request envelope to the target', async () => {
+      void rpcRelay.request('shell', 'math:double', 21).catch(() => undefined);
+
+      expect(transport.sentMessages).toHaveLength(1);
+      expect(transport.sentMessages[0]).toMatchObject({
+        source: 'test-app',
+        target: 'shell',
+        event: 'math:double',
+        payload: 21,
+        rpc: { kind: 'request' },
+      });
+      rpcRelay.disconnect();
+    });
+
+    it('should resolve with the matching response payload', async () => {
+      const pending = rpcRelay.request('shell', 'user:current', undefined);
+      const request = transport.sentMessages[0];
+
+      transport.simulateMessage({
+        id: 'r1',
+        source: 'shell',
+        target: 'test-app',
+        event: 'user:current' as keyof TestEvents,
+        payload: { userId: 'u1' } as never,
+        timestamp: Date.now(),
+        rpc: { kind: 'response', requestId: request.id },
+      });
+
+      await expect(pending).resolves.toEqual({ userId: 'u1' });
+    });
+
+    it('should reject with the responder error code', async () => {
+      const pending = rpcRelay.request('shell', 'user:current', undefined);
+      const request = transport.sentMessages[0];
+
+      transport.simulateMessage({
+        id: 'r1',
+        source: 'shell',
+        event: 'user:current' as keyof TestEvents,
+        payload: undefined as never,
+        timestamp: Date.now(),
+        rpc: {
+          kind: 'response',
+          requestId: request.id,
+          error: { message: 'nope', code: SwarmRelayErrorCode.NoResponder },
+        },
+      });
+
+      await expect(pending).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NoResponder,
+      });
+    });
+
+    it('should reject with RequestTimeout when no response arrives', async () => {
+      vi.useFakeTimers();
+      try {
+        const pending = rpcRelay.request('shell', 'math:double', 2, {
+          timeout: 100,
+        });
+        vi.advanceTimersByTime(100);
+        await expect(pending).rejects.toMatchObject({
+          code: SwarmRelayErrorCode.RequestTimeout,
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject pending requests on disconnect', async () => {
+      const pending = rpcRelay.request('shell', 'math:double', 2);
+      rpcRelay.disconnect();
+      await expect(pending).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NotConnected,
+      });
+    });
+
+    it('should reject when not connected', async () => {
+      rpcRelay.disconnect();
+      await expect(
+        rpcRelay.request('shell', 'math:double', 2)
+      ).rejects.toBeInstanceOf(SwarmRelayError);
+    });
+
+    it('should answer requests with the registered responder', async () => {
+      rpcRelay.handle('math:double', async (n) => n * 2);
+
+      transport.simulateMessage({
+        id: 'q1',
+        source: 'cart',
+        target: 'test-app',
+        event: 'math:double' as keyof TestEvents,
+        payload: 4 as never,
+        timestamp: Date.now(),
+        rpc: { kind: 'request' },
+      });
+
+      await vi.waitFor(() => expect(transport.sentMessages).toHaveLength(1));
+      expect(transport.sentMessages[0]).toMatchObject({
+        target: 'cart',
+        payload: 8,
+        rpc: { kind: 'response', requestId: 'q1' },
+      });
+    });
+
+    it('should answer NoResponder when no responder is registered', () => {
+      transport.simulateMessage({
+        id: 'q1',
+        source: 'cart',
+        event: 'user:current' as keyof TestEvents,
+        payload: undefined as never,
+        timestamp: Date.now(),
+        rpc: { kind: 'request' },
+      });
+
+      expect(transport.sentMessages[0].rpc).toMatchObject({
+        kind: 'response',
+        requestId: 'q1',
+        error: { code: SwarmRelayErrorCode.NoResponder },
+      });
+    });
+
+    it('should answer RequestFailed when the responder throws', async () => {
+      rpcRelay.handle('math:double', () => {
+        throw new Error('boom');
+      });
+
+      transport.simulateMessage({
+        id: 'q1',
+        source: 'cart',
+        event: 'math:double' as keyof TestEvents,
+        payload: 1 as never,
+        timestamp: Date.now(),
+        rpc: { kind: 'request' },
+      });
+
+      await vi.waitFor(() => expect(transport.sentMessages).toHaveLength(1));
+      expect(transport.sentMessages[0].rpc?.error).toEqual({
+        message: 'boom',
+        code: SwarmRelayErrorCode.RequestFailed,
+      });
+    });
+
+    it('should not deliver RPC envelopes to event subscribers', () => {
+      const wildcard = vi.fn();
+      rpcRelay.onAny(wildcard);
+      rpcRelay.handle('math:double', (n) => n);
+
+      transport.simulateMessage({
+        id: 'q1',
+        source: 'cart',
+        event: 'math:double' as keyof TestEvents,
+        payload: 1 as never,
+        timestamp: Date.now(),
+        rpc: { kind: 'request' },
+      });
+
+      expect(wildcard).not.toHaveBeenCalled();
+    });
+
+    it('should stop responding after the cleanup function runs', () => {
+      const stop = rpcRelay.handle('math:double', (n) => n);
+      stop();
+
+      transport.simulateMessage({
+        id: 'q1',
+        source: 'cart',
+        event: 'math:double' as keyof TestEvents,
+        payload: 1 as never,
+        timestamp: Date.now(),
+        rpc: { kind: 'request' },
+      });
+
+      expect(transport.sentMessages[0].rpc?.error?.code).toBe(
+        SwarmRelayErrorCode.NoResponder
+      );
+    });
+  });
+
+  // ── Acknowledgements ─────────────────────────────────────
+
+  describe('send with ack', () => {
+    function receipt(messageId: string, status: DeliveryStatus) {
+      transport.simulateMessage({
+        id: `${messageId}:${status}`,
+        source: 'cart',
+        target: 'test-app',
+        event: 'user:login',
+        payload: undefined as never,
+        timestamp: Date.now(),
+        ack: { kind: 'receipt', messageId, status },
+      });
+    }
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      await relay.connect();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should resolve once the target confirms the message', async () => {
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        {
+          ack: true,
+        }
+      );
+      const message = transport.sentMessages[0];
+      expect(message.ack).toEqual({ kind: 'request' });
+
+      receipt(message.id, 'delivered');
+      receipt(message.id, 'handled');
+
+      await expect(sent).resolves.toBeUndefined();
+    });
+
+    it('should send again with the same id until retries run out', async () => {
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        {
+          ack: true,
+          ackTimeout: 100,
+          retries: 2,
+        }
+      );
+      const rejected = expect(sent).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.DeliveryTimeout,
+      });
+
+      await vi.advanceTimersByTimeAsync(300);
+
+      await rejected;
+      const ids = transport.sentMessages.map((m) => m.id);
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids).size).toBe(1);
+    });
+
+    it('should keep trying an unknown target until the last attempt', async () => {
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        {
+          ack: true,
+          ackTimeout: 100,
+          retries: 1,
+        }
+      );
+      const rejected = expect(sent).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.UnknownTarget,
+      });
+      const { id } = transport.sentMessages[0];
+
+      receipt(id, 'unknown-target');
+      await vi.advanceTimersByTimeAsync(100);
+      expect(transport.sentMessages).toHaveLength(2);
+
+      receipt(id, 'unknown-target');
+      await rejected;
+    });
+
+    it('should reject at once when the target cannot confirm', async () => {
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        {
+          ack: true,
+        }
+      );
+
+      receipt(transport.sentMessages[0].id, 'protocol-mismatch');
+
+      await expect(sent).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ProtocolMismatch,
+      });
+    });
+
+    it('should reject pending sends on disconnect', async () => {
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        {
+          ack: true,
+        }
+      );
+      relay.disconnect();
+
+      await expect(sent).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NotConnected,
+      });
+    });
+
+    it('should stop the clock while reconnecting and send again once reconnected', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 2, initialDelay: 1000, jitter: 0 },
+      });
+      await relay.connect();
+      const connect = vi
+        .spyOn(transport, 'connect')
+        .mockRejectedValueOnce(new Error('hub unavailable'));
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        { ack: true, ackTimeout: 100, retries: 0 }
+      );
+
+      transport.simulateConnectionLoss(new Error('socket closed'));
+      expect(relay.state).toBe(ConnectionState.Reconnecting);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(relay.state).toBe(ConnectionState.Connected);
+
+      const [first, again] = transport.sentMessages;
+      expect(again.id).toBe(first.id);
+      receipt(first.id, 'handled');
+      await expect(sent).resolves.toBeUndefined();
+    });
+
+    it('should send again as the ID the hub registered after reconnecting', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 1, initialDelay: 1000, jitter: 0 },
+      });
+      await relay.connect({ onConflict: 'suffix' });
+      const sent = relay.send(
+        'cart',
+        'user:login',
+        { userId: 'u1' },
+        { ack: true, ackTimeout: 100, retries: 0 }
+      );
+
+      transport.registeredId = 'test-app#2';
+      transport.simulateConnectionLoss(new Error('socket closed'));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(relay.state).toBe(ConnectionState.Connected);
+
+      const again = transport.sentMessages.at(-1);
+      expect(again?.source).toBe('test-app#2');
+      receipt(again?.id ?? '', 'handled');
+      await expect(sent).resolves.toBeUndefined();
+    });
+
+    it('should confirm received messages and handle copies once', () => {
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+      const message = {
+        id: 'm1',
+        source: 'cart',
+        target: 'test-app',
+        event: 'user:login' as const,
+        payload: { userId: 'u1' },
+        timestamp: Date.now(),
+        ack: { kind: 'request' as const },
+      };
+
+      transport.simulateMessage(message);
+      transport.simulateMessage(message);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(transport.sentMessages).toHaveLength(2);
+      for (const sent of transport.sentMessages) {
+        expect(sent).toMatchObject({
+          target: 'cart',
+          ack: { kind: 'receipt', messageId: 'm1', status: 'handled' },
+        });
+      }
+    });
+
+    it('should not deliver receipts to event subscribers', () => {
+      const wildcard = vi.fn();
+      relay.onAny(wildcard);
+
+      receipt('unknown', 'handled');
+
+      expect(wildcard).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Reconnection ─────────────────────────────────────────
+
+  describe('reconnect', () => {
+    function createReconnectingRelay(onStateChange = vi.fn()) {
+      return new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        onStateChange,
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+    }
+
+    it('should retry a failed connect and end up Connected', async () => {
+      const onStateChange = vi.fn();
+      relay = createReconnectingRelay(onStateChange);
+      const connectSpy = vi
+        .spyOn(transport, 'connect')
+        .mockRejectedValueOnce(new Error('handshake timed out'));
+
+      await relay.connect();
+
+      expect(relay.state).toBe(ConnectionState.Connected);
+      expect(connectSpy).toHaveBeenCalledTimes(2);
+      expect(onStateChange).toHaveBeenCalledWith(ConnectionState.Reconnecting);
+    });
+
+    it('should give up with Error after maxAttempts', async () => {
+      const onError = vi.fn();
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        onError,
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      transport.connectError = new Error('nope');
+      const connectSpy = vi.spyOn(transport, 'connect');
+
+      await expect(relay.connect()).rejects.toBeInstanceOf(SwarmRelayError);
+      expect(connectSpy).toHaveBeenCalledTimes(3);
+      expect(relay.state).toBe(ConnectionState.Error);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a protocol mismatch', async () => {
+      relay = createReconnectingRelay();
+      transport.connectError = new SwarmRelayError(
+        'Hub speaks protocol 3-4',
+        SwarmRelayErrorCode.ProtocolMismatch
+      );
+      const connectSpy = vi.spyOn(transport, 'connect');
+
+      await expect(relay.connect()).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ProtocolMismatch,
+      });
+      expect(connectSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when no policy is configured', async () => {
+      transport.connectError = new Error('nope');
+      const connectSpy = vi.spyOn(transport, 'connect');
+
+      await expect(relay.connect()).rejects.toThrow();
+      expect(connectSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reconnect after the transport reports a lost connection', async () => {
+      const onStateChange = vi.fn();
+      relay = createReconnectingRelay(onStateChange);
+      await relay.connect();
+
+      transport.simulateConnectionLoss(new Error('worker crashed'));
+      expect(relay.state).toBe(ConnectionState.Reconnecting);
+
+      await vi.waitFor(() =>
+        expect(relay.state).toBe(ConnectionState.Connected)
+      );
+      expect(transport.disconnectCalled).toBe(true);
+    });
+
+    it('should keep on() subscriptions across a reconnect', async () => {
+      relay = createReconnectingRelay();
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      transport.simulateConnectionLoss(new Error('worker crashed'));
+      await vi.waitFor(() =>
+        expect(relay.state).toBe(ConnectionState.Connected)
+      );
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'other',
+        event: 'user:login',
+        payload: { userId: 'u1' },
+        timestamp: Date.now(),
+      });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying once disconnect() is called', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 5, initialDelay: 100, jitter: 0 },
+      });
+      transport.connectError = new Error('nope');
+      const connectSpy = vi.spyOn(transport, 'connect');
+
+      const pending = relay.connect();
+      await vi.waitFor(
+        () => expect(relay.state).toBe(ConnectionState.Reconnecting),
+        { interval: 1 }
+      );
+      relay.disconnect();
+      await pending;
+
+      expect(connectSpy).toHaveBeenCalledTimes(1);
+      expect(relay.state).toBe(ConnectionState.Disconnected);
+    });
+  });
+
+  describe('client ID conflicts', () => {
+    it('should pass the conflict policy to the transport', async () => {
+      await relay.connect({ onConflict: 'reject' });
+      expect(transport.connectOptions?.onConflict).toBe('reject');
+    });
+
+    it('should adopt the ID the hub registered', async () => {
+      transport.registeredId = 'test-app#2';
+      await relay.connect({ onConflict: 'suffix' });
+
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      expect(relay.id).toBe('test-app#2');
+      expect(transport.sentMessages[0].source).toBe('test-app#2');
+    });
+
+    it('should not retry a rejected client ID', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      transport.connectError = new SwarmRelayError(
+        'Client ID "test-app" is already registered',
+        SwarmRelayErrorCode.ClientIdConflict
+      );
+      const connectSpy = vi.spyOn(transport, 'connect');
+
+      await expect(relay.connect()).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ClientIdConflict,
+      });
+      expect(connectSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move to Error without reconnecting when evicted', async () => {
+      const onError = vi.fn();
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        onError,
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      await relay.connect();
+      const connectSpy = vi.spyOn(transport, 'connect');
+
+      transport.simulateConnectionLoss(
+        new SwarmRelayError(
+          'Evicted by the hub',
+          SwarmRelayErrorCode.ClientIdConflict
+        )
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(relay.state).toBe(ConnectionState.Error);
+      expect(transport.disconnectCalled).toBe(true);
+      expect(connectSpy).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: SwarmRelayErrorCode.ClientIdConflict })
+      );
+    });
+  });
+
+  // ── Outbox ───────────────────────────────────────────────
+
+  describe('outbox', () => {
+    /** Hold the transport in the Connecting phase until `release()` runs. */
+    function holdConnect() {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const connect = transport.connect.bind(transport);
+      vi.spyOn(transport, 'connect').mockImplementation(
+        async (clientId, options) => {
+          await gate;
+          return connect(clientId, options);
+        }
+      );
+      return () => release();
+    }
+
+    it('should queue sends while connecting and flush them in order', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: true,
+      });
+      const release = holdConnect();
+      const connecting = relay.connect();
+
+      relay.broadcast('user:login', { userId: 'u1' });
+      relay.send('shell', 'data:update', { key: 'k', value: 1 });
+      expect(transport.sentMessages).toHaveLength(0);
+
+      release();
+      await connecting;
+
+      expect(transport.sentMessages.map((m) => m.event)).toEqual([
+        'user:login',
+        'data:update',
+      ]);
+      expect(transport.sentMessages[1].target).toBe('shell');
+    });
+
+    it('should send queued messages as the suffixed ID the hub registered', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: true,
+      });
+      transport.registeredId = 'test-app#2';
+      const release = holdConnect();
+      const connecting = relay.connect({ onConflict: 'suffix' });
+
+      relay.broadcast('user:login', { userId: 'u1' });
+      relay.send('shell', 'data:update', { key: 'k', value: 1 });
+      release();
+      await connecting;
+
+      expect(transport.sentMessages.map((m) => m.source)).toEqual([
+        'test-app#2',
+        'test-app#2',
+      ]);
+    });
+
+    it('should keep the transfer list of queued messages', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: true,
+      });
+      const release = holdConnect();
+      const connecting = relay.connect();
+      const data = new ArrayBuffer(8);
+
+      relay.send(
+        'storage',
+        'file:upload',
+        { name: 'a.bin', data },
+        { transfer: [data] }
+      );
+      release();
+      await connecting;
+
+      const [message] = transport.sentMessages;
+      expect(transport.sentTransfers.get(message.id)).toEqual([data]);
+    });
+
+    it('should still throw NotConnected when no outbox is configured', () => {
+      holdConnect();
+      void relay.connect();
+
+      expect(() => relay.broadcast('user:login', { userId: 'u1' })).toThrow(
+        SwarmRelayError
+      );
+    });
+
+    it('should throw NotConnected when disconnected even with an outbox', () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: true,
+      });
+
+      expect(() => relay.broadcast('user:login', { userId: 'u1' })).toThrow(
+        SwarmRelayError
+      );
+    });
+
+    it('should apply the overflow policy', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: { maxSize: 1, overflow: 'throw' },
+      });
+      const release = holdConnect();
+      const connecting = relay.connect();
+
+      relay.broadcast('user:login', { userId: 'u1' });
+      expect(() => relay.broadcast('user:login', { userId: 'u2' })).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.OutboxFull })
+      );
+
+      release();
+      await connecting;
+      expect(transport.sentMessages).toHaveLength(1);
+    });
+
+    it('should reject a send with ack when the outbox is full', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: { maxSize: 1, overflow: 'throw' },
+      });
+      holdConnect();
+      void relay.connect();
+
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      await expect(
+        relay.send('cart', 'user:login', { userId: 'u2' }, { ack: true })
+      ).rejects.toMatchObject({ code: SwarmRelayErrorCode.OutboxFull });
+    });
+
+    it('should queue a send with ack once and time it from the connection', async () => {
+      vi.useFakeTimers();
+      try {
+        relay = new SwarmRelay<TestEvents>({
+          clientId: 'test-app',
+          transport,
+          logger: createSilentLogger(),
+          outbox: true,
+        });
+        const release = holdConnect();
+        const connecting = relay.connect();
+
+        const sent = relay.send(
+          'cart',
+          'user:login',
+          { userId: 'u1' },
+          { ack: true, ackTimeout: 100, retries: 1 }
+        );
+        const rejected = expect(sent).rejects.toMatchObject({
+          code: SwarmRelayErrorCode.DeliveryTimeout,
+        });
+        await vi.advanceTimersByTimeAsync(1000);
+
+        release();
+        await connecting;
+        expect(transport.sentMessages).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(transport.sentMessages).toHaveLength(2);
+
+        await vi.advanceTimersByTimeAsync(100);
+        await rejected;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should discard queued messages on disconnect', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        outbox: true,
+      });
+      const release = holdConnect();
+      const connecting = relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      relay.disconnect();
+      release();
+      await connecting;
+
+      expect(transport.sentMessages).toHaveLength(0);
+    });
+  });
+
+  // ── De-duplication ───────────────────────────────────────
+
+  describe('de-duplication', () => {
+    function receive(id: string) {
+      transport.simulateMessage({
+        id,
+        source: 'other',
+        event: 'user:login',
+        payload: { userId: id },
+        timestamp: Date.now(),
+      });
+    }
+
+    it('should handle a message received twice only once', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      receive('m1');
+      receive('m1');
+      receive('m2');
+
+      expect(handler.mock.calls.map(([payload]) => payload.userId)).toEqual([
+        'm1',
+        'm2',
+      ]);
+    });
+
+    it('should remember IDs across a reconnect', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      receive('m1');
+      relay.disconnect();
+      await relay.connect();
+      receive('m1');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle every copy with dedupe disabled', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        dedupe: false,
+      });
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      receive('m1');
+      receive('m1');
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should generate a UUID for each message where available', async () => {
+      await relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      const [first, second] = transport.sentMessages.map((m) => m.id);
+      expect(first).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-/);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  // ── Protocol versioning ──────────────────────────────────
+
+  describe('protocol versioning', () => {
+    it('should stamp outgoing envelopes with the protocol version', async () => {
+      await relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      expect(transport.sentMessages[0].version).toBe(PROTOCOL_VERSION);
+    });
+
+    it('should deliver unversioned envelopes from older builds', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'old-app',
+        event: 'user:login',
+        payload: { userId: 'u1' },
+        timestamp: Date.now(),
+      });
+
+      expect(handler).toHaveBeenCalledWith(
+        { userId: 'u1' },
+        expect.objectContaining({ version: 1 })
+      );
+    });
+
+    it('should report its own version when the transport negotiates none', () => {
+      expect(relay.protocolVersion).toBe(PROTOCOL_VERSION);
+    });
+  });
+
+  // ── Payload validation ───────────────────────────────────
+
+  describe('payload validation', () => {
+    const loginSchema = {
+      parse(input: unknown): { userId: string } {
+        const value = input as { userId?: unknown };
+        if (typeof value?.userId !== 'string') {
+          throw new TypeError('userId must be a string');
+        }
+        return { userId: value.userId };
+      },
+    };
+    let onError: ReturnType<typeof vi.fn<(error: Error) => void>>;
+
+    beforeEach(() => {
+      onError = vi.fn<(error: Error) => void>();
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        onError,
+        schemas: {
+          'user:login': loginSchema,
+          'data:update': (input) => {
+            const value = input as TestEvents['data:update'];
+            if (!Number.isFinite(value.value)) {
+              throw new RangeError('value must be finite');
+            }
+            return value;
+          },
+        },
+      });
+    });
+
+    it('should send payloads that pass their schema', async () => {
+      await relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      expect(transport.sentMessages[0].payload).toEqual({ userId: 'u1' });
+    });
+
+    it('should send the parsed payload', async () => {
+      await relay.connect();
+      relay.send('other', 'user:login', {
+        userId: 'u1',
+        extra: true,
+      } as TestEvents['user:login']);
+
+      expect(transport.sentMessages[0].payload).toEqual({ userId: 'u1' });
+    });
+
+    it('should throw InvalidMessage for invalid outgoing payloads', async () => {
+      await relay.connect();
+      const bad = { userId: 42 } as unknown as TestEvents['user:login'];
+
+      expect(() => relay.broadcast('user:login', bad)).toThrow(
+        expect.objectContaining({
+          code: SwarmRelayErrorCode.InvalidMessage,
+          cause: expect.any(TypeError),
+        })
+      );
+      expect(transport.sentMessages).toHaveLength(0);
+    });
+
+    it('should accept parse functions as schemas', async () => {
+      await relay.connect();
+
+      expect(() =>
+        relay.broadcast('data:update', { key: 'k', value: Infinity })
+      ).toThrow(SwarmRelayError);
+    });
+
+    it('should not validate events without a schema', async () => {
+      await relay.connect();
+      relay.broadcast('user:logout', {} as TestEvents['user:logout']);
+
+      expect(transport.sentMessages).toHaveLength(1);
+    });
+
+    it('should drop invalid incoming payloads and report them', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'other',
+        event: 'user:login',
+        payload: { userId: null } as unknown as TestEvents['user:login'],
+        timestamp: Date.now(),
+      });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: SwarmRelayErrorCode.InvalidMessage })
+      );
+    });
+
+    it('should deliver the parsed incoming payload', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+
+      transport.simulateMessage({
+        id: '1',
+        source: 'other',
+        event: 'user:login',
+        payload: { userId: 'u1', stale: 1 } as TestEvents['user:login'],
+        timestamp: Date.now(),
+      });
+
+      expect(handler).toHaveBeenCalledWith(
+        { userId: 'u1' },
+        expect.objectContaining({ source: 'other' })
+      );
+    });
+  });
+
+  // ── Middleware ───────────────────────────────────────────
+
+  describe('middleware', () => {
+    function incoming(event: keyof TestEvents, payload: unknown) {
+      return {
+        id: `in-${event}`,
+        source: 'other',
+        event,
+        payload: payload as TestEvents[typeof event],
+        timestamp: Date.now(),
+      };
+    }
+
+    it('should transform outgoing messages before they are sent', async () => {
+      await relay.connect();
+      relay.use({
+        outbound: (message) => ({
+          ...message,
+          payload: { ...message.payload, traceId: 't-1' },
+        }),
+      });
+
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      await vi.waitFor(() =>
+        expect(transport.sentMessages[0]?.payload).toEqual({
+          userId: 'u1',
+          traceId: 't-1',
+        })
+      );
+    });
+
+    it('should drop outgoing messages when a hook returns null', async () => {
+      await relay.connect();
+      const later = vi.fn((message) => message);
+      relay.use({ outbound: () => null });
+      relay.use({ outbound: later });
+
+      relay.broadcast('user:login', { userId: 'u1' });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.sentMessages).toHaveLength(0);
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('should keep send order with async hooks', async () => {
+      await relay.connect();
+      relay.use({
+        outbound: async (message) => {
+          const delay = message.event === 'user:login' ? 20 : 0;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return message;
+        },
+      });
+
+      relay.broadcast('user:login', { userId: 'u1' });
+      relay.broadcast('user:logout', { reason: 'bye' });
+
+      await vi.waitFor(() => expect(transport.sentMessages).toHaveLength(2));
+      expect(transport.sentMessages.map((m) => m.event)).toEqual([
+        'user:login',
+        'user:logout',
+      ]);
+    });
+
+    it('should run outbound hooks in order and inbound hooks in reverse', async () => {
+      await relay.connect();
+      const calls: string[] = [];
+      for (const name of ['a', 'b']) {
+        relay.use({
+          name,
+          outbound: (message) => (calls.push(`out:${name}`), message),
+          inbound: (message) => (calls.push(`in:${name}`), message),
+        });
+      }
+
+      relay.broadcast('user:login', { userId: 'u1' });
+      transport.simulateMessage(incoming('user:logout', { reason: 'x' }));
+
+      await vi.waitFor(() => expect(calls).toHaveLength(4));
+      expect(calls.filter((call) => call.startsWith('out'))).toEqual([
+        'out:a',
+        'out:b',
+      ]);
+      expect(calls.filter((call) => call.startsWith('in'))).toEqual([
+        'in:b',
+        'in:a',
+      ]);
+    });
+
+    it('should enrich or drop incoming messages before dispatch', async () => {
+      await relay.connect();
+      const handler = vi.fn();
+      relay.on('user:login', handler);
+      relay.on('user:logout', handler);
+      relay.use({
+        inbound: async (message) =>
+          message.event === 'user:logout'
+            ? null
+            : { ...message, payload: { userId: 'redacted' } },
+      });
+
+      transport.simulateMessage(incoming('user:logout', { reason: 'x' }));
+      transport.simulateMessage(incoming('user:login', { userId: 'secret' }));
+
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+      expect(handler).toHaveBeenCalledWith(
+        { userId: 'redacted' },
+        expect.anything()
+      );
+    });
+
+    it('should report a throwing hook and drop the message', async () => {
+      const onError = vi.fn<(error: Error) => void>();
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        onError,
+      });
+      await relay.connect();
+      relay.use({
+        name: 'boom',
+        outbound: () => {
+          throw new Error('boom');
+        },
+      });
+
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      await vi.waitFor(() =>
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ code: SwarmRelayErrorCode.SendFailed })
+        )
+      );
+      expect(transport.sentMessages).toHaveLength(0);
+    });
+
+    it('should run requests through middleware', async () => {
+      await relay.connect();
+      relay.use({
+        outbound: (message) => ({ ...message, target: 'rerouted' }),
+      });
+
+      void (relay as unknown as SwarmRelay<TestEvents, TestRequests>)
+        .request('responder', 'math:double', 2, { timeout: 50 })
+        .catch(() => undefined);
+
+      await vi.waitFor(() =>
+        expect(transport.sentMessages[0]?.target).toBe('rerouted')
+      );
+    });
+
+    it('should send synchronously again once removed', async () => {
+      await relay.connect();
+      const remove = relay.use({ outbound: (message) => message });
+      remove();
+
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      expect(transport.sentMessages).toHaveLength(1);
+    });
+  });
+
+  // ── Retained events ──────────────────────────────────────
+
+  describe('retained events', () => {
+    beforeEach(() => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        retain: ['user:login'],
+      });
+    });
+
+    it('should flag broadcasts of retained events', async () => {
+      await relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+      relay.broadcast('user:logout', { reason: 'bye' });
+
+      expect(transport.sentMessages[0].retain).toBe(true);
+      expect(transport.sentMessages[1].retain).toBeUndefined();
+    });
+
+    it('should retain a single broadcast when asked to', async () => {
+      await relay.connect();
+      relay.broadcast('user:logout', { reason: 'bye' }, { retain: true });
+
+      expect(transport.sentMessages[0].retain).toBe(true);
+      expect(relay.getLast('user:logout')).toEqual({ reason: 'bye' });
+    });
+
+    it('should expose the last payload it broadcast', async () => {
+      await relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      expect(relay.getLast('user:login')).toEqual({ userId: 'u1' });
+    });
+
+    it('should expose the last retained payload it received', async () => {
+      await relay.connect();
+      transport.simulateMessage({
+        id: '1',
+        source: 'shell',
+        event: 'data:update',
+        payload: { key: 'k', value: 1 },
+        timestamp: Date.now(),
+        retain: true,
+      });
+
+      expect(relay.getLast('data:update')).toEqual({ key: 'k', value: 1 });
+      expect(relay.getLastMessage('data:update')?.source).toBe('shell');
+    });
+
+    it('should return undefined for events never seen', async () => {
+      await relay.connect();
+      expect(relay.getLast('user:login')).toBeUndefined();
+    });
+
+    it('should forget retained values on disconnect', async () => {
+      await relay.connect();
+      relay.broadcast('user:login', { userId: 'u1' });
+      relay.disconnect();
+
+      expect(relay.getLast('user:login')).toBeUndefined();
+    });
+  });
+
+  // ── Channels ─────────────────────────────────────────────
+
+  describe('channels', () => {
+    function receive(id: string, channel?: string) {
+      transport.simulateMessage({
+        id,
+        source: 'other',
+        event: 'user:login',
+        payload: { userId: id },
+        timestamp: Date.now(),
+        channel,
+      });
+    }
+
+    it('should join the channel and stamp its messages', async () => {
+      await relay.connect();
+      const checkout = relay.channel('checkout');
+      await checkout.connect();
+
+      checkout.broadcast('user:login', { userId: 'u1' });
+
+      expect(transport.channels).toEqual(new Set(['checkout']));
+      expect(transport.sentMessages[0]).toMatchObject({
+        source: 'test-app',
+        event: 'user:login',
+        channel: 'checkout',
+      });
+    });
+
+    it('should only deliver channel messages to the channel relay', async () => {
+      await relay.connect();
+      const checkout = relay.channel('checkout');
+      await checkout.connect();
+      const root = vi.fn();
+      const scoped = vi.fn();
+      relay.on('user:login', root);
+      checkout.on('user:login', scoped);
+
+      receive('m1', 'checkout');
+      receive('m2');
+      receive('m3', 'search');
+
+      expect(scoped.mock.calls.map(([payload]) => payload.userId)).toEqual([
+        'm1',
+      ]);
+      expect(root.mock.calls.map(([payload]) => payload.userId)).toEqual([
+        'm2',
+      ]);
+    });
+
+    it('should return the same relay until it leaves', async () => {
+      await relay.connect();
+      const checkout = relay.channel('checkout');
+      await checkout.connect();
+      expect(relay.channel('checkout')).toBe(checkout);
+
+      checkout.disconnect();
+
+      expect(transport.channels.size).toBe(0);
+      expect(relay.channel('checkout')).not.toBe(checkout);
+    });
+
+    it('should refuse to join before the relay is connected', async () => {
+      await expect(relay.channel('checkout').connect()).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NotConnected,
+      });
+    });
+
+    it('should leave every channel when the relay disconnects', async () => {
+      await relay.connect();
+      const checkout = relay.channel('checkout');
+      await checkout.connect();
+
+      relay.disconnect();
+
+      expect(checkout.state).toBe(ConnectionState.Disconnected);
+      expect(transport.channels.size).toBe(0);
+    });
+
+    it('should join again after reconnecting', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      await relay.connect();
+      await relay.channel('checkout').connect();
+      // The hub forgets channels along with the connection.
+      transport.channels.clear();
+
+      transport.simulateConnectionLoss(new Error('worker crashed'));
+      await vi.waitFor(() =>
+        expect(relay.state).toBe(ConnectionState.Connected)
+      );
+
+      expect(transport.channels).toEqual(new Set(['checkout']));
+    });
+
+    it('should follow the relay through a reconnect, queueing meanwhile', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      await relay.connect();
+      const onStateChange = vi.fn();
+      const checkout = relay.channel('checkout', {
+        outbox: true,
+        onStateChange,
+      });
+      await checkout.connect();
+
+      transport.simulateConnectionLoss(new Error('worker crashed'));
+      expect(checkout.state).toBe(ConnectionState.Reconnecting);
+      checkout.broadcast('user:login', { userId: 'u1' });
+      expect(transport.sentMessages).toHaveLength(0);
+
+      await vi.waitFor(() =>
+        expect(checkout.state).toBe(ConnectionState.Connected)
+      );
+      expect(transport.sentMessages).toEqual([
+        expect.objectContaining({ event: 'user:login', channel: 'checkout' }),
+      ]);
+      expect(onStateChange.mock.calls.map(([state]) => state)).toEqual([
+        ConnectionState.Connecting,
+        ConnectionState.Connected,
+        ConnectionState.Reconnecting,
+        ConnectionState.Connected,
+      ]);
+    });
+
+    it('should fail with the relay and pass on its errors', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 1, initialDelay: 1, jitter: 0 },
+      });
+      await relay.connect();
+      const onError = vi.fn();
+      const checkout = relay.channel('checkout', { onError });
+      await checkout.connect();
+      vi.spyOn(transport, 'connect').mockRejectedValue(
+        new Error('hub unavailable')
+      );
+      const lost = new Error('worker crashed');
+
+      transport.simulateConnectionLoss(lost);
+      await vi.waitFor(() => expect(relay.state).toBe(ConnectionState.Error));
+
+      expect(checkout.state).toBe(ConnectionState.Error);
+      expect(onError).toHaveBeenCalledWith(lost);
+      expect(onError).toHaveBeenLastCalledWith(
+        expect.objectContaining({ code: SwarmRelayErrorCode.ConnectionFailed })
+      );
+      expect(() => checkout.broadcast('user:login', { userId: 'u1' })).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.NotConnected })
+      );
+    });
+
+    it('should reject empty names and nested channels', async () => {
+      expect(() => relay.channel('')).toThrow(SwarmRelayError);
+      expect(() => relay.channel('checkout').channel('payment')).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.InvalidMessage })
+      );
+    });
+  });
+
+  // ── Tabs and leader election ─────────────────────────────
+
+  describe('tabs', () => {
+    it("should announce the tab shared by the tab's relays", async () => {
+      const other = new SwarmRelay<TestEvents>({
+        clientId: 'other-app',
+        transport: new MockTransportAdapter<TestEvents>(),
+      });
+      await relay.connect();
+
+      expect(relay.tabId).toBe(other.tabId);
+      expect(transport.connectOptions?.tabId).toBe(relay.tabId);
+    });
+
+    it('should use the tabId option', () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        tabId: 'tab-1',
+        transport,
+      });
+      expect(relay.tabId).toBe('tab-1');
+      expect(relay.channel('checkout').tabId).toBe('tab-1');
+    });
+
+    it('should mark tab-scoped sends and broadcasts', async () => {
+      await relay.connect();
+
+      relay.send('cart-app', 'user:login', { userId: 'u1' }, { scope: 'tab' });
+      relay.broadcast('user:login', { userId: 'u1' }, { scope: 'tab' });
+      relay.broadcast('user:login', { userId: 'u1' }, { scope: 'origin' });
+
+      expect(transport.sentMessages.map((m) => m.scope)).toEqual([
+        'tab',
+        'tab',
+        undefined,
+      ]);
+    });
+  });
+
+  describe('transferables', () => {
+    it('should hand the transfer list of sends and broadcasts to the transport', async () => {
+      await relay.connect();
+      const sent = new ArrayBuffer(8);
+      const broadcast = new ArrayBuffer(8);
+
+      relay.send(
+        'storage',
+        'file:upload',
+        { name: 'a.bin', data: sent },
+        { transfer: [sent] }
+      );
+      relay.broadcast(
+        'file:upload',
+        { name: 'b.bin', data: broadcast },
+        { transfer: [broadcast] }
+      );
+      relay.broadcast('user:login', { userId: 'u1' });
+
+      const [first, second, third] = transport.sentMessages;
+      expect(transport.sentTransfers.get(first.id)).toEqual([sent]);
+      expect(transport.sentTransfers.get(second.id)).toEqual([broadcast]);
+      expect(transport.sentTransfers.has(third.id)).toBe(false);
+    });
+
+    it('should keep the transfer list across async middleware', async () => {
+      relay.use({
+        outbound: async (message) => message,
+      });
+      await relay.connect();
+      const data = new ArrayBuffer(8);
+
+      relay.send(
+        'storage',
+        'file:upload',
+        { name: 'a.bin', data },
+        { transfer: [data] }
+      );
+      await vi.waitFor(() => expect(transport.sentMessages).toHaveLength(1));
+
+      const [message] = transport.sentMessages;
+      expect(transport.sentTransfers.get(message.id)).toEqual([data]);
+    });
+
+    it('should reject transfers in messages sent with ack', async () => {
+      await relay.connect();
+      const data = new ArrayBuffer(8);
+
+      expect(() =>
+        relay.send(
+          'storage',
+          'file:upload',
+          { name: 'a.bin', data },
+          { ack: true, transfer: [data] }
+        )
+      ).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.InvalidMessage })
+      );
+      expect(transport.sentMessages).toHaveLength(0);
+    });
+  });
+
+  describe('streams', () => {
+    let peerTransport: MockTransportAdapter<TestEvents>;
+    let peer: SwarmRelay<TestEvents>;
+
+    /** Hand whatever `from` sends to `to`, as a hub would. */
+    function link(
+      from: MockTransportAdapter<TestEvents>,
+      to: MockTransportAdapter<TestEvents>
+    ) {
+      const send = from.send.bind(from);
+      vi.spyOn(from, 'send').mockImplementation((message, options) => {
+        send(message, options);
+        queueMicrotask(() => to.simulateMessage(message));
+      });
+    }
+
+    beforeEach(async () => {
+      peerTransport = new MockTransportAdapter<TestEvents>();
+      peer = new SwarmRelay<TestEvents>({
+        clientId: 'viewer',
+        transport: peerTransport,
+        logger: createSilentLogger(),
+      });
+      link(transport, peerTransport);
+      link(peerTransport, transport);
+      await relay.connect();
+      await peer.connect();
+    });
+
+    it('should deliver written chunks in order until closed', async () => {
+      const received: string[] = [];
+      const done = new Promise<void>((resolve) => {
+        peer.onStream('log:line', async (stream) => {
+          expect(stream.source).toBe('test-app');
+          for await (const line of stream) received.push(line.text);
+          resolve();
+        });
+      });
+
+      const writer = relay.openStream('viewer', 'log:line');
+      await writer.write({ text: 'one' });
+      await writer.write({ text: 'two' });
+      await writer.write({ text: 'three' });
+      await writer.close();
+      await done;
+
+      expect(received).toEqual(['one', 'two', 'three']);
+      await expect(writer.closed).resolves.toBeUndefined();
+    });
+
+    it('should split long values and put them back together', async () => {
+      const received: ArrayBuffer[] = [];
+      const done = new Promise<void>((resolve) => {
+        peer.onStream('file:chunk', async (stream) => {
+          for await (const chunk of stream) received.push(chunk);
+          resolve();
+        });
+      });
+
+      const writer = relay.openStream('viewer', 'file:chunk', {
+        chunkSize: 4,
+      });
+      await writer.write(Uint8Array.from([1, 2, 3, 4, 5, 6, 7, 8, 9]).buffer);
+      await writer.close();
+      await done;
+
+      expect(received.map((chunk) => [...new Uint8Array(chunk)])).toEqual([
+        [1, 2, 3, 4, 5, 6, 7, 8, 9],
+      ]);
+      const parts = transport.sentMessages.filter(
+        (message) => message.stream?.kind === 'chunk'
+      );
+      expect(parts.map((message) => message.stream?.partial)).toEqual([
+        true,
+        true,
+        undefined,
+      ]);
+      expect(transport.sentTransfers.get(parts[0].id)).toEqual([
+        parts[0].payload,
+      ]);
+    });
+
+    it('should make writes wait while the reader has no room', async () => {
+      const opened = new Promise<SwarmStream<TestEvents['log:line']>>(
+        (resolve) => peer.onStream('log:line', resolve, { highWaterMark: 2 })
+      );
+
+      const writer = relay.openStream('viewer', 'log:line');
+      await writer.write({ text: 'one' });
+      await writer.write({ text: 'two' });
+      const third = vi.fn();
+      void writer.write({ text: 'three' }).then(third);
+      const stream = await opened;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(third).not.toHaveBeenCalled();
+
+      await expect(stream.read()).resolves.toEqual({
+        done: false,
+        value: { text: 'one' },
+      });
+      await vi.waitFor(() => expect(third).toHaveBeenCalled());
+    });
+
+    it('should refuse streams without a handler with NoResponder', async () => {
+      const writer = relay.openStream('viewer', 'log:line');
+
+      await expect(writer.closed).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NoResponder,
+      });
+      await expect(writer.write({ text: 'one' })).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NoResponder,
+      });
+    });
+
+    it('should fail the writer when the reader stops reading', async () => {
+      peer.onStream('log:line', async (stream) => {
+        for await (const line of stream) {
+          if (line.text === 'stop') break;
+        }
+      });
+
+      const writer = relay.openStream('viewer', 'log:line');
+      await writer.write({ text: 'stop' });
+
+      await expect(writer.closed).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.StreamCancelled,
+      });
+    });
+
+    it('should fail the reader when the writer aborts', async () => {
+      const read = new Promise<unknown>((resolve) => {
+        peer.onStream('log:line', async (stream) => {
+          try {
+            for await (const line of stream) void line;
+          } catch (error) {
+            resolve(error);
+          }
+        });
+      });
+
+      const writer = relay.openStream('viewer', 'log:line');
+      await writer.write({ text: 'one' });
+      writer.abort('Upload cancelled');
+
+      await expect(read).resolves.toMatchObject({
+        message: 'Upload cancelled',
+        code: SwarmRelayErrorCode.StreamCancelled,
+      });
+    });
+
+    it('should fail streams when the other end leaves', async () => {
+      const read = new Promise<unknown>((resolve) => {
+        peer.onStream('log:line', async (stream) => {
+          try {
+            for await (const line of stream) void line;
+          } catch (error) {
+            resolve(error);
+          }
+        });
+      });
+      const writer = relay.openStream('viewer', 'log:line');
+      await writer.write({ text: 'one' });
+
+      transport.simulatePeerLeave('viewer');
+      peerTransport.simulatePeerLeave('test-app');
+
+      await expect(writer.closed).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.StreamCancelled,
+      });
+      await expect(read).resolves.toMatchObject({
+        code: SwarmRelayErrorCode.StreamCancelled,
+      });
+    });
+
+    it('should fail streams when the connection is lost', async () => {
+      const writer = relay.openStream('viewer', 'log:line');
+
+      relay.disconnect();
+
+      await expect(writer.closed).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NotConnected,
+      });
+    });
+
+    it('should fail with ProtocolMismatch if the target confirms without credit', async () => {
+      vi.mocked(transport.send).mockImplementation((message) => {
+        transport.sentMessages.push(message);
+      });
+      const writer = relay.openStream('legacy', 'log:line');
+      const [open] = transport.sentMessages;
+
+      transport.simulateMessage({
+        id: 'receipt',
+        source: 'legacy',
+        target: 'test-app',
+        event: 'log:line',
+        payload: undefined as never,
+        timestamp: Date.now(),
+        ack: { kind: 'receipt', messageId: open.id, status: 'handled' },
+      });
+
+      await expect(writer.closed).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ProtocolMismatch,
+      });
+    });
+
+    it('should throw NotConnected when opening a stream while disconnected', () => {
+      relay.disconnect();
+
+      expect(() => relay.openStream('viewer', 'log:line')).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.NotConnected })
+      );
+    });
+
+    it('should keep stream frames from event handlers', async () => {
+      const onLine = vi.fn();
+      const onAny = vi.fn();
+      peer.on('log:line', onLine);
+      peer.onAny(onAny);
+      const done = new Promise<void>((resolve) => {
+        peer.onStream('log:line', async (stream) => {
+          for await (const line of stream) void line;
+          resolve();
+        });
+      });
+
+      const writer = relay.openStream('viewer', 'log:line');
+      await writer.write({ text: 'one' });
+      await writer.close();
+      await done;
+
+      expect(onLine).not.toHaveBeenCalled();
+      expect(onAny).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('electLeader', () => {
+    it('should stand once connected and follow the announced leader', async () => {
+      const election = relay.electLeader('sync');
+      const onChange = vi.fn();
+      election.onChange(onChange);
+      expect(transport.elections.has('sync')).toBe(false);
+
+      await relay.connect();
+      expect(transport.elections.has('sync')).toBe(true);
+
+      transport.simulateLeader('sync', 'other-app');
+      expect(election.leader).toBe('other-app');
+      expect(election.isLeader).toBe(false);
+
+      transport.simulateLeader('sync', 'test-app');
+      expect(election.isLeader).toBe(true);
+      expect(onChange.mock.calls).toEqual([
+        [false, 'other-app'],
+        [true, 'test-app'],
+      ]);
+    });
+
+    it('should return the same election for the same name', () => {
+      expect(relay.electLeader('sync')).toBe(relay.electLeader('sync'));
+    });
+
+    it('should resolve whenLeader once elected', async () => {
+      await relay.connect();
+      const election = relay.electLeader('sync');
+      const elected = vi.fn();
+      void election.whenLeader().then(elected);
+
+      transport.simulateLeader('sync', 'test-app');
+      await Promise.resolve();
+
+      expect(elected).toHaveBeenCalled();
+    });
+
+    it('should withdraw from the hub when resigning', async () => {
+      await relay.connect();
+      const election = relay.electLeader('sync');
+      transport.simulateLeader('sync', 'test-app');
+
+      election.resign();
+
+      expect(transport.elections.has('sync')).toBe(false);
+      expect(election.ended).toBe(true);
+      expect(election.isLeader).toBe(false);
+      expect(relay.electLeader('sync')).not.toBe(election);
+    });
+
+    it('should stop leading while the connection is lost', async () => {
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport,
+        logger: createSilentLogger(),
+        reconnect: { maxAttempts: 2, initialDelay: 1, jitter: 0 },
+      });
+      await relay.connect();
+      const election = relay.electLeader('sync');
+      transport.simulateLeader('sync', 'test-app');
+
+      transport.elections.clear();
+      transport.simulateConnectionLoss(new Error('Connection lost'));
+      expect(election.isLeader).toBe(false);
+
+      await vi.waitFor(() =>
+        expect(relay.state).toBe(ConnectionState.Connected)
+      );
+      expect(transport.elections.has('sync')).toBe(true);
+    });
+
+    it('should end elections and reject waiters on disconnect', async () => {
+      await relay.connect();
+      const election = relay.electLeader('sync');
+      const leading = election.whenLeader();
+
+      relay.disconnect();
+
+      await expect(leading).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.NotConnected,
+      });
+      expect(election.ended).toBe(true);
+    });
+
+    it('should reject empty names and transports without a hub', () => {
+      expect(() => relay.electLeader('')).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.InvalidMessage })
+      );
+      expect(() => relay.channel('checkout').electLeader('sync')).toThrow(
+        expect.objectContaining({ code: SwarmRelayErrorCode.TransportError })
+      );
+    });
+  });
+
+  // ── Presence ─────────────────────────────────────────────
+
+  describe('presence', () => {
+    it('should pass connect metadata to the transport', async () => {
+      await relay.connect({ metadata: { version: '1.0.0', route: '/' } });
+      expect(transport.connectOptions).toEqual({
+        metadata: { version: '1.0.0', route: '/' },
+        tabId: relay.tabId,
+      });
+    });
+
+    it('should list peers known to the transport', async () => {
+      await relay.connect();
+      transport.simulatePeerJoin({ clientId: 'cart-app', connectedAt: 1 });
+
+      expect(relay.getPeers()).toEqual([
+        { clientId: 'cart-app', connectedAt: 1 },
+      ]);
+    });
+
+    it('should notify onPeerJoin and onPeerLeave handlers', async () => {
+      await relay.connect();
+      const onJoin = vi.fn();
+      const onLeave = vi.fn();
+      relay.onPeerJoin(onJoin);
+      relay.onPeerLeave(onLeave);
+
+      transport.simulatePeerJoin({ clientId: 'cart-app', connectedAt: 1 });
+      transport.simulatePeerLeave('cart-app');
+
+      expect(onJoin).toHaveBeenCalledWith({
+        clientId: 'cart-app',
+        connectedAt: 1,
+      });
+      expect(onLeave).toHaveBeenCalledWith({
+        clientId: 'cart-app',
+        connectedAt: 1,
+      });
+    });
+
+    it('should stop notifying after the cleanup function runs', async () => {
+      await relay.connect();
+      const onJoin = vi.fn();
+      relay.onPeerJoin(onJoin)();
+
+      transport.simulatePeerJoin({ clientId: 'cart-app', connectedAt: 1 });
+
+      expect(onJoin).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Inspection ───────────────────────────────────────────
+
+  describe('inspection', () => {
+    const snapshot: InspectorUpdate = {
+      type: 'snapshot',
+      clients: [],
+      traffic: [],
+    };
+
+    it('should ask the hub for updates once connected', async () => {
+      const listener = vi.fn();
+      relay.inspect(listener);
+      expect(transport.inspecting).toBe(false);
+
+      await relay.connect();
+      transport.simulateInspectorUpdate(snapshot);
+
+      expect(transport.inspecting).toBe(true);
+      expect(listener).toHaveBeenCalledWith(snapshot);
+    });
+
+    it('should stop once the last listener is removed', async () => {
+      await relay.connect();
+      const first = relay.inspect(vi.fn());
+      const second = relay.inspect(vi.fn());
+
+      first();
+      expect(transport.inspecting).toBe(true);
+      second();
+      expect(transport.inspecting).toBe(false);
+    });
+
+    it('should ask for a fresh snapshot when another listener starts', async () => {
+      await relay.connect();
+      relay.inspect(vi.fn());
+      const setInspecting = vi.spyOn(transport, 'setInspecting');
+
+      relay.inspect(vi.fn());
+
+      expect(setInspecting).toHaveBeenCalledWith(true);
+    });
+
+    it('should isolate listeners that throw', async () => {
+      await relay.connect();
+      const listener = vi.fn();
+      relay.inspect(() => {
+        throw new Error('boom');
+      });
+      relay.inspect(listener);
+
+      transport.simulateInspectorUpdate(snapshot);
+
+      expect(listener).toHaveBeenCalledWith(snapshot);
+    });
+
+    it('should throw when the transport has no hub to inspect', () => {
+      const hubless = new MockTransportAdapter<TestEvents>();
+      Object.assign(hubless, { setInspecting: undefined });
+      relay = new SwarmRelay<TestEvents>({
+        clientId: 'test-app',
+        transport: hubless,
+        logger: createSilentLogger(),
+      });
+
+      expect(() => relay.inspect(vi.fn())).toThrow(SwarmRelayError);
+    });
+  });
+
   // ── Error handling ───────────────────────────────────────
 
   describe('error handling', () => {
@@ -1,15 +1,60 @@
+import { retry, type RetryOptions } from '@org/async';
 import {
+  type BroadcastOptions,
+  type ChannelOptions,
   ConnectionState,
+  type DeliveryStatus,
   type EventMap,
+  type EventPattern,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type MatchingEvents,
   type MessageHandler,
+  type PatternHandler,
+  type PeerHandler,
+  type PeerInfo,
+  type PresenceEvent,
+  type RequestHandler,
+  type RequestMap,
+  type RequestOptions,
+  type ReconnectOptions,
+  type SchemaRegistry,
+  type SendOptions,
+  type SwarmAckMeta,
   type SwarmMessage,
+  type SwarmRelayConnectOptions,
   type SwarmRelayLogger,
   type SwarmRelayOptions,
+  type SwarmMiddleware,
+  type SwarmRpcMeta,
+  type SwarmStreamMeta,
   type TransportAdapter,
+  type TransportConnectOptions,
   type WildcardHandler,
 } from './types.js';
 import { SwarmRelayError, SwarmRelayErrorCode } from './errors.js';
+import { DedupeWindow } from './dedupe-window.js';
+import { generateId, getTabId } from './ids.js';
+import { Outbox } from './outbox.js';
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  matchesEventPattern,
+  upgradeMessage,
+} from './protocol.js';
 import { SharedWorkerTransport } from './transport/shared-worker-transport.js';
+import { FallbackTransport } from './transport/fallback-transport.js';
+import { ChannelTransport } from './transport/channel-transport.js';
+import { LeaderElection } from './leader-election.js';
+import {
+  SwarmStream,
+  SwarmStreamWriter,
+  type StreamHandler,
+  type StreamHandlerOptions,
+  type StreamHost,
+  type StreamOptions,
+} from './stream.js';
 
 /** Default console-based logger. */
 const defaultLogger: SwarmRelayLogger = {
@@ -19,9 +64,73 @@ const defaultLogger: SwarmRelayLogger = {
   error: (...args) => console.error('[SwarmRelay]', ...args),
 };
 
-/** Generate a unique message identifier. */
-function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+/** Default time to wait for a response to `request()`. */
+const DEFAULT_REQUEST_TIMEOUT = 5_000;
+
+/** Default time to wait for a receipt before sending a message again. */
+const DEFAULT_ACK_TIMEOUT = 5_000;
+
+/** Default number of times an unconfirmed message is sent again. */
+const DEFAULT_ACK_RETRIES = 2;
+
+/**
+ * Number of handled acknowledged messages remembered, so that copies sent
+ * again after a lost receipt are confirmed without being handled twice.
+ */
+const HANDLED_ACK_LIMIT = 1_000;
+
+/** Default number of chunks buffered for a stream handler. */
+const DEFAULT_STREAM_HIGH_WATER_MARK = 16;
+
+/** Reconnection policy used when `reconnect: true` is passed. */
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelay: 500,
+  maxDelay: 30_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+/** Direction a message travels through the middleware pipeline. */
+type MiddlewareDirection = 'inbound' | 'outbound';
+
+/** Book-keeping for a request awaiting its response. */
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Book-keeping for a message sent with `ack` awaiting its receipt. */
+interface PendingAck {
+  message: SwarmMessage<EventMap>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Number of times the message may still be sent again. */
+  retriesLeft: number;
+  /** What the hub last reported about the current attempt. */
+  status: DeliveryStatus | null;
+  /** Whether the attempt waits for the relay to connect before timing out. */
+  paused: boolean;
+  /** Whether a copy of the message waits in the outbox. */
+  queued: boolean;
+  /** Carry on with the current attempt once the relay is connected. */
+  resume: () => void;
+}
+
+/** A message waiting in the outbox, with the objects it transfers. */
+interface QueuedMessage<TEventMap extends EventMap> {
+  message: SwarmMessage<TEventMap>;
+  transfer?: Transferable[];
+}
+
+/** A relay returned by `channel()`, with the transport it joined through. */
+interface OpenChannel {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  relay: SwarmRelay<any, any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transport: ChannelTransport<any>;
 }
 
 /**
@@ -31,6 +140,8 @@ function generateId(): string {
  * backed by a pluggable transport layer (SharedWorker by default).
  *
  * @typeParam TEventMap - A record mapping event names to their payload types.
+ * @typeParam TRequestMap - A record mapping request names to their
+ *   request and response types (see {@link RequestMap}).
  *
  * @example
  * ```typescript
@@ -54,30 +165,111 @@ function generateId(): string {
  * relay.onAny((event, payload, message) => {
  *   console.log(`[${message.source}] ${String(event)}`, payload);
  * });
+ *
+ * // Request/response between microfrontends
+ * const user = await relay.request('shell-app', 'user:current', undefined);
  * ```
  */
-export class SwarmRelay<TEventMap extends EventMap> {
-  private readonly clientId: string;
+export class SwarmRelay<
+  TEventMap extends EventMap,
+  TRequestMap extends RequestMap = RequestMap
+> {
+  /** The ID passed in the options; the hub may register another. */
+  private readonly requestedId: string;
+  private clientId: string;
+  private readonly _tabId: string;
   private readonly transport: TransportAdapter<TEventMap>;
   private readonly logger: SwarmRelayLogger;
   private readonly onStateChange?: (state: ConnectionState) => void;
   private readonly onErrorCallback?: (error: Error) => void;
+  private readonly reconnectPolicy: Required<ReconnectOptions> | null;
+  private readonly outbox: Outbox<QueuedMessage<TEventMap>> | null;
+  /** IDs of recently received messages, for dropping copies. */
+  private readonly recentIds: DedupeWindow | null;
+  private readonly retainedEvents: ReadonlySet<keyof TEventMap>;
+  private readonly schemas: SchemaRegistry<TEventMap>;
 
   private readonly handlers = new Map<
     keyof TEventMap,
     Set<MessageHandler<TEventMap>>
   >();
   private readonly wildcardHandlers = new Set<WildcardHandler<TEventMap>>();
+  private readonly patternHandlers = new Map<
+    string,
+    Set<PatternHandler<TEventMap>>
+  >();
+  private readonly requestHandlers = new Map<
+    string,
+    RequestHandler<RequestMap>
+  >();
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+  private readonly pendingAcks = new Map<string, PendingAck>();
+  /** IDs of handled acknowledged messages. */
+  private readonly handledAcks = new DedupeWindow({
+    maxSize: HANDLED_ACK_LIMIT,
+    ttl: 0,
+  });
+  private readonly peerJoinHandlers = new Set<PeerHandler>();
+  private readonly peerLeaveHandlers = new Set<PeerHandler>();
+  private readonly inspectorListeners = new Set<InspectorListener>();
+  private readonly channels = new Map<string, OpenChannel>();
+  private readonly elections = new Map<string, LeaderElection>();
+  private readonly streamHandlers = new Map<
+    string,
+    { handler: StreamHandler<unknown>; highWaterMark: number }
+  >();
+  /** Streams this relay writes, by stream ID. */
+  private readonly outgoingStreams = new Map<
+    string,
+    SwarmStreamWriter<unknown>
+  >();
+  /** Streams this relay reads, by source and stream ID. */
+  private readonly incomingStreams = new Map<string, SwarmStream<unknown>>();
+  /** Whether this relay was returned by another relay's `channel()`. */
+  private readonly isChannel: boolean;
+  private readonly middleware: SwarmMiddleware<TEventMap>[] = [];
+  /** Tail of the messages still passing through middleware, per direction. */
+  private readonly pipelines: Record<
+    MiddlewareDirection,
+    Promise<void> | null
+  > = { inbound: null, outbound: null };
+  private readonly lastMessages = new Map<
+    keyof TEventMap,
+    SwarmMessage<TEventMap>
+  >();
+  /** Subscriptions last announced to the transport, joined by newlines. */
+  private announcedSubscriptions: string | null = null;
+  private subscriptionUpdateQueued = false;
   private _state: ConnectionState = ConnectionState.Disconnected;
   private _aborted = false;
+  private connectOptions: TransportConnectOptions = {};
 
   constructor(options: SwarmRelayOptions<TEventMap>) {
+    this.requestedId = options.clientId;
     this.clientId = options.clientId;
-    this.transport =
-      options.transport ?? new SharedWorkerTransport<TEventMap>(this.clientId);
+    this._tabId = options.tabId ?? getTabId();
+    this.transport = Array.isArray(options.transport)
+      ? new FallbackTransport(options.transport)
+      : options.transport ?? new SharedWorkerTransport<TEventMap>();
+    this.isChannel = this.transport instanceof ChannelTransport;
     this.logger = options.logger ?? defaultLogger;
     this.onStateChange = options.onStateChange;
     this.onErrorCallback = options.onError;
+    this.reconnectPolicy = options.reconnect
+      ? {
+          ...DEFAULT_RECONNECT_POLICY,
+          ...(options.reconnect === true ? {} : options.reconnect),
+        }
+      : null;
+    this.retainedEvents = new Set(options.retain ?? []);
+    this.schemas = options.schemas ?? {};
+    this.outbox = options.outbox
+      ? new Outbox(options.outbox === true ? {} : options.outbox)
+      : null;
+    this.recentIds =
+      options.dedupe === false
+        ? null
+        : new DedupeWindow(options.dedupe === true ? {} : options.dedupe);
   }
 
   /** Current connection state. */
@@ -85,53 +277,87 @@ export class SwarmRelay<TEventMap extends EventMap> {
     return this._state;
   }
 
-  /** The client identifier of this relay instance. */
+  /**
+   * The client identifier of this relay instance. Under the `suffix`
+   * conflict policy this is the ID the hub registered, e.g. `'cart#2'`.
+   */
   get id(): string {
     return this.clientId;
   }
 
+  /** Identifier of the browser tab this relay runs in. */
+  get tabId(): string {
+    return this._tabId;
+  }
+
+  /**
+   * Wire protocol version in use: the one negotiated with the hub when the
+   * transport reports it, otherwise this build's own version.
+   */
+  get protocolVersion(): number {
+    return this.transport.protocolVersion ?? PROTOCOL_VERSION;
+  }
+
+  /**
+   * The transport adapter carrying messages. When the relay was given
+   * several (or a `FallbackTransport`), this is the one that connected.
+   */
+  get activeTransport(): TransportAdapter<TEventMap> {
+    let transport = this.transport;
+    while (transport.active) {
+      transport = transport.active;
+    }
+    return transport;
+  }
+
   // ── Lifecycle ────────────────────────────────────────────
 
   /**
    * Connect to the communication hub.
    * Registers this client with the transport and starts listening for messages.
+   *
+   * With a `reconnect` policy, failed attempts are retried with backoff
+   * (state `Reconnecting`) and the promise settles once connected or once
+   * the policy gives up.
+   *
+   * @param options - Optional metadata announced to peers on registration,
+   *   and how the hub settles a client ID that is already registered.
    */
-  async connect(): Promise<void> {
+  async connect(options: SwarmRelayConnectOptions = {}): Promise<void> {
     if (this._state === ConnectionState.Connected) {
       this.logger.warn('Already connected');
       return;
     }
 
     this._aborted = false;
+    this.connectOptions = {
+      metadata: options.metadata,
+      onConflict: options.onConflict,
+      tabId: this._tabId,
+    };
     this.setState(ConnectionState.Connecting);
     this.logger.info(`Connecting as "${this.clientId}"…`);
 
     try {
-      this.transport.onMessage(this.handleMessage);
-      this.transport.onError(this.handleError);
-      await this.transport.connect(this.clientId);
+      if (this.reconnectPolicy) {
+        await this.withReconnect(this.reconnectPolicy.maxAttempts);
+      } else {
+        await this.attemptConnect();
+      }
 
       // disconnect() may have been called while we were awaiting.
       if (this._aborted) return;
 
       this.setState(ConnectionState.Connected);
       this.logger.info(`Connected as "${this.clientId}"`);
+      this.flushOutbox();
+      this.resumeAcks();
     } catch (error) {
       // If disconnect() was called mid-connect, swallow the error
       // — the caller already knows the relay is being torn down.
       if (this._aborted) return;
 
-      this.setState(ConnectionState.Error);
-      const relayError =
-        error instanceof SwarmRelayError
-          ? error
-          : new SwarmRelayError(
-              'Connection failed',
-              SwarmRelayErrorCode.ConnectionFailed,
-              error instanceof Error ? error : undefined
-            );
-      this.logger.error('Connection failed', relayError);
-      this.onErrorCallback?.(relayError);
+      const relayError = this.failConnection(error);
       throw relayError;
     }
   }
@@ -149,11 +375,36 @@ export class SwarmRelay<TEventMap extends EventMap> {
     this._aborted = true;
 
     this.logger.info(`Disconnecting "${this.clientId}"…`);
+    for (const { relay } of [...this.channels.values()]) {
+      relay.disconnect();
+    }
+    this.channels.clear();
+    // The hub withdraws a client from its elections when it leaves.
+    for (const election of [...this.elections.values()]) {
+      election.end();
+    }
+    this.elections.clear();
     this.transport.offMessage(this.handleMessage);
     this.transport.offError(this.handleError);
+    this.transport.offPresence?.(this.handlePresence);
+    this.transport.offInspect?.(this.handleInspectorUpdate);
+    this.transport.offLeader?.(this.handleLeader);
+    if (this.transport instanceof ChannelTransport) {
+      this.transport.offStateChange(this.handleHostState);
+    }
     this.transport.disconnect();
     this.handlers.clear();
     this.wildcardHandlers.clear();
+    this.patternHandlers.clear();
+    this.requestHandlers.clear();
+    this.streamHandlers.clear();
+    this.peerJoinHandlers.clear();
+    this.peerLeaveHandlers.clear();
+    this.inspectorListeners.clear();
+    this.lastMessages.clear();
+    this.rejectPendingRequests();
+    this.rejectPendingAcks();
+    this.discardOutbox('disconnected');
     this.setState(ConnectionState.Disconnected);
     this.logger.info(`Disconnected "${this.clientId}"`);
   }
@@ -162,53 +413,217 @@ export class SwarmRelay<TEventMap extends EventMap> {
 
   /**
    * Send a typed message to a specific microfrontend.
+   * With an `outbox` configured, calls made while connecting or
+   * reconnecting are queued and delivered once connected.
    *
+   * With `{ ack: true }`, returns a promise that resolves once the target
+   * confirms it handled the message. Until then the message is sent again
+   * every `ackTimeout`, up to `retries` times, with the same `id` so the
+   * target handles it only once. The promise rejects with `UnknownTarget`
+   * if the target is still not connected to the hub on the last attempt,
+   * `ProtocolMismatch` if the target's build cannot confirm messages, and
+   * `DeliveryTimeout` if no confirmation arrives.
+   *
+   * With `{ scope: 'tab' }`, the message only reaches the target running
+   * in this relay's tab (see `SendOptions.scope`).
+   *
+   * With `{ transfer }`, the listed objects in the payload are moved to the
+   * target rather than copied, where the transport supports it (see
+   * `SendOptions.transfer`).
+   *
+   * @throws {SwarmRelayError} `InvalidMessage` if the payload fails its
+   *   schema, or if `transfer` is combined with `ack`.
    * @param target - Client ID of the target microfrontend.
    * @param event  - Event name (constrained to keys of TEventMap).
    * @param payload - Event payload (type-checked against the event map).
+   * @param options - Optional send settings such as `ack` and `scope`.
    */
   send<K extends keyof TEventMap & string>(
     target: string,
     event: K,
-    payload: TEventMap[K]
-  ): void {
-    this.assertConnected();
-
+    payload: TEventMap[K],
+    options?: SendOptions & { ack?: false }
+  ): void;
+  send<K extends keyof TEventMap & string>(
+    target: string,
+    event: K,
+    payload: TEventMap[K],
+    options: SendOptions & { ack: true }
+  ): Promise<void>;
+  send<K extends keyof TEventMap & string>(
+    target: string,
+    event: K,
+    payload: TEventMap[K],
+    options: SendOptions
+  ): Promise<void> | void;
+  send<K extends keyof TEventMap & string>(
+    target: string,
+    event: K,
+    payload: TEventMap[K],
+    options: SendOptions = {}
+  ): Promise<void> | void {
     const message: SwarmMessage<TEventMap, K> = {
       id: generateId(),
       source: this.clientId,
       target,
       event,
-      payload,
+      payload: this.validate(event, payload, 'outgoing'),
       timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
     };
+    if (options.scope === 'tab') {
+      message.scope = 'tab';
+    }
+
+    if (options.ack) {
+      if (options.transfer?.length) {
+        throw new SwarmRelayError(
+          `Cannot transfer objects in "${event}" sent with ack: sending ` +
+            `it again would find them moved`,
+          SwarmRelayErrorCode.InvalidMessage
+        );
+      }
+      return this.sendWithAck(message as SwarmMessage<TEventMap>, options);
+    }
+
+    if (this.enqueueIfConnecting(message, options.transfer)) return;
+    this.assertConnected();
 
     this.logger.debug(`Sending "${event}" to "${target}"`, message);
-    this.transport.send(message);
+    this.reportFailure(this.transmit(message, options.transfer), message);
   }
 
   /**
    * Broadcast a typed message to all connected microfrontends.
+   * Queued like {@link send} while connecting when an `outbox` is configured.
+   * Events listed in the `retain` option, and broadcasts sent with
+   * `retain: true`, are kept by the hub for late joiners. Broadcasts sent
+   * with `scope: 'tab'` only reach clients in this relay's tab. Objects
+   * listed in `transfer` are moved to the hub, which copies them to each
+   * recipient (see `BroadcastOptions.transfer`).
    *
+   * @throws {SwarmRelayError} `InvalidMessage` if the payload fails its schema.
    * @param event   - Event name (constrained to keys of TEventMap).
    * @param payload - Event payload (type-checked against the event map).
+   * @param options - Optional broadcast settings such as `retain` and `scope`.
    */
   broadcast<K extends keyof TEventMap & string>(
     event: K,
-    payload: TEventMap[K]
+    payload: TEventMap[K],
+    options: BroadcastOptions = {}
   ): void {
+    const message: SwarmMessage<TEventMap, K> = {
+      id: generateId(),
+      source: this.clientId,
+      event,
+      payload: this.validate(event, payload, 'outgoing'),
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+    };
+    if (options.retain || this.retainedEvents.has(event)) {
+      message.retain = true;
+    }
+    if (options.scope === 'tab') {
+      message.scope = 'tab';
+    }
+
+    if (this.enqueueIfConnecting(message, options.transfer)) return;
     this.assertConnected();
 
-    const message: SwarmMessage<TEventMap, K> = {
+    this.logger.debug(`Broadcasting "${event}"`, message);
+    this.reportFailure(this.transmit(message, options.transfer), message);
+  }
+
+  // ── Request / Response ───────────────────────────────────
+
+  /**
+   * Send a typed request to a specific microfrontend and wait for its response.
+   *
+   * Rejects with `RequestTimeout` if no response arrives in time,
+   * `NoResponder` if the target has no handler for the request, and
+   * `RequestFailed` if the target's handler throws.
+   *
+   * @param target  - Client ID of the responding microfrontend.
+   * @param event   - Request name (constrained to keys of TRequestMap).
+   * @param payload - Request payload (type-checked against the request map).
+   * @param options - Optional request settings such as `timeout`.
+   */
+  async request<K extends keyof TRequestMap & string>(
+    target: string,
+    event: K,
+    payload: TRequestMap[K]['request'],
+    options: RequestOptions = {}
+  ): Promise<TRequestMap[K]['response']> {
+    this.assertConnected();
+
+    const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+    const message: SwarmMessage<EventMap> = {
       id: generateId(),
       source: this.clientId,
+      target,
       event,
       payload,
       timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      rpc: { kind: 'request' },
     };
 
-    this.logger.debug(`Broadcasting "${event}"`, message);
-    this.transport.send(message);
+    return new Promise<TRequestMap[K]['response']>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(message.id);
+        reject(
+          new SwarmRelayError(
+            `Request "${event}" to "${target}" timed out after ${timeout}ms`,
+            SwarmRelayErrorCode.RequestTimeout
+          )
+        );
+      }, timeout);
+
+      this.pendingRequests.set(message.id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timer,
+      });
+
+      const fail = (error: unknown) => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(message.id);
+        reject(error);
+      };
+
+      this.logger.debug(`Requesting "${event}" from "${target}"`, message);
+      try {
+        this.transmit(message as SwarmMessage<TEventMap>)?.catch(fail);
+      } catch (error) {
+        fail(error);
+      }
+    });
+  }
+
+  /**
+   * Register the responder for a typed request.
+   * Only one responder per request name is active; registering another
+   * replaces the previous one.
+   *
+   * @returns A cleanup function that removes this responder.
+   */
+  handle<K extends keyof TRequestMap & string>(
+    event: K,
+    handler: RequestHandler<TRequestMap, K>
+  ): () => void {
+    if (this.requestHandlers.has(event)) {
+      this.logger.warn(`Replacing existing responder for "${event}"`);
+    }
+    const stored = handler as unknown as RequestHandler<RequestMap>;
+    this.requestHandlers.set(event, stored);
+    this.logger.debug(`Handling requests for "${event}"`);
+
+    return () => {
+      if (this.requestHandlers.get(event) === stored) {
+        this.requestHandlers.delete(event);
+        this.logger.debug(`Stopped handling requests for "${event}"`);
+      }
+    };
   }
 
   // ── Subscribing ──────────────────────────────────────────
@@ -227,6 +642,7 @@ export class SwarmRelay<TEventMap extends EventMap> {
     }
     this.handlers.get(event)!.add(handler as MessageHandler<TEventMap>);
     this.logger.debug(`Subscribed to "${event}"`);
+    this.scheduleSubscriptionUpdate();
     return () => this.off(event, handler);
   }
 
@@ -242,6 +658,7 @@ export class SwarmRelay<TEventMap extends EventMap> {
       eventHandlers.delete(handler as MessageHandler<TEventMap>);
       if (eventHandlers.size === 0) {
         this.handlers.delete(event);
+        this.scheduleSubscriptionUpdate();
       }
       this.logger.debug(`Unsubscribed from "${event}"`);
     }
@@ -256,6 +673,7 @@ export class SwarmRelay<TEventMap extends EventMap> {
   onAny(handler: WildcardHandler<TEventMap>): () => void {
     this.wildcardHandlers.add(handler);
     this.logger.debug('Subscribed to wildcard (all events)');
+    this.scheduleSubscriptionUpdate();
     return () => this.offAny(handler);
   }
 
@@ -265,61 +683,1616 @@ export class SwarmRelay<TEventMap extends EventMap> {
   offAny(handler: WildcardHandler<TEventMap>): void {
     this.wildcardHandlers.delete(handler);
     this.logger.debug('Unsubscribed from wildcard (all events)');
+    this.scheduleSubscriptionUpdate();
   }
 
-  // ── Private ──────────────────────────────────────────────
+  /**
+   * Subscribe to every event matching a pattern, such as `'cart:*'`.
+   * The payload is typed as the union of the matching events' payloads;
+   * narrow it by checking `message.event`.
+   *
+   * @returns A cleanup function that removes this subscription.
+   */
+  onPattern<P extends EventPattern<TEventMap>>(
+    pattern: P,
+    handler: PatternHandler<TEventMap, MatchingEvents<TEventMap, P>>
+  ): () => void {
+    let handlers = this.patternHandlers.get(pattern);
+    if (!handlers) {
+      handlers = new Set();
+      this.patternHandlers.set(pattern, handlers);
+    }
+    handlers.add(handler as unknown as PatternHandler<TEventMap>);
+    this.logger.debug(`Subscribed to pattern "${pattern}"`);
+    this.scheduleSubscriptionUpdate();
+    return () => this.offPattern(pattern, handler);
+  }
 
-  private setState(state: ConnectionState): void {
-    this._state = state;
-    this.onStateChange?.(state);
+  /**
+   * Unsubscribe a pattern handler.
+   */
+  offPattern<P extends EventPattern<TEventMap>>(
+    pattern: P,
+    handler: PatternHandler<TEventMap, MatchingEvents<TEventMap, P>>
+  ): void {
+    const handlers = this.patternHandlers.get(pattern);
+    if (handlers) {
+      handlers.delete(handler as unknown as PatternHandler<TEventMap>);
+      if (handlers.size === 0) {
+        this.patternHandlers.delete(pattern);
+        this.scheduleSubscriptionUpdate();
+      }
+      this.logger.debug(`Unsubscribed from pattern "${pattern}"`);
+    }
   }
 
-  private assertConnected(): void {
-    if (this._state !== ConnectionState.Connected) {
+  // ── Middleware ───────────────────────────────────────────
+
+  /**
+   * Add a middleware that can transform, enrich or drop messages.
+   *
+   * `outbound` hooks run in registration order before a message reaches
+   * the transport; `inbound` hooks run in reverse order before a received
+   * message is dispatched, so the first middleware added sits closest to
+   * the application. Hooks may be async; messages still pass through one
+   * at a time, in the order they were sent or received.
+   *
+   * @returns A cleanup function that removes this middleware.
+   */
+  use(middleware: SwarmMiddleware<TEventMap>): () => void {
+    this.middleware.push(middleware);
+    this.logger.debug(`Using middleware "${middleware.name ?? 'anonymous'}"`);
+    this.scheduleSubscriptionUpdate();
+
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
+        this.scheduleSubscriptionUpdate();
+      }
+    };
+  }
+
+  // ── Retained events ──────────────────────────────────────
+
+  /**
+   * The last known payload of a retained event — replayed by the hub on
+   * connect, received later, or broadcast by this client.
+   *
+   * @returns The payload, or `undefined` if none has been seen.
+   */
+  getLast<K extends keyof TEventMap & string>(
+    event: K
+  ): TEventMap[K] | undefined {
+    return this.getLastMessage(event)?.payload;
+  }
+
+  /**
+   * The full message carrying the last known payload of a retained event.
+   */
+  getLastMessage<K extends keyof TEventMap & string>(
+    event: K
+  ): SwarmMessage<TEventMap, K> | undefined {
+    return this.lastMessages.get(event) as
+      | SwarmMessage<TEventMap, K>
+      | undefined;
+  }
+
+  /**
+   * The last known messages of every retained event matching a pattern,
+   * oldest first.
+   */
+  getLastMessages<P extends EventPattern<TEventMap>>(
+    pattern: P
+  ): SwarmMessage<TEventMap, MatchingEvents<TEventMap, P>>[] {
+    return [...this.lastMessages.values()]
+      .filter((message) => matchesEventPattern(String(message.event), pattern))
+      .sort((a, b) => a.timestamp - b.timestamp) as SwarmMessage<
+      TEventMap,
+      MatchingEvents<TEventMap, P>
+    >[];
+  }
+
+  // ── Presence ─────────────────────────────────────────────
+
+  /**
+   * List the other clients currently connected to the hub.
+   * Returns an empty array when the transport does not support presence.
+   */
+  getPeers(): PeerInfo[] {
+    return this.transport.getPeers?.() ?? [];
+  }
+
+  /**
+   * Subscribe to peers joining the hub.
+   *
+   * @returns A cleanup function that removes this subscription.
+   */
+  onPeerJoin(handler: PeerHandler): () => void {
+    this.peerJoinHandlers.add(handler);
+    return () => this.peerJoinHandlers.delete(handler);
+  }
+
+  /**
+   * Subscribe to peers leaving the hub.
+   *
+   * @returns A cleanup function that removes this subscription.
+   */
+  onPeerLeave(handler: PeerHandler): () => void {
+    this.peerLeaveHandlers.add(handler);
+    return () => this.peerLeaveHandlers.delete(handler);
+  }
+
+  // ── Inspection ───────────────────────────────────────────
+
+  /**
+   * Watch the hub, for devtools. The listener first receives a `snapshot`
+   * of the hub's recent traffic and connected clients, then every message
+   * the hub routes and every change to its client list. Inspection starts
+   * once connected and resumes, with a fresh snapshot, after reconnecting.
+   *
+   * @throws {SwarmRelayError} `TransportError` if the transport has no hub
+   *   to inspect, such as `BroadcastChannelTransport`.
+   * @returns A cleanup function that removes this listener.
+   */
+  inspect(listener: InspectorListener): () => void {
+    if (!this.transport.setInspecting) {
       throw new SwarmRelayError(
-        'Not connected. Call connect() first.',
-        SwarmRelayErrorCode.NotConnected
+        'The transport has no hub to inspect',
+        SwarmRelayErrorCode.TransportError
       );
     }
+
+    this.inspectorListeners.add(listener);
+    // Asking again makes the hub send a snapshot for the new listener.
+    this.updateInspecting();
+    return () => {
+      if (
+        this.inspectorListeners.delete(listener) &&
+        this.inspectorListeners.size === 0
+      ) {
+        this.updateInspecting();
+      }
+    };
   }
 
+  // ── Channels ─────────────────────────────────────────────
+
   /**
-   * Central message dispatcher — routes incoming messages to
-   * wildcard handlers first, then to event-specific handlers.
+   * A relay scoped to the channel `name`, so independent groups of
+   * microfrontends can reuse event names. Its broadcasts only reach
+   * clients that joined the same channel, and it only receives messages
+   * sent on the channel (which this relay no longer sees).
+   *
+   * The channel relay shares this relay's client ID and connection:
+   * `connect()` joins the channel once this relay is connected, and
+   * `disconnect()` leaves it. Disconnecting this relay disconnects every
+   * channel relay. Otherwise channel relays follow this relay's state and
+   * receive its connection errors: automatic reconnection joins them
+   * again, and while it runs they queue sends in their `outbox`. Calling
+   * `channel()` again with the same name returns the same relay until it
+   * leaves.
+   *
+   * @throws {SwarmRelayError} `InvalidMessage` if `name` is empty or this
+   *   relay is itself a channel.
+   *
+   * @example
+   * ```typescript
+   * const checkout = relay.channel('checkout');
+   * await checkout.connect();
+   * checkout.on('cart:update', render); // only the checkout group's updates
+   * ```
    */
-  private handleMessage = (message: SwarmMessage<TEventMap>): void => {
-    this.logger.debug(
-      `Received "${String(message.event)}" from "${message.source}"`,
-      message
-    );
+  channel<
+    TChannelEvents extends EventMap = TEventMap,
+    TChannelRequests extends RequestMap = TRequestMap
+  >(
+    name: string,
+    options: ChannelOptions<TChannelEvents> = {}
+  ): SwarmRelay<TChannelEvents, TChannelRequests> {
+    if (!name || this.isChannel) {
+      throw new SwarmRelayError(
+        name
+          ? `Cannot open channel "${name}" within a channel`
+          : 'Channel name must not be empty',
+        SwarmRelayErrorCode.InvalidMessage
+      );
+    }
 
-    // 1) Wildcard handlers
-    for (const handler of this.wildcardHandlers) {
-      try {
-        handler(message.event, message.payload, message);
-      } catch (error) {
-        this.logger.error('Wildcard handler threw', error);
+    const open = this.channels.get(name);
+    if (open) return open.relay;
+
+    const transport: ChannelTransport<TChannelEvents> = new ChannelTransport(
+      name,
+      {
+        transport: this.transport as TransportAdapter<EventMap>,
+        relay: this,
+        leave: () => {
+          if (this.channels.get(name)?.transport === transport) {
+            this.channels.delete(name);
+          }
+        },
       }
+    );
+    const relay = new SwarmRelay<TChannelEvents, TChannelRequests>({
+      logger: this.logger,
+      ...options,
+      clientId: this.clientId,
+      tabId: this._tabId,
+      transport,
+    });
+    this.channels.set(name, { relay, transport });
+    return relay;
+  }
+
+  // ── Leader election ──────────────────────────────────────
+
+  /**
+   * Stand in the election `name` at the hub, so that exactly one of the
+   * clients standing — typically one per tab — runs a task such as
+   * background sync. The hub makes its longest standing candidate the
+   * leader; when the leader resigns, disconnects or its tab closes, the
+   * next candidate takes over.
+   *
+   * Candidacy starts once connected and is renewed after reconnecting;
+   * while disconnected the relay does not consider itself the leader.
+   * Calling `electLeader()` again with the same name returns the same
+   * election until it is resigned.
+   *
+   * @throws {SwarmRelayError} `InvalidMessage` if `name` is empty, or
+   *   `TransportError` if the transport has no hub to run elections, such
+   *   as `BroadcastChannelTransport` or a channel relay.
+   *
+   * @example
+   * ```typescript
+   * const election = relay.electLeader('background-sync');
+   * await election.whenLeader();
+   * startSync();
+   * ```
+   */
+  electLeader(name: string): LeaderElection {
+    if (!name) {
+      throw new SwarmRelayError(
+        'Election name must not be empty',
+        SwarmRelayErrorCode.InvalidMessage
+      );
+    }
+    if (!this.transport.elect) {
+      throw new SwarmRelayError(
+        'The transport has no hub to run elections',
+        SwarmRelayErrorCode.TransportError
+      );
     }
 
-    // 2) Event-specific handlers
-    const eventHandlers = this.handlers.get(message.event);
-    if (eventHandlers) {
-      for (const handler of eventHandlers) {
-        try {
-          handler(message.payload, message);
-        } catch (error) {
-          this.logger.error(
-            `Handler for "${String(message.event)}" threw`,
-            error
-          );
+    const existing = this.elections.get(name);
+    if (existing) return existing;
+
+    const election: LeaderElection = new LeaderElection(name, {
+      relay: this,
+      resign: () => {
+        if (this.elections.get(name) !== election) return;
+        this.elections.delete(name);
+        if (this._state === ConnectionState.Connected) {
+          this.transport.resign?.(name);
         }
-      }
+      },
+    });
+    this.elections.set(name, election);
+    if (this._state === ConnectionState.Connected) {
+      this.transport.elect(name);
     }
-  };
+    return election;
+  }
 
-  private handleError = (error: Error): void => {
-    this.logger.error('Transport error', error);
-    this.onErrorCallback?.(error);
-  };
+  // ── Streams ──────────────────────────────────────────────
+
+  /**
+   * Open a stream of `event` values to `target`, for payloads too large to
+   * send at once or produced over time. The target reads it with the
+   * handler it registered with {@link onStream}.
+   *
+   * Written values reach the target once and in order; strings and binary
+   * values longer than `chunkSize` are split on the way and put back
+   * together. `write()` waits while the target's buffer is full. The
+   * stream fails if the target does not accept it within `timeout` (after
+   * retries, as for `SendOptions.ack`), cancels it, or leaves, and if this
+   * relay loses its connection.
+   *
+   * The writer's `closed` promise, pending writes and `close()` reject with
+   * `NoResponder` if the target has no handler for `event`,
+   * `ProtocolMismatch` if its build cannot read streams, `UnknownTarget` or
+   * `DeliveryTimeout` if it never accepts the stream, `StreamCancelled` if
+   * it cancels or leaves, and `NotConnected` if the connection is lost.
+   *
+   * @throws {SwarmRelayError} `NotConnected` if the relay is not connected.
+   *
+   * @example
+   * ```typescript
+   * const writer = relay.openStream('uploader', 'file:chunk');
+   * for await (const chunk of file.stream()) {
+   *   await writer.write(chunk);
+   * }
+   * await writer.close();
+   * ```
+   */
+  openStream<K extends keyof TEventMap & string>(
+    target: string,
+    event: K,
+    options: StreamOptions = {}
+  ): SwarmStreamWriter<TEventMap[K]> {
+    this.assertConnected();
+
+    const id = generateId();
+    const host: StreamHost = {
+      send: (meta, payload, transfer) =>
+        this.sendStreamFrame(target, event, meta, payload, transfer),
+      validate: (value) => this.validate(event, value, 'outgoing'),
+      close: () => {
+        this.outgoingStreams.delete(id);
+        // Stop sending the `open` frame again.
+        this.settleAck(id);
+      },
+    };
+    const writer = new SwarmStreamWriter<TEventMap[K]>(
+      id,
+      target,
+      event,
+      host,
+      options.chunkSize
+    );
+    this.outgoingStreams.set(id, writer as SwarmStreamWriter<unknown>);
+
+    const open: SwarmMessage<EventMap> = {
+      id,
+      source: this.clientId,
+      target,
+      event,
+      payload: undefined,
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      stream: { id, kind: 'open' },
+    };
+    this.logger.debug(`Opening stream "${event}" to "${target}"`, open);
+    // The target grants credit before confirming the `open` frame, so a
+    // confirmed stream without credit reached a build without streams.
+    this.sendWithAck(open as SwarmMessage<TEventMap>, {
+      ackTimeout: options.timeout,
+    }).then(
+      () => {
+        if (writer.accepted) return;
+        writer.fail(
+          new SwarmRelayError(
+            `Client "${target}" speaks an older protocol and cannot read ` +
+              `streams`,
+            SwarmRelayErrorCode.ProtocolMismatch
+          )
+        );
+      },
+      (error: Error) => writer.fail(error)
+    );
+    return writer;
+  }
+
+  /**
+   * Register the handler for streams of `event` opened to this relay.
+   * Only one handler per event is active; registering another replaces the
+   * previous one. Streams opened while none is registered are refused with
+   * `NoResponder`. If the handler throws or rejects, its stream is
+   * cancelled.
+   *
+   * @returns A cleanup function that removes this handler.
+   *
+   * @example
+   * ```typescript
+   * relay.onStream('file:chunk', async (stream) => {
+   *   const chunks: ArrayBuffer[] = [];
+   *   for await (const chunk of stream) chunks.push(chunk);
+   *   save(new Blob(chunks));
+   * });
+   * ```
+   */
+  onStream<K extends keyof TEventMap & string>(
+    event: K,
+    handler: StreamHandler<TEventMap[K]>,
+    options: StreamHandlerOptions = {}
+  ): () => void {
+    if (this.streamHandlers.has(event)) {
+      this.logger.warn(`Replacing existing stream handler for "${event}"`);
+    }
+    const stored = {
+      handler: handler as StreamHandler<unknown>,
+      highWaterMark: Math.max(
+        1,
+        options.highWaterMark ?? DEFAULT_STREAM_HIGH_WATER_MARK
+      ),
+    };
+    this.streamHandlers.set(event, stored);
+    this.logger.debug(`Handling streams of "${event}"`);
+
+    return () => {
+      if (this.streamHandlers.get(event) === stored) {
+        this.streamHandlers.delete(event);
+        this.logger.debug(`Stopped handling streams of "${event}"`);
+      }
+    };
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /** Attach relay listeners to the transport and run one connection attempt. */
+  private async attemptConnect(): Promise<void> {
+    if (this._aborted) {
+      throw new SwarmRelayError(
+        'Connection aborted',
+        SwarmRelayErrorCode.ConnectionFailed
+      );
+    }
+
+    // Transports drop their listeners on failure or disconnect, so the
+    // relay's subscriptions are re-registered on every attempt.
+    this.transport.onMessage(this.handleMessage);
+    this.transport.onError(this.handleError);
+    this.transport.onPresence?.(this.handlePresence);
+    this.transport.onInspect?.(this.handleInspectorUpdate);
+    this.transport.onLeader?.(this.handleLeader);
+    if (this.transport instanceof ChannelTransport) {
+      this.transport.onStateChange(this.handleHostState);
+    }
+    await this.transport.connect(this.requestedId, this.connectOptions);
+    this.clientId = this.transport.registeredId ?? this.requestedId;
+  }
+
+  /** Run {@link attemptConnect} under the reconnect policy via `retry`. */
+  private withReconnect(retries: number): Promise<void> {
+    const policy = this.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY;
+    const options: RetryOptions = {
+      retries,
+      delay: policy.initialDelay,
+      maxDelay: policy.maxDelay,
+      factor: policy.factor,
+      jitter: policy.jitter,
+      // A protocol mismatch or client ID conflict will not resolve itself
+      // by retrying.
+      shouldRetry: (error) =>
+        !this._aborted &&
+        !(
+          error instanceof SwarmRelayError &&
+          (error.code === SwarmRelayErrorCode.ProtocolMismatch ||
+            error.code === SwarmRelayErrorCode.ClientIdConflict)
+        ),
+      onRetry: (error, attempt, nextDelay) => {
+        this.setState(ConnectionState.Reconnecting);
+        this.logger.warn(
+          `Connection attempt ${
+            attempt + 1
+          } failed; retrying in ${nextDelay}ms`,
+          error
+        );
+      },
+    };
+
+    return retry(() => this.attemptConnect(), options);
+  }
+
+  /**
+   * Re-establish a connection the transport reported as failed.
+   * Runs in the background; gives up (state `Error`) once the policy is exhausted.
+   */
+  private async reconnect(): Promise<void> {
+    this.setState(ConnectionState.Reconnecting);
+    this.logger.warn(`Connection lost; reconnecting "${this.clientId}"…`);
+    this.transport.disconnect();
+
+    try {
+      // The first attempt runs immediately, so it counts towards maxAttempts.
+      await this.withReconnect(
+        Math.max((this.reconnectPolicy?.maxAttempts ?? 1) - 1, 0)
+      );
+      if (this._aborted) return;
+
+      this.setState(ConnectionState.Connected);
+      this.logger.info(`Reconnected as "${this.clientId}"`);
+      this.flushOutbox();
+      this.resumeAcks();
+    } catch (error) {
+      if (this._aborted) return;
+      this.failConnection(error);
+    }
+  }
+
+  /** Move to the `Error` state and report a connection failure. */
+  private failConnection(error: unknown): SwarmRelayError {
+    this.discardOutbox('connection failed');
+    this.setState(ConnectionState.Error);
+    this.rejectPendingAcks();
+    const relayError =
+      error instanceof SwarmRelayError
+        ? error
+        : new SwarmRelayError(
+            'Connection failed',
+            SwarmRelayErrorCode.ConnectionFailed,
+            error instanceof Error ? error : undefined
+          );
+    this.logger.error('Connection failed', relayError);
+    this.onErrorCallback?.(relayError);
+    this.failChannels(relayError);
+    return relayError;
+  }
+
+  private setState(state: ConnectionState): void {
+    this._state = state;
+    if (state === ConnectionState.Connected) {
+      // A new connection starts out receiving everything, in no channel and
+      // standing in no election.
+      this.announcedSubscriptions = null;
+      this.announceSubscriptions();
+      for (const { transport } of this.channels.values()) {
+        transport.rejoin();
+      }
+      if (this.inspectorListeners.size > 0) {
+        this.updateInspecting();
+      }
+      for (const name of this.elections.keys()) {
+        this.transport.elect?.(name);
+      }
+    } else {
+      // Out of touch with the hub, the relay cannot know who leads.
+      for (const election of this.elections.values()) {
+        election.settle(null);
+      }
+      // Receipts cannot arrive, so attempts wait for the next connection.
+      this.pauseAcks();
+      // Frames may have been lost, so streams cannot carry on.
+      this.failStreams(
+        () => true,
+        () =>
+          new SwarmRelayError(
+            'Connection lost before the stream ended',
+            SwarmRelayErrorCode.NotConnected
+          )
+      );
+    }
+    // Channel relays share the connection, so they follow it.
+    for (const { transport } of this.channels.values()) {
+      transport.follow(state);
+    }
+    this.onStateChange?.(state);
+  }
+
+  /** Pass a connection error on to the channel relays sharing it. */
+  private failChannels(error: Error): void {
+    for (const { transport } of this.channels.values()) {
+      transport.fail(error);
+    }
+  }
+
+  /**
+   * For a channel relay: follow the opening relay's connection, queueing
+   * while it reconnects and failing once it gives up.
+   */
+  private handleHostState = (state: ConnectionState): void => {
+    if (this._state === ConnectionState.Disconnected || this._state === state) {
+      return;
+    }
+
+    switch (state) {
+      case ConnectionState.Connected:
+        this.setState(ConnectionState.Connected);
+        this.flushOutbox();
+        this.resumeAcks();
+        return;
+      case ConnectionState.Connecting:
+      case ConnectionState.Reconnecting:
+        this.setState(ConnectionState.Reconnecting);
+        return;
+      case ConnectionState.Error:
+        this.discardOutbox('connection failed');
+        this.setState(ConnectionState.Error);
+        this.rejectPendingAcks();
+        return;
+    }
+  };
+
+  // ── Subscription routing ─────────────────────────────────
+
+  /**
+   * Events this client needs the hub to forward: everything it subscribes
+   * to, plus retained events so `getLast()` stays current. Wildcard
+   * handlers and inbound middleware see every message, so they ask for all.
+   */
+  private subscriptionPatterns(): string[] {
+    if (
+      this.wildcardHandlers.size > 0 ||
+      this.middleware.some((middleware) => middleware.inbound)
+    ) {
+      return ['*'];
+    }
+    const patterns = new Set<string>([
+      ...[...this.handlers.keys()].map(String),
+      ...this.patternHandlers.keys(),
+      ...[...this.retainedEvents].map(String),
+    ]);
+    return [...patterns].sort();
+  }
+
+  /** Announce subscriptions once the current batch of changes is done. */
+  private scheduleSubscriptionUpdate(): void {
+    if (this.subscriptionUpdateQueued || !this.transport.setSubscriptions) {
+      return;
+    }
+    this.subscriptionUpdateQueued = true;
+    queueMicrotask(() => {
+      this.subscriptionUpdateQueued = false;
+      this.announceSubscriptions();
+    });
+  }
+
+  /** Tell the transport which events to receive, if that changed. */
+  private announceSubscriptions(): void {
+    if (
+      this._state !== ConnectionState.Connected ||
+      !this.transport.setSubscriptions
+    ) {
+      return;
+    }
+
+    const patterns = this.subscriptionPatterns();
+    const key = patterns.join('\n');
+    if (key === this.announcedSubscriptions) return;
+
+    try {
+      this.transport.setSubscriptions(patterns);
+      this.announcedSubscriptions = key;
+      this.logger.debug(
+        `Subscribed at the hub to ${patterns.length} pattern(s)`
+      );
+    } catch (error) {
+      this.logger.warn('Failed to announce subscriptions', error);
+    }
+  }
+
+  /** Tell the transport whether anyone is inspecting the hub. */
+  private updateInspecting(): void {
+    if (this._state !== ConnectionState.Connected) return;
+
+    try {
+      this.transport.setInspecting?.(this.inspectorListeners.size > 0);
+    } catch (error) {
+      this.logger.warn('Failed to update hub inspection', error);
+    }
+  }
+
+  /**
+   * Pass a message through outbound middleware to the transport.
+   *
+   * @param transfer - Objects in the payload to transfer rather than copy.
+   * @returns A promise if middleware made delivery asynchronous.
+   */
+  private transmit(
+    message: SwarmMessage<TEventMap>,
+    transfer?: Transferable[]
+  ): Promise<void> | undefined {
+    return this.pipe('outbound', message, (result) =>
+      this.deliver(result, transfer)
+    );
+  }
+
+  /** Hand a message to the transport and record retained values. */
+  private deliver(
+    message: SwarmMessage<TEventMap>,
+    transfer?: Transferable[]
+  ): void {
+    if (transfer?.length) {
+      this.transport.send(message, { transfer });
+    } else {
+      this.transport.send(message);
+    }
+    if (message.retain) {
+      this.lastMessages.set(message.event, message);
+    }
+  }
+
+  /**
+   * Run `message` through the middleware for `direction`, then hand the
+   * result to `next`. Messages are processed one at a time per direction
+   * so async middleware cannot reorder them; without middleware (and
+   * nothing still queued) `next` runs synchronously.
+   *
+   * @returns A promise settling once the message was handled or dropped,
+   *   or `undefined` if it was handled synchronously.
+   */
+  private pipe(
+    direction: MiddlewareDirection,
+    message: SwarmMessage<TEventMap>,
+    next: (message: SwarmMessage<TEventMap>) => void
+  ): Promise<void> | undefined {
+    const queued = this.pipelines[direction];
+    if (this.middleware.length === 0 && !queued) {
+      next(message);
+      return undefined;
+    }
+
+    const handled = (queued ?? Promise.resolve())
+      .then(() => this.applyMiddleware(direction, message))
+      .then((result) => {
+        if (result) next(result);
+      });
+    const tail: Promise<void> = handled
+      .catch(() => undefined)
+      .then(() => {
+        if (this.pipelines[direction] === tail) {
+          this.pipelines[direction] = null;
+        }
+      });
+    this.pipelines[direction] = tail;
+    return handled;
+  }
+
+  /**
+   * Apply each middleware's hook for `direction` in turn.
+   *
+   * @returns The resulting message, or `null` if a middleware dropped it.
+   * @throws {SwarmRelayError} If a hook throws — `SendFailed` outbound,
+   *   `InvalidMessage` inbound.
+   */
+  private async applyMiddleware(
+    direction: MiddlewareDirection,
+    message: SwarmMessage<TEventMap>
+  ): Promise<SwarmMessage<TEventMap> | null> {
+    const chain =
+      direction === 'outbound'
+        ? [...this.middleware]
+        : [...this.middleware].reverse();
+
+    let current = message;
+    for (const middleware of chain) {
+      const hook = middleware[direction];
+      if (!hook) continue;
+
+      const name = middleware.name ?? 'anonymous';
+      let result: SwarmMessage<TEventMap> | null;
+      try {
+        result = await hook.call(middleware, current);
+      } catch (error) {
+        throw new SwarmRelayError(
+          `Middleware "${name}" failed on ${direction} "${String(
+            current.event
+          )}"`,
+          direction === 'outbound'
+            ? SwarmRelayErrorCode.SendFailed
+            : SwarmRelayErrorCode.InvalidMessage,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      if (!result) {
+        this.logger.debug(
+          `Middleware "${name}" dropped ${direction} "${String(current.event)}"`
+        );
+        return null;
+      }
+      current = result;
+    }
+    return current;
+  }
+
+  /**
+   * Report a failure of an asynchronous transmit, whose caller has already
+   * returned, through the logger and `onError`.
+   */
+  private reportFailure(
+    pending: Promise<void> | undefined,
+    message: SwarmMessage<TEventMap>
+  ): void {
+    pending?.catch((error: unknown) => {
+      this.logger.error(`Failed to send "${String(message.event)}"`, error);
+      this.onErrorCallback?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    });
+  }
+
+  /**
+   * Queue `message` in the outbox if one is configured and a connection
+   * is in progress.
+   *
+   * @returns `true` if the message was queued (or dropped by the overflow policy).
+   */
+  private enqueueIfConnecting(
+    message: SwarmMessage<TEventMap>,
+    transfer?: Transferable[]
+  ): boolean {
+    if (!this.outbox || !this.isConnecting()) return false;
+
+    const dropped = this.outbox.enqueue({ message, transfer })?.message;
+    this.logger.debug(`Queued "${String(message.event)}" until connected`);
+    if (dropped) {
+      this.logger.warn(
+        `Outbox full; dropped "${String(dropped.event)}" (${dropped.id})`
+      );
+    }
+    return true;
+  }
+
+  private isConnecting(): boolean {
+    return (
+      this._state === ConnectionState.Connecting ||
+      this._state === ConnectionState.Reconnecting
+    );
+  }
+
+  /** Deliver queued messages in order now that the relay is connected. */
+  private flushOutbox(): void {
+    if (!this.outbox || this.outbox.size === 0) return;
+
+    const { items, expired } = this.outbox.drain();
+    if (expired > 0) {
+      this.logger.warn(`Dropped ${expired} expired outbox message(s)`);
+    }
+
+    this.logger.debug(`Flushing ${items.length} outbox message(s)`);
+    for (const { message, transfer } of items) {
+      try {
+        this.restamp(message);
+        this.reportFailure(this.transmit(message, transfer), message);
+      } catch (error) {
+        this.logger.error(
+          `Failed to flush "${String(message.event)}" from outbox`,
+          error
+        );
+        this.onErrorCallback?.(
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    }
+  }
+
+  /**
+   * Send `message` as the ID the hub registered, which differs from the
+   * one it was created with if it waited for a suffixed registration.
+   */
+  private restamp(message: SwarmMessage<TEventMap>): void {
+    message.source = this.clientId;
+  }
+
+  private discardOutbox(reason: string): void {
+    const count = this.outbox?.clear() ?? 0;
+    if (count > 0) {
+      this.logger.warn(`Discarded ${count} outbox message(s): ${reason}`);
+    }
+  }
+
+  /**
+   * Run `payload` through the schema registered for `event`, if any.
+   *
+   * @returns The parsed payload.
+   * @throws {SwarmRelayError} `InvalidMessage` when the schema rejects it.
+   */
+  private validate<K extends keyof TEventMap>(
+    event: K,
+    payload: unknown,
+    direction: 'outgoing' | 'incoming'
+  ): TEventMap[K] {
+    const schema = this.schemas[event];
+    if (!schema) return payload as TEventMap[K];
+
+    try {
+      return typeof schema === 'function'
+        ? schema(payload)
+        : schema.parse(payload);
+    } catch (error) {
+      throw new SwarmRelayError(
+        `Invalid ${direction} payload for "${String(event)}"`,
+        SwarmRelayErrorCode.InvalidMessage,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Validate an incoming message against its schema.
+   * Invalid messages are reported through `onError` and dropped.
+   *
+   * @returns The message with its parsed payload, or `null` if invalid.
+   */
+  private parseIncoming(
+    message: SwarmMessage<TEventMap>
+  ): SwarmMessage<TEventMap> | null {
+    if (!this.schemas[message.event]) return message;
+
+    try {
+      return {
+        ...message,
+        payload: this.validate(message.event, message.payload, 'incoming'),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Dropping "${String(message.event)}" from "${message.source}"`,
+        error
+      );
+      this.onErrorCallback?.(error as SwarmRelayError);
+      return null;
+    }
+  }
+
+  private assertConnected(): void {
+    if (this._state !== ConnectionState.Connected) {
+      throw new SwarmRelayError(
+        'Not connected. Call connect() first.',
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+  }
+
+  /**
+   * Entry point for received messages — upgrades envelopes from older
+   * builds and passes them through inbound middleware to {@link dispatch}.
+   */
+  private handleMessage = (envelope: SwarmMessage<TEventMap>): void => {
+    const received = upgradeMessage(envelope);
+
+    // Messages sent on a channel belong to the relay that joined it.
+    if (received.channel !== undefined && !this.isChannel) {
+      const channel = this.channels.get(received.channel);
+      if (channel) {
+        channel.transport.receive(received as SwarmMessage<EventMap>);
+      } else {
+        this.logger.debug(
+          `Dropping "${String(received.event)}" on channel ` +
+            `"${received.channel}": not joined`
+        );
+      }
+      return;
+    }
+
+    this.logger.debug(
+      `Received "${String(received.event)}" from "${received.source}"`,
+      received
+    );
+
+    if ((received.version ?? PROTOCOL_VERSION) < MIN_PROTOCOL_VERSION) {
+      const error = new SwarmRelayError(
+        `"${received.source}" speaks protocol ${received.version}; ` +
+          `this client requires ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+        SwarmRelayErrorCode.ProtocolMismatch
+      );
+      this.logger.error(`Dropping "${String(received.event)}"`, error);
+      this.onErrorCallback?.(error);
+      return;
+    }
+
+    // Acknowledged messages are de-duplicated once handled, so that copies
+    // sent again after a lost receipt are still confirmed (see dispatch);
+    // hub receipts for each attempt share an ID and settle at most once.
+    if (this.recentIds && !received.ack) {
+      if (this.recentIds.has(received.id)) {
+        this.logger.debug(
+          `Dropping duplicate "${String(received.event)}" (${received.id})`
+        );
+        return;
+      }
+      this.recentIds.add(received.id);
+    }
+
+    this.pipe('inbound', received, this.dispatch)?.catch((error: unknown) => {
+      this.logger.error(
+        `Failed to process "${String(received.event)}" from "${
+          received.source
+        }"`,
+        error
+      );
+      this.onErrorCallback?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    });
+  };
+
+  /**
+   * Route a received message (after inbound middleware) to the request
+   * machinery or, once validated, to wildcard and event-specific handlers.
+   */
+  private dispatch = (received: SwarmMessage<TEventMap>): void => {
+    // Receipts never reach event subscribers either.
+    if (received.ack?.kind === 'receipt') {
+      this.handleReceipt(received.ack, received.source);
+      return;
+    }
+
+    // A copy sent again after a lost receipt is only confirmed again.
+    if (received.ack && this.handledAcks.has(received.id)) {
+      this.logger.debug(
+        `Confirming "${String(received.event)}" (${received.id}) again`
+      );
+      this.confirm(received);
+      return;
+    }
+
+    // Neither do stream frames; their handlers read the chunks.
+    if (received.stream) {
+      this.handleStream(received, received.stream);
+      return;
+    }
+
+    // Request/response envelopes never reach event subscribers.
+    if (received.rpc) {
+      this.handleRpc(received as SwarmMessage<EventMap>, received.rpc);
+      return;
+    }
+
+    const message = this.parseIncoming(received);
+    if (!message) return;
+
+    if (message.retain || this.retainedEvents.has(message.event)) {
+      this.lastMessages.set(message.event, message);
+    }
+
+    // 1) Wildcard handlers
+    for (const handler of this.wildcardHandlers) {
+      try {
+        handler(message.event, message.payload, message);
+      } catch (error) {
+        this.logger.error('Wildcard handler threw', error);
+      }
+    }
+
+    // 2) Pattern handlers
+    for (const [pattern, handlers] of this.patternHandlers) {
+      if (!matchesEventPattern(String(message.event), pattern)) continue;
+      for (const handler of handlers) {
+        try {
+          handler(message.payload, message);
+        } catch (error) {
+          this.logger.error(`Handler for pattern "${pattern}" threw`, error);
+        }
+      }
+    }
+
+    // 3) Event-specific handlers
+    const eventHandlers = this.handlers.get(message.event);
+    if (eventHandlers) {
+      for (const handler of eventHandlers) {
+        try {
+          handler(message.payload, message);
+        } catch (error) {
+          this.logger.error(
+            `Handler for "${String(message.event)}" threw`,
+            error
+          );
+        }
+      }
+    }
+
+    if (message.ack) {
+      this.confirm(message);
+    }
+  };
+
+  /**
+   * Settles pending requests on response, and invokes the registered
+   * responder on request.
+   */
+  private handleRpc(message: SwarmMessage<EventMap>, rpc: SwarmRpcMeta): void {
+    if (rpc.kind === 'response') {
+      const requestId = rpc.requestId ?? '';
+      const pending = this.pendingRequests.get(requestId);
+      if (!pending) {
+        this.logger.debug(
+          `Ignoring response for unknown request "${rpc.requestId}"`
+        );
+        return;
+      }
+
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(requestId);
+      if (rpc.error) {
+        pending.reject(
+          new SwarmRelayError(
+            rpc.error.message,
+            rpc.error.code as SwarmRelayErrorCode
+          )
+        );
+      } else {
+        pending.resolve(message.payload);
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.event);
+    if (!handler) {
+      this.respond(message, undefined, {
+        message: `No responder for "${message.event}" on "${this.clientId}"`,
+        code: SwarmRelayErrorCode.NoResponder,
+      });
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => handler(message.payload, message))
+      .then(
+        (response) => this.respond(message, response),
+        (error: unknown) => {
+          this.logger.error(`Responder for "${message.event}" threw`, error);
+          this.respond(message, undefined, {
+            message: error instanceof Error ? error.message : String(error),
+            code: SwarmRelayErrorCode.RequestFailed,
+          });
+        }
+      );
+  }
+
+  /** Send the response (or error) for a received request back to its source. */
+  private respond(
+    request: SwarmMessage<EventMap>,
+    payload: unknown,
+    error?: { message: string; code: SwarmRelayErrorCode }
+  ): void {
+    if (this._state !== ConnectionState.Connected) {
+      this.logger.warn(
+        `Dropping response for "${request.event}": not connected`
+      );
+      return;
+    }
+
+    const message: SwarmMessage<EventMap> = {
+      id: generateId(),
+      source: this.clientId,
+      target: request.source,
+      event: request.event,
+      payload,
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      rpc: { kind: 'response', requestId: request.id, error },
+    };
+
+    const logFailure = (err: unknown) =>
+      this.logger.error(`Failed to respond to "${request.event}"`, err);
+    try {
+      this.transmit(message as SwarmMessage<TEventMap>)?.catch(logFailure);
+    } catch (err) {
+      logFailure(err);
+    }
+  }
+
+  private rejectPendingRequests(): void {
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(
+        new SwarmRelayError(
+          'Disconnected before a response was received',
+          SwarmRelayErrorCode.NotConnected
+        )
+      );
+    }
+    this.pendingRequests.clear();
+  }
+
+  // ── Acknowledgements ─────────────────────────────────────
+
+  /**
+   * Send `message` and send it again until its target confirms it.
+   * See {@link send} for how the returned promise settles.
+   */
+  private sendWithAck(
+    message: SwarmMessage<TEventMap>,
+    options: SendOptions
+  ): Promise<void> {
+    const timeout = options.ackTimeout ?? DEFAULT_ACK_TIMEOUT;
+    const event = String(message.event);
+    message.ack = { kind: 'request' };
+
+    return new Promise<void>((resolve, reject) => {
+      const pending: PendingAck = {
+        message: message as SwarmMessage<EventMap>,
+        resolve,
+        reject,
+        timer: null,
+        retriesLeft: options.retries ?? DEFAULT_ACK_RETRIES,
+        status: null,
+        paused: false,
+        queued: false,
+        resume: () => {
+          pending.paused = false;
+          if (!pending.queued) {
+            attempt(false);
+            return;
+          }
+          // Flushing the outbox sent the queued copy.
+          pending.queued = false;
+          startTimer();
+        },
+      };
+      this.pendingAcks.set(message.id, pending);
+
+      const startTimer = (): void => {
+        pending.timer = setTimeout(() => {
+          if (pending.retriesLeft === 0) {
+            this.settleAck(message.id, this.deliveryError(pending));
+            return;
+          }
+          pending.retriesLeft--;
+          this.logger.debug(
+            `Sending "${event}" to "${message.target}" again`,
+            message
+          );
+          attempt(false);
+        }, timeout);
+      };
+
+      const attempt = (first: boolean): void => {
+        pending.status = null;
+
+        // Only the first attempt fails the send; later ones may succeed
+        // once a reconnect completes.
+        const fail = (error: unknown) => {
+          if (first) {
+            this.settleAck(
+              message.id,
+              error instanceof Error ? error : new Error(String(error))
+            );
+          } else {
+            this.logger.warn(`Failed to send "${event}" again`, error);
+          }
+        };
+
+        try {
+          if (this.isConnecting() && (this.outbox || !first)) {
+            // Wait for the connection before timing the attempt, keeping
+            // at most one copy of the message in the outbox.
+            pending.paused = true;
+            if (!pending.queued && this.enqueueIfConnecting(message)) {
+              pending.queued = true;
+            }
+            return;
+          }
+          startTimer();
+          this.assertConnected();
+          this.restamp(message);
+          this.transmit(message)?.catch(fail);
+        } catch (error) {
+          fail(error);
+        }
+      };
+
+      this.logger.debug(
+        `Sending "${event}" to "${message.target}" with ack`,
+        message
+      );
+      attempt(true);
+    });
+  }
+
+  /** Update or settle the pending send that a receipt reports on. */
+  private handleReceipt(ack: SwarmAckMeta, source: string): void {
+    const messageId = ack.messageId ?? '';
+    const pending = this.pendingAcks.get(messageId);
+    if (!pending) {
+      this.logger.debug(`Ignoring receipt for unknown message "${messageId}"`);
+      return;
+    }
+
+    pending.status = ack.status ?? null;
+    switch (ack.status) {
+      case 'handled':
+        this.settleAck(messageId);
+        return;
+      case 'protocol-mismatch':
+        this.settleAck(
+          messageId,
+          new SwarmRelayError(
+            `Client "${source}" speaks an older protocol and cannot ` +
+              `confirm messages`,
+            SwarmRelayErrorCode.ProtocolMismatch
+          )
+        );
+        return;
+      case 'unknown-target':
+        // Earlier attempts wait: the target may be reconnecting.
+        if (pending.retriesLeft === 0) {
+          this.settleAck(messageId, this.deliveryError(pending));
+        }
+        return;
+    }
+  }
+
+  /** The error a send fails with once it has no attempts left. */
+  private deliveryError(pending: PendingAck): SwarmRelayError {
+    const { event, target } = pending.message;
+    if (pending.status === 'unknown-target') {
+      return new SwarmRelayError(
+        `No client "${target}" is connected to receive "${event}"`,
+        SwarmRelayErrorCode.UnknownTarget
+      );
+    }
+    return new SwarmRelayError(
+      `"${event}" to "${target}" was not confirmed`,
+      SwarmRelayErrorCode.DeliveryTimeout
+    );
+  }
+
+  private settleAck(messageId: string, error?: Error): void {
+    const pending = this.pendingAcks.get(messageId);
+    if (!pending) return;
+
+    if (pending.timer) clearTimeout(pending.timer);
+    this.pendingAcks.delete(messageId);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  /** Tell the source of an acknowledged message that it was handled. */
+  private confirm(message: SwarmMessage<TEventMap>): void {
+    this.handledAcks.add(message.id);
+
+    if (this._state !== ConnectionState.Connected) {
+      this.logger.warn(
+        `Dropping receipt for "${String(message.event)}": not connected`
+      );
+      return;
+    }
+
+    const receipt: SwarmMessage<EventMap> = {
+      id: generateId(),
+      source: this.clientId,
+      target: message.source,
+      event: String(message.event),
+      payload: undefined,
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      ack: { kind: 'receipt', messageId: message.id, status: 'handled' },
+    };
+
+    const logFailure = (err: unknown) =>
+      this.logger.error(
+        `Failed to confirm "${String(message.event)}" to "${message.source}"`,
+        err
+      );
+    try {
+      this.transmit(receipt as SwarmMessage<TEventMap>)?.catch(logFailure);
+    } catch (err) {
+      logFailure(err);
+    }
+  }
+
+  private pauseAcks(): void {
+    for (const pending of this.pendingAcks.values()) {
+      if (pending.timer) clearTimeout(pending.timer);
+      pending.timer = null;
+      pending.paused = true;
+    }
+  }
+
+  private resumeAcks(): void {
+    for (const pending of [...this.pendingAcks.values()]) {
+      if (pending.paused) pending.resume();
+    }
+  }
+
+  private rejectPendingAcks(): void {
+    for (const messageId of [...this.pendingAcks.keys()]) {
+      this.settleAck(
+        messageId,
+        new SwarmRelayError(
+          'Disconnected before the message was confirmed',
+          SwarmRelayErrorCode.NotConnected
+        )
+      );
+    }
+  }
+
+  private handlePresence = (event: PresenceEvent): void => {
+    this.logger.debug(`Peer ${event.type}: "${event.peer.clientId}"`, event);
+
+    if (event.type === 'leave') {
+      const { clientId } = event.peer;
+      this.failStreams(
+        (stream) =>
+          (stream instanceof SwarmStream ? stream.source : stream.target) ===
+          clientId,
+        () =>
+          new SwarmRelayError(
+            `"${clientId}" left before the stream ended`,
+            SwarmRelayErrorCode.StreamCancelled
+          )
+      );
+    }
+
+    const handlers =
+      event.type === 'join' ? this.peerJoinHandlers : this.peerLeaveHandlers;
+    for (const handler of handlers) {
+      try {
+        handler(event.peer);
+      } catch (error) {
+        this.logger.error(`Peer ${event.type} handler threw`, error);
+      }
+    }
+  };
+
+  private handleInspectorUpdate = (update: InspectorUpdate): void => {
+    for (const listener of this.inspectorListeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        this.logger.error('Inspector listener threw', error);
+      }
+    }
+  };
+
+  private handleLeader = (update: LeaderUpdate): void => {
+    this.elections.get(update.name)?.settle(update.leader);
+  };
+
+  private handleError = (error: Error): void => {
+    this.logger.error('Transport error', error);
+    this.onErrorCallback?.(error);
+
+    if (
+      error instanceof SwarmRelayError &&
+      error.code === SwarmRelayErrorCode.ClientIdConflict &&
+      this._state === ConnectionState.Connected
+    ) {
+      // Another client took over this ID. Reconnecting would take it back,
+      // so stay in `Error` until connect() is called again.
+      this.transport.disconnect();
+      this.rejectPendingRequests();
+      this.rejectPendingAcks();
+      this.setState(ConnectionState.Error);
+    } else if (
+      this.reconnectPolicy &&
+      this._state === ConnectionState.Connected &&
+      this.transport.state === ConnectionState.Error
+    ) {
+      void this.reconnect();
+    }
+    // Passed on once this relay has moved on, so that channel relays see
+    // the state it moved to.
+    this.failChannels(error);
+  };
+
+  // ── Streams ──────────────────────────────────────────────
+
+  /** Send a frame of a stream to the other end. */
+  private sendStreamFrame(
+    target: string,
+    event: string,
+    meta: SwarmStreamMeta,
+    payload?: unknown,
+    transfer?: Transferable[]
+  ): Promise<void> | undefined {
+    this.assertConnected();
+
+    const message: SwarmMessage<EventMap> = {
+      id: generateId(),
+      source: this.clientId,
+      target,
+      event,
+      payload,
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      stream: meta,
+    };
+    return this.transmit(message as SwarmMessage<TEventMap>, transfer);
+  }
+
+  /** Open, feed or settle the stream a received frame belongs to. */
+  private handleStream(
+    message: SwarmMessage<TEventMap>,
+    meta: SwarmStreamMeta
+  ): void {
+    const event = String(message.event);
+    const { source } = message;
+
+    if (meta.kind === 'open') {
+      this.openIncomingStream(message, meta.id);
+      return;
+    }
+
+    if (meta.kind === 'credit') {
+      const writer = this.outgoingStreams.get(meta.id);
+      if (writer?.target === source) writer.grant(meta.credit ?? 0);
+      return;
+    }
+
+    const reader = this.incomingStreams.get(`${source}\n${meta.id}`);
+    if (meta.kind === 'cancel') {
+      const error = new SwarmRelayError(
+        meta.error?.message ?? `Stream "${event}" was cancelled`,
+        (meta.error?.code ??
+          SwarmRelayErrorCode.StreamCancelled) as SwarmRelayErrorCode
+      );
+      const writer = this.outgoingStreams.get(meta.id);
+      if (writer?.target === source) {
+        this.settleAck(meta.id, error);
+        writer.fail(error);
+      }
+      reader?.fail(error);
+      return;
+    }
+
+    if (!reader) {
+      this.logger.debug(
+        `Ignoring "${event}" for unknown stream "${meta.id}" from "${source}"`
+      );
+      return;
+    }
+    reader.receive(meta, message.payload);
+  }
+
+  /** Accept a stream opened to this relay, or refuse it without a handler. */
+  private openIncomingStream(
+    message: SwarmMessage<TEventMap>,
+    id: string
+  ): void {
+    const event = String(message.event);
+    const { source } = message;
+    const key = `${source}\n${id}`;
+    const logFailure = (err: unknown) =>
+      this.logger.error(`Failed to answer stream "${event}"`, err);
+    const send = (meta: SwarmStreamMeta) => {
+      try {
+        return this.sendStreamFrame(source, event, meta)?.catch(logFailure);
+      } catch (err) {
+        logFailure(err);
+        return undefined;
+      }
+    };
+
+    const registered = this.streamHandlers.get(event);
+    if (!registered) {
+      send({
+        id,
+        kind: 'cancel',
+        error: {
+          message: `No stream handler for "${event}" on "${this.clientId}"`,
+          code: SwarmRelayErrorCode.NoResponder,
+        },
+      });
+      return;
+    }
+
+    const reader = new SwarmStream<unknown>(
+      id,
+      source,
+      event,
+      registered.highWaterMark,
+      {
+        send,
+        validate: (value) => this.validate(event, value, 'incoming'),
+        close: () => {
+          if (this.incomingStreams.get(key) === reader) {
+            this.incomingStreams.delete(key);
+          }
+        },
+      }
+    );
+    this.incomingStreams.set(key, reader);
+    // Credit first: the writer takes a confirmed stream without credit
+    // for one opened to a build that cannot read streams.
+    reader.start();
+    this.confirm(message);
+
+    Promise.resolve()
+      .then(() => registered.handler(reader))
+      .catch((error: unknown) => {
+        this.logger.error(`Stream handler for "${event}" threw`, error);
+        reader.cancel(error instanceof Error ? error.message : String(error));
+      });
+  }
+
+  /** Fail the streams `matches` selects with the error `reason` makes. */
+  private failStreams(
+    matches: (
+      stream: SwarmStream<unknown> | SwarmStreamWriter<unknown>
+    ) => boolean,
+    reason: () => SwarmRelayError
+  ): void {
+    for (const writer of [...this.outgoingStreams.values()]) {
+      if (matches(writer)) writer.fail(reason());
+    }
+    for (const reader of [...this.incomingStreams.values()]) {
+      if (matches(reader)) reader.fail(reason());
+    }
+  }
 }
@@ -1,8 +1,15 @@
 import {
   ConnectionState,
   type EventMap,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type PeerInfo,
+  type PresenceEvent,
   type SwarmMessage,
   type TransportAdapter,
+  type TransportConnectOptions,
+  type TransportSendOptions,
 } from '../types.js';
 
 /**
@@ -36,11 +43,19 @@ export class MockTransportAdapter<TEventMap extends EventMap>
     (message: SwarmMessage<TEventMap>) => void
   >();
   private errorHandlers = new Set<(error: Error) => void>();
+  private presenceHandlers = new Set<(event: PresenceEvent) => void>();
+  private inspectHandlers = new Set<InspectorListener>();
+  private leaderHandlers = new Set<(update: LeaderUpdate) => void>();
+  private peers = new Map<string, PeerInfo>();
   private _state: ConnectionState = ConnectionState.Disconnected;
   private _clientId: string | null = null;
 
   /** All messages sent through this transport. */
   readonly sentMessages: SwarmMessage<TEventMap>[] = [];
+  /** Objects transferred with sent messages, by message ID. */
+  readonly sentTransfers = new Map<string, Transferable[]>();
+  /** Options passed to the most recent `connect()` call. */
+  connectOptions: TransportConnectOptions | null = null;
   /** Whether `connect()` was called. */
   connectCalled = false;
   /** Whether `disconnect()` was called. */
@@ -49,6 +64,19 @@ export class MockTransportAdapter<TEventMap extends EventMap>
   connectError: Error | null = null;
   /** If set, `send()` will throw this error. */
   sendError: Error | null = null;
+  /** Patterns from the most recent `setSubscriptions()` call. */
+  subscriptions: string[] | null = null;
+  /** Value of the most recent `setInspecting()` call. */
+  inspecting = false;
+  /** Channels joined with `joinChannel()` and not left since. */
+  readonly channels = new Set<string>();
+  /** Elections entered with `elect()` and not resigned from since. */
+  readonly elections = new Set<string>();
+  /**
+   * Client ID the simulated hub reports registering, e.g. to test the
+   * `suffix` conflict policy. Unset, the hub keeps the requested ID.
+   */
+  registeredId: string | undefined = undefined;
 
   get state(): ConnectionState {
     return this._state;
@@ -58,9 +86,13 @@ export class MockTransportAdapter<TEventMap extends EventMap>
     return this._clientId;
   }
 
-  async connect(clientId: string): Promise<void> {
+  async connect(
+    clientId: string,
+    options: TransportConnectOptions = {}
+  ): Promise<void> {
     this.connectCalled = true;
     this._clientId = clientId;
+    this.connectOptions = options;
 
     if (this.connectError) {
       this._state = ConnectionState.Error;
@@ -76,13 +108,47 @@ export class MockTransportAdapter<TEventMap extends EventMap>
     this._clientId = null;
     this.messageHandlers.clear();
     this.errorHandlers.clear();
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.leaderHandlers.clear();
+    this.peers.clear();
   }
 
-  send<K extends keyof TEventMap>(message: SwarmMessage<TEventMap, K>): void {
+  send<K extends keyof TEventMap>(
+    message: SwarmMessage<TEventMap, K>,
+    options: TransportSendOptions = {}
+  ): void {
     if (this.sendError) {
       throw this.sendError;
     }
     this.sentMessages.push(message as SwarmMessage<TEventMap>);
+    if (options.transfer) {
+      this.sentTransfers.set(message.id, options.transfer);
+    }
+  }
+
+  setSubscriptions(patterns: string[]): void {
+    this.subscriptions = patterns;
+  }
+
+  setInspecting(enabled: boolean): void {
+    this.inspecting = enabled;
+  }
+
+  joinChannel(channel: string): void {
+    this.channels.add(channel);
+  }
+
+  leaveChannel(channel: string): void {
+    this.channels.delete(channel);
+  }
+
+  elect(name: string): void {
+    this.elections.add(name);
+  }
+
+  resign(name: string): void {
+    this.elections.delete(name);
   }
 
   onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
@@ -101,6 +167,34 @@ export class MockTransportAdapter<TEventMap extends EventMap>
     this.errorHandlers.delete(handler);
   }
 
+  getPeers(): PeerInfo[] {
+    return [...this.peers.values()];
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.add(handler);
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.delete(handler);
+  }
+
+  onInspect(handler: InspectorListener): void {
+    this.inspectHandlers.add(handler);
+  }
+
+  offInspect(handler: InspectorListener): void {
+    this.inspectHandlers.delete(handler);
+  }
+
+  onLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.add(handler);
+  }
+
+  offLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.delete(handler);
+  }
+
   // ── Test helpers ─────────────────────────────────────────
 
   /** Simulate receiving a message from the transport. */
@@ -117,16 +211,67 @@ export class MockTransportAdapter<TEventMap extends EventMap>
     }
   }
 
+  /**
+   * Simulate the connection dropping: the transport moves to `Error`
+   * and emits `error` to its error handlers.
+   */
+  simulateConnectionLoss(error: Error): void {
+    this._state = ConnectionState.Error;
+    this.simulateError(error);
+  }
+
+  /** Simulate a peer joining the hub. */
+  simulatePeerJoin(peer: PeerInfo): void {
+    this.peers.set(peer.clientId, peer);
+    for (const handler of this.presenceHandlers) {
+      handler({ type: 'join', peer });
+    }
+  }
+
+  /** Simulate a peer leaving the hub. */
+  simulatePeerLeave(clientId: string): void {
+    const peer = this.peers.get(clientId) ?? { clientId, connectedAt: 0 };
+    this.peers.delete(clientId);
+    for (const handler of this.presenceHandlers) {
+      handler({ type: 'leave', peer });
+    }
+  }
+
+  /** Simulate the hub pushing an inspector update. */
+  simulateInspectorUpdate(update: InspectorUpdate): void {
+    for (const handler of this.inspectHandlers) {
+      handler(update);
+    }
+  }
+
+  /** Simulate the hub announcing the leader of an election. */
+  simulateLeader(name: string, leader: string | null): void {
+    for (const handler of this.leaderHandlers) {
+      handler({ name, leader });
+    }
+  }
+
   /** Reset all state to initial values. */
   reset(): void {
     this.sentMessages.length = 0;
+    this.sentTransfers.clear();
     this.connectCalled = false;
     this.disconnectCalled = false;
     this.connectError = null;
     this.sendError = null;
+    this.subscriptions = null;
+    this.inspecting = false;
+    this.channels.clear();
+    this.elections.clear();
+    this.connectOptions = null;
     this._state = ConnectionState.Disconnected;
     this._clientId = null;
+    this.registeredId = undefined;
     this.messageHandlers.clear();
     this.errorHandlers.clear();
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.leaderHandlers.clear();
+    this.peers.clear();
   }
 }
@@ -214,6 +214,86 @@ describe('BroadcastChannelTransport', () => {
     );
   });
 
+  it('should only deliver channel messages for joined channels', async () => {
+    const t = new BroadcastChannelTransport();
+    const handler = vi.fn();
+    t.onMessage(handler);
+
+    await t.connect('client-1');
+    t.joinChannel('checkout');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const channel = (t as any).channel as MockBroadcastChannel;
+    for (const [id, name] of [
+      ['m1', 'checkout'],
+      ['m2', 'search'],
+    ]) {
+      channel._receive({
+        type: '__swarm_message__',
+        message: {
+          id,
+          source: 'client-2',
+          event: 'hello',
+          payload: {},
+          timestamp: Date.now(),
+          channel: name,
+        },
+      });
+    }
+    t.leaveChannel('checkout');
+    channel._receive({
+      type: '__swarm_message__',
+      message: {
+        id: 'm3',
+        source: 'client-2',
+        event: 'hello',
+        payload: {},
+        timestamp: Date.now(),
+        channel: 'checkout',
+      },
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'm1' }));
+  });
+
+  it('should stamp its tab on tab-scoped messages and drop those of other tabs', async () => {
+    const t = new BroadcastChannelTransport();
+    const handler = vi.fn();
+    t.onMessage(handler);
+    await t.connect('client-1', { tabId: 'tab-1' });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const channel = (t as any).channel as MockBroadcastChannel;
+    const message = {
+      id: 'm0',
+      source: 'client-1',
+      event: 'hello',
+      payload: {},
+      timestamp: Date.now(),
+      scope: 'tab' as const,
+    };
+    t.send(message);
+    expect(channel.postMessage).toHaveBeenLastCalledWith({
+      type: '__swarm_message__',
+      message: { ...message, tabId: 'tab-1' },
+    });
+
+    for (const [id, tabId] of [
+      ['m1', 'tab-1'],
+      ['m2', 'tab-2'],
+      ['m3', undefined],
+    ]) {
+      channel._receive({
+        type: '__swarm_message__',
+        message: { ...message, id, source: 'client-2', tabId },
+      });
+    }
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'm1' }));
+  });
+
   it('should register and unregister handlers', async () => {
     const t = new BroadcastChannelTransport();
     const handler = vi.fn();
@@ -237,4 +317,159 @@ describe('BroadcastChannelTransport', () => {
 
     expect(handler).not.toHaveBeenCalled();
   });
+
+  describe('presence (heartbeats)', () => {
+    beforeEach(() => vi.useFakeTimers());
+    afterEach(() => vi.useRealTimers());
+
+    function channelOf(t: BroadcastChannelTransport<never>) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (t as any).channel as MockBroadcastChannel;
+    }
+
+    it('should announce itself with metadata on connect', async () => {
+      const t = new BroadcastChannelTransport<never>();
+      await t.connect('client-1', { metadata: { version: '1.2.0' } });
+
+      expect(channelOf(t).postMessage).toHaveBeenCalledWith({
+        type: '__swarm_peer_join__',
+        peer: expect.objectContaining({
+          clientId: 'client-1',
+          metadata: { version: '1.2.0' },
+        }),
+      });
+      t.disconnect();
+    });
+
+    it('should track peers from joins and answer with a heartbeat', async () => {
+      const t = new BroadcastChannelTransport<never>();
+      const onPresence = vi.fn();
+      t.onPresence(onPresence);
+      await t.connect('client-1');
+      const channel = channelOf(t);
+      channel.postMessage.mockClear();
+
+      channel._receive({
+        type: '__swarm_peer_join__',
+        peer: { clientId: 'client-2', connectedAt: 1 },
+      });
+
+      expect(t.getPeers()).toEqual([{ clientId: 'client-2', connectedAt: 1 }]);
+      expect(onPresence).toHaveBeenCalledWith({
+        type: 'join',
+        peer: { clientId: 'client-2', connectedAt: 1 },
+      });
+      expect(channel.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: '__swarm_heartbeat__' })
+      );
+      t.disconnect();
+    });
+
+    it('should report a leave when a peer says goodbye', async () => {
+      const t = new BroadcastChannelTransport<never>();
+      const onPresence = vi.fn();
+      t.onPresence(onPresence);
+      await t.connect('client-1');
+      const peer = { clientId: 'client-2', connectedAt: 1 };
+
+      channelOf(t)._receive({ type: '__swarm_heartbeat__', peer });
+      channelOf(t)._receive({ type: '__swarm_peer_leave__', peer });
+
+      expect(t.getPeers()).toEqual([]);
+      expect(onPresence).toHaveBeenLastCalledWith({ type: 'leave', peer });
+      t.disconnect();
+    });
+
+    it('should evict peers whose heartbeats stop', async () => {
+      const t = new BroadcastChannelTransport<never>({
+        heartbeatInterval: 100,
+        peerTimeout: 250,
+      });
+      const onPresence = vi.fn();
+      t.onPresence(onPresence);
+      await t.connect('client-1');
+
+      channelOf(t)._receive({
+        type: '__swarm_heartbeat__',
+        peer: { clientId: 'client-2', connectedAt: 1 },
+      });
+      vi.advanceTimersByTime(200);
+      expect(t.getPeers()).toHaveLength(1);
+
+      vi.advanceTimersByTime(200);
+      expect(t.getPeers()).toHaveLength(0);
+      expect(onPresence).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'leave' })
+      );
+      t.disconnect();
+    });
+
+    it('should keep peers that send messages between heartbeats', async () => {
+      const t = new BroadcastChannelTransport<never>({
+        heartbeatInterval: 100,
+        peerTimeout: 250,
+      });
+      await t.connect('client-1');
+      const peer = { clientId: 'client-2', connectedAt: 1 };
+
+      channelOf(t)._receive({ type: '__swarm_heartbeat__', peer });
+      vi.advanceTimersByTime(200);
+      channelOf(t)._receive({
+        type: '__swarm_message__',
+        message: {
+          id: 'm1',
+          source: 'client-2',
+          target: 'client-3',
+          event: 'x',
+          payload: {},
+          timestamp: Date.now(),
+        },
+      });
+      vi.advanceTimersByTime(200);
+
+      expect(t.getPeers()).toEqual([peer]);
+      t.disconnect();
+    });
+
+    it('should give peers in throttled background tabs time to answer', async () => {
+      const t = new BroadcastChannelTransport<never>();
+      await t.connect('client-1');
+
+      channelOf(t)._receive({
+        type: '__swarm_heartbeat__',
+        peer: { clientId: 'client-2', connectedAt: 1 },
+      });
+      vi.advanceTimersByTime(120_000);
+      expect(t.getPeers()).toHaveLength(1);
+
+      vi.advanceTimersByTime(40_000);
+      expect(t.getPeers()).toHaveLength(0);
+      t.disconnect();
+    });
+
+    it('should ignore its own heartbeats', async () => {
+      const t = new BroadcastChannelTransport<never>();
+      await t.connect('client-1');
+
+      channelOf(t)._receive({
+        type: '__swarm_heartbeat__',
+        peer: { clientId: 'client-1', connectedAt: 1 },
+      });
+
+      expect(t.getPeers()).toEqual([]);
+      t.disconnect();
+    });
+
+    it('should announce its departure on disconnect', async () => {
+      const t = new BroadcastChannelTransport<never>();
+      await t.connect('client-1');
+      const channel = channelOf(t);
+      t.disconnect();
+
+      expect(channel.postMessage).toHaveBeenCalledWith({
+        type: '__swarm_peer_leave__',
+        peer: expect.objectContaining({ clientId: 'client-1' }),
+      });
+    });
+  });
 });
@@ -1,8 +1,11 @@
 import {
   ConnectionState,
   type EventMap,
+  type PeerInfo,
+  type PresenceEvent,
   type SwarmMessage,
   type TransportAdapter,
+  type TransportConnectOptions,
 } from '../types.js';
 import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
 
@@ -16,6 +19,31 @@ export interface BroadcastChannelTransportOptions {
    * @default 'swarm-relay'
    */
   channelName?: string;
+  /**
+   * Interval in milliseconds at which this client announces its presence.
+   * There is no hub, so peers are discovered through these heartbeats.
+   * @default 2000
+   */
+  heartbeatInterval?: number;
+  /**
+   * Time in milliseconds without a heartbeat or message after which a
+   * peer is considered gone.
+   * @default 3 × heartbeatInterval, and at least 150 000
+   */
+  peerTimeout?: number;
+}
+
+/**
+ * Shortest default `peerTimeout`. Browsers may run the timers of
+ * background tabs only once a minute, so a peer in one is allowed to miss
+ * a heartbeat at that pace before it is reported as gone.
+ */
+const MIN_PEER_TIMEOUT = 150_000;
+
+/** A peer discovered over the channel, with the time it was last heard from. */
+interface TrackedPeer {
+  info: PeerInfo;
+  lastSeen: number;
 }
 
 /**
@@ -25,6 +53,18 @@ export interface BroadcastChannelTransportOptions {
  * cross-origin iframes). BroadcastChannel works across same-origin tabs
  * and iframes without requiring a worker.
  *
+ * Presence is emulated with periodic heartbeats: each client announces
+ * itself on connect and at `heartbeatInterval`, and peers that send
+ * neither heartbeats nor messages for `peerTimeout` are reported as having
+ * left. Heartbeats run on a page timer, which browsers throttle in
+ * background tabs, so the default timeout is long and a closed tab that
+ * could not say goodbye is noticed late; prefer a hub-based transport where
+ * presence matters. Channels and tab scope are
+ * emulated by ignoring messages sent on channels this client has not
+ * joined or from other tabs. There is no hub to run leader elections.
+ * `BroadcastChannel` cannot transfer objects, so payloads are always
+ * copied and `transfer` lists are ignored.
+ *
  * @example
  * ```typescript
  * const transport = new BroadcastChannelTransport<MyEvents>({
@@ -42,18 +82,32 @@ export class BroadcastChannelTransport<TEventMap extends EventMap>
     (message: SwarmMessage<TEventMap>) => void
   >();
   private errorHandlers = new Set<(error: Error) => void>();
+  private presenceHandlers = new Set<(event: PresenceEvent) => void>();
+  private peers = new Map<string, TrackedPeer>();
+  private channels = new Set<string>();
+  private self: PeerInfo | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private _state: ConnectionState = ConnectionState.Disconnected;
   private readonly channelName: string;
+  private readonly heartbeatInterval: number;
+  private readonly peerTimeout: number;
 
   constructor(options: BroadcastChannelTransportOptions = {}) {
     this.channelName = options.channelName ?? 'swarm-relay';
+    this.heartbeatInterval = options.heartbeatInterval ?? 2_000;
+    this.peerTimeout =
+      options.peerTimeout ??
+      Math.max(this.heartbeatInterval * 3, MIN_PEER_TIMEOUT);
   }
 
   get state(): ConnectionState {
     return this._state;
   }
 
-  async connect(clientId: string): Promise<void> {
+  async connect(
+    clientId: string,
+    options: TransportConnectOptions = {}
+  ): Promise<void> {
     if (this._state === ConnectionState.Connected) {
       return;
     }
@@ -79,6 +133,19 @@ export class BroadcastChannelTransport<TEventMap extends EventMap>
           )
         );
       };
+      this.self = {
+        clientId,
+        metadata: options.metadata,
+        connectedAt: Date.now(),
+      };
+      if (options.tabId !== undefined) {
+        this.self.tabId = options.tabId;
+      }
+      this.channel.postMessage({
+        type: '__swarm_peer_join__',
+        peer: this.self,
+      });
+      this.heartbeatTimer = setInterval(this.heartbeat, this.heartbeatInterval);
       this._state = ConnectionState.Connected;
     } catch (error) {
       this._state = ConnectionState.Error;
@@ -91,13 +158,31 @@ export class BroadcastChannelTransport<TEventMap extends EventMap>
   }
 
   disconnect(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
     if (this.channel) {
+      if (this.self) {
+        try {
+          this.channel.postMessage({
+            type: '__swarm_peer_leave__',
+            peer: this.self,
+          });
+        } catch {
+          // Channel may already be closed — ignore.
+        }
+      }
       this.channel.close();
       this.channel = null;
     }
     this.clientId = null;
+    this.self = null;
+    this.peers.clear();
+    this.channels.clear();
     this.messageHandlers.clear();
     this.errorHandlers.clear();
+    this.presenceHandlers.clear();
     this._state = ConnectionState.Disconnected;
   }
 
@@ -109,8 +194,13 @@ export class BroadcastChannelTransport<TEventMap extends EventMap>
       );
     }
 
+    // There is no hub to stamp the sender's tab on tab-scoped messages.
+    const stamped =
+      message.scope === 'tab'
+        ? { ...message, tabId: this.self?.tabId }
+        : message;
     try {
-      this.channel.postMessage({ type: '__swarm_message__', message });
+      this.channel.postMessage({ type: '__swarm_message__', message: stamped });
     } catch (error) {
       throw new SwarmRelayError(
         'Failed to send message',
@@ -136,13 +226,53 @@ export class BroadcastChannelTransport<TEventMap extends EventMap>
     this.errorHandlers.delete(handler);
   }
 
+  joinChannel(channel: string): void {
+    this.channels.add(channel);
+  }
+
+  leaveChannel(channel: string): void {
+    this.channels.delete(channel);
+  }
+
+  getPeers(): PeerInfo[] {
+    return [...this.peers.values()].map((tracked) => tracked.info);
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.add(handler);
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.delete(handler);
+  }
+
   // ── Private ──────────────────────────────────────────────
 
   private handleMessage = (event: MessageEvent): void => {
     const data = event.data;
 
+    if (
+      (data.type === '__swarm_peer_join__' ||
+        data.type === '__swarm_heartbeat__') &&
+      data.peer
+    ) {
+      this.trackPeer(data.peer as PeerInfo);
+      // Answer a newcomer right away so it does not wait a full interval.
+      if (data.type === '__swarm_peer_join__') {
+        this.heartbeat();
+      }
+      return;
+    }
+
+    if (data.type === '__swarm_peer_leave__' && data.peer) {
+      this.dropPeer((data.peer as PeerInfo).clientId);
+      return;
+    }
+
     if (data.type === '__swarm_message__' && data.message) {
       const message = data.message as SwarmMessage<TEventMap>;
+      // Any message shows its sender is still there.
+      this.touchPeer(message.source);
 
       // BroadcastChannel delivers to all tabs including the sender,
       // so filter out messages originating from this client.
@@ -155,12 +285,73 @@ export class BroadcastChannelTransport<TEventMap extends EventMap>
         return;
       }
 
+      // There is no hub to scope channels, so drop other channels here.
+      if (
+        message.channel !== undefined &&
+        !this.channels.has(message.channel)
+      ) {
+        return;
+      }
+
+      // Every tab hears the channel, so drop tab-scoped messages of others.
+      if (
+        message.scope === 'tab' &&
+        (message.tabId === undefined || message.tabId !== this.self?.tabId)
+      ) {
+        return;
+      }
+
       for (const handler of this.messageHandlers) {
         handler(message);
       }
     }
   };
 
+  /** Announce this client and evict peers whose heartbeats stopped. */
+  private heartbeat = (): void => {
+    if (!this.channel || !this.self) return;
+
+    this.channel.postMessage({ type: '__swarm_heartbeat__', peer: this.self });
+
+    const cutoff = Date.now() - this.peerTimeout;
+    for (const [clientId, tracked] of this.peers) {
+      if (tracked.lastSeen < cutoff) {
+        this.dropPeer(clientId);
+      }
+    }
+  };
+
+  private trackPeer(peer: PeerInfo): void {
+    if (peer.clientId === this.clientId) return;
+
+    const isNew = !this.peers.has(peer.clientId);
+    this.peers.set(peer.clientId, { info: peer, lastSeen: Date.now() });
+    if (isNew) {
+      this.emitPresence({ type: 'join', peer });
+    }
+  }
+
+  private touchPeer(clientId: string): void {
+    const tracked = this.peers.get(clientId);
+    if (tracked) {
+      tracked.lastSeen = Date.now();
+    }
+  }
+
+  private dropPeer(clientId: string): void {
+    const tracked = this.peers.get(clientId);
+    if (!tracked) return;
+
+    this.peers.delete(clientId);
+    this.emitPresence({ type: 'leave', peer: tracked.info });
+  }
+
+  private emitPresence(event: PresenceEvent): void {
+    for (const handler of this.presenceHandlers) {
+      handler(event);
+    }
+  }
+
   private emitError(error: Error): void {
     for (const handler of this.errorHandlers) {
       handler(error);
@@ -0,0 +1,245 @@
+import {
+  ConnectionState,
+  type EventMap,
+  type InspectorListener,
+  type InspectorUpdate,
+  type PeerInfo,
+  type PresenceEvent,
+  type SwarmMessage,
+  type TransportAdapter,
+  type TransportSendOptions,
+} from '../types.js';
+import type { SwarmRelay } from '../swarm-relay.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+
+/** What a {@link ChannelTransport} needs from the relay that opened it. */
+export interface ChannelHost {
+  /** The relay's transport, which carries the channel's messages too. */
+  readonly transport: TransportAdapter<EventMap>;
+  /** The relay itself; presence and inspection are hub-wide. */
+  readonly relay: Pick<
+    SwarmRelay<EventMap>,
+    'getPeers' | 'onPeerJoin' | 'onPeerLeave' | 'inspect'
+  >;
+  /** Called once the channel has been left. */
+  leave(): void;
+}
+
+/**
+ * Transport adapter behind the relays returned by `SwarmRelay.channel()`.
+ *
+ * It shares the opening relay's transport: outgoing messages are stamped
+ * with the channel, and the opening relay hands over the messages it
+ * receives on the channel. Connecting joins the channel and disconnecting
+ * leaves it. Presence and hub inspection are those of the whole hub. The
+ * opening relay passes on its state changes and transport errors, so a
+ * channel relay reconnects, queues or fails along with it.
+ */
+export class ChannelTransport<TEventMap extends EventMap>
+  implements TransportAdapter<TEventMap>
+{
+  private messageHandlers = new Set<
+    (message: SwarmMessage<TEventMap>) => void
+  >();
+  private errorHandlers = new Set<(error: Error) => void>();
+  private stateHandlers = new Set<(state: ConnectionState) => void>();
+  private presenceHandlers = new Map<
+    (event: PresenceEvent) => void,
+    () => void
+  >();
+  private inspectHandlers = new Set<InspectorListener>();
+  private stopInspecting: (() => void) | null = null;
+  private joined = false;
+
+  /** Present when the opening relay's transport has a hub to inspect. */
+  readonly setInspecting?: (enabled: boolean) => void;
+
+  constructor(readonly channel: string, private readonly host: ChannelHost) {
+    if (host.transport.setInspecting) {
+      this.setInspecting = (enabled) => this.inspect(enabled);
+    }
+  }
+
+  get state(): ConnectionState {
+    return this.joined
+      ? this.host.transport.state
+      : ConnectionState.Disconnected;
+  }
+
+  get protocolVersion(): number | undefined {
+    return this.host.transport.protocolVersion;
+  }
+
+  get registeredId(): string | undefined {
+    return this.host.transport.registeredId;
+  }
+
+  /**
+   * Join the channel.
+   *
+   * @throws {SwarmRelayError} `NotConnected` if the opening relay's
+   *   transport is not connected.
+   */
+  async connect(): Promise<void> {
+    if (this.joined) return;
+
+    if (this.host.transport.state !== ConnectionState.Connected) {
+      throw new SwarmRelayError(
+        `Cannot join channel "${this.channel}": not connected`,
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+    this.host.transport.joinChannel?.(this.channel);
+    this.joined = true;
+  }
+
+  /** Leave the channel. */
+  disconnect(): void {
+    if (
+      this.joined &&
+      this.host.transport.state === ConnectionState.Connected
+    ) {
+      try {
+        this.host.transport.leaveChannel?.(this.channel);
+      } catch {
+        // The connection may be going away — the hub forgets it anyway.
+      }
+    }
+    this.joined = false;
+    this.inspect(false);
+    for (const unsubscribe of this.presenceHandlers.values()) {
+      unsubscribe();
+    }
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.messageHandlers.clear();
+    this.errorHandlers.clear();
+    this.stateHandlers.clear();
+    this.host.leave();
+  }
+
+  send<K extends keyof TEventMap>(
+    message: SwarmMessage<TEventMap, K>,
+    options?: TransportSendOptions
+  ): void {
+    if (!this.joined) {
+      throw new SwarmRelayError(
+        'Cannot send message: not connected',
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+    this.host.transport.send(
+      { ...(message as SwarmMessage<EventMap>), channel: this.channel },
+      options
+    );
+  }
+
+  onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.add(handler);
+  }
+
+  offMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.delete(handler);
+  }
+
+  onError(handler: (error: Error) => void): void {
+    this.errorHandlers.add(handler);
+  }
+
+  offError(handler: (error: Error) => void): void {
+    this.errorHandlers.delete(handler);
+  }
+
+  /** Follow the opening relay's connection state while joined. */
+  onStateChange(handler: (state: ConnectionState) => void): void {
+    this.stateHandlers.add(handler);
+  }
+
+  offStateChange(handler: (state: ConnectionState) => void): void {
+    this.stateHandlers.delete(handler);
+  }
+
+  getPeers(): PeerInfo[] {
+    return this.host.relay.getPeers();
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    if (this.presenceHandlers.has(handler)) return;
+
+    const offJoin = this.host.relay.onPeerJoin((peer) =>
+      handler({ type: 'join', peer })
+    );
+    const offLeave = this.host.relay.onPeerLeave((peer) =>
+      handler({ type: 'leave', peer })
+    );
+    this.presenceHandlers.set(handler, () => {
+      offJoin();
+      offLeave();
+    });
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.get(handler)?.();
+    this.presenceHandlers.delete(handler);
+  }
+
+  onInspect(handler: InspectorListener): void {
+    this.inspectHandlers.add(handler);
+  }
+
+  offInspect(handler: InspectorListener): void {
+    this.inspectHandlers.delete(handler);
+  }
+
+  // ── Opening relay ────────────────────────────────────────
+
+  /** Deliver a message the opening relay received on the channel. */
+  receive(message: SwarmMessage<EventMap>): void {
+    if (!this.joined) return;
+    for (const handler of this.messageHandlers) {
+      handler(message as SwarmMessage<TEventMap>);
+    }
+  }
+
+  /** Pass on a change to the opening relay's connection state. */
+  follow(state: ConnectionState): void {
+    if (!this.joined) return;
+    for (const handler of this.stateHandlers) {
+      handler(state);
+    }
+  }
+
+  /** Pass on an error reported by the opening relay's connection. */
+  fail(error: Error): void {
+    if (!this.joined) return;
+    for (const handler of this.errorHandlers) {
+      handler(error);
+    }
+  }
+
+  /** Join again after the opening relay reconnected; the hub forgot us. */
+  rejoin(): void {
+    if (this.joined) {
+      this.host.transport.joinChannel?.(this.channel);
+    }
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /**
+   * Follow the opening relay's inspector. Starting again re-registers, so
+   * the hub sends a fresh snapshot.
+   */
+  private inspect(enabled: boolean): void {
+    this.stopInspecting?.();
+    this.stopInspecting = enabled
+      ? this.host.relay.inspect(this.emitInspectorUpdate)
+      : null;
+  }
+
+  private emitInspectorUpdate = (update: InspectorUpdate): void => {
+    for (const handler of this.inspectHandlers) {
+      handler(update);
+    }
+  };
+}
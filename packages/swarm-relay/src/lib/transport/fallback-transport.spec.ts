@@ -0,0 +1,213 @@
+import { FallbackTransport } from './fallback-transport.js';
+import { MockTransportAdapter } from '../testing/mock-transport-adapter.js';
+import { SwarmRelay } from '../swarm-relay.js';
+import { ConnectionState, type SwarmMessage } from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+
+type TestEvents = {
+  'user:login': { userId: string };
+};
+
+function createMessage(id: string): SwarmMessage<TestEvents> {
+  return {
+    id,
+    source: 'other',
+    event: 'user:login',
+    payload: { userId: 'u1' },
+    timestamp: 0,
+  };
+}
+
+function unsupported(): SwarmRelayError {
+  return new SwarmRelayError(
+    'SharedWorker is not supported in this environment',
+    SwarmRelayErrorCode.WorkerNotSupported
+  );
+}
+
+describe('FallbackTransport', () => {
+  let preferred: MockTransportAdapter<TestEvents>;
+  let fallback: MockTransportAdapter<TestEvents>;
+
+  beforeEach(() => {
+    preferred = new MockTransportAdapter<TestEvents>();
+    fallback = new MockTransportAdapter<TestEvents>();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject an empty list of transports', () => {
+    expect(() => new FallbackTransport<TestEvents>([])).toThrow(
+      SwarmRelayError
+    );
+  });
+
+  it('should connect through the first transport that works', async () => {
+    const transport = new FallbackTransport([preferred, fallback]);
+
+    await transport.connect('shell', { metadata: { version: '1' } });
+
+    expect(transport.active).toBe(preferred);
+    expect(transport.state).toBe(ConnectionState.Connected);
+    expect(preferred.connectOptions).toEqual({ metadata: { version: '1' } });
+    expect(fallback.connectCalled).toBe(false);
+  });
+
+  it('should fall back when a transport fails to connect', async () => {
+    preferred.connectError = unsupported();
+    const transport = new FallbackTransport([preferred, fallback]);
+
+    await transport.connect('shell');
+
+    expect(transport.active).toBe(fallback);
+    expect(fallback.clientId).toBe('shell');
+  });
+
+  it('should fail with ConnectionFailed when every transport fails', async () => {
+    preferred.connectError = unsupported();
+    fallback.connectError = new Error('boom');
+    const transport = new FallbackTransport([preferred, fallback]);
+
+    await expect(transport.connect('shell')).rejects.toMatchObject({
+      code: SwarmRelayErrorCode.ConnectionFailed,
+      cause: fallback.connectError,
+    });
+    expect(transport.active).toBeNull();
+    expect(transport.state).toBe(ConnectionState.Error);
+  });
+
+  it('should delegate traffic to the active transport only', async () => {
+    preferred.connectError = unsupported();
+    const transport = new FallbackTransport([preferred, fallback]);
+    const onMessage = vi.fn();
+    const onPresence = vi.fn();
+    transport.onMessage(onMessage);
+    transport.onPresence(onPresence);
+    await transport.connect('shell');
+
+    transport.send(createMessage('1'));
+    fallback.simulateMessage(createMessage('2'));
+    preferred.simulateMessage(createMessage('3'));
+    fallback.simulatePeerJoin({ clientId: 'cart', connectedAt: 0 });
+
+    expect(fallback.sentMessages).toEqual([createMessage('1')]);
+    expect(preferred.sentMessages).toEqual([]);
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(createMessage('2'));
+    expect(onPresence).toHaveBeenCalledTimes(1);
+    expect(transport.getPeers()).toEqual([
+      { clientId: 'cart', connectedAt: 0 },
+    ]);
+  });
+
+  it('should disconnect the active transport', async () => {
+    const transport = new FallbackTransport([preferred, fallback]);
+    await transport.connect('shell');
+
+    transport.disconnect();
+
+    expect(preferred.disconnectCalled).toBe(true);
+    expect(transport.active).toBeNull();
+    expect(transport.state).toBe(ConnectionState.Disconnected);
+    expect(() => transport.send(createMessage('1'))).toThrow(SwarmRelayError);
+  });
+
+  describe('upgrades', () => {
+    it('should switch to a preferred transport once it connects', async () => {
+      vi.useFakeTimers();
+      preferred.connectError = unsupported();
+      const transport = new FallbackTransport([preferred, fallback], {
+        upgradeInterval: 1_000,
+      });
+      const onMessage = vi.fn();
+      transport.onMessage(onMessage);
+      await transport.connect('shell');
+
+      preferred.connectError = null;
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect(transport.active).toBe(preferred);
+      expect(fallback.disconnectCalled).toBe(true);
+      preferred.simulateMessage(createMessage('1'));
+      expect(onMessage).toHaveBeenCalledWith(createMessage('1'));
+    });
+
+    it('should report peers only reachable through one transport', async () => {
+      vi.useFakeTimers();
+      preferred.connectError = unsupported();
+      const transport = new FallbackTransport([preferred, fallback], {
+        upgradeInterval: 1_000,
+      });
+      await transport.connect('shell');
+      fallback.simulatePeerJoin({ clientId: 'old', connectedAt: 0 });
+      fallback.simulatePeerJoin({ clientId: 'both', connectedAt: 0 });
+      preferred.simulatePeerJoin({ clientId: 'both', connectedAt: 0 });
+      preferred.simulatePeerJoin({ clientId: 'new', connectedAt: 0 });
+      const onPresence = vi.fn();
+      transport.onPresence(onPresence);
+
+      preferred.connectError = null;
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect(onPresence.mock.calls).toEqual([
+        [{ type: 'leave', peer: { clientId: 'old', connectedAt: 0 } }],
+        [{ type: 'join', peer: { clientId: 'new', connectedAt: 0 } }],
+      ]);
+    });
+
+    it('should not upgrade unless asked to', async () => {
+      vi.useFakeTimers();
+      preferred.connectError = unsupported();
+      const transport = new FallbackTransport([preferred, fallback]);
+      await transport.connect('shell');
+
+      preferred.connectError = null;
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(transport.active).toBe(fallback);
+    });
+
+    it('should stop retrying after disconnect', async () => {
+      vi.useFakeTimers();
+      preferred.connectError = unsupported();
+      const transport = new FallbackTransport([preferred, fallback], {
+        upgradeInterval: 1_000,
+      });
+      await transport.connect('shell');
+      transport.disconnect();
+      preferred.connectCalled = false;
+
+      await vi.advanceTimersByTimeAsync(5_000);
+
+      expect(preferred.connectCalled).toBe(false);
+    });
+  });
+
+  describe('with SwarmRelay', () => {
+    it('should accept a list of transports and report the one in use', async () => {
+      preferred.connectError = unsupported();
+      const relay = new SwarmRelay<TestEvents>({
+        clientId: 'shell',
+        transport: [preferred, fallback],
+      });
+
+      await relay.connect();
+
+      expect(relay.activeTransport).toBe(fallback);
+      relay.broadcast('user:login', { userId: 'u1' });
+      expect(fallback.sentMessages).toHaveLength(1);
+      relay.disconnect();
+    });
+
+    it('should report a single transport as active', () => {
+      const relay = new SwarmRelay<TestEvents>({
+        clientId: 'shell',
+        transport: preferred,
+      });
+
+      expect(relay.activeTransport).toBe(preferred);
+    });
+  });
+});
@@ -0,0 +1,435 @@
+import {
+  ConnectionState,
+  type EventMap,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type PeerInfo,
+  type PresenceEvent,
+  type SwarmMessage,
+  type TransportAdapter,
+  type TransportConnectOptions,
+  type TransportSendOptions,
+} from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+
+/**
+ * Configuration options for the fallback transport.
+ */
+export interface FallbackTransportOptions {
+  /**
+   * Interval in milliseconds at which to retry the transports preferred over
+   * the active one. The first that connects replaces it. Disabled by default.
+   */
+  upgradeInterval?: number;
+}
+
+/** Arguments of the last `connect()` call, reused for upgrades. */
+interface ConnectArgs {
+  clientId: string;
+  options: TransportConnectOptions;
+}
+
+/**
+ * Transport adapter that connects through the first of several adapters
+ * that works, in order of preference.
+ *
+ * Any adapter that fails to connect — typically with `WorkerNotSupported`
+ * or `ConnectionFailed` — is skipped in favour of the next. The adapter in
+ * use is exposed as `active` (and as `SwarmRelay.activeTransport`).
+ *
+ * With `upgradeInterval`, a connection that fell back keeps retrying the
+ * preferred adapters and switches to the first that connects. Peers only
+ * reachable through one adapter are reported as leaving or joining.
+ *
+ * @example
+ * ```typescript
+ * const transport = new FallbackTransport<MyEvents>([
+ *   new SharedWorkerTransport(),
+ *   new BroadcastChannelTransport(),
+ * ]);
+ * const relay = new SwarmRelay({ clientId: 'shell', transport });
+ * ```
+ */
+export class FallbackTransport<TEventMap extends EventMap>
+  implements TransportAdapter<TEventMap>
+{
+  private current: TransportAdapter<TEventMap> | null = null;
+  private probing: TransportAdapter<TEventMap> | null = null;
+  private connectArgs: ConnectArgs | null = null;
+  private messageHandlers = new Set<
+    (message: SwarmMessage<TEventMap>) => void
+  >();
+  private errorHandlers = new Set<(error: Error) => void>();
+  private presenceHandlers = new Set<(event: PresenceEvent) => void>();
+  private inspectHandlers = new Set<InspectorListener>();
+  private leaderHandlers = new Set<(update: LeaderUpdate) => void>();
+  private upgradeTimer: ReturnType<typeof setInterval> | null = null;
+  private upgrading = false;
+  /** Last announced subscriptions, repeated to an upgraded transport. */
+  private subscriptions: string[] | null = null;
+  /** Whether inspection was requested, repeated to an upgraded transport. */
+  private inspecting = false;
+  /** Channels joined, joined again by an upgraded transport. */
+  private channels = new Set<string>();
+  /** Elections entered, entered again through an upgraded transport. */
+  private elections = new Set<string>();
+  private _state: ConnectionState = ConnectionState.Disconnected;
+  private readonly transports: readonly TransportAdapter<TEventMap>[];
+  private readonly upgradeInterval: number | undefined;
+
+  constructor(
+    transports: TransportAdapter<TEventMap>[],
+    options: FallbackTransportOptions = {}
+  ) {
+    if (transports.length === 0) {
+      throw new SwarmRelayError(
+        'FallbackTransport needs at least one transport',
+        SwarmRelayErrorCode.TransportError
+      );
+    }
+    this.transports = [...transports];
+    this.upgradeInterval = options.upgradeInterval;
+  }
+
+  /** The adapter in use, or `null` while not connected. */
+  get active(): TransportAdapter<TEventMap> | null {
+    return this.current;
+  }
+
+  get state(): ConnectionState {
+    return this.current?.state ?? this._state;
+  }
+
+  get protocolVersion(): number | undefined {
+    return this.current?.protocolVersion;
+  }
+
+  get registeredId(): string | undefined {
+    return this.current?.registeredId;
+  }
+
+  async connect(
+    clientId: string,
+    options: TransportConnectOptions = {}
+  ): Promise<void> {
+    if (this.current?.state === ConnectionState.Connected) {
+      return;
+    }
+
+    if (this.current) {
+      // The active adapter failed; probe again from the most preferred.
+      this.stopUpgrade();
+      this.unwire(this.current);
+      this.current.disconnect();
+      this.current = null;
+    }
+
+    const args: ConnectArgs = { clientId, options };
+    this.connectArgs = args;
+    this._state = ConnectionState.Connecting;
+
+    let lastError: unknown;
+    for (const transport of this.transports) {
+      try {
+        await this.probe(transport, args);
+      } catch (error) {
+        if (this.connectArgs !== args) {
+          // disconnect() aborted the attempt.
+          throw error;
+        }
+        lastError = error;
+        continue;
+      }
+
+      this.adopt(transport);
+      this._state = ConnectionState.Connected;
+      return;
+    }
+
+    this._state = ConnectionState.Error;
+    throw new SwarmRelayError(
+      `None of ${this.transports.length} transports could connect`,
+      SwarmRelayErrorCode.ConnectionFailed,
+      lastError instanceof Error ? lastError : undefined
+    );
+  }
+
+  disconnect(): void {
+    this.stopUpgrade();
+    this.connectArgs = null;
+
+    for (const transport of [this.probing, this.current]) {
+      if (transport) {
+        this.unwire(transport);
+        transport.disconnect();
+      }
+    }
+    this.probing = null;
+    this.current = null;
+    this.subscriptions = null;
+    this.inspecting = false;
+    this.channels.clear();
+    this.elections.clear();
+    this.messageHandlers.clear();
+    this.errorHandlers.clear();
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.leaderHandlers.clear();
+    this._state = ConnectionState.Disconnected;
+  }
+
+  send<K extends keyof TEventMap>(
+    message: SwarmMessage<TEventMap, K>,
+    options?: TransportSendOptions
+  ): void {
+    if (!this.current) {
+      throw new SwarmRelayError(
+        'Cannot send message: not connected',
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+    this.current.send(message, options);
+  }
+
+  setSubscriptions(patterns: string[]): void {
+    this.subscriptions = patterns;
+    this.current?.setSubscriptions?.(patterns);
+  }
+
+  setInspecting(enabled: boolean): void {
+    this.inspecting = enabled;
+    this.current?.setInspecting?.(enabled);
+  }
+
+  joinChannel(channel: string): void {
+    this.channels.add(channel);
+    this.current?.joinChannel?.(channel);
+  }
+
+  leaveChannel(channel: string): void {
+    this.channels.delete(channel);
+    this.current?.leaveChannel?.(channel);
+  }
+
+  elect(name: string): void {
+    this.elections.add(name);
+    this.current?.elect?.(name);
+  }
+
+  resign(name: string): void {
+    this.elections.delete(name);
+    this.current?.resign?.(name);
+  }
+
+  onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.add(handler);
+  }
+
+  offMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.delete(handler);
+  }
+
+  onError(handler: (error: Error) => void): void {
+    this.errorHandlers.add(handler);
+  }
+
+  offError(handler: (error: Error) => void): void {
+    this.errorHandlers.delete(handler);
+  }
+
+  getPeers(): PeerInfo[] {
+    return this.current?.getPeers?.() ?? [];
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.add(handler);
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.delete(handler);
+  }
+
+  onInspect(handler: InspectorListener): void {
+    this.inspectHandlers.add(handler);
+  }
+
+  offInspect(handler: InspectorListener): void {
+    this.inspectHandlers.delete(handler);
+  }
+
+  onLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.add(handler);
+  }
+
+  offLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.delete(handler);
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /**
+   * Connect `transport`, forwarding its messages.
+   * Adapters drop their listeners when a connection attempt fails, so they
+   * are attached anew for every attempt. Errors and presence are forwarded
+   * only once the adapter is adopted (see {@link adopt}).
+   */
+  private async probe(
+    transport: TransportAdapter<TEventMap>,
+    { clientId, options }: ConnectArgs
+  ): Promise<void> {
+    this.probing = transport;
+    transport.onMessage(this.emitMessage);
+    try {
+      await transport.connect(clientId, options);
+    } catch (error) {
+      this.unwire(transport);
+      throw error;
+    } finally {
+      if (this.probing === transport) {
+        this.probing = null;
+      }
+    }
+  }
+
+  /** Make `transport` the active adapter. */
+  private adopt(transport: TransportAdapter<TEventMap>): void {
+    this.current = transport;
+    transport.onError(this.emitError);
+    transport.onPresence?.(this.emitPresence);
+    transport.onInspect?.(this.emitInspect);
+    transport.onLeader?.(this.emitLeader);
+    this.scheduleUpgrade();
+  }
+
+  private unwire(transport: TransportAdapter<TEventMap>): void {
+    transport.offMessage(this.emitMessage);
+    transport.offError(this.emitError);
+    transport.offPresence?.(this.emitPresence);
+    transport.offInspect?.(this.emitInspect);
+    transport.offLeader?.(this.emitLeader);
+  }
+
+  // ── Upgrades ─────────────────────────────────────────────
+
+  private scheduleUpgrade(): void {
+    this.stopUpgrade();
+    if (
+      this.upgradeInterval === undefined ||
+      this.current === this.transports[0]
+    ) {
+      return;
+    }
+    this.upgradeTimer = setInterval(this.tryUpgrade, this.upgradeInterval);
+  }
+
+  private stopUpgrade(): void {
+    if (this.upgradeTimer !== null) {
+      clearInterval(this.upgradeTimer);
+      this.upgradeTimer = null;
+    }
+  }
+
+  /** Try each transport preferred over the active one, switching to the first that connects. */
+  private tryUpgrade = async (): Promise<void> => {
+    const previous = this.current;
+    const args = this.connectArgs;
+    if (this.upgrading || !previous || !args) {
+      return;
+    }
+
+    this.upgrading = true;
+    try {
+      const preferred = this.transports.slice(
+        0,
+        this.transports.indexOf(previous)
+      );
+      for (const transport of preferred) {
+        try {
+          await this.probe(transport, args);
+        } catch {
+          continue;
+        }
+
+        if (this.connectArgs !== args || this.current !== previous) {
+          // Disconnected or reconnected while probing.
+          this.unwire(transport);
+          transport.disconnect();
+          return;
+        }
+        this.switchTo(transport, previous);
+        return;
+      }
+    } finally {
+      this.upgrading = false;
+    }
+  };
+
+  private switchTo(
+    transport: TransportAdapter<TEventMap>,
+    previous: TransportAdapter<TEventMap>
+  ): void {
+    const before = previous.getPeers?.() ?? [];
+    this.unwire(previous);
+    previous.disconnect();
+    this.adopt(transport);
+    if (this.subscriptions) {
+      transport.setSubscriptions?.(this.subscriptions);
+    }
+    if (this.inspecting) {
+      transport.setInspecting?.(true);
+    }
+    for (const channel of this.channels) {
+      transport.joinChannel?.(channel);
+    }
+    for (const name of this.elections) {
+      transport.elect?.(name);
+    }
+
+    const after = transport.getPeers?.() ?? [];
+    const beforeIds = new Set(before.map((peer) => peer.clientId));
+    const afterIds = new Set(after.map((peer) => peer.clientId));
+    for (const peer of before) {
+      if (!afterIds.has(peer.clientId)) {
+        this.emitPresence({ type: 'leave', peer });
+      }
+    }
+    for (const peer of after) {
+      if (!beforeIds.has(peer.clientId)) {
+        this.emitPresence({ type: 'join', peer });
+      }
+    }
+  }
+
+  // ── Forwarding ───────────────────────────────────────────
+
+  private emitMessage = (message: SwarmMessage<TEventMap>): void => {
+    for (const handler of this.messageHandlers) {
+      handler(message);
+    }
+  };
+
+  private emitError = (error: Error): void => {
+    for (const handler of this.errorHandlers) {
+      handler(error);
+    }
+  };
+
+  private emitPresence = (event: PresenceEvent): void => {
+    for (const handler of this.presenceHandlers) {
+      handler(event);
+    }
+  };
+
+  private emitInspect = (update: InspectorUpdate): void => {
+    for (const handler of this.inspectHandlers) {
+      handler(update);
+    }
+  };
+
+  private emitLeader = (update: LeaderUpdate): void => {
+    for (const handler of this.leaderHandlers) {
+      handler(update);
+    }
+  };
+}
@@ -0,0 +1,291 @@
+import { PostMessageTransport } from './post-message-transport.js';
+import { PostMessageHub } from '../hub/post-message-hub.js';
+import { ConnectionState } from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import { PROTOCOL_VERSION } from '../protocol.js';
+
+const HOST_ORIGIN = 'https://shell.example.com';
+const CART_ORIGIN = 'https://cart.example.com';
+
+// ── Window mocks ───────────────────────────────────────────
+
+/**
+ * Stand-ins for the host page and the iframe. Both live in the test's single
+ * window, so each dispatches what is posted to it there — asynchronously and
+ * as a copy, like `postMessage` — tagged with the *other* window as source.
+ */
+class MockWindow {
+  peer!: MockWindow;
+  readonly postMessage = vi.fn((data: unknown, targetOrigin: string): void => {
+    const copy = JSON.parse(JSON.stringify(data));
+    setTimeout(() => {
+      const event = Object.assign(new Event('message'), {
+        data: copy,
+        origin: this.peer.origin,
+        source: this.peer,
+      });
+      window.dispatchEvent(event);
+    });
+    this.targetOrigins.push(targetOrigin);
+  });
+  readonly targetOrigins: string[] = [];
+
+  constructor(public origin: string) {}
+}
+
+function createWindows() {
+  const host = new MockWindow(HOST_ORIGIN);
+  const frame = new MockWindow(CART_ORIGIN);
+  host.peer = frame;
+  frame.peer = host;
+  return { host, frame };
+}
+
+/** Post a frame to the iframe's window as if it came from `source`. */
+function dispatchFrom(source: unknown, origin: string, data: unknown): void {
+  window.dispatchEvent(
+    Object.assign(new Event('message'), { data, origin, source })
+  );
+}
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('PostMessageTransport', () => {
+  let hub: PostMessageHub;
+  let host: MockWindow;
+
+  function createFrameTransport() {
+    return new PostMessageTransport({
+      allowedOrigins: [HOST_ORIGIN],
+      target: host as unknown as Window,
+      handshakeTimeout: 50,
+    });
+  }
+
+  beforeEach(() => {
+    hub = new PostMessageHub({ allowedOrigins: [CART_ORIGIN] });
+    hub.start();
+    host = createWindows().host;
+  });
+
+  afterEach(() => {
+    hub.stop();
+  });
+
+  it('should start in Disconnected state', () => {
+    expect(createFrameTransport().state).toBe(ConnectionState.Disconnected);
+  });
+
+  it('should register with the hub in the parent window', async () => {
+    const transport = createFrameTransport();
+
+    await transport.connect('cart');
+
+    expect(transport.state).toBe(ConnectionState.Connected);
+    expect(transport.protocolVersion).toBe(PROTOCOL_VERSION);
+    expect(host.targetOrigins).toEqual([HOST_ORIGIN]);
+    expect(hub.clientIds).toEqual(['cart']);
+    transport.disconnect();
+  });
+
+  it('should require allowedOrigins in an iframe', async () => {
+    const transport = new PostMessageTransport({
+      target: host as unknown as Window,
+    });
+
+    await expect(transport.connect('cart')).rejects.toMatchObject({
+      code: SwarmRelayErrorCode.ConnectionFailed,
+    });
+    expect(transport.state).toBe(ConnectionState.Error);
+  });
+
+  it('should time out when the hub never acknowledges', async () => {
+    hub.stop();
+    const transport = createFrameTransport();
+
+    await expect(transport.connect('cart')).rejects.toBeInstanceOf(
+      SwarmRelayError
+    );
+    expect(transport.state).toBe(ConnectionState.Error);
+  });
+
+  it('should exchange messages with the host page relay', async () => {
+    const shell = new PostMessageTransport({ hub });
+    const cart = createFrameTransport();
+    await shell.connect('shell');
+    await cart.connect('cart');
+    const onShellMessage = vi.fn();
+    const onCartMessage = vi.fn();
+    shell.onMessage(onShellMessage);
+    cart.onMessage(onCartMessage);
+
+    const toShell = {
+      id: '1',
+      source: 'cart',
+      target: 'shell',
+      event: 'e',
+      payload: 1,
+      timestamp: 0,
+    };
+    const toCart = {
+      id: '2',
+      source: 'shell',
+      event: 'e',
+      payload: 2,
+      timestamp: 0,
+    };
+    cart.send(toShell);
+    shell.send(toCart);
+
+    await vi.waitFor(() =>
+      expect(onShellMessage).toHaveBeenCalledWith(toShell)
+    );
+    await vi.waitFor(() => expect(onCartMessage).toHaveBeenCalledWith(toCart));
+    expect(cart.getPeers().map((peer) => peer.clientId)).toEqual(['shell']);
+
+    cart.disconnect();
+    shell.disconnect();
+  });
+
+  it('should keep relays in the same iframe apart', async () => {
+    const shell = new PostMessageTransport({ hub });
+    const cart = createFrameTransport();
+    const widget = createFrameTransport();
+    await shell.connect('shell');
+    await cart.connect('cart');
+    await widget.connect('cart-widget');
+    const onCartMessage = vi.fn();
+    const onWidgetMessage = vi.fn();
+    cart.onMessage(onCartMessage);
+    widget.onMessage(onWidgetMessage);
+
+    const toWidget = {
+      id: '1',
+      source: 'shell',
+      target: 'cart-widget',
+      event: 'e',
+      payload: 1,
+      timestamp: 0,
+    };
+    shell.send(toWidget);
+    await vi.waitFor(() =>
+      expect(onWidgetMessage).toHaveBeenCalledWith(toWidget)
+    );
+    expect(onCartMessage).not.toHaveBeenCalled();
+
+    widget.disconnect();
+    await vi.waitFor(() => expect(hub.clientIds).toEqual(['shell', 'cart']));
+    shell.send({ ...toWidget, id: '2', target: 'cart' });
+    await vi.waitFor(() => expect(onCartMessage).toHaveBeenCalledTimes(1));
+
+    cart.disconnect();
+    shell.disconnect();
+  });
+
+  it('should transfer the listed objects to the hub window', async () => {
+    const transport = createFrameTransport();
+    await transport.connect('cart');
+    const buffer = new ArrayBuffer(8);
+    const message = {
+      id: '1',
+      source: 'cart',
+      target: 'shell',
+      event: 'e',
+      payload: buffer,
+      timestamp: 0,
+    };
+
+    transport.send(message, { transfer: [buffer] });
+
+    expect(host.postMessage).toHaveBeenLastCalledWith(
+      {
+        type: '__swarm_message__',
+        message,
+        transfer: [buffer],
+        connection: expect.any(String),
+      },
+      HOST_ORIGIN,
+      [buffer]
+    );
+    transport.disconnect();
+  });
+
+  it('should ignore frames from other windows, origins or connections', async () => {
+    const transport = createFrameTransport();
+    await transport.connect('cart');
+    const onMessage = vi.fn();
+    transport.onMessage(onMessage);
+    const { connection } = host.postMessage.mock.calls[0][0] as {
+      connection: string;
+    };
+    const frame = {
+      type: '__swarm_message__',
+      message: { id: '1', source: 'shell', event: 'e' },
+      connection,
+    };
+
+    dispatchFrom(host, 'https://evil.example.com', frame);
+    dispatchFrom({}, HOST_ORIGIN, frame);
+    dispatchFrom(host, HOST_ORIGIN, { ...frame, connection: 'other' });
+    dispatchFrom(host, HOST_ORIGIN, frame);
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    transport.disconnect();
+  });
+
+  it('should track peers announced by the hub', async () => {
+    const shell = new PostMessageTransport({ hub });
+    const cart = createFrameTransport();
+    await cart.connect('cart');
+    const onPresence = vi.fn();
+    cart.onPresence(onPresence);
+
+    await shell.connect('shell');
+    await vi.waitFor(() =>
+      expect(onPresence).toHaveBeenCalledWith({
+        type: 'join',
+        peer: expect.objectContaining({ clientId: 'shell' }),
+      })
+    );
+
+    shell.disconnect();
+    await vi.waitFor(() =>
+      expect(onPresence).toHaveBeenLastCalledWith({
+        type: 'leave',
+        peer: expect.objectContaining({ clientId: 'shell' }),
+      })
+    );
+    expect(cart.getPeers()).toEqual([]);
+    cart.disconnect();
+  });
+
+  it('should leave the hub on disconnect and when the page unloads', async () => {
+    const transport = createFrameTransport();
+    await transport.connect('cart');
+
+    window.dispatchEvent(new Event('pagehide'));
+    await vi.waitFor(() => expect(hub.clientIds).toEqual([]));
+    transport.disconnect();
+
+    const other = createFrameTransport();
+    await other.connect('checkout');
+    other.disconnect();
+
+    expect(other.state).toBe(ConnectionState.Disconnected);
+    await vi.waitFor(() => expect(hub.clientIds).toEqual([]));
+  });
+
+  it('should throw when sending while disconnected', () => {
+    const transport = createFrameTransport();
+
+    expect(() =>
+      transport.send({
+        id: '1',
+        source: 'cart',
+        event: 'e',
+        payload: undefined,
+        timestamp: 0,
+      })
+    ).toThrow(SwarmRelayError);
+  });
+});
@@ -0,0 +1,517 @@
+import {
+  ConnectionState,
+  type EventMap,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type PeerInfo,
+  type PresenceEvent,
+  type SwarmMessage,
+  type TransportAdapter,
+  type TransportConnectOptions,
+  type TransportSendOptions,
+} from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import { generateId } from '../ids.js';
+import {
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  rejectionCode,
+} from '../protocol.js';
+import type { HubFrame } from '../hub/hub-router.js';
+import type {
+  PostMessageHub,
+  PostMessageHubLink,
+} from '../hub/post-message-hub.js';
+
+/**
+ * Configuration options for the postMessage transport.
+ */
+export interface PostMessageTransportOptions {
+  /**
+   * Origins the host page may be served from, e.g. `['https://shell.example.com']`.
+   * Frames from any other origin are ignored. Required in an iframe.
+   */
+  allowedOrigins?: string[];
+  /**
+   * Window running the hub.
+   * @default window.parent
+   */
+  target?: Window;
+  /**
+   * Origin frames are addressed to; `postMessage` drops them if the target
+   * window is on any other origin.
+   * @default allowedOrigins[0]
+   */
+  targetOrigin?: string;
+  /**
+   * Hub to join directly, for the relay of the page running it.
+   * When set, the options above are ignored.
+   */
+  hub?: PostMessageHub;
+  /**
+   * Time in milliseconds to wait for the hub to acknowledge registration.
+   * @default 5000
+   */
+  handshakeTimeout?: number;
+}
+
+/**
+ * Transport adapter for microfrontends embedded as cross-origin iframes,
+ * talking to a `PostMessageHub` on the host page through `window.postMessage`.
+ *
+ * The hub routes exactly like the SharedWorker hub: clients register by
+ * `clientId`, targeted messages reach one client and broadcasts reach every
+ * other client. Every inbound frame must come from the hub window and from
+ * one of `allowedOrigins`; anything else is ignored. Frames carry a
+ * connection ID that is new for every connect, so several transports can
+ * share an iframe without receiving each other's frames. Envelopes are copied
+ * with the structured clone algorithm, so payloads must be cloneable;
+ * objects sent with a `transfer` list are moved to the hub instead, and on
+ * to the target of a targeted message.
+ *
+ * @example
+ * ```typescript
+ * // Inside the iframe
+ * const transport = new PostMessageTransport<MyEvents>({
+ *   allowedOrigins: ['https://shell.example.com'],
+ * });
+ * const relay = new SwarmRelay({ clientId: 'cart', transport });
+ * ```
+ */
+export class PostMessageTransport<TEventMap extends EventMap>
+  implements TransportAdapter<TEventMap>
+{
+  private link: PostMessageHubLink | null = null;
+  private messageHandlers = new Set<
+    (message: SwarmMessage<TEventMap>) => void
+  >();
+  private errorHandlers = new Set<(error: Error) => void>();
+  private presenceHandlers = new Set<(event: PresenceEvent) => void>();
+  private inspectHandlers = new Set<InspectorListener>();
+  private leaderHandlers = new Set<(update: LeaderUpdate) => void>();
+  private peers = new Map<string, PeerInfo>();
+  private _state: ConnectionState = ConnectionState.Disconnected;
+  private _protocolVersion: number | undefined;
+  private _registeredId: string | undefined;
+  private handshakeAbort: (() => void) | null = null;
+  /** Receives frames from the hub; swapped out once registered. */
+  private receiveFrame: (frame: HubFrame) => void = () => undefined;
+  private readonly allowedOrigins: ReadonlySet<string>;
+  private readonly target: Window | undefined;
+  private readonly targetOrigin: string | undefined;
+  private readonly hub: PostMessageHub | undefined;
+  private readonly handshakeTimeout: number;
+
+  constructor(options: PostMessageTransportOptions = {}) {
+    this.allowedOrigins = new Set(options.allowedOrigins);
+    this.target = options.target;
+    this.targetOrigin = options.targetOrigin ?? options.allowedOrigins?.[0];
+    this.hub = options.hub;
+    this.handshakeTimeout = options.handshakeTimeout ?? 5_000;
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  /** Protocol version negotiated with the hub, once connected. */
+  get protocolVersion(): number | undefined {
+    return this._protocolVersion;
+  }
+
+  /** Client ID the hub registered this client under, once connected. */
+  get registeredId(): string | undefined {
+    return this._registeredId;
+  }
+
+  async connect(
+    clientId: string,
+    options: TransportConnectOptions = {}
+  ): Promise<void> {
+    if (this._state === ConnectionState.Connected) {
+      return;
+    }
+
+    this._state = ConnectionState.Connecting;
+
+    try {
+      this.link = this.hub
+        ? this.hub.join((frame) => this.receiveFrame(frame))
+        : this.openWindowLink();
+      await this.handshake(this.link, clientId, options);
+
+      this._state = ConnectionState.Connected;
+    } catch (error) {
+      this._state = ConnectionState.Error;
+      this.closeLink();
+      this.cleanup();
+
+      if (error instanceof SwarmRelayError) {
+        throw error;
+      }
+      throw new SwarmRelayError(
+        'Failed to connect to the postMessage hub',
+        SwarmRelayErrorCode.ConnectionFailed,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  disconnect(): void {
+    if (this.handshakeAbort) {
+      this.handshakeAbort();
+      this.handshakeAbort = null;
+    }
+
+    this.closeLink();
+    this.cleanup();
+    this._state = ConnectionState.Disconnected;
+  }
+
+  send<K extends keyof TEventMap>(
+    message: SwarmMessage<TEventMap, K>,
+    options: TransportSendOptions = {}
+  ): void {
+    if (this._state !== ConnectionState.Connected || !this.link) {
+      throw new SwarmRelayError(
+        'Cannot send message: not connected',
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+
+    const { transfer } = options;
+    try {
+      if (transfer?.length) {
+        // The list travels in the frame too, so the hub can move it on.
+        this.link.post(
+          { type: '__swarm_message__', message, transfer },
+          transfer
+        );
+      } else {
+        this.link.post({ type: '__swarm_message__', message });
+      }
+    } catch (error) {
+      throw new SwarmRelayError(
+        'Failed to send message',
+        SwarmRelayErrorCode.SendFailed,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /** Tell the hub which events to forward; ignored while not connected. */
+  setSubscriptions(patterns: string[]): void {
+    if (this._state !== ConnectionState.Connected || !this.link) return;
+    this.link.post({ type: '__swarm_subscribe__', patterns });
+  }
+
+  /** Join a channel at the hub; ignored while not connected. */
+  joinChannel(channel: string): void {
+    if (this._state !== ConnectionState.Connected || !this.link) return;
+    this.link.post({ type: '__swarm_join__', channel });
+  }
+
+  /** Leave a channel at the hub; ignored while not connected. */
+  leaveChannel(channel: string): void {
+    if (this._state !== ConnectionState.Connected || !this.link) return;
+    this.link.post({ type: '__swarm_leave__', channel });
+  }
+
+  /** Start or stop hub inspector updates; ignored while not connected. */
+  setInspecting(enabled: boolean): void {
+    if (this._state !== ConnectionState.Connected || !this.link) return;
+    this.link.post({ type: '__swarm_inspect__', enabled });
+  }
+
+  /** Stand in a hub election; ignored while not connected. */
+  elect(name: string): void {
+    if (this._state !== ConnectionState.Connected || !this.link) return;
+    this.link.post({ type: '__swarm_elect__', name });
+  }
+
+  /** Withdraw from a hub election; ignored while not connected. */
+  resign(name: string): void {
+    if (this._state !== ConnectionState.Connected || !this.link) return;
+    this.link.post({ type: '__swarm_resign__', name });
+  }
+
+  onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.add(handler);
+  }
+
+  offMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.delete(handler);
+  }
+
+  onError(handler: (error: Error) => void): void {
+    this.errorHandlers.add(handler);
+  }
+
+  offError(handler: (error: Error) => void): void {
+    this.errorHandlers.delete(handler);
+  }
+
+  getPeers(): PeerInfo[] {
+    return [...this.peers.values()];
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.add(handler);
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.delete(handler);
+  }
+
+  onInspect(handler: InspectorListener): void {
+    this.inspectHandlers.add(handler);
+  }
+
+  offInspect(handler: InspectorListener): void {
+    this.inspectHandlers.delete(handler);
+  }
+
+  onLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.add(handler);
+  }
+
+  offLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.delete(handler);
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /** Link to a hub in another window, verifying every frame it receives. */
+  private openWindowLink(): PostMessageHubLink {
+    if (typeof window === 'undefined') {
+      throw new SwarmRelayError(
+        'postMessage is not supported in this environment',
+        SwarmRelayErrorCode.WorkerNotSupported
+      );
+    }
+
+    const target = this.target ?? window.parent;
+    const targetOrigin = this.targetOrigin;
+    if (!targetOrigin || target === window) {
+      throw new SwarmRelayError(
+        'PostMessageTransport needs allowedOrigins and a hub window ' +
+          '(or a hub on this page)',
+        SwarmRelayErrorCode.ConnectionFailed
+      );
+    }
+
+    // The hub tells connections in one window apart by this ID.
+    const connection = generateId();
+    const post = (frame: HubFrame, transfer?: Transferable[]) => {
+      const tagged = { ...frame, connection };
+      if (transfer?.length) {
+        target.postMessage(tagged, targetOrigin, transfer);
+      } else {
+        target.postMessage(tagged, targetOrigin);
+      }
+    };
+    const handleWindowMessage = (event: MessageEvent) => {
+      const frame = event.data as HubFrame | null;
+      if (
+        event.source === target &&
+        this.allowedOrigins.has(event.origin) &&
+        typeof frame?.type === 'string' &&
+        frame.connection === connection
+      ) {
+        this.receiveFrame(frame);
+      }
+    };
+    // Let the hub announce our departure when the iframe unloads.
+    const handlePageHide = () => post({ type: '__swarm_disconnect__' });
+
+    window.addEventListener('message', handleWindowMessage);
+    window.addEventListener('pagehide', handlePageHide);
+    return {
+      post,
+      close: () => {
+        window.removeEventListener('message', handleWindowMessage);
+        window.removeEventListener('pagehide', handlePageHide);
+        post({ type: '__swarm_disconnect__' });
+      },
+    };
+  }
+
+  /**
+   * Perform the register/ack handshake with the hub.
+   * Resolves once the hub confirms registration; rejects on timeout or
+   * when the hub and this client share no protocol version.
+   */
+  private handshake(
+    link: PostMessageHubLink,
+    clientId: string,
+    options: TransportConnectOptions
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const fail = (error: SwarmRelayError) => {
+        clearTimeout(timeout);
+        this.handshakeAbort = null;
+        reject(error);
+      };
+
+      const timeout = setTimeout(() => {
+        fail(
+          new SwarmRelayError(
+            'postMessage hub registration timed out',
+            SwarmRelayErrorCode.ConnectionFailed
+          )
+        );
+      }, this.handshakeTimeout);
+
+      // Allow disconnect() to abort the handshake immediately.
+      this.handshakeAbort = () => {
+        fail(
+          new SwarmRelayError(
+            'Connection aborted',
+            SwarmRelayErrorCode.ConnectionFailed
+          )
+        );
+      };
+
+      this.receiveFrame = (frame) => {
+        if (frame.type === '__swarm_rejected__') {
+          fail(
+            new SwarmRelayError(
+              `postMessage hub rejected registration: ${frame.reason}`,
+              rejectionCode(frame.code)
+            )
+          );
+          return;
+        }
+
+        if (frame.type === '__swarm_registered__') {
+          const version = negotiateProtocolVersion(
+            frame.version as number | undefined
+          );
+          if (version === null) {
+            fail(
+              new SwarmRelayError(
+                `postMessage hub speaks protocol ${
+                  frame.version ?? LEGACY_PROTOCOL_VERSION
+                }; ` +
+                  `this client requires ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+                SwarmRelayErrorCode.ProtocolMismatch
+              )
+            );
+            return;
+          }
+
+          clearTimeout(timeout);
+          this.handshakeAbort = null;
+          this._protocolVersion = version;
+          this._registeredId = String(frame.clientId ?? clientId);
+          this.peers.clear();
+          for (const peer of (frame.peers ?? []) as PeerInfo[]) {
+            this.peers.set(peer.clientId, peer);
+          }
+          // Switch to the permanent handler.
+          this.receiveFrame = this.handleFrame;
+          resolve();
+        }
+      };
+
+      link.post({
+        type: '__swarm_register__',
+        clientId,
+        metadata: options.metadata,
+        onConflict: options.onConflict,
+        tabId: options.tabId,
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+      });
+    });
+  }
+
+  private handleFrame = (frame: HubFrame): void => {
+    if (frame.type === '__swarm_message__' && frame.message) {
+      for (const handler of this.messageHandlers) {
+        handler(frame.message as SwarmMessage<TEventMap>);
+      }
+      return;
+    }
+
+    if (frame.type === '__swarm_inspector__' && frame.update) {
+      for (const handler of this.inspectHandlers) {
+        handler(frame.update as InspectorUpdate);
+      }
+      return;
+    }
+
+    if (frame.type === '__swarm_leader__' && typeof frame.name === 'string') {
+      const update: LeaderUpdate = {
+        name: frame.name,
+        leader: typeof frame.leader === 'string' ? frame.leader : null,
+      };
+      for (const handler of this.leaderHandlers) {
+        handler(update);
+      }
+      return;
+    }
+
+    if (frame.type === '__swarm_evicted__') {
+      // Another connection registered with this client ID; the hub no
+      // longer routes anything to this one.
+      this._state = ConnectionState.Error;
+      this.emitError(
+        new SwarmRelayError(
+          `Evicted by the hub: ${frame.reason}`,
+          SwarmRelayErrorCode.ClientIdConflict
+        )
+      );
+      return;
+    }
+
+    if (frame.type === '__swarm_peer_join__' && frame.peer) {
+      const peer = frame.peer as PeerInfo;
+      this.peers.set(peer.clientId, peer);
+      this.emitPresence({ type: 'join', peer });
+      return;
+    }
+
+    if (frame.type === '__swarm_peer_leave__' && frame.peer) {
+      const peer = frame.peer as PeerInfo;
+      this.peers.delete(peer.clientId);
+      this.emitPresence({ type: 'leave', peer });
+    }
+  };
+
+  private emitPresence(event: PresenceEvent): void {
+    for (const handler of this.presenceHandlers) {
+      handler(event);
+    }
+  }
+
+  private emitError(error: Error): void {
+    for (const handler of this.errorHandlers) {
+      handler(error);
+    }
+  }
+
+  private closeLink(): void {
+    this.receiveFrame = () => undefined;
+    if (!this.link) return;
+
+    try {
+      this.link.close();
+    } catch {
+      // Hub window may be gone — ignore.
+    }
+    this.link = null;
+  }
+
+  private cleanup(): void {
+    this.messageHandlers.clear();
+    this.errorHandlers.clear();
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.leaderHandlers.clear();
+    this.peers.clear();
+  }
+}
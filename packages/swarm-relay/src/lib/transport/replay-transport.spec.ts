@@ -0,0 +1,141 @@
+import { ReplayTransport } from './replay-transport.js';
+import { SwarmRelay } from '../swarm-relay.js';
+import type { RecordedMessage, SwarmRecording } from '../swarm-recorder.js';
+import { ConnectionState } from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+
+type TestEvents = {
+  'cart:add': { sku: string };
+  'user:login': { userId: string };
+};
+
+function entry(
+  at: number,
+  direction: RecordedMessage['direction'],
+  sku: string
+): RecordedMessage<TestEvents> {
+  return {
+    direction,
+    at,
+    message: {
+      id: sku,
+      source: direction === 'inbound' ? 'catalog' : 'cart',
+      event: 'cart:add',
+      payload: { sku },
+      timestamp: at,
+    },
+  };
+}
+
+const recording: SwarmRecording<TestEvents> = {
+  format: 'swarm-relay-recording',
+  version: 1,
+  clientId: 'cart',
+  startedAt: 0,
+  entries: [
+    entry(100, 'inbound', 'A1'),
+    entry(150, 'outbound', 'ignored'),
+    entry(300, 'inbound', 'B2'),
+  ],
+};
+
+function createSilentLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+describe('ReplayTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function connect(transport: ReplayTransport<TestEvents>) {
+    const relay = new SwarmRelay<TestEvents>({
+      clientId: 'cart',
+      transport,
+      logger: createSilentLogger(),
+    });
+    const received: string[] = [];
+    relay.on('cart:add', ({ sku }) => received.push(sku));
+    await relay.connect();
+    return { relay, received };
+  }
+
+  it('should replay inbound messages with their recorded timing', async () => {
+    const transport = new ReplayTransport(recording);
+    const { received } = await connect(transport);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(received).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(received).toEqual(['A1']);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(received).toEqual(['A1', 'B2']);
+    expect(transport.remaining).toBe(0);
+  });
+
+  it('should replay faster at a higher speed', async () => {
+    const json = JSON.stringify(recording);
+    const transport = new ReplayTransport<TestEvents>(json, { speed: 10 });
+    const { received } = await connect(transport);
+
+    await vi.advanceTimersByTimeAsync(30);
+    expect(received).toEqual(['A1', 'B2']);
+    await expect(transport.finished()).resolves.toBeUndefined();
+  });
+
+  it('should wait for play or step without autoplay', async () => {
+    const transport = new ReplayTransport(recording, { autoplay: false });
+    const { received } = await connect(transport);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(received).toEqual([]);
+
+    expect(transport.step()).toBe(true);
+    expect(received).toEqual(['A1']);
+
+    transport.flush();
+    expect(received).toEqual(['A1', 'B2']);
+    expect(transport.step()).toBe(false);
+  });
+
+  it('should collect sent messages instead of delivering them', async () => {
+    const transport = new ReplayTransport(recording, { autoplay: false });
+    const { relay } = await connect(transport);
+
+    relay.send('catalog', 'cart:add', { sku: 'C3' });
+
+    expect(transport.sentMessages.map((m) => m.payload)).toEqual([
+      { sku: 'C3' },
+    ]);
+  });
+
+  it('should stop playback on disconnect', async () => {
+    const transport = new ReplayTransport(recording);
+    const { relay, received } = await connect(transport);
+
+    relay.disconnect();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(received).toEqual([]);
+    expect(transport.state).toBe(ConnectionState.Disconnected);
+    expect(transport.playing).toBe(false);
+  });
+
+  it('should reject input that is not a recording', () => {
+    expect(() => new ReplayTransport('[]')).toThrow(
+      expect.objectContaining({
+        constructor: SwarmRelayError,
+        code: SwarmRelayErrorCode.InvalidMessage,
+      })
+    );
+  });
+});
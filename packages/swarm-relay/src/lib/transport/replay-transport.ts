@@ -0,0 +1,225 @@
+import {
+  ConnectionState,
+  type EventMap,
+  type SwarmMessage,
+  type TransportAdapter,
+} from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import {
+  parseRecording,
+  type RecordedMessage,
+  type SwarmRecording,
+} from '../swarm-recorder.js';
+
+/**
+ * Configuration options for the replay transport.
+ */
+export interface ReplayTransportOptions {
+  /**
+   * Playback speed: `2` plays twice as fast as recorded, `Infinity`
+   * delivers every message without waiting.
+   * @default 1
+   */
+  speed?: number;
+  /**
+   * Start playing as soon as the relay connects. Otherwise playback waits
+   * for `play()`, `step()` or `flush()`.
+   * @default true
+   */
+  autoplay?: boolean;
+}
+
+/**
+ * Transport adapter that plays a {@link SwarmRecording} back into a relay,
+ * for debugging a captured session or as a regression test.
+ *
+ * The recording's inbound messages are delivered in order, spaced as they
+ * were recorded (divided by `speed`). Messages the relay sends are not
+ * forwarded anywhere; they are collected in `sentMessages` so they can be
+ * compared with the recording's outbound messages.
+ *
+ * Responses to requests are replayed as recorded, so they only settle
+ * requests whose IDs match the recording; replay suits event flows best.
+ *
+ * @example
+ * ```typescript
+ * const transport = new ReplayTransport<MyEvents>(recordingJson, {
+ *   speed: Infinity,
+ * });
+ * const relay = new SwarmRelay({ clientId: 'cart', transport });
+ * await relay.connect();
+ * await transport.finished();
+ * ```
+ */
+export class ReplayTransport<TEventMap extends EventMap>
+  implements TransportAdapter<TEventMap>
+{
+  private messageHandlers = new Set<
+    (message: SwarmMessage<TEventMap>) => void
+  >();
+  private errorHandlers = new Set<(error: Error) => void>();
+  private finishWaiters: (() => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private position = 0;
+  private _state: ConnectionState = ConnectionState.Disconnected;
+  private readonly inbound: RecordedMessage<TEventMap>[];
+  private readonly autoplay: boolean;
+
+  /** The recording being played back. */
+  readonly recording: SwarmRecording<TEventMap>;
+  /** All messages the relay sent during playback. */
+  readonly sentMessages: SwarmMessage<TEventMap>[] = [];
+  /** Playback speed; changes apply from the next message. */
+  speed: number;
+
+  /**
+   * @param recording - A recording from `SwarmRecorder`, or its JSON text.
+   * @throws {SwarmRelayError} `InvalidMessage` if `recording` is not valid.
+   */
+  constructor(
+    recording: SwarmRecording<TEventMap> | string,
+    options: ReplayTransportOptions = {}
+  ) {
+    this.recording = parseRecording<TEventMap>(recording);
+    this.inbound = this.recording.entries.filter(
+      (entry) => entry.direction === 'inbound'
+    );
+    this.speed = options.speed ?? 1;
+    this.autoplay = options.autoplay ?? true;
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  /** Whether playback is running. */
+  get playing(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Number of recorded messages not yet delivered. */
+  get remaining(): number {
+    return this.inbound.length - this.position;
+  }
+
+  async connect(): Promise<void> {
+    if (this._state === ConnectionState.Connected) {
+      return;
+    }
+
+    this._state = ConnectionState.Connected;
+    this.position = 0;
+    this.sentMessages.length = 0;
+    if (this.autoplay) {
+      this.play();
+    }
+  }
+
+  disconnect(): void {
+    this.pause();
+    this.messageHandlers.clear();
+    this.errorHandlers.clear();
+    this._state = ConnectionState.Disconnected;
+  }
+
+  send<K extends keyof TEventMap>(message: SwarmMessage<TEventMap, K>): void {
+    if (this._state !== ConnectionState.Connected) {
+      throw new SwarmRelayError(
+        'Cannot send message: not connected',
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+    this.sentMessages.push(message as SwarmMessage<TEventMap>);
+  }
+
+  onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.add(handler);
+  }
+
+  offMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.delete(handler);
+  }
+
+  onError(handler: (error: Error) => void): void {
+    this.errorHandlers.add(handler);
+  }
+
+  offError(handler: (error: Error) => void): void {
+    this.errorHandlers.delete(handler);
+  }
+
+  // ── Playback ─────────────────────────────────────────────
+
+  /** Start or resume playback. Ignored while not connected. */
+  play(): void {
+    if (this._state !== ConnectionState.Connected || this.timer) return;
+    this.scheduleNext();
+  }
+
+  /** Pause playback; `play()` resumes from the next message. */
+  pause(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver the next recorded message now, keeping playback running if it
+   * was.
+   *
+   * @returns `false` if there was nothing left to deliver.
+   */
+  step(): boolean {
+    if (this._state !== ConnectionState.Connected || this.remaining === 0) {
+      return false;
+    }
+
+    const wasPlaying = this.playing;
+    this.pause();
+    this.deliverNext();
+    if (wasPlaying) this.play();
+    return true;
+  }
+
+  /** Deliver every remaining message now, in order. */
+  flush(): void {
+    if (this._state !== ConnectionState.Connected) return;
+    this.pause();
+    while (this.remaining > 0) this.deliverNext();
+  }
+
+  /** Resolves once every recorded message has been delivered. */
+  finished(): Promise<void> {
+    if (this.remaining === 0) return Promise.resolve();
+    return new Promise((resolve) => this.finishWaiters.push(resolve));
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /** Wait out the recorded gap before the next message, then deliver it. */
+  private scheduleNext(): void {
+    const next = this.inbound[this.position];
+    if (!next) return;
+
+    const previousAt = this.inbound[this.position - 1]?.at ?? 0;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.deliverNext();
+      this.scheduleNext();
+    }, Math.max(0, next.at - previousAt) / this.speed);
+  }
+
+  private deliverNext(): void {
+    const entry = this.inbound[this.position++];
+    for (const handler of this.messageHandlers) {
+      handler(entry.message);
+    }
+
+    if (this.remaining === 0) {
+      const waiters = this.finishWaiters;
+      this.finishWaiters = [];
+      for (const resolve of waiters) resolve();
+    }
+  }
+}
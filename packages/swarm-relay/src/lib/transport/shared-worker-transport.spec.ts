@@ -4,10 +4,15 @@ import {
 } from './shared-worker-transport.js';
 import { ConnectionState } from '../types.js';
 import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../protocol.js';
 
 // ── SharedWorker / MessagePort mocks ───────────────────────
 
 class MockMessagePort {
+  /** Peers reported by the simulated hub on registration. */
+  static hubPeers: unknown[] = [];
+  /** Overrides the simulated hub's reply to registration. */
+  static hubReply: Record<string, unknown> | null = null;
   onmessage: ((event: MessageEvent) => void) | null = null;
   onmessageerror: (() => void) | null = null;
   start = vi.fn();
@@ -18,7 +23,12 @@ class MockMessagePort {
       // Simulate async registration acknowledgement
       queueMicrotask(() => {
         this.onmessage?.({
-          data: { type: '__swarm_registered__', clientId: msg.clientId },
+          data: MockMessagePort.hubReply ?? {
+            type: '__swarm_registered__',
+            clientId: msg.clientId,
+            peers: MockMessagePort.hubPeers,
+            version: PROTOCOL_VERSION,
+          },
         } as MessageEvent);
       });
     }
@@ -31,10 +41,13 @@ class MockMessagePort {
 }
 
 class MockSharedWorker {
+  /** Every worker constructed since the last reset. */
+  static instances: MockSharedWorker[] = [];
   port: MockMessagePort;
   onerror: ((event: ErrorEvent) => void) | null = null;
   constructor(public url: string | URL, public options?: WorkerOptions) {
     this.port = new MockMessagePort();
+    MockSharedWorker.instances.push(this);
   }
 }
 
@@ -64,8 +77,12 @@ function restoreSharedWorkerMock(): void {
 describe('SharedWorkerTransport', () => {
   beforeEach(() => installSharedWorkerMock());
   afterEach(() => {
+    MockMessagePort.hubPeers = [];
+    MockMessagePort.hubReply = null;
+    MockSharedWorker.instances = [];
     __resetSharedBlobUrl__();
     restoreSharedWorkerMock();
+    vi.useRealTimers();
   });
 
   it('should start in Disconnected state', () => {
@@ -136,6 +153,29 @@ describe('SharedWorkerTransport', () => {
     ).toThrow(SwarmRelayError);
   });
 
+  it('should transfer the listed objects to the hub', async () => {
+    const t = new SharedWorkerTransport();
+    await t.connect('client-1');
+    const buffer = new ArrayBuffer(8);
+    const message = {
+      id: 'm1',
+      source: 'client-1',
+      target: 'other',
+      event: 'upload',
+      payload: buffer,
+      timestamp: Date.now(),
+    };
+
+    t.send(message, { transfer: [buffer] });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const port = (t as any).port as MockMessagePort;
+    expect(port.postMessage).toHaveBeenLastCalledWith(
+      { type: '__swarm_message__', message, transfer: [buffer] },
+      [buffer]
+    );
+  });
+
   it('should dispatch incoming messages to registered handlers', async () => {
     const t = new SharedWorkerTransport();
     const handler = vi.fn();
@@ -193,4 +233,301 @@ describe('SharedWorkerTransport', () => {
     t.offError(handler);
     // Just verifying no throw — errors are tested via simulateError
   });
+
+  describe('options', () => {
+    it('should start the default hub from the inlined script', async () => {
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const worker = (t as any).worker as MockSharedWorker;
+      expect(worker.url).toBe('blob:mock');
+      expect(worker.options?.name).toBe('swarm-relay-hub');
+    });
+
+    it('should start the named hub from workerUrl', async () => {
+      const t = new SharedWorkerTransport({
+        name: 'checkout-hub',
+        workerUrl: '/swarm-relay-hub.js',
+      });
+      await t.connect('client-1');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const worker = (t as any).worker as MockSharedWorker;
+      expect(worker.url).toBe('/swarm-relay-hub.js');
+      expect(worker.options?.name).toBe('checkout-hub');
+      expect(URL.createObjectURL).not.toHaveBeenCalled();
+    });
+
+    it('should fail after handshakeTimeout without an acknowledgement', async () => {
+      vi.useFakeTimers();
+      MockMessagePort.hubReply = { type: '__swarm_unrelated__' };
+      const t = new SharedWorkerTransport({ handshakeTimeout: 50 });
+
+      const connecting = t.connect('client-1');
+      const failed = expect(connecting).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ConnectionFailed,
+      });
+      await vi.advanceTimersByTimeAsync(50);
+      await failed;
+    });
+  });
+
+  describe('client ID conflicts', () => {
+    it('should send the conflict policy and report the registered ID', async () => {
+      MockMessagePort.hubReply = {
+        type: '__swarm_registered__',
+        clientId: 'client-1#2',
+        version: PROTOCOL_VERSION,
+      };
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1', { onConflict: 'suffix' });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const port = (t as any).port as MockMessagePort;
+      expect(port.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: 'client-1', onConflict: 'suffix' })
+      );
+      expect(t.registeredId).toBe('client-1#2');
+    });
+
+    it('should fail with ClientIdConflict when the hub rejects the ID', async () => {
+      MockMessagePort.hubReply = {
+        type: '__swarm_rejected__',
+        code: 'CLIENT_ID_CONFLICT',
+        reason: 'Client ID "client-1" is already registered',
+      };
+      const t = new SharedWorkerTransport();
+
+      await expect(t.connect('client-1')).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ClientIdConflict,
+      });
+    });
+
+    it('should report an eviction as a ClientIdConflict error', async () => {
+      const t = new SharedWorkerTransport();
+      const onError = vi.fn();
+      t.onError(onError);
+      await t.connect('client-1');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (t as any).port._receive({
+        type: '__swarm_evicted__',
+        clientId: 'client-1',
+        code: 'CLIENT_ID_CONFLICT',
+        reason: 'Another client registered as "client-1"',
+      });
+
+      expect(t.state).toBe(ConnectionState.Error);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: SwarmRelayErrorCode.ClientIdConflict })
+      );
+    });
+  });
+
+  describe('heartbeats', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      MockMessagePort.hubReply = {
+        type: '__swarm_registered__',
+        clientId: 'client-1',
+        version: PROTOCOL_VERSION,
+        heartbeatInterval: 1_000,
+      };
+    });
+
+    async function connect(options = {}) {
+      const t = new SharedWorkerTransport({
+        heartbeatInterval: 1_000,
+        ...options,
+      });
+      const onError = vi.fn();
+      t.onError(onError);
+      await t.connect('client-1');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const port = (t as any).port as MockMessagePort;
+      return { t, port, onError };
+    }
+
+    it('should ask the hub for heartbeats and answer its pings', async () => {
+      const { port } = await connect();
+
+      port._receive({ type: '__swarm_ping__' });
+
+      expect(port.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: '__swarm_register__',
+          heartbeatInterval: 1_000,
+          heartbeatTimeout: 3_000,
+        })
+      );
+      expect(port.postMessage).toHaveBeenLastCalledWith({
+        type: '__swarm_pong__',
+      });
+    });
+
+    it('should stay connected while the hub keeps pinging', async () => {
+      const { t, port, onError } = await connect();
+
+      for (let i = 0; i < 10; i++) {
+        await vi.advanceTimersByTimeAsync(1_000);
+        port._receive({ type: '__swarm_ping__' });
+      }
+
+      expect(t.state).toBe(ConnectionState.Connected);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should move to Error once the hub falls silent', async () => {
+      const { t, onError } = await connect({ heartbeatTimeout: 2_500 });
+
+      await vi.advanceTimersByTimeAsync(2_000);
+      expect(t.state).toBe(ConnectionState.Connected);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(t.state).toBe(ConnectionState.Error);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: SwarmRelayErrorCode.TransportError })
+      );
+    });
+
+    it('should reattach to the same worker after the hub falls silent', async () => {
+      const { t } = await connect({ name: 'checkout-hub' });
+      await vi.advanceTimersByTimeAsync(3_000);
+      expect(t.state).toBe(ConnectionState.Error);
+
+      await t.connect('client-1');
+
+      const [first, second] = MockSharedWorker.instances;
+      expect(second).not.toBe(first);
+      expect(second.url).toBe(first.url);
+      expect(second.options).toEqual(first.options);
+      expect(second.options?.name).toBe('checkout-hub');
+    });
+
+    it('should not watch hubs that do not confirm heartbeats', async () => {
+      MockMessagePort.hubReply = null;
+      const { t, onError } = await connect();
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(t.state).toBe(ConnectionState.Connected);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should report being dropped by the hub as a TransportError', async () => {
+      const { t, port, onError } = await connect();
+
+      port._receive({
+        type: '__swarm_evicted__',
+        clientId: 'client-1',
+        code: 'TRANSPORT_ERROR',
+        reason: 'No heartbeat for 3000ms',
+      });
+
+      expect(t.state).toBe(ConnectionState.Error);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: SwarmRelayErrorCode.TransportError })
+      );
+    });
+  });
+
+  describe('presence', () => {
+    it('should send metadata with the registration', async () => {
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1', { metadata: { route: '/cart' } });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const port = (t as any).port as MockMessagePort;
+      expect(port.postMessage).toHaveBeenCalledWith({
+        type: '__swarm_register__',
+        clientId: 'client-1',
+        metadata: { route: '/cart' },
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+        heartbeatInterval: 5_000,
+        heartbeatTimeout: 15_000,
+      });
+    });
+
+    it('should seed peers from the registration acknowledgement', async () => {
+      const peer = { clientId: 'shell', connectedAt: 1 };
+      MockMessagePort.hubPeers = [peer];
+
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1');
+
+      expect(t.getPeers()).toEqual([peer]);
+    });
+
+    it('should track peer joins and leaves announced by the hub', async () => {
+      const t = new SharedWorkerTransport();
+      const onPresence = vi.fn();
+      t.onPresence(onPresence);
+      await t.connect('client-1');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const port = (t as any).port as MockMessagePort;
+      const peer = { clientId: 'cart', connectedAt: 1 };
+
+      port._receive({ type: '__swarm_peer_join__', peer });
+      expect(t.getPeers()).toEqual([peer]);
+      expect(onPresence).toHaveBeenCalledWith({ type: 'join', peer });
+
+      port._receive({ type: '__swarm_peer_leave__', peer });
+      expect(t.getPeers()).toEqual([]);
+      expect(onPresence).toHaveBeenCalledWith({ type: 'leave', peer });
+    });
+
+    it('should clear peers on disconnect', async () => {
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (t as any).port._receive({
+        type: '__swarm_peer_join__',
+        peer: { clientId: 'cart', connectedAt: 1 },
+      });
+      t.disconnect();
+
+      expect(t.getPeers()).toEqual([]);
+    });
+  });
+
+  describe('protocol negotiation', () => {
+    it('should report the version negotiated with the hub', async () => {
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1');
+      expect(t.protocolVersion).toBe(PROTOCOL_VERSION);
+    });
+
+    it('should fall back to protocol 1 for hubs that send no version', async () => {
+      MockMessagePort.hubReply = {
+        type: '__swarm_registered__',
+        clientId: 'client-1',
+      };
+
+      const t = new SharedWorkerTransport();
+      await t.connect('client-1');
+
+      expect(t.state).toBe(ConnectionState.Connected);
+      expect(t.protocolVersion).toBe(1);
+    });
+
+    it('should fail with ProtocolMismatch when the hub rejects it', async () => {
+      MockMessagePort.hubReply = {
+        type: '__swarm_rejected__',
+        code: 'PROTOCOL_MISMATCH',
+        reason: 'Hub speaks protocol 3-4; client speaks 1-2',
+      };
+
+      const t = new SharedWorkerTransport();
+
+      await expect(t.connect('client-1')).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.ProtocolMismatch,
+      });
+      expect(t.state).toBe(ConnectionState.Error);
+    });
+  });
 });
@@ -1,18 +1,32 @@
 import {
   ConnectionState,
   type EventMap,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type PeerInfo,
+  type PresenceEvent,
   type SwarmMessage,
   type TransportAdapter,
+  type TransportConnectOptions,
+  type TransportSendOptions,
 } from '../types.js';
 import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import {
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  evictionCode,
+  negotiateProtocolVersion,
+  rejectionCode,
+} from '../protocol.js';
 import { getWorkerScript } from '../worker/swarm-relay-worker.js';
 
 // ── Singleton SharedWorker Blob URL ────────────────────────
 //
-// Every SharedWorkerTransport instance must connect to the **same**
-// underlying SharedWorker so messages can be routed between clients.
-// SharedWorkers are keyed by URL + name — a shared Blob URL guarantees
-// all instances hit the same worker global scope.
+// SharedWorkers are keyed by URL + name. Transports that share a hub name
+// must also share the script URL to reach the same worker global scope,
+// so every instance reuses one Blob URL; the name alone separates hubs.
 
 let sharedBlobUrl: string | null = null;
 
@@ -38,15 +52,66 @@ export function __resetSharedBlobUrl__(): void {
   }
 }
 
+/**
+ * Configuration options for the SharedWorker transport.
+ */
+export interface SharedWorkerTransportOptions {
+  /**
+   * Name of the hub's SharedWorker. Transports with the same name share a
+   * hub; give unrelated apps (or test suites) on one origin distinct names
+   * to keep their traffic apart.
+   * @default 'swarm-relay-hub'
+   */
+  name?: string;
+  /**
+   * URL of a script serving the hub (the output of `getWorkerScript()`),
+   * for environments whose Content Security Policy forbids `blob:`
+   * workers. By default the script is inlined as a Blob URL.
+   */
+  workerUrl?: string | URL;
+  /**
+   * Time in milliseconds to wait for the hub to acknowledge registration.
+   * @default 5000
+   */
+  handshakeTimeout?: number;
+  /**
+   * Interval in milliseconds at which the hub pings this client to check
+   * it is still there. `0` disables heartbeats, so a tab that closes
+   * without disconnecting stays registered until the hub notices.
+   * @default 5000
+   */
+  heartbeatInterval?: number;
+  /**
+   * Time in milliseconds without hearing from the other side after which
+   * the hub drops this client, and this client considers the hub dead.
+   * @default heartbeatInterval * 3
+   */
+  heartbeatTimeout?: number;
+}
+
 /**
  * Transport adapter backed by a SharedWorker.
  *
  * The worker script is inlined as a Blob so consumers do not need to
- * configure a separate worker entry point.
+ * configure a separate worker entry point; pass `workerUrl` to load it
+ * from a file instead.
+ *
+ * The hub pings each client every `heartbeatInterval` and drops clients
+ * that stay silent for `heartbeatTimeout`, such as a crashed tab. The
+ * transport in turn moves to `Error` when the hub falls silent for as
+ * long. Reconnecting attaches to the same worker, since browsers key
+ * SharedWorkers by name and URL: a hub that was only busy answers again,
+ * while a hung one fails the handshake until every tab using it closes.
+ *
+ * Objects sent with a `transfer` list are moved to the hub, which moves
+ * them on to the target of a targeted message and copies them to each
+ * recipient of a broadcast.
  *
  * @example
  * ```typescript
- * const transport = new SharedWorkerTransport<MyEvents>();
+ * const transport = new SharedWorkerTransport<MyEvents>({
+ *   name: 'checkout-hub',
+ * });
  * const relay = new SwarmRelay({ clientId: 'shell', transport });
  * ```
  */
@@ -59,19 +124,50 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
     (message: SwarmMessage<TEventMap>) => void
   >();
   private errorHandlers = new Set<(error: Error) => void>();
+  private presenceHandlers = new Set<(event: PresenceEvent) => void>();
+  private inspectHandlers = new Set<InspectorListener>();
+  private leaderHandlers = new Set<(update: LeaderUpdate) => void>();
+  private peers = new Map<string, PeerInfo>();
   private _state: ConnectionState = ConnectionState.Disconnected;
+  private _protocolVersion: number | undefined;
+  private _registeredId: string | undefined;
   private handshakeAbort: (() => void) | null = null;
-  private clientId: string;
-
-  constructor(clientId: string) {
-    this.clientId = clientId;
+  private readonly name: string;
+  private readonly workerUrl: string | URL | undefined;
+  private readonly handshakeTimeout: number;
+  private readonly heartbeatInterval: number;
+  private readonly heartbeatTimeout: number;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  /** When the hub was last heard from. */
+  private lastHeard = 0;
+
+  constructor(options: SharedWorkerTransportOptions = {}) {
+    this.name = options.name ?? 'swarm-relay-hub';
+    this.workerUrl = options.workerUrl;
+    this.handshakeTimeout = options.handshakeTimeout ?? 5_000;
+    this.heartbeatInterval = options.heartbeatInterval ?? 5_000;
+    this.heartbeatTimeout =
+      options.heartbeatTimeout ?? this.heartbeatInterval * 3;
   }
 
   get state(): ConnectionState {
     return this._state;
   }
 
-  async connect(clientId: string): Promise<void> {
+  /** Protocol version negotiated with the hub, once connected. */
+  get protocolVersion(): number | undefined {
+    return this._protocolVersion;
+  }
+
+  /** Client ID the hub registered this client under, once connected. */
+  get registeredId(): string | undefined {
+    return this._registeredId;
+  }
+
+  async connect(
+    clientId: string,
+    options: TransportConnectOptions = {}
+  ): Promise<void> {
     if (this._state === ConnectionState.Connected) {
       return;
     }
@@ -87,14 +183,13 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
     this._state = ConnectionState.Connecting;
 
     try {
-      const blobUrl = getOrCreateBlobUrl();
-      this.worker = new SharedWorker(blobUrl, {
-        name: 'swarm-relay-hub',
+      this.worker = new SharedWorker(this.workerUrl ?? getOrCreateBlobUrl(), {
+        name: this.name,
         type: 'classic',
       });
       this.port = this.worker.port;
 
-      await this.handshake(clientId);
+      await this.handshake(clientId, options);
 
       this._state = ConnectionState.Connected;
     } catch (error) {
@@ -114,7 +209,7 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
 
   disconnect(): void {
     // Cancel any in-progress handshake immediately so the pending
-    // connect() promise rejects without waiting for the 5 s timeout.
+    // connect() promise rejects without waiting for the handshake timeout.
     if (this.handshakeAbort) {
       this.handshakeAbort();
       this.handshakeAbort = null;
@@ -132,7 +227,10 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
     this._state = ConnectionState.Disconnected;
   }
 
-  send<K extends keyof TEventMap>(message: SwarmMessage<TEventMap, K>): void {
+  send<K extends keyof TEventMap>(
+    message: SwarmMessage<TEventMap, K>,
+    options: TransportSendOptions = {}
+  ): void {
     if (this._state !== ConnectionState.Connected || !this.port) {
       throw new SwarmRelayError(
         'Cannot send message: not connected',
@@ -140,8 +238,17 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
       );
     }
 
+    const { transfer } = options;
     try {
-      this.port.postMessage({ type: '__swarm_message__', message });
+      if (transfer?.length) {
+        // The list travels in the frame too, so the hub can move it on.
+        this.port.postMessage(
+          { type: '__swarm_message__', message, transfer },
+          transfer
+        );
+      } else {
+        this.port.postMessage({ type: '__swarm_message__', message });
+      }
     } catch (error) {
       throw new SwarmRelayError(
         'Failed to send message',
@@ -151,6 +258,42 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
     }
   }
 
+  /** Tell the hub which events to forward; ignored while not connected. */
+  setSubscriptions(patterns: string[]): void {
+    if (this._state !== ConnectionState.Connected || !this.port) return;
+    this.port.postMessage({ type: '__swarm_subscribe__', patterns });
+  }
+
+  /** Join a channel at the hub; ignored while not connected. */
+  joinChannel(channel: string): void {
+    if (this._state !== ConnectionState.Connected || !this.port) return;
+    this.port.postMessage({ type: '__swarm_join__', channel });
+  }
+
+  /** Leave a channel at the hub; ignored while not connected. */
+  leaveChannel(channel: string): void {
+    if (this._state !== ConnectionState.Connected || !this.port) return;
+    this.port.postMessage({ type: '__swarm_leave__', channel });
+  }
+
+  /** Start or stop hub inspector updates; ignored while not connected. */
+  setInspecting(enabled: boolean): void {
+    if (this._state !== ConnectionState.Connected || !this.port) return;
+    this.port.postMessage({ type: '__swarm_inspect__', enabled });
+  }
+
+  /** Stand in a hub election; ignored while not connected. */
+  elect(name: string): void {
+    if (this._state !== ConnectionState.Connected || !this.port) return;
+    this.port.postMessage({ type: '__swarm_elect__', name });
+  }
+
+  /** Withdraw from a hub election; ignored while not connected. */
+  resign(name: string): void {
+    if (this._state !== ConnectionState.Connected || !this.port) return;
+    this.port.postMessage({ type: '__swarm_resign__', name });
+  }
+
   onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
     this.messageHandlers.add(handler);
   }
@@ -167,13 +310,45 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
     this.errorHandlers.delete(handler);
   }
 
+  getPeers(): PeerInfo[] {
+    return [...this.peers.values()];
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.add(handler);
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.delete(handler);
+  }
+
+  onInspect(handler: InspectorListener): void {
+    this.inspectHandlers.add(handler);
+  }
+
+  offInspect(handler: InspectorListener): void {
+    this.inspectHandlers.delete(handler);
+  }
+
+  onLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.add(handler);
+  }
+
+  offLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.delete(handler);
+  }
+
   // ── Private ──────────────────────────────────────────────
 
   /**
    * Perform the register/ack handshake with the worker.
-   * Resolves once the worker confirms registration, or rejects on timeout.
+   * Resolves once the worker confirms registration, or rejects on timeout
+   * or when the worker and this client share no protocol version.
    */
-  private handshake(clientId: string): Promise<void> {
+  private handshake(
+    clientId: string,
+    options: TransportConnectOptions
+  ): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.handshakeAbort = null;
@@ -183,7 +358,7 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
             SwarmRelayErrorCode.ConnectionFailed
           )
         );
-      }, 5_000);
+      }, this.handshakeTimeout);
 
       // Allow disconnect() to abort the handshake immediately.
       this.handshakeAbort = () => {
@@ -199,11 +374,50 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
       this.port!.onmessage = (event: MessageEvent) => {
         const data = event.data;
 
+        if (data.type === '__swarm_rejected__') {
+          clearTimeout(timeout);
+          this.handshakeAbort = null;
+          reject(
+            new SwarmRelayError(
+              `SharedWorker rejected registration: ${data.reason}`,
+              rejectionCode(data.code)
+            )
+          );
+          return;
+        }
+
         if (data.type === '__swarm_registered__') {
           clearTimeout(timeout);
           this.handshakeAbort = null;
+
+          // Hubs from before protocol 2 acknowledge without a version.
+          const version = negotiateProtocolVersion(data.version);
+          if (version === null) {
+            this.port!.postMessage({ type: '__swarm_disconnect__' });
+            reject(
+              new SwarmRelayError(
+                `SharedWorker speaks protocol ${
+                  data.version ?? LEGACY_PROTOCOL_VERSION
+                }; ` +
+                  `this client requires ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+                SwarmRelayErrorCode.ProtocolMismatch
+              )
+            );
+            return;
+          }
+
+          this._protocolVersion = version;
+          this._registeredId = String(data.clientId ?? clientId);
+          this.peers.clear();
+          for (const peer of (data.peers ?? []) as PeerInfo[]) {
+            this.peers.set(peer.clientId, peer);
+          }
           // Switch to the permanent message handler.
           this.port!.onmessage = this.handlePortMessage;
+          // Hubs without heartbeats do not confirm them, and never ping.
+          if (data.heartbeatInterval) {
+            this.startHeartbeat();
+          }
           resolve();
           return;
         }
@@ -230,19 +444,120 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
       };
 
       this.port!.start();
-      this.port!.postMessage({ type: '__swarm_register__', clientId });
+      this.port!.postMessage({
+        type: '__swarm_register__',
+        clientId,
+        metadata: options.metadata,
+        onConflict: options.onConflict,
+        tabId: options.tabId,
+        heartbeatInterval: this.heartbeatInterval,
+        heartbeatTimeout: this.heartbeatTimeout,
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+      });
     });
   }
 
   private handlePortMessage = (event: MessageEvent): void => {
     const data = event.data;
+    this.lastHeard = Date.now();
+
+    if (data.type === '__swarm_ping__') {
+      this.port?.postMessage({ type: '__swarm_pong__' });
+      return;
+    }
+
     if (data.type === '__swarm_message__' && data.message) {
       for (const handler of this.messageHandlers) {
         handler(data.message as SwarmMessage<TEventMap>);
       }
+      return;
+    }
+
+    if (data.type === '__swarm_inspector__' && data.update) {
+      for (const handler of this.inspectHandlers) {
+        handler(data.update as InspectorUpdate);
+      }
+      return;
+    }
+
+    if (data.type === '__swarm_leader__' && typeof data.name === 'string') {
+      const update: LeaderUpdate = {
+        name: data.name,
+        leader: typeof data.leader === 'string' ? data.leader : null,
+      };
+      for (const handler of this.leaderHandlers) {
+        handler(update);
+      }
+      return;
+    }
+
+    if (data.type === '__swarm_evicted__') {
+      // Another connection registered with this client ID, or the hub
+      // stopped hearing from this one; it no longer routes anything here.
+      this.stopHeartbeat();
+      this._state = ConnectionState.Error;
+      this.emitError(
+        new SwarmRelayError(
+          `Evicted by the hub: ${data.reason}`,
+          evictionCode(data.code)
+        )
+      );
+      return;
+    }
+
+    if (data.type === '__swarm_peer_join__' && data.peer) {
+      const peer = data.peer as PeerInfo;
+      this.peers.set(peer.clientId, peer);
+      this.emitPresence({ type: 'join', peer });
+      return;
+    }
+
+    if (data.type === '__swarm_peer_leave__' && data.peer) {
+      const peer = data.peer as PeerInfo;
+      this.peers.delete(peer.clientId);
+      this.emitPresence({ type: 'leave', peer });
     }
   };
 
+  // ── Heartbeats ───────────────────────────────────────────
+
+  /** Watch for the hub falling silent; it pings every `heartbeatInterval`. */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastHeard = Date.now();
+    this.heartbeatTimer = setInterval(
+      this.checkHeartbeat,
+      this.heartbeatInterval
+    );
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private checkHeartbeat = (): void => {
+    if (Date.now() - this.lastHeard < this.heartbeatTimeout) return;
+
+    this.stopHeartbeat();
+    this._state = ConnectionState.Error;
+    this.emitError(
+      new SwarmRelayError(
+        `SharedWorker hub did not respond for ${this.heartbeatTimeout}ms`,
+        SwarmRelayErrorCode.TransportError
+      )
+    );
+  };
+
+  private emitPresence(event: PresenceEvent): void {
+    for (const handler of this.presenceHandlers) {
+      handler(event);
+    }
+  }
+
   private emitError(error: Error): void {
     for (const handler of this.errorHandlers) {
       handler(error);
@@ -250,11 +565,16 @@ export class SharedWorkerTransport<TEventMap extends EventMap>
   }
 
   private cleanup(): void {
+    this.stopHeartbeat();
     this.port = null;
     this.worker = null;
     // Do NOT revoke the shared blob URL — it is a module-level singleton
     // reused by every SharedWorkerTransport instance.
     this.messageHandlers.clear();
     this.errorHandlers.clear();
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.leaderHandlers.clear();
+    this.peers.clear();
   }
 }
@@ -0,0 +1,296 @@
+import { WebSocketTransport } from './websocket-transport.js';
+import { ConnectionState } from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../protocol.js';
+
+// ── WebSocket mock ─────────────────────────────────────────
+
+class MockWebSocket {
+  static readonly OPEN = 1;
+  /** Every socket created, most recent last. */
+  static instances: MockWebSocket[] = [];
+  /** Overrides the simulated server's reply to registration. */
+  static serverReply: Record<string, unknown> | null = null;
+
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  close = vi.fn();
+  /** Parsed frames sent by the transport. */
+  sent: Record<string, unknown>[] = [];
+
+  constructor(public url: string, public protocols?: string | string[]) {
+    MockWebSocket.instances.push(this);
+    queueMicrotask(() => {
+      this.readyState = MockWebSocket.OPEN;
+      this.onopen?.();
+    });
+  }
+
+  send(frame: string): void {
+    const data = JSON.parse(frame) as Record<string, unknown>;
+    this.sent.push(data);
+    if (data.type === '__swarm_register__') {
+      queueMicrotask(() =>
+        this._receive(
+          MockWebSocket.serverReply ?? {
+            type: '__swarm_registered__',
+            clientId: data.clientId,
+            peers: [],
+            version: PROTOCOL_VERSION,
+          }
+        )
+      );
+    }
+  }
+
+  /** Test-only: push a frame into the socket as if it came from the server. */
+  _receive(data: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(data) } as MessageEvent);
+  }
+
+  /** Test-only: simulate the server closing the connection. */
+  _serverClose(code = 1006): void {
+    this.readyState = 3;
+    this.onclose?.({ code } as CloseEvent);
+  }
+}
+
+function createTransport() {
+  return new WebSocketTransport({
+    url: 'ws://localhost:1234',
+    handshakeTimeout: 50,
+    WebSocket: MockWebSocket as unknown as typeof WebSocket,
+  });
+}
+
+function lastSocket(): MockWebSocket {
+  return MockWebSocket.instances[MockWebSocket.instances.length - 1];
+}
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('WebSocketTransport', () => {
+  afterEach(() => {
+    MockWebSocket.instances = [];
+    MockWebSocket.serverReply = null;
+  });
+
+  it('should start in Disconnected state', () => {
+    expect(createTransport().state).toBe(ConnectionState.Disconnected);
+  });
+
+  it('should register with the server once the socket opens', async () => {
+    const t = createTransport();
+    await t.connect('kiosk', { metadata: { route: '/lobby' } });
+
+    expect(t.state).toBe(ConnectionState.Connected);
+    expect(t.protocolVersion).toBe(PROTOCOL_VERSION);
+    expect(lastSocket().url).toBe('ws://localhost:1234');
+    expect(lastSocket().sent[0]).toEqual({
+      type: '__swarm_register__',
+      clientId: 'kiosk',
+      metadata: { route: '/lobby' },
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION,
+    });
+  });
+
+  it('should throw when no WebSocket implementation exists', async () => {
+    const original = globalThis.WebSocket;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (globalThis as any).WebSocket;
+    try {
+      const t = new WebSocketTransport({ url: 'ws://localhost:1234' });
+      await expect(t.connect('x')).rejects.toMatchObject({
+        code: SwarmRelayErrorCode.WorkerNotSupported,
+      });
+    } finally {
+      globalThis.WebSocket = original;
+    }
+  });
+
+  it('should fail with ProtocolMismatch when the server rejects it', async () => {
+    MockWebSocket.serverReply = {
+      type: '__swarm_rejected__',
+      code: 'PROTOCOL_MISMATCH',
+      reason: 'Hub speaks protocol 3-4; client speaks 1-2',
+    };
+
+    const t = createTransport();
+
+    await expect(t.connect('kiosk')).rejects.toMatchObject({
+      code: SwarmRelayErrorCode.ProtocolMismatch,
+    });
+    expect(t.state).toBe(ConnectionState.Error);
+    expect(lastSocket().close).toHaveBeenCalled();
+  });
+
+  it('should time out when the server never acknowledges', async () => {
+    MockWebSocket.serverReply = { type: '__swarm_noop__' };
+
+    const t = createTransport();
+
+    await expect(t.connect('kiosk')).rejects.toThrow(/timed out/);
+  });
+
+  it('should send envelopes as JSON frames', async () => {
+    const t = createTransport();
+    await t.connect('kiosk');
+    const message = {
+      id: '1',
+      source: 'kiosk',
+      target: 'screen',
+      event: 'slide:next',
+      payload: { index: 2 },
+      timestamp: 1,
+    };
+
+    t.send(message);
+
+    expect(lastSocket().sent[1]).toEqual({
+      type: '__swarm_message__',
+      message,
+    });
+  });
+
+  it('should send binary payloads as tagged base64 and restore them', async () => {
+    const t = createTransport();
+    const onMessage = vi.fn();
+    t.onMessage(onMessage);
+    await t.connect('kiosk');
+    const message = {
+      id: '1',
+      source: 'kiosk',
+      target: 'screen',
+      event: 'file:chunk',
+      payload: { name: 'a.bin', data: Uint8Array.from([1, 2, 3]) },
+      timestamp: 1,
+    };
+
+    t.send(message);
+    const sent = lastSocket().sent[1];
+    expect(sent).toEqual({
+      type: '__swarm_message__',
+      message: {
+        ...message,
+        payload: {
+          name: 'a.bin',
+          data: { __swarm_binary__: 'Uint8Array', base64: 'AQID' },
+        },
+      },
+    });
+
+    lastSocket()._receive(sent);
+    expect(onMessage).toHaveBeenCalledWith(message);
+  });
+
+  it('should announce subscriptions to the server once connected', async () => {
+    const t = createTransport();
+    t.setSubscriptions(['ignored']);
+    await t.connect('kiosk');
+
+    t.setSubscriptions(['slide:*']);
+
+    expect(lastSocket().sent.slice(1)).toEqual([
+      { type: '__swarm_subscribe__', patterns: ['slide:*'] },
+    ]);
+  });
+
+  it('should request and forward inspector updates', async () => {
+    const t = createTransport();
+    const onInspect = vi.fn();
+    t.onInspect(onInspect);
+    await t.connect('devtools');
+    const update = { type: 'clients', clients: [] };
+
+    t.setInspecting(true);
+    lastSocket()._receive({ type: '__swarm_inspector__', update });
+
+    expect(lastSocket().sent.slice(1)).toEqual([
+      { type: '__swarm_inspect__', enabled: true },
+    ]);
+    expect(onInspect).toHaveBeenCalledWith(update);
+  });
+
+  it('should throw when sending while disconnected', () => {
+    const t = createTransport();
+    expect(() =>
+      t.send({ id: '1', source: 'x', event: 'e', payload: {}, timestamp: 1 })
+    ).toThrow(SwarmRelayError);
+  });
+
+  it('should dispatch incoming messages to registered handlers', async () => {
+    const t = createTransport();
+    const handler = vi.fn();
+    t.onMessage(handler);
+    await t.connect('kiosk');
+
+    lastSocket()._receive({
+      type: '__swarm_message__',
+      message: { id: 'm1', source: 'screen', event: 'hello', payload: {} },
+    });
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'm1', event: 'hello' })
+    );
+  });
+
+  it('should report malformed frames', async () => {
+    const t = createTransport();
+    const onError = vi.fn();
+    t.onError(onError);
+    await t.connect('kiosk');
+
+    lastSocket().onmessage?.({ data: 'not json' } as MessageEvent);
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: SwarmRelayErrorCode.InvalidMessage })
+    );
+  });
+
+  it('should track peers announced by the server', async () => {
+    const t = createTransport();
+    const onPresence = vi.fn();
+    t.onPresence(onPresence);
+    await t.connect('kiosk');
+    const peer = { clientId: 'screen', connectedAt: 1 };
+
+    lastSocket()._receive({ type: '__swarm_peer_join__', peer });
+    expect(t.getPeers()).toEqual([peer]);
+
+    lastSocket()._receive({ type: '__swarm_peer_leave__', peer });
+    expect(t.getPeers()).toEqual([]);
+    expect(onPresence).toHaveBeenCalledTimes(2);
+  });
+
+  it('should move to Error when the server closes the connection', async () => {
+    const t = createTransport();
+    const onError = vi.fn();
+    t.onError(onError);
+    await t.connect('kiosk');
+
+    lastSocket()._serverClose();
+
+    expect(t.state).toBe(ConnectionState.Error);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: SwarmRelayErrorCode.TransportError })
+    );
+  });
+
+  it('should say goodbye and close the socket on disconnect', async () => {
+    const t = createTransport();
+    await t.connect('kiosk');
+    const socket = lastSocket();
+
+    t.disconnect();
+
+    expect(socket.sent[socket.sent.length - 1]).toEqual({
+      type: '__swarm_disconnect__',
+    });
+    expect(socket.close).toHaveBeenCalled();
+    expect(t.state).toBe(ConnectionState.Disconnected);
+  });
+});
@@ -0,0 +1,507 @@
+import {
+  ConnectionState,
+  type EventMap,
+  type InspectorListener,
+  type InspectorUpdate,
+  type LeaderUpdate,
+  type PeerInfo,
+  type PresenceEvent,
+  type SwarmMessage,
+  type TransportAdapter,
+  type TransportConnectOptions,
+} from '../types.js';
+import { SwarmRelayError, SwarmRelayErrorCode } from '../errors.js';
+import {
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  rejectionCode,
+} from '../protocol.js';
+import { decodeBinary, encodeBinary } from '../binary-json.js';
+
+/**
+ * Configuration options for the WebSocket transport.
+ */
+export interface WebSocketTransportOptions {
+  /** URL of the relay server, e.g. `wss://relay.example.com/swarm`. */
+  url: string;
+  /** Sub-protocols passed to the `WebSocket` constructor. */
+  protocols?: string | string[];
+  /**
+   * Time in milliseconds to wait for the server to acknowledge registration.
+   * @default 5000
+   */
+  handshakeTimeout?: number;
+  /**
+   * `WebSocket` implementation to use. Defaults to the global `WebSocket`;
+   * pass one (e.g. from the `ws` package) where no global exists, such as
+   * older Node versions.
+   */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Transport adapter backed by a WebSocket connection to a relay server
+ * (see `@org/swarm-relay-server`), for sharing events across devices.
+ *
+ * The server routes messages exactly like the SharedWorker hub: clients
+ * register by `clientId`, targeted messages reach one client and
+ * broadcasts reach every other client. Envelopes are sent as JSON, so
+ * payloads must be JSON-serialisable, except that `ArrayBuffer`s and typed
+ * arrays, such as binary stream chunks, are sent as tagged base64 and
+ * restored on receipt; `transfer` lists are ignored.
+ *
+ * An unexpected close after connecting moves the transport to `Error`,
+ * which lets a relay with a `reconnect` policy re-establish the connection.
+ *
+ * @example
+ * ```typescript
+ * const transport = new WebSocketTransport<MyEvents>({
+ *   url: 'wss://relay.example.com/swarm',
+ * });
+ * const relay = new SwarmRelay({ clientId: 'kiosk', transport });
+ * ```
+ */
+export class WebSocketTransport<TEventMap extends EventMap>
+  implements TransportAdapter<TEventMap>
+{
+  private socket: WebSocket | null = null;
+  private messageHandlers = new Set<
+    (message: SwarmMessage<TEventMap>) => void
+  >();
+  private errorHandlers = new Set<(error: Error) => void>();
+  private presenceHandlers = new Set<(event: PresenceEvent) => void>();
+  private inspectHandlers = new Set<InspectorListener>();
+  private leaderHandlers = new Set<(update: LeaderUpdate) => void>();
+  private peers = new Map<string, PeerInfo>();
+  private _state: ConnectionState = ConnectionState.Disconnected;
+  private _protocolVersion: number | undefined;
+  private _registeredId: string | undefined;
+  private handshakeAbort: (() => void) | null = null;
+  private readonly url: string;
+  private readonly protocols?: string | string[];
+  private readonly handshakeTimeout: number;
+  private readonly WebSocketImpl: typeof WebSocket | undefined;
+
+  constructor(options: WebSocketTransportOptions) {
+    this.url = options.url;
+    this.protocols = options.protocols;
+    this.handshakeTimeout = options.handshakeTimeout ?? 5_000;
+    this.WebSocketImpl =
+      options.WebSocket ??
+      (typeof WebSocket === 'undefined' ? undefined : WebSocket);
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  /** Protocol version negotiated with the server, once connected. */
+  get protocolVersion(): number | undefined {
+    return this._protocolVersion;
+  }
+
+  /** Client ID the hub registered this client under, once connected. */
+  get registeredId(): string | undefined {
+    return this._registeredId;
+  }
+
+  async connect(
+    clientId: string,
+    options: TransportConnectOptions = {}
+  ): Promise<void> {
+    if (this._state === ConnectionState.Connected) {
+      return;
+    }
+
+    if (!this.WebSocketImpl) {
+      throw new SwarmRelayError(
+        'WebSocket is not supported in this environment. ' +
+          'Pass an implementation through the WebSocket option.',
+        SwarmRelayErrorCode.WorkerNotSupported
+      );
+    }
+
+    this._state = ConnectionState.Connecting;
+
+    try {
+      this.socket = new this.WebSocketImpl(this.url, this.protocols);
+      await this.handshake(this.socket, clientId, options);
+
+      this._state = ConnectionState.Connected;
+    } catch (error) {
+      this._state = ConnectionState.Error;
+      this.closeSocket();
+      this.cleanup();
+
+      if (error instanceof SwarmRelayError) {
+        throw error;
+      }
+      throw new SwarmRelayError(
+        `Failed to connect to ${this.url}`,
+        SwarmRelayErrorCode.ConnectionFailed,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  disconnect(): void {
+    if (this.handshakeAbort) {
+      this.handshakeAbort();
+      this.handshakeAbort = null;
+    }
+
+    if (this.socket?.readyState === this.WebSocketImpl?.OPEN) {
+      try {
+        this.socket?.send(JSON.stringify({ type: '__swarm_disconnect__' }));
+      } catch {
+        // Socket may be closing — ignore.
+      }
+    }
+    this.closeSocket();
+    this.cleanup();
+    this._state = ConnectionState.Disconnected;
+  }
+
+  send<K extends keyof TEventMap>(message: SwarmMessage<TEventMap, K>): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) {
+      throw new SwarmRelayError(
+        'Cannot send message: not connected',
+        SwarmRelayErrorCode.NotConnected
+      );
+    }
+
+    try {
+      this.socket.send(
+        JSON.stringify({ type: '__swarm_message__', message }, encodeBinary)
+      );
+    } catch (error) {
+      throw new SwarmRelayError(
+        'Failed to send message',
+        SwarmRelayErrorCode.SendFailed,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /** Tell the hub which events to forward; ignored while not connected. */
+  setSubscriptions(patterns: string[]): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) return;
+    this.socket.send(JSON.stringify({ type: '__swarm_subscribe__', patterns }));
+  }
+
+  /** Join a channel at the hub; ignored while not connected. */
+  joinChannel(channel: string): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) return;
+    this.socket.send(JSON.stringify({ type: '__swarm_join__', channel }));
+  }
+
+  /** Leave a channel at the hub; ignored while not connected. */
+  leaveChannel(channel: string): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) return;
+    this.socket.send(JSON.stringify({ type: '__swarm_leave__', channel }));
+  }
+
+  /** Start or stop hub inspector updates; ignored while not connected. */
+  setInspecting(enabled: boolean): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) return;
+    this.socket.send(JSON.stringify({ type: '__swarm_inspect__', enabled }));
+  }
+
+  /** Stand in a server election; ignored while not connected. */
+  elect(name: string): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) return;
+    this.socket.send(JSON.stringify({ type: '__swarm_elect__', name }));
+  }
+
+  /** Withdraw from a server election; ignored while not connected. */
+  resign(name: string): void {
+    if (this._state !== ConnectionState.Connected || !this.socket) return;
+    this.socket.send(JSON.stringify({ type: '__swarm_resign__', name }));
+  }
+
+  onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.add(handler);
+  }
+
+  offMessage(handler: (message: SwarmMessage<TEventMap>) => void): void {
+    this.messageHandlers.delete(handler);
+  }
+
+  onError(handler: (error: Error) => void): void {
+    this.errorHandlers.add(handler);
+  }
+
+  offError(handler: (error: Error) => void): void {
+    this.errorHandlers.delete(handler);
+  }
+
+  getPeers(): PeerInfo[] {
+    return [...this.peers.values()];
+  }
+
+  onPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.add(handler);
+  }
+
+  offPresence(handler: (event: PresenceEvent) => void): void {
+    this.presenceHandlers.delete(handler);
+  }
+
+  onInspect(handler: InspectorListener): void {
+    this.inspectHandlers.add(handler);
+  }
+
+  offInspect(handler: InspectorListener): void {
+    this.inspectHandlers.delete(handler);
+  }
+
+  onLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.add(handler);
+  }
+
+  offLeader(handler: (update: LeaderUpdate) => void): void {
+    this.leaderHandlers.delete(handler);
+  }
+
+  // ── Private ──────────────────────────────────────────────
+
+  /**
+   * Open the socket and perform the register/ack handshake with the server.
+   * Resolves once the server confirms registration; rejects on timeout, on
+   * close, or when the server and this client share no protocol version.
+   */
+  private handshake(
+    socket: WebSocket,
+    clientId: string,
+    options: TransportConnectOptions
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const fail = (error: SwarmRelayError) => {
+        clearTimeout(timeout);
+        this.handshakeAbort = null;
+        reject(error);
+      };
+
+      const timeout = setTimeout(() => {
+        fail(
+          new SwarmRelayError(
+            'WebSocket registration timed out',
+            SwarmRelayErrorCode.ConnectionFailed
+          )
+        );
+      }, this.handshakeTimeout);
+
+      // Allow disconnect() to abort the handshake immediately.
+      this.handshakeAbort = () => {
+        fail(
+          new SwarmRelayError(
+            'Connection aborted',
+            SwarmRelayErrorCode.ConnectionFailed
+          )
+        );
+      };
+
+      socket.onopen = () => {
+        socket.send(
+          JSON.stringify({
+            type: '__swarm_register__',
+            clientId,
+            metadata: options.metadata,
+            onConflict: options.onConflict,
+            tabId: options.tabId,
+            version: PROTOCOL_VERSION,
+            minVersion: MIN_PROTOCOL_VERSION,
+          })
+        );
+      };
+
+      socket.onerror = () => {
+        fail(
+          new SwarmRelayError(
+            `WebSocket error while connecting to ${this.url}`,
+            SwarmRelayErrorCode.ConnectionFailed
+          )
+        );
+      };
+
+      socket.onclose = (event: CloseEvent) => {
+        fail(
+          new SwarmRelayError(
+            `WebSocket closed during registration (code ${event.code})`,
+            SwarmRelayErrorCode.ConnectionFailed
+          )
+        );
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        const data = this.parse(event.data);
+        if (!data) return;
+
+        if (data.type === '__swarm_rejected__') {
+          fail(
+            new SwarmRelayError(
+              `Relay server rejected registration: ${data.reason}`,
+              rejectionCode(data.code)
+            )
+          );
+          return;
+        }
+
+        if (data.type === '__swarm_registered__') {
+          const version = negotiateProtocolVersion(
+            data.version as number | undefined
+          );
+          if (version === null) {
+            fail(
+              new SwarmRelayError(
+                `Relay server speaks protocol ${
+                  data.version ?? LEGACY_PROTOCOL_VERSION
+                }; ` +
+                  `this client requires ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+                SwarmRelayErrorCode.ProtocolMismatch
+              )
+            );
+            return;
+          }
+
+          clearTimeout(timeout);
+          this.handshakeAbort = null;
+          this._protocolVersion = version;
+          this._registeredId = String(data.clientId ?? clientId);
+          this.peers.clear();
+          for (const peer of (data.peers ?? []) as PeerInfo[]) {
+            this.peers.set(peer.clientId, peer);
+          }
+          // Switch to the permanent handlers.
+          socket.onmessage = this.handleSocketMessage;
+          socket.onclose = this.handleSocketClose;
+          socket.onerror = null;
+          resolve();
+        }
+      };
+    });
+  }
+
+  private handleSocketMessage = (event: MessageEvent): void => {
+    const data = this.parse(event.data);
+    if (!data) return;
+
+    if (data.type === '__swarm_message__' && data.message) {
+      for (const handler of this.messageHandlers) {
+        handler(data.message as SwarmMessage<TEventMap>);
+      }
+      return;
+    }
+
+    if (data.type === '__swarm_inspector__' && data.update) {
+      for (const handler of this.inspectHandlers) {
+        handler(data.update as InspectorUpdate);
+      }
+      return;
+    }
+
+    if (data.type === '__swarm_leader__' && typeof data.name === 'string') {
+      const update: LeaderUpdate = {
+        name: data.name,
+        leader: typeof data.leader === 'string' ? data.leader : null,
+      };
+      for (const handler of this.leaderHandlers) {
+        handler(update);
+      }
+      return;
+    }
+
+    if (data.type === '__swarm_evicted__') {
+      // Another connection registered with this client ID; the hub no
+      // longer routes anything to this one.
+      this._state = ConnectionState.Error;
+      this.emitError(
+        new SwarmRelayError(
+          `Evicted by the hub: ${data.reason}`,
+          SwarmRelayErrorCode.ClientIdConflict
+        )
+      );
+      return;
+    }
+
+    if (data.type === '__swarm_peer_join__' && data.peer) {
+      const peer = data.peer as PeerInfo;
+      this.peers.set(peer.clientId, peer);
+      this.emitPresence({ type: 'join', peer });
+      return;
+    }
+
+    if (data.type === '__swarm_peer_leave__' && data.peer) {
+      const peer = data.peer as PeerInfo;
+      this.peers.delete(peer.clientId);
+      this.emitPresence({ type: 'leave', peer });
+    }
+  };
+
+  /** The server went away while connected. */
+  private handleSocketClose = (event: CloseEvent): void => {
+    this.socket = null;
+    this._state = ConnectionState.Error;
+    this.emitError(
+      new SwarmRelayError(
+        `WebSocket connection to ${this.url} closed (code ${event.code})`,
+        SwarmRelayErrorCode.TransportError
+      )
+    );
+  };
+
+  /** Decode a frame, reporting frames that are not valid envelopes. */
+  private parse(raw: unknown): Record<string, unknown> | null {
+    try {
+      const data = JSON.parse(String(raw), decodeBinary);
+      if (data && typeof data === 'object') return data;
+    } catch {
+      // Reported below.
+    }
+    this.emitError(
+      new SwarmRelayError(
+        'Received a malformed WebSocket frame',
+        SwarmRelayErrorCode.InvalidMessage
+      )
+    );
+    return null;
+  }
+
+  private emitPresence(event: PresenceEvent): void {
+    for (const handler of this.presenceHandlers) {
+      handler(event);
+    }
+  }
+
+  private emitError(error: Error): void {
+    for (const handler of this.errorHandlers) {
+      handler(error);
+    }
+  }
+
+  private closeSocket(): void {
+    if (!this.socket) return;
+
+    this.socket.onopen = null;
+    this.socket.onmessage = null;
+    this.socket.onerror = null;
+    this.socket.onclose = null;
+    try {
+      this.socket.close();
+    } catch {
+      // Already closed — ignore.
+    }
+    this.socket = null;
+  }
+
+  private cleanup(): void {
+    this.messageHandlers.clear();
+    this.errorHandlers.clear();
+    this.presenceHandlers.clear();
+    this.inspectHandlers.clear();
+    this.leaderHandlers.clear();
+    this.peers.clear();
+  }
+}
@@ -1,3 +1,6 @@
+import type { DedupeOptions } from './dedupe-window.js';
+import type { OutboxOptions } from './outbox.js';
+
 /**
  * Base constraint for event maps.
  * Consumers define their specific event map by extending this.
@@ -12,6 +15,32 @@
  */
 export type EventMap = Record<string, unknown>;
 
+/**
+ * Base constraint for request/response maps used by `SwarmRelay.request()`
+ * and `SwarmRelay.handle()`. Each key maps to the payload sent by the
+ * requester and the value returned by the responder.
+ *
+ * @example
+ * ```typescript
+ * type MyRequests = {
+ *   'user:current': { request: void; response: { userId: string } };
+ *   'cart:total': { request: { currency: string }; response: number };
+ * };
+ * ```
+ */
+export type RequestMap = Record<
+  string,
+  { request: unknown; response: unknown }
+>;
+
+/**
+ * Projects a {@link RequestMap} onto an {@link EventMap} of request payloads,
+ * so request envelopes can be described with {@link SwarmMessage}.
+ */
+export type RequestPayloadMap<TRequestMap extends RequestMap> = {
+  [K in keyof TRequestMap]: TRequestMap[K]['request'];
+};
+
 /**
  * Connection state of the transport layer.
  */
@@ -19,6 +48,8 @@ export enum ConnectionState {
   Disconnected = 'disconnected',
   Connecting = 'connecting',
   Connected = 'connected',
+  /** The connection was lost (or never made) and is being retried. */
+  Reconnecting = 'reconnecting',
   Error = 'error',
 }
 
@@ -41,6 +72,88 @@ export interface SwarmMessage<
   payload: TEventMap[K];
   /** Unix timestamp in milliseconds */
   timestamp: number;
+  /** Request/response metadata (present only on RPC envelopes) */
+  rpc?: SwarmRpcMeta;
+  /** Delivery acknowledgement metadata (see `SendOptions.ack`) */
+  ack?: SwarmAckMeta;
+  /** Stream metadata (present only on stream frames; see `SwarmRelay.openStream()`) */
+  stream?: SwarmStreamMeta;
+  /** Channel the message was sent on (see `SwarmRelay.channel()`) */
+  channel?: string;
+  /** Whether the hub keeps this broadcast as the event's last value for late joiners */
+  retain?: boolean;
+  /** How far the message travels (absent = `'origin'`; see {@link MessageScope}) */
+  scope?: MessageScope;
+  /** For tab-scoped messages: the sender's tab, stamped by the hub or transport */
+  tabId?: string;
+  /** Wire protocol version the envelope was produced with (absent = protocol 1) */
+  version?: number;
+}
+
+/**
+ * How far a message travels:
+ * - `'origin'` — to every matching client on the hub, whichever tab it runs in
+ * - `'tab'` — only to clients running in the sender's tab
+ */
+export type MessageScope = 'tab' | 'origin';
+
+/**
+ * Metadata attached to request/response envelopes.
+ */
+export interface SwarmRpcMeta {
+  /** Whether the envelope is a request or the response to one. */
+  kind: 'request' | 'response';
+  /** For responses: the `id` of the originating request message. */
+  requestId?: string;
+  /** For failed responses: the error reported by the responder. */
+  error?: { message: string; code: string };
+}
+
+/**
+ * How far a message sent with `ack` got: `delivered`, `unknown-target` and
+ * `protocol-mismatch` are reported by the hub, `handled` by the target.
+ */
+export type DeliveryStatus =
+  | 'delivered'
+  | 'unknown-target'
+  | 'protocol-mismatch'
+  | 'handled';
+
+/**
+ * Metadata attached to messages sent with `ack` and to their receipts.
+ */
+export interface SwarmAckMeta {
+  /** Whether the envelope asks for receipts or is a receipt. */
+  kind: 'request' | 'receipt';
+  /** For receipts: the `id` of the acknowledged message. */
+  messageId?: string;
+  /** For receipts: how far the acknowledged message got. */
+  status?: DeliveryStatus;
+}
+
+/**
+ * Metadata attached to stream frames. The `open` frame is sent with `ack`
+ * and carries the stream's `id` as its own; later frames refer to it.
+ */
+export interface SwarmStreamMeta {
+  /** ID of the stream, the `id` of its `open` frame. */
+  id: string;
+  /**
+   * - `'open'` — the writer opens the stream
+   * - `'chunk'` — a written value, or part of one
+   * - `'end'` — the writer closed the stream
+   * - `'credit'` — the reader has room for `credit` more chunks
+   * - `'cancel'` — either side abandons the stream
+   */
+  kind: 'open' | 'chunk' | 'end' | 'credit' | 'cancel';
+  /** For chunks and the end: position in the stream, from `0`. */
+  seq?: number;
+  /** For chunks: whether more parts of the same value follow. */
+  partial?: boolean;
+  /** For credit: number of further chunks the reader has room for. */
+  credit?: number;
+  /** For cancels: why the stream was abandoned. */
+  error?: { message: string; code: string };
 }
 
 /**
@@ -51,6 +164,111 @@ export type MessageHandler<
   K extends keyof TEventMap = keyof TEventMap
 > = (payload: TEventMap[K], message: SwarmMessage<TEventMap, K>) => void;
 
+/**
+ * Responder function registered with `SwarmRelay.handle()`.
+ * May return the response directly or a Promise of it.
+ */
+export type RequestHandler<
+  TRequestMap extends RequestMap,
+  K extends keyof TRequestMap = keyof TRequestMap
+> = (
+  payload: TRequestMap[K]['request'],
+  message: SwarmMessage<RequestPayloadMap<TRequestMap>, K>
+) => TRequestMap[K]['response'] | Promise<TRequestMap[K]['response']>;
+
+/**
+ * Options for `SwarmRelay.send()`.
+ */
+export interface SendOptions {
+  /**
+   * Wait for the target to confirm it handled the message. `send()` then
+   * returns a promise, and sends the message again until confirmed.
+   * @default false
+   */
+  ack?: boolean;
+  /**
+   * Time in milliseconds to wait for confirmation before sending again.
+   * @default 5000
+   */
+  ackTimeout?: number;
+  /**
+   * Number of times to send again before giving up.
+   * @default 2
+   */
+  retries?: number;
+  /**
+   * `'tab'` delivers the message to the target in the sender's tab only;
+   * under the `suffix` conflict policy that may be a `<target>#2` instance.
+   * @default 'origin'
+   */
+  scope?: MessageScope;
+  /**
+   * Objects in the payload, such as `ArrayBuffer`s or `ImageBitmap`s, to
+   * move to the target instead of copying them. Treat them as unusable
+   * once sent. Transports that cannot transfer copy them instead (see
+   * {@link TransportSendOptions}). Cannot be combined with `ack`, whose
+   * retries would send the moved objects again.
+   */
+  transfer?: Transferable[];
+}
+
+/**
+ * Options for `SwarmRelay.broadcast()`.
+ */
+export interface BroadcastOptions {
+  /**
+   * Have the hub keep this broadcast as the event's last value for late
+   * joiners, as if the event were listed in the relay's `retain` option.
+   * @default false
+   */
+  retain?: boolean;
+  /**
+   * `'tab'` delivers the broadcast to clients in the sender's tab only.
+   * @default 'origin'
+   */
+  scope?: MessageScope;
+  /**
+   * Objects in the payload to move to the hub instead of copying them.
+   * A broadcast may reach several clients, so the hub still copies the
+   * payload to each recipient; this only saves the copy on the way in.
+   * Treat the objects as unusable once sent.
+   */
+  transfer?: Transferable[];
+}
+
+/**
+ * Options for `SwarmRelay.request()`.
+ */
+export interface RequestOptions {
+  /**
+   * Time in milliseconds to wait for a response before rejecting.
+   * @default 5000
+   */
+  timeout?: number;
+}
+
+/**
+ * Result of a middleware hook: the message to pass on (possibly modified),
+ * or `null` to drop it. May be returned asynchronously.
+ */
+export type MiddlewareResult<TEventMap extends EventMap> =
+  | SwarmMessage<TEventMap>
+  | null
+  | Promise<SwarmMessage<TEventMap> | null>;
+
+/**
+ * Intercepts messages between the relay and its transport.
+ * Register with `SwarmRelay.use()`.
+ */
+export interface SwarmMiddleware<TEventMap extends EventMap = EventMap> {
+  /** Name used in log output. */
+  name?: string;
+  /** Runs on every message before it is handed to the transport. */
+  outbound?(message: SwarmMessage<TEventMap>): MiddlewareResult<TEventMap>;
+  /** Runs on every received message before it is dispatched to handlers. */
+  inbound?(message: SwarmMessage<TEventMap>): MiddlewareResult<TEventMap>;
+}
+
 /**
  * Wildcard handler that receives all events.
  * Useful for logging, debugging, and devtools integration.
@@ -63,6 +281,179 @@ export type WildcardHandler<TEventMap extends EventMap> = <
   message: SwarmMessage<TEventMap, K>
 ) => void;
 
+/** Namespace prefixes of an event name: `'a:b:c'` → `'a:' | 'a:b:'`. */
+type EventNamespaces<K extends string> = K extends `${infer Head}:${infer Rest}`
+  ? `${Head}:` | `${Head}:${EventNamespaces<Rest>}`
+  : never;
+
+/**
+ * Pattern accepted by `SwarmRelay.onPattern()`: an event name, a namespace
+ * followed by `*` (e.g. `'cart:*'`), or `'*'` for every event.
+ */
+export type EventPattern<TEventMap extends EventMap> =
+  | '*'
+  | (keyof TEventMap & string)
+  | `${EventNamespaces<keyof TEventMap & string>}*`;
+
+/**
+ * Event names matched by a pattern: `'cart:*'` → `'cart:update' | 'cart:clear'`.
+ */
+export type MatchingEvents<
+  TEventMap extends EventMap,
+  TPattern extends string
+> = string extends keyof TEventMap
+  ? keyof TEventMap
+  : TPattern extends `${infer Prefix}*`
+  ? Extract<keyof TEventMap, `${Prefix}${string}`>
+  : Extract<keyof TEventMap, TPattern>;
+
+/**
+ * Handler for a pattern subscription. The message is a union over the
+ * matching events, so checking `message.event` narrows `message.payload`.
+ */
+export type PatternHandler<
+  TEventMap extends EventMap,
+  K extends keyof TEventMap = keyof TEventMap
+> = (
+  payload: TEventMap[K],
+  message: { [E in K]: SwarmMessage<TEventMap, E> }[K]
+) => void;
+
+/**
+ * Optional descriptive metadata a client shares with its peers at connect time.
+ */
+export interface ClientMetadata {
+  /** Deployed version of the microfrontend. */
+  version?: string;
+  /** Route or mount point the microfrontend is currently rendering. */
+  route?: string;
+  /** Free-form feature flags or abilities the microfrontend offers. */
+  capabilities?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * A connected client as seen by the communication hub.
+ */
+export interface PeerInfo {
+  /** Client ID of the peer */
+  clientId: string;
+  /** Metadata the peer supplied when connecting */
+  metadata?: ClientMetadata;
+  /** Unix timestamp in milliseconds at which the peer registered */
+  connectedAt: number;
+  /** Tab the peer runs in (absent from hubs that do not track tabs) */
+  tabId?: string;
+}
+
+/**
+ * Presence notification emitted by a transport when a peer joins or leaves.
+ */
+export interface PresenceEvent {
+  type: 'join' | 'leave';
+  peer: PeerInfo;
+}
+
+/**
+ * Handler invoked when a peer joins or leaves the hub.
+ */
+export type PeerHandler = (peer: PeerInfo) => void;
+
+/**
+ * A client connected to the hub, as reported to inspectors.
+ */
+export interface InspectedClient extends PeerInfo {
+  /** Protocol version negotiated with the client */
+  version: number;
+  /** Event patterns the client subscribes to (`null` = every event) */
+  subscriptions: string[] | null;
+  /** Channels the client has joined (absent from hubs without channels) */
+  channels?: string[];
+}
+
+/**
+ * A message routed by the hub, as recorded for inspectors.
+ */
+export interface TrafficRecord {
+  /** Position in the hub's traffic log, increasing with every message */
+  seq: number;
+  /** Unix timestamp in milliseconds at which the hub routed the message */
+  routedAt: number;
+  /**
+   * The envelope as the sender produced it; without its payload if the
+   * hub transferred the payload on to the target
+   */
+  message: SwarmMessage<EventMap>;
+  /** Client IDs the hub delivered the message to */
+  recipients: string[];
+}
+
+/**
+ * Update pushed by the hub to inspecting clients.
+ *
+ * - `snapshot` — the recent traffic and every client, sent when inspection
+ *   starts; replaces anything received before.
+ * - `traffic` — a message the hub just routed.
+ * - `clients` — the client list after a client registered, left or
+ *   changed its subscriptions.
+ */
+export type InspectorUpdate =
+  | { type: 'snapshot'; clients: InspectedClient[]; traffic: TrafficRecord[] }
+  | { type: 'traffic'; record: TrafficRecord }
+  | { type: 'clients'; clients: InspectedClient[] };
+
+/**
+ * Handler for hub inspector updates (see `SwarmRelay.inspect()`).
+ */
+export type InspectorListener = (update: InspectorUpdate) => void;
+
+/**
+ * Leader of an election, as pushed by the hub to its candidates whenever
+ * it changes (see `SwarmRelay.electLeader()`).
+ */
+export interface LeaderUpdate {
+  /** Name of the election */
+  name: string;
+  /** Client ID of the leader (`null` = no candidate left) */
+  leader: string | null;
+}
+
+/**
+ * What the hub does when a client registers with an ID another connection
+ * already uses:
+ * - `'takeover'` — the new client replaces the previous one, which is told
+ *   it was evicted and fails with `ClientIdConflict`
+ * - `'reject'` — the new client fails to connect with `ClientIdConflict`
+ * - `'suffix'` — the new client is registered as `<clientId>#2` (or the
+ *   next free number), so several instances can run side by side
+ */
+export type ClientIdConflictPolicy = 'takeover' | 'reject' | 'suffix';
+
+/**
+ * Options passed by SwarmRelay to `TransportAdapter.connect()`.
+ */
+export interface TransportConnectOptions {
+  /** Metadata announced to peers alongside the client ID. */
+  metadata?: ClientMetadata;
+  /** How the hub settles a client ID that is already registered. */
+  onConflict?: ClientIdConflictPolicy;
+  /** Tab the client runs in, for tab-scoped messages. */
+  tabId?: string;
+}
+
+/**
+ * Options passed to `TransportAdapter.send()` along with a message.
+ */
+export interface TransportSendOptions {
+  /**
+   * Objects in the message's payload to transfer rather than copy.
+   * Transports built on `postMessage` to a hub (SharedWorker, postMessage)
+   * pass them on; others, such as BroadcastChannel and WebSocket, ignore
+   * the list and copy or serialise the payload as usual.
+   */
+  transfer?: Transferable[];
+}
+
 /**
  * Logger interface for custom logging integration.
  * Compatible with most logging libraries (winston, pino, console, etc.).
@@ -80,11 +471,14 @@ export interface SwarmRelayLogger {
  */
 export interface TransportAdapter<TEventMap extends EventMap> {
   /** Connect to the communication hub with the given client ID. */
-  connect(clientId: string): Promise<void>;
+  connect(clientId: string, options?: TransportConnectOptions): Promise<void>;
   /** Disconnect from the communication hub and clean up resources. */
   disconnect(): void;
   /** Send a typed message through the transport. */
-  send<K extends keyof TEventMap>(message: SwarmMessage<TEventMap, K>): void;
+  send<K extends keyof TEventMap>(
+    message: SwarmMessage<TEventMap, K>,
+    options?: TransportSendOptions
+  ): void;
   /** Register a handler for incoming messages. */
   onMessage(handler: (message: SwarmMessage<TEventMap>) => void): void;
   /** Unregister a message handler. */
@@ -95,20 +489,193 @@ export interface TransportAdapter<TEventMap extends EventMap> {
   offError(handler: (error: Error) => void): void;
   /** Current connection state. */
   readonly state: ConnectionState;
+  /** Protocol version negotiated with the hub during the last handshake. */
+  readonly protocolVersion?: number;
+  /**
+   * Client ID the hub registered this client under during the last
+   * handshake; differs from the requested one under the `suffix` conflict
+   * policy.
+   */
+  readonly registeredId?: string;
+  /**
+   * For adapters that delegate to others (e.g. `FallbackTransport`), the
+   * adapter currently carrying messages.
+   */
+  readonly active?: TransportAdapter<TEventMap> | null;
+  /**
+   * Announce the events this client listens to (exact names or patterns
+   * such as `'cart:*'`), so a hub can skip forwarding other broadcasts.
+   * Each call replaces the previous set; `['*']` asks for everything.
+   */
+  setSubscriptions?(patterns: string[]): void;
+  /**
+   * Join a channel, so the hub forwards the channel's messages to this
+   * client (see `SwarmRelay.channel()`). Transports without a hub filter
+   * received messages by the channels joined instead.
+   */
+  joinChannel?(channel: string): void;
+  /** Leave a channel joined with `joinChannel()`. */
+  leaveChannel?(channel: string): void;
+  /** Peers currently known to the transport, excluding this client. */
+  getPeers?(): PeerInfo[];
+  /** Register a handler for peer join/leave notifications. */
+  onPresence?(handler: (event: PresenceEvent) => void): void;
+  /** Unregister a presence handler. */
+  offPresence?(handler: (event: PresenceEvent) => void): void;
+  /**
+   * Ask the hub to start (or stop) pushing inspector updates to this
+   * client. Starting again makes the hub send a fresh snapshot.
+   */
+  setInspecting?(enabled: boolean): void;
+  /** Register a handler for inspector updates pushed by the hub. */
+  onInspect?(handler: InspectorListener): void;
+  /** Unregister an inspector update handler. */
+  offInspect?(handler: InspectorListener): void;
+  /**
+   * Stand as a candidate in the named election. The hub makes its longest
+   * standing candidate the leader and pushes the leader to every candidate.
+   */
+  elect?(name: string): void;
+  /** Withdraw from an election entered with `elect()`. */
+  resign?(name: string): void;
+  /** Register a handler for leader updates pushed by the hub. */
+  onLeader?(handler: (update: LeaderUpdate) => void): void;
+  /** Unregister a leader update handler. */
+  offLeader?(handler: (update: LeaderUpdate) => void): void;
+}
+
+/**
+ * Options for `SwarmRelay.connect()`.
+ */
+export interface SwarmRelayConnectOptions {
+  /** Metadata (version, route, capabilities…) announced to peers. */
+  metadata?: ClientMetadata;
+  /**
+   * What the hub does when another client is already registered with this
+   * relay's `clientId` (see {@link ClientIdConflictPolicy}).
+   * @default 'takeover'
+   */
+  onConflict?: ClientIdConflictPolicy;
+}
+
+/**
+ * Automatic reconnection policy for SwarmRelay.
+ * Delays grow exponentially from `initialDelay` by `factor`, capped at `maxDelay`.
+ */
+export interface ReconnectOptions {
+  /**
+   * Maximum number of reconnection attempts before giving up.
+   * @default 5
+   */
+  maxAttempts?: number;
+  /**
+   * Delay in milliseconds before the first reconnection attempt.
+   * @default 500
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound in milliseconds for the delay between attempts.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Exponential backoff factor applied to the delay after each attempt.
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * Random jitter applied to each delay, as a fraction of it (0–1).
+   * @default 0.2
+   */
+  jitter?: number;
 }
 
 /**
  * Configuration options for the SwarmRelay instance.
  */
+/**
+ * Runtime validator for one event's payload: either an object with a
+ * `parse` method (a Zod schema) or a parse function (wrap Valibot as
+ * `(input) => v.parse(schema, input)`). It returns the parsed payload and
+ * throws when the input is invalid.
+ */
+export type PayloadSchema<T = unknown> =
+  | { parse(input: unknown): T }
+  | ((input: unknown) => T);
+
+/**
+ * Payload schemas keyed by event name.
+ * Events without a schema are not validated.
+ */
+export type SchemaRegistry<TEventMap extends EventMap> = {
+  [K in keyof TEventMap]?: PayloadSchema<TEventMap[K]>;
+};
+
 export interface SwarmRelayOptions<TEventMap extends EventMap> {
   /** Unique identifier for this microfrontend client. */
   clientId: string;
-  /** Transport adapter to use for communication. Defaults to SharedWorkerTransport. */
-  transport?: TransportAdapter<TEventMap>;
+  /**
+   * Identifier of the browser tab the client runs in; clients sharing it
+   * receive each other's tab-scoped messages. Defaults to an ID shared by
+   * every relay in the current tab (see `getTabId()`).
+   */
+  tabId?: string;
+  /**
+   * Transport adapter to use for communication. Defaults to SharedWorkerTransport.
+   * Pass several, in order of preference, to use the first that connects
+   * (see `FallbackTransport`).
+   */
+  transport?: TransportAdapter<TEventMap> | TransportAdapter<TEventMap>[];
   /** Custom logger instance. Defaults to console-based logger. */
   logger?: SwarmRelayLogger;
   /** Callback invoked on connection state changes. */
   onStateChange?: (state: ConnectionState) => void;
   /** Callback invoked when errors occur. */
   onError?: (error: Error) => void;
+  /**
+   * Reconnect automatically when connecting fails or the transport errors.
+   * Pass `true` for the default policy. Disabled by default.
+   */
+  reconnect?: boolean | ReconnectOptions;
+  /**
+   * Queue `send()` / `broadcast()` calls made while connecting or
+   * reconnecting and flush them in order once connected, instead of
+   * throwing `NotConnected`. Pass `true` for the defaults. Disabled by default.
+   */
+  outbox?: boolean | OutboxOptions;
+  /**
+   * Drop received messages whose ID was already seen recently, so copies
+   * delivered twice — by combined transports or around a reconnect — only
+   * reach handlers once. Pass `false` to disable or options to size the window.
+   * @default true
+   */
+  dedupe?: boolean | DedupeOptions;
+  /**
+   * Events whose broadcasts are retained: the hub keeps the last payload of
+   * each and replays it to clients that connect later.
+   */
+  retain?: (keyof TEventMap & string)[];
+  /**
+   * Validate event payloads at runtime. Outgoing payloads that fail throw
+   * `InvalidMessage` from `send()` / `broadcast()`; incoming ones are dropped
+   * and reported through `onError`.
+   */
+  schemas?: SchemaRegistry<TEventMap>;
 }
+
+/**
+ * Options for `SwarmRelay.channel()`. A channel relay shares its parent's
+ * client ID and connection, follows its connection state, and logs through
+ * the parent's logger unless given its own. With an `outbox`, it queues
+ * sends while the parent reconnects.
+ */
+export type ChannelOptions<TEventMap extends EventMap> = Pick<
+  SwarmRelayOptions<TEventMap>,
+  | 'logger'
+  | 'onStateChange'
+  | 'onError'
+  | 'dedupe'
+  | 'retain'
+  | 'schemas'
+  | 'outbox'
+>;
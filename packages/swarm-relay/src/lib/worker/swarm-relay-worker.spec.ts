@@ -0,0 +1,1069 @@
+import { getWorkerScript } from './swarm-relay-worker.js';
+import {
+  INSPECTOR_BUFFER_SIZE,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+} from '../protocol.js';
+
+// ── Hub harness ────────────────────────────────────────────
+//
+// The hub is shipped as a script string, so it is evaluated here against a
+// fake worker global scope and driven through fake MessagePorts.
+
+interface HubScope {
+  onconnect?: (event: { ports: HubPort[] }) => void;
+}
+
+class HubPort {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+  start = vi.fn();
+  /** Everything the hub posted to this port. */
+  received: Record<string, unknown>[] = [];
+  /** The objects the hub transferred with each post. */
+  transferred: unknown[][] = [];
+
+  postMessage(data: Record<string, unknown>, transfer: unknown[] = []): void {
+    this.received.push(data);
+    this.transferred.push(transfer);
+  }
+
+  /** Test-only: post a message from the client side into the hub. */
+  send(data: unknown): void {
+    this.onmessage?.({ data });
+  }
+
+  ofType(type: string): Record<string, unknown>[] {
+    return this.received.filter((data) => data.type === type);
+  }
+}
+
+function startHub(): HubScope {
+  const scope: HubScope = {};
+  new Function('self', getWorkerScript())(scope);
+  return scope;
+}
+
+/** Register a client; pass `{}` as `versions` to mimic a protocol 1 client. */
+function connect(
+  hub: HubScope,
+  clientId: string,
+  metadata?: Record<string, unknown>,
+  versions: Record<string, unknown> = {
+    version: PROTOCOL_VERSION,
+    minVersion: MIN_PROTOCOL_VERSION,
+  }
+): HubPort {
+  const port = new HubPort();
+  hub.onconnect?.({ ports: [port] });
+  port.send({ type: '__swarm_register__', clientId, metadata, ...versions });
+  return port;
+}
+
+// ── Tests ──────────────────────────────────────────────────
+
+describe('SwarmRelay worker hub', () => {
+  let hub: HubScope;
+
+  beforeEach(() => {
+    hub = startHub();
+  });
+
+  describe('routing', () => {
+    it('should acknowledge registration', () => {
+      const port = connect(hub, 'shell');
+      expect(port.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({ clientId: 'shell' }),
+      ]);
+    });
+
+    it('should deliver targeted messages only to the target', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const other = connect(hub, 'other');
+      const message = { id: '1', source: 'shell', target: 'cart', event: 'e' };
+
+      shell.send({ type: '__swarm_message__', message });
+
+      expect(cart.ofType('__swarm_message__')).toEqual([
+        { type: '__swarm_message__', message },
+      ]);
+      expect(other.ofType('__swarm_message__')).toEqual([]);
+    });
+
+    it('should broadcast to every client except the sender', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const other = connect(hub, 'other');
+      const message = { id: '1', source: 'shell', event: 'e' };
+
+      shell.send({ type: '__swarm_message__', message });
+
+      expect(shell.ofType('__swarm_message__')).toEqual([]);
+      expect(cart.ofType('__swarm_message__')).toHaveLength(1);
+      expect(other.ofType('__swarm_message__')).toHaveLength(1);
+    });
+
+    it('should ignore messages from ports that have not registered', () => {
+      const cart = connect(hub, 'cart');
+      const stranger = new HubPort();
+      hub.onconnect?.({ ports: [stranger] });
+
+      stranger.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'shell', target: 'cart', event: 'e' },
+      });
+      stranger.send({
+        type: '__swarm_message__',
+        message: { id: '2', source: 'shell', event: 'e' },
+      });
+
+      expect(cart.ofType('__swarm_message__')).toEqual([]);
+    });
+
+    it('should ignore messages whose source is another client', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const message = {
+        id: '1',
+        source: 'cart',
+        target: 'cart',
+        event: 'e',
+        ack: { kind: 'request' },
+      };
+
+      shell.send({ type: '__swarm_message__', message });
+
+      expect(cart.ofType('__swarm_message__')).toEqual([]);
+      expect(shell.ofType('__swarm_message__')).toEqual([]);
+    });
+  });
+
+  describe('acknowledgements', () => {
+    function receipts(port: HubPort): unknown[] {
+      return port
+        .ofType('__swarm_message__')
+        .map((data) => (data.message as Record<string, unknown>).ack);
+    }
+
+    it('should tell the sender whether the target received the message', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      connect(hub, 'older', undefined, { version: 2, minVersion: 1 });
+
+      for (const target of ['cart', 'older', 'gone']) {
+        shell.send({
+          type: '__swarm_message__',
+          message: {
+            id: target,
+            source: 'shell',
+            target,
+            event: 'e',
+            ack: { kind: 'request' },
+          },
+        });
+      }
+
+      expect(cart.ofType('__swarm_message__')).toHaveLength(1);
+      expect(receipts(shell)).toEqual([
+        { kind: 'receipt', messageId: 'cart', status: 'delivered' },
+        { kind: 'receipt', messageId: 'older', status: 'protocol-mismatch' },
+        { kind: 'receipt', messageId: 'gone', status: 'unknown-target' },
+      ]);
+    });
+
+    it('should report streams opened to clients before protocol 4 as a protocol mismatch', () => {
+      const shell = connect(hub, 'shell');
+      const older = connect(hub, 'older', undefined, {
+        version: 3,
+        minVersion: 1,
+      });
+
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: 's1',
+          source: 'shell',
+          target: 'older',
+          event: 'e',
+          ack: { kind: 'request' },
+          stream: { id: 's1', kind: 'open' },
+        },
+      });
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: '2',
+          source: 'shell',
+          target: 'older',
+          event: 'e',
+          stream: { id: 's1', kind: 'chunk', seq: 0 },
+        },
+      });
+
+      expect(older.ofType('__swarm_message__')).toEqual([]);
+      expect(receipts(shell)).toEqual([
+        { kind: 'receipt', messageId: 's1', status: 'protocol-mismatch' },
+      ]);
+    });
+
+    it('should route receipts from the target without answering them', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const ack = { kind: 'receipt', messageId: '1', status: 'handled' };
+
+      cart.send({
+        type: '__swarm_message__',
+        message: { id: '2', source: 'cart', target: 'shell', event: 'e', ack },
+      });
+
+      expect(receipts(shell)).toEqual([ack]);
+      expect(receipts(cart)).toEqual([]);
+    });
+  });
+
+  describe('presence', () => {
+    it('should list existing peers with their metadata on registration', () => {
+      connect(hub, 'shell', { version: '2.0.0' });
+      const cart = connect(hub, 'cart');
+
+      expect(cart.ofType('__swarm_registered__')[0].peers).toEqual([
+        {
+          clientId: 'shell',
+          metadata: { version: '2.0.0' },
+          connectedAt: expect.any(Number),
+        },
+      ]);
+    });
+
+    it('should announce joins to the other clients', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart', { route: '/cart' });
+
+      expect(shell.ofType('__swarm_peer_join__')).toEqual([
+        {
+          type: '__swarm_peer_join__',
+          peer: expect.objectContaining({
+            clientId: 'cart',
+            metadata: { route: '/cart' },
+          }),
+        },
+      ]);
+      expect(cart.ofType('__swarm_peer_join__')).toEqual([]);
+    });
+
+    it('should announce leaves on disconnect', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+
+      cart.send({ type: '__swarm_disconnect__' });
+
+      expect(shell.ofType('__swarm_peer_leave__')).toEqual([
+        {
+          type: '__swarm_peer_leave__',
+          peer: expect.objectContaining({ clientId: 'cart' }),
+        },
+      ]);
+    });
+
+    it('should not announce a leave for a port that was already replaced', () => {
+      const shell = connect(hub, 'shell');
+      const stale = connect(hub, 'cart');
+      connect(hub, 'cart');
+
+      stale.send({ type: '__swarm_disconnect__' });
+
+      expect(shell.ofType('__swarm_peer_leave__')).toEqual([]);
+    });
+  });
+
+  describe('client ID conflicts', () => {
+    function connectAs(clientId: string, onConflict?: string): HubPort {
+      return connect(hub, clientId, undefined, {
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+        onConflict,
+      });
+    }
+
+    it('should hand the ID to the new client and notify the evicted one', () => {
+      const shell = connectAs('shell');
+      const first = connectAs('cart');
+      const second = connectAs('cart', 'takeover');
+
+      shell.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'shell', target: 'cart', event: 'e' },
+      });
+
+      expect(first.ofType('__swarm_evicted__')).toEqual([
+        expect.objectContaining({
+          clientId: 'cart',
+          code: 'CLIENT_ID_CONFLICT',
+        }),
+      ]);
+      expect(first.ofType('__swarm_message__')).toEqual([]);
+      expect(second.ofType('__swarm_message__')).toHaveLength(1);
+    });
+
+    it('should reject the new client under the reject policy', () => {
+      const first = connectAs('cart');
+      const second = connectAs('cart', 'reject');
+
+      expect(second.ofType('__swarm_rejected__')).toEqual([
+        expect.objectContaining({ code: 'CLIENT_ID_CONFLICT' }),
+      ]);
+      expect(second.ofType('__swarm_registered__')).toEqual([]);
+      expect(first.ofType('__swarm_evicted__')).toEqual([]);
+    });
+
+    it('should register the next free suffix under the suffix policy', () => {
+      connectAs('cart');
+      const second = connectAs('cart', 'suffix');
+      const third = connectAs('cart', 'suffix');
+
+      expect(second.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({ clientId: 'cart#2' }),
+      ]);
+      expect(third.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({ clientId: 'cart#3' }),
+      ]);
+    });
+
+    it('should let a port register its own ID again', () => {
+      const cart = connectAs('cart');
+      cart.send({
+        type: '__swarm_register__',
+        clientId: 'cart',
+        version: PROTOCOL_VERSION,
+        onConflict: 'reject',
+      });
+
+      expect(cart.ofType('__swarm_registered__')).toHaveLength(2);
+    });
+  });
+
+  describe('retained events', () => {
+    it('should replay the last retained broadcast to late joiners', () => {
+      const shell = connect(hub, 'shell');
+      const first = {
+        id: '1',
+        source: 'shell',
+        event: 'user:login',
+        retain: true,
+      };
+      const second = { ...first, id: '2' };
+      shell.send({ type: '__swarm_message__', message: first });
+      shell.send({ type: '__swarm_message__', message: second });
+
+      const cart = connect(hub, 'cart');
+
+      expect(cart.ofType('__swarm_message__')).toEqual([
+        { type: '__swarm_message__', message: second },
+      ]);
+    });
+
+    it('should not retain broadcasts without the retain flag', () => {
+      const shell = connect(hub, 'shell');
+      shell.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'shell', event: 'cart:update' },
+      });
+
+      const cart = connect(hub, 'cart');
+
+      expect(cart.ofType('__swarm_message__')).toEqual([]);
+    });
+
+    it('should not replay a client its own retained broadcast', () => {
+      const shell = connect(hub, 'shell');
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: '1',
+          source: 'shell',
+          event: 'user:login',
+          retain: true,
+        },
+      });
+      shell.send({ type: '__swarm_disconnect__' });
+
+      const again = connect(hub, 'shell');
+
+      expect(again.ofType('__swarm_message__')).toEqual([]);
+    });
+  });
+
+  describe('subscription routing', () => {
+    function broadcast(port: HubPort, id: string, event: string, extra = {}) {
+      port.send({
+        type: '__swarm_message__',
+        message: { id, source: 'shell', event, ...extra },
+      });
+    }
+
+    function receivedIds(port: HubPort): unknown[] {
+      return port
+        .ofType('__swarm_message__')
+        .map((data) => (data.message as { id: string }).id);
+    }
+
+    it('should only forward broadcasts matching announced patterns', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      cart.send({
+        type: '__swarm_subscribe__',
+        patterns: ['cart:*', 'user:login'],
+      });
+
+      broadcast(shell, '1', 'cart:update');
+      broadcast(shell, '2', 'user:login');
+      broadcast(shell, '3', 'user:logout');
+
+      expect(receivedIds(cart)).toEqual(['1', '2']);
+    });
+
+    it('should forward every broadcast to clients that never announced', () => {
+      const shell = connect(hub, 'shell');
+      const other = connect(hub, 'other');
+
+      broadcast(shell, '1', 'cart:update');
+
+      expect(receivedIds(other)).toEqual(['1']);
+    });
+
+    it('should replace subscriptions on each announcement', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      cart.send({ type: '__swarm_subscribe__', patterns: ['cart:*'] });
+      cart.send({ type: '__swarm_subscribe__', patterns: [] });
+
+      broadcast(shell, '1', 'cart:update');
+
+      expect(receivedIds(cart)).toEqual([]);
+    });
+
+    it('should still deliver targeted and retained messages', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      cart.send({ type: '__swarm_subscribe__', patterns: [] });
+
+      shell.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'shell', target: 'cart', event: 'e' },
+      });
+      broadcast(shell, '2', 'user:login', { retain: true });
+
+      expect(receivedIds(cart)).toEqual(['1', '2']);
+    });
+
+    it('should reset subscriptions when a client registers again', () => {
+      const shell = connect(hub, 'shell');
+      connect(hub, 'cart').send({
+        type: '__swarm_subscribe__',
+        patterns: [],
+      });
+      const again = connect(hub, 'cart');
+
+      broadcast(shell, '1', 'cart:update');
+
+      expect(receivedIds(again)).toEqual(['1']);
+    });
+  });
+
+  describe('channels', () => {
+    function send(port: HubPort, message: Record<string, unknown>) {
+      port.send({
+        type: '__swarm_message__',
+        message: { source: 'shell', event: 'cart:update', ...message },
+      });
+    }
+
+    function receivedIds(port: HubPort): unknown[] {
+      return port
+        .ofType('__swarm_message__')
+        .map((data) => (data.message as { id: string }).id);
+    }
+
+    it('should only forward channel broadcasts to its members', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const other = connect(hub, 'other');
+      cart.send({ type: '__swarm_join__', channel: 'checkout' });
+      // Subscriptions do not filter channel broadcasts.
+      cart.send({ type: '__swarm_subscribe__', patterns: [] });
+
+      send(shell, { id: '1', channel: 'checkout' });
+      send(shell, { id: '2' });
+
+      expect(receivedIds(cart)).toEqual(['1']);
+      expect(receivedIds(other)).toEqual(['2']);
+    });
+
+    it('should stop forwarding once a client leaves', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      cart.send({ type: '__swarm_join__', channel: 'checkout' });
+      cart.send({ type: '__swarm_leave__', channel: 'checkout' });
+
+      send(shell, { id: '1', channel: 'checkout' });
+
+      expect(receivedIds(cart)).toEqual([]);
+    });
+
+    it('should treat targets outside the channel as unknown', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+
+      send(shell, {
+        id: '1',
+        target: 'cart',
+        channel: 'checkout',
+        ack: { kind: 'request' },
+      });
+
+      expect(receivedIds(cart)).toEqual([]);
+      expect(shell.ofType('__swarm_message__')[0].message).toMatchObject({
+        channel: 'checkout',
+        ack: { kind: 'receipt', messageId: '1', status: 'unknown-target' },
+      });
+    });
+
+    it('should replay retained broadcasts per channel on join', () => {
+      const shell = connect(hub, 'shell');
+      send(shell, { id: '1', retain: true });
+      send(shell, { id: '2', retain: true, channel: 'checkout' });
+
+      const cart = connect(hub, 'cart');
+      expect(receivedIds(cart)).toEqual(['1']);
+
+      cart.send({ type: '__swarm_join__', channel: 'checkout' });
+      expect(receivedIds(cart)).toEqual(['1', '2']);
+    });
+  });
+
+  describe('tabs', () => {
+    function connectIn(
+      tabId: string,
+      clientId: string,
+      onConflict?: string
+    ): HubPort {
+      return connect(hub, clientId, undefined, {
+        version: PROTOCOL_VERSION,
+        minVersion: MIN_PROTOCOL_VERSION,
+        tabId,
+        onConflict,
+      });
+    }
+
+    function receivedIds(port: HubPort): unknown[] {
+      return port
+        .ofType('__swarm_message__')
+        .map((data) => (data.message as { id: string }).id);
+    }
+
+    it('should report the tab of each peer', () => {
+      connectIn('tab-1', 'shell');
+      const cart = connectIn('tab-2', 'cart');
+
+      expect(cart.ofType('__swarm_registered__')[0].peers).toEqual([
+        expect.objectContaining({ clientId: 'shell', tabId: 'tab-1' }),
+      ]);
+    });
+
+    it('should only broadcast tab-scoped messages within the tab', () => {
+      const shell = connectIn('tab-1', 'shell');
+      const cart = connectIn('tab-1', 'cart');
+      const other = connectIn('tab-2', 'other');
+      const message = { id: '1', source: 'shell', event: 'e', scope: 'tab' };
+
+      shell.send({ type: '__swarm_message__', message });
+
+      expect(cart.ofType('__swarm_message__')).toEqual([
+        {
+          type: '__swarm_message__',
+          message: { ...message, tabId: 'tab-1' },
+        },
+      ]);
+      expect(other.ofType('__swarm_message__')).toEqual([]);
+    });
+
+    it("should deliver tab-scoped sends to the target's instance in the tab", () => {
+      const shell = connectIn('tab-2', 'shell');
+      const cart = connectIn('tab-1', 'cart');
+      const cart2 = connectIn('tab-2', 'cart', 'suffix');
+
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: '1',
+          source: 'shell',
+          target: 'cart',
+          event: 'e',
+          scope: 'tab',
+          ack: { kind: 'request' },
+        },
+      });
+
+      expect(receivedIds(cart)).toEqual([]);
+      expect(cart2.ofType('__swarm_message__')[0].message).toMatchObject({
+        id: '1',
+        target: 'cart#2',
+      });
+      expect(shell.ofType('__swarm_message__')[0].message).toMatchObject({
+        source: 'cart#2',
+        ack: { kind: 'receipt', messageId: '1', status: 'delivered' },
+      });
+    });
+
+    it('should treat targets in other tabs as unknown', () => {
+      const shell = connectIn('tab-1', 'shell');
+      const cart = connectIn('tab-2', 'cart');
+
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: '1',
+          source: 'shell',
+          target: 'cart',
+          event: 'e',
+          scope: 'tab',
+          ack: { kind: 'request' },
+        },
+      });
+
+      expect(receivedIds(cart)).toEqual([]);
+      expect(shell.ofType('__swarm_message__')[0].message).toMatchObject({
+        ack: { status: 'unknown-target' },
+      });
+    });
+
+    it('should retain tab-scoped broadcasts per tab', () => {
+      const shell1 = connectIn('tab-1', 'shell');
+      const shell2 = connectIn('tab-2', 'shell#2');
+      for (const [port, id] of [
+        [shell1, '1'],
+        [shell2, '2'],
+      ] as const) {
+        port.send({
+          type: '__swarm_message__',
+          message: {
+            id,
+            source: id === '1' ? 'shell' : 'shell#2',
+            event: 'e',
+            scope: 'tab',
+            retain: true,
+          },
+        });
+      }
+
+      expect(receivedIds(connectIn('tab-1', 'cart'))).toEqual(['1']);
+      expect(receivedIds(connectIn('tab-2', 'cart#2'))).toEqual(['2']);
+    });
+  });
+
+  describe('leader election', () => {
+    function leaders(port: HubPort): unknown[] {
+      return port.ofType('__swarm_leader__').map((data) => data.leader);
+    }
+
+    it('should make the first candidate the leader', () => {
+      const first = connect(hub, 'tab-1');
+      const second = connect(hub, 'tab-2');
+
+      first.send({ type: '__swarm_elect__', name: 'sync' });
+      second.send({ type: '__swarm_elect__', name: 'sync' });
+
+      expect(first.ofType('__swarm_leader__')).toEqual([
+        { type: '__swarm_leader__', name: 'sync', leader: 'tab-1' },
+      ]);
+      expect(leaders(second)).toEqual(['tab-1']);
+    });
+
+    it('should hand leadership on when the leader resigns', () => {
+      const first = connect(hub, 'tab-1');
+      const second = connect(hub, 'tab-2');
+      first.send({ type: '__swarm_elect__', name: 'sync' });
+      second.send({ type: '__swarm_elect__', name: 'sync' });
+
+      first.send({ type: '__swarm_resign__', name: 'sync' });
+
+      expect(leaders(second)).toEqual(['tab-1', 'tab-2']);
+      expect(leaders(first)).toEqual(['tab-1']);
+    });
+
+    it('should hand leadership on when the leader disconnects', () => {
+      const first = connect(hub, 'tab-1');
+      const second = connect(hub, 'tab-2');
+      const third = connect(hub, 'tab-3');
+      for (const port of [first, second, third]) {
+        port.send({ type: '__swarm_elect__', name: 'sync' });
+      }
+
+      // A follower leaving changes nothing.
+      second.send({ type: '__swarm_disconnect__' });
+      expect(leaders(third)).toEqual(['tab-1']);
+
+      first.send({ type: '__swarm_disconnect__' });
+      expect(leaders(third)).toEqual(['tab-1', 'tab-3']);
+    });
+
+    it('should keep elections apart', () => {
+      const first = connect(hub, 'tab-1');
+      const second = connect(hub, 'tab-2');
+      first.send({ type: '__swarm_elect__', name: 'sync' });
+      second.send({ type: '__swarm_elect__', name: 'poll' });
+
+      expect(leaders(first)).toEqual(['tab-1']);
+      expect(leaders(second)).toEqual(['tab-2']);
+    });
+  });
+
+  describe('heartbeats', () => {
+    function connectWithHeartbeat(clientId: string): HubPort {
+      return connect(hub, clientId, undefined, {
+        version: PROTOCOL_VERSION,
+        heartbeatInterval: 1_000,
+        heartbeatTimeout: 3_000,
+      });
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      hub = startHub();
+    });
+
+    afterEach(() => vi.useRealTimers());
+
+    it('should confirm heartbeats and ping the client', () => {
+      const cart = connectWithHeartbeat('cart');
+
+      vi.advanceTimersByTime(2_000);
+
+      expect(cart.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({ heartbeatInterval: 1_000 }),
+      ]);
+      expect(cart.ofType('__swarm_ping__')).toHaveLength(2);
+    });
+
+    it('should keep clients that answer', () => {
+      const shell = connectWithHeartbeat('shell');
+      const cart = connectWithHeartbeat('cart');
+
+      for (let i = 0; i < 10; i++) {
+        vi.advanceTimersByTime(1_000);
+        cart.send({ type: '__swarm_pong__' });
+        shell.send({ type: '__swarm_pong__' });
+      }
+
+      expect(shell.ofType('__swarm_peer_leave__')).toEqual([]);
+      expect(cart.ofType('__swarm_evicted__')).toEqual([]);
+    });
+
+    it('should drop clients that fall silent', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connectWithHeartbeat('cart');
+
+      vi.advanceTimersByTime(3_000);
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: '1',
+          source: 'shell',
+          target: 'cart',
+          event: 'e',
+          ack: { kind: 'request' },
+        },
+      });
+
+      expect(cart.ofType('__swarm_evicted__')).toEqual([
+        expect.objectContaining({ clientId: 'cart', code: 'TRANSPORT_ERROR' }),
+      ]);
+      expect(shell.ofType('__swarm_peer_leave__')).toEqual([
+        expect.objectContaining({
+          peer: expect.objectContaining({ clientId: 'cart' }),
+        }),
+      ]);
+      expect(shell.ofType('__swarm_message__')[0].message).toMatchObject({
+        ack: { status: 'unknown-target' },
+      });
+    });
+
+    it('should not ping clients that did not ask for heartbeats', () => {
+      const shell = connect(hub, 'shell');
+      const legacy = connect(hub, 'legacy', undefined, {});
+
+      vi.advanceTimersByTime(60_000);
+
+      expect(shell.ofType('__swarm_ping__')).toEqual([]);
+      expect(legacy.ofType('__swarm_ping__')).toEqual([]);
+      expect(shell.ofType('__swarm_peer_leave__')).toEqual([]);
+    });
+
+    it('should stop pinging once the client disconnects', () => {
+      const cart = connectWithHeartbeat('cart');
+
+      cart.send({ type: '__swarm_disconnect__' });
+      vi.advanceTimersByTime(5_000);
+
+      expect(cart.ofType('__swarm_ping__')).toEqual([]);
+      expect(cart.ofType('__swarm_evicted__')).toEqual([]);
+    });
+  });
+
+  describe('transferables', () => {
+    it('should move transferred objects on to the target', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const buffer = new ArrayBuffer(8);
+      const message = {
+        id: '1',
+        source: 'shell',
+        target: 'cart',
+        event: 'e',
+        payload: { buffer },
+      };
+
+      shell.send({ type: '__swarm_message__', message, transfer: [buffer] });
+
+      expect(cart.received.at(-1)).toEqual({
+        type: '__swarm_message__',
+        message,
+      });
+      expect(cart.transferred.at(-1)).toEqual([buffer]);
+    });
+
+    it('should copy broadcasts to each recipient', () => {
+      const shell = connect(hub, 'shell');
+      const cart = connect(hub, 'cart');
+      const other = connect(hub, 'other');
+      const buffer = new ArrayBuffer(8);
+      const message = { id: '1', source: 'shell', event: 'e', payload: buffer };
+
+      shell.send({ type: '__swarm_message__', message, transfer: [buffer] });
+
+      expect(cart.ofType('__swarm_message__')).toHaveLength(1);
+      expect(other.ofType('__swarm_message__')).toHaveLength(1);
+      expect(cart.transferred.at(-1)).toEqual([]);
+      expect(other.transferred.at(-1)).toEqual([]);
+    });
+
+    it('should not keep moved payloads in the traffic log', () => {
+      const shell = connect(hub, 'shell');
+      connect(hub, 'cart');
+      const buffer = new ArrayBuffer(8);
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: '1',
+          source: 'shell',
+          target: 'cart',
+          event: 'e',
+          payload: buffer,
+        },
+        transfer: [buffer],
+      });
+      const devtools = connect(hub, 'devtools');
+
+      devtools.send({ type: '__swarm_inspect__', enabled: true });
+
+      const [update] = devtools
+        .ofType('__swarm_inspector__')
+        .map((data) => data.update as Record<string, unknown>);
+      expect(update.traffic).toEqual([
+        expect.objectContaining({
+          message: expect.objectContaining({ id: '1', payload: undefined }),
+          recipients: ['cart'],
+        }),
+      ]);
+    });
+  });
+
+  describe('inspection', () => {
+    function updates(port: HubPort): Record<string, unknown>[] {
+      return port
+        .ofType('__swarm_inspector__')
+        .map((data) => data.update as Record<string, unknown>);
+    }
+
+    function inspect(port: HubPort, enabled = true): void {
+      port.send({ type: '__swarm_inspect__', enabled });
+    }
+
+    it('should send a snapshot of clients and recent traffic', () => {
+      const shell = connect(hub, 'shell', { version: '1' });
+      connect(hub, 'cart').send({
+        type: '__swarm_subscribe__',
+        patterns: ['cart:*'],
+      });
+      const message = { id: '1', source: 'shell', event: 'cart:update' };
+      shell.send({ type: '__swarm_message__', message });
+      const devtools = connect(hub, 'devtools');
+
+      inspect(devtools);
+
+      expect(updates(devtools)).toEqual([
+        {
+          type: 'snapshot',
+          clients: [
+            expect.objectContaining({
+              clientId: 'shell',
+              metadata: { version: '1' },
+              version: PROTOCOL_VERSION,
+              subscriptions: null,
+              channels: [],
+            }),
+            expect.objectContaining({
+              clientId: 'cart',
+              subscriptions: ['cart:*'],
+            }),
+            expect.objectContaining({ clientId: 'devtools' }),
+          ],
+          traffic: [
+            {
+              seq: 1,
+              routedAt: expect.any(Number),
+              message,
+              recipients: ['cart'],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should push routed messages and client changes while inspecting', () => {
+      const devtools = connect(hub, 'devtools');
+      inspect(devtools);
+      const shell = connect(hub, 'shell');
+      shell.send({
+        type: '__swarm_message__',
+        message: { id: '1', source: 'shell', target: 'gone', event: 'e' },
+      });
+      shell.send({ type: '__swarm_disconnect__' });
+
+      expect(updates(devtools).map((update) => update.type)).toEqual([
+        'snapshot',
+        'clients',
+        'traffic',
+        'clients',
+      ]);
+      expect(updates(devtools)[2]).toMatchObject({
+        record: { message: { id: '1' }, recipients: [] },
+      });
+      expect(updates(devtools)[3]).toEqual({
+        type: 'clients',
+        clients: [expect.objectContaining({ clientId: 'devtools' })],
+      });
+    });
+
+    it('should stop pushing updates once inspection stops', () => {
+      const devtools = connect(hub, 'devtools');
+      inspect(devtools);
+      inspect(devtools, false);
+
+      connect(hub, 'shell');
+
+      expect(updates(devtools)).toHaveLength(1);
+    });
+
+    it('should keep only the most recent traffic', () => {
+      const shell = connect(hub, 'shell');
+      for (let i = 0; i <= INSPECTOR_BUFFER_SIZE; i++) {
+        shell.send({
+          type: '__swarm_message__',
+          message: { id: String(i), source: 'shell', event: 'e' },
+        });
+      }
+      const devtools = connect(hub, 'devtools');
+
+      inspect(devtools);
+
+      const [snapshot] = updates(devtools) as { traffic: { seq: number }[] }[];
+      expect(snapshot.traffic).toHaveLength(INSPECTOR_BUFFER_SIZE);
+      expect(snapshot.traffic[0].seq).toBe(2);
+    });
+  });
+
+  describe('protocol negotiation', () => {
+    it('should acknowledge with the negotiated version', () => {
+      const port = connect(hub, 'shell');
+      expect(port.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({ version: PROTOCOL_VERSION }),
+      ]);
+    });
+
+    it('should negotiate down to a client on an older version', () => {
+      const port = connect(hub, 'legacy', undefined, {});
+      expect(port.ofType('__swarm_registered__')).toEqual([
+        expect.objectContaining({ version: 1 }),
+      ]);
+    });
+
+    it('should reject clients whose versions do not overlap', () => {
+      const port = connect(hub, 'future', undefined, {
+        version: PROTOCOL_VERSION + 2,
+        minVersion: PROTOCOL_VERSION + 1,
+      });
+      const shell = connect(hub, 'shell');
+
+      expect(port.ofType('__swarm_registered__')).toEqual([]);
+      expect(port.ofType('__swarm_rejected__')).toEqual([
+        expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }),
+      ]);
+      expect(shell.ofType('__swarm_registered__')[0].peers).toEqual([]);
+    });
+
+    it('should strip newer envelope fields for protocol 1 clients', () => {
+      const shell = connect(hub, 'shell');
+      const legacy = connect(hub, 'legacy', undefined, {});
+      const message = {
+        id: '1',
+        source: 'shell',
+        event: 'user:login',
+        version: PROTOCOL_VERSION,
+        retain: true,
+      };
+
+      shell.send({ type: '__swarm_message__', message });
+
+      expect(legacy.ofType('__swarm_message__')).toEqual([
+        {
+          type: '__swarm_message__',
+          message: { id: '1', source: 'shell', event: 'user:login' },
+        },
+      ]);
+    });
+
+    it('should answer requests to protocol 1 clients with an error', () => {
+      const shell = connect(hub, 'shell');
+      const legacy = connect(hub, 'legacy', undefined, {});
+
+      shell.send({
+        type: '__swarm_message__',
+        message: {
+          id: 'req-1',
+          source: 'shell',
+          target: 'legacy',
+          event: 'user:current',
+          rpc: { kind: 'request' },
+        },
+      });
+
+      expect(legacy.ofType('__swarm_message__')).toEqual([]);
+      expect(shell.ofType('__swarm_message__')).toEqual([
+        {
+          type: '__swarm_message__',
+          message: expect.objectContaining({
+            source: 'legacy',
+            target: 'shell',
+            rpc: expect.objectContaining({
+              kind: 'response',
+              requestId: 'req-1',
+              error: expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }),
+            }),
+          }),
+        },
+      ]);
+    });
+  });
+});
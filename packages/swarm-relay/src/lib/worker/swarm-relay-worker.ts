@@ -1,44 +1,623 @@
+import {
+  ACK_PROTOCOL_VERSION,
+  INSPECTOR_BUFFER_SIZE,
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  STREAM_PROTOCOL_VERSION,
+} from '../protocol.js';
+
 /**
  * Returns the SharedWorker hub script as a string for inline Blob creation.
  *
  * The worker acts as a central message-routing hub:
  * - Accepts port connections from microfrontends
- * - Registers clients by their unique `clientId`
+ * - Registers clients by their unique `clientId`, negotiating the highest
+ *   protocol version both sides speak (or rejecting the client if none)
+ * - Settles a `clientId` already in use by the client's conflict policy:
+ *   evicting the previous connection, rejecting the client, or
+ *   registering it under a free `<clientId>#<n>`
+ * - Ignores messages from ports that have not registered, and messages
+ *   whose `source` is not the client ID their port registered as
  * - Routes targeted messages to a specific client
  * - Broadcasts messages to all connected clients (except the sender)
- * - Cleans up disconnected clients
+ *   that subscribe to the event; clients that never announced their
+ *   subscriptions receive every broadcast
+ * - Scopes messages sent on a channel to the clients that joined it, and
+ *   tab-scoped messages to the clients in the sender's tab; a tab-scoped
+ *   targeted message reaches the target's instance in that tab
+ * - Tracks peer metadata and announces joins / leaves to other clients
+ * - Retains the last broadcast of events flagged `retain` and replays
+ *   them to clients as they register (or join the broadcast's channel)
+ * - Downgrades envelopes for clients on an older protocol version, and
+ *   keeps stream frames from clients too old to read streams
+ * - Tells the sender of a targeted message sent with `ack` whether it
+ *   reached its target
+ * - Moves objects the sender transferred on to the target of a targeted
+ *   message; broadcasts are copied to each recipient
+ * - Records recent traffic and pushes it, with the client list, to
+ *   clients that ask to inspect the hub
+ * - Runs named leader elections: the longest standing candidate leads,
+ *   and every candidate is told whenever the leader changes
+ * - Cleans up disconnected clients, pinging those that ask for heartbeats
+ *   and dropping them once they fall silent (e.g. a crashed tab)
  */
 export function getWorkerScript(): string {
   return `
 'use strict';
 
+const PROTOCOL_VERSION = ${PROTOCOL_VERSION};
+const MIN_PROTOCOL_VERSION = ${MIN_PROTOCOL_VERSION};
+const LEGACY_PROTOCOL_VERSION = ${LEGACY_PROTOCOL_VERSION};
+const ACK_PROTOCOL_VERSION = ${ACK_PROTOCOL_VERSION};
+const STREAM_PROTOCOL_VERSION = ${STREAM_PROTOCOL_VERSION};
+const INSPECTOR_BUFFER_SIZE = ${INSPECTOR_BUFFER_SIZE};
+
 /** @type {Map<string, MessagePort>} */
 const ports = new Map();
 
+/** Protocol version negotiated with each client. */
+/** @type {Map<string, number>} */
+const versions = new Map();
+
+/** @type {Map<string, { clientId: string, metadata?: object, connectedAt: number, tabId?: string }>} */
+const peers = new Map();
+
+/** Last retained broadcast per channel and event, replayed to late joiners. */
+/** @type {Map<string, object>} */
+const retained = new Map();
+
+/** Event patterns each client subscribes to; absent = every event. */
+/** @type {Map<string, string[]>} */
+const subscriptions = new Map();
+
+/** Channels each client has joined. */
+/** @type {Map<string, Set<string>>} */
+const channels = new Map();
+
+/** Clients receiving inspector updates. */
+/** @type {Set<string>} */
+const inspectors = new Set();
+
+/** Candidates of each election, longest standing (the leader) first. */
+/** @type {Map<string, string[]>} */
+const elections = new Map();
+
+/** The most recently routed messages, oldest first. */
+/** @type {{ seq: number, routedAt: number, message: object, recipients: string[] }[]} */
+const traffic = [];
+let trafficSeq = 0;
+
+/**
+ * Key of a retained broadcast: its event, within its channel if any, and
+ * within the sender's tab if tab-scoped.
+ */
+function retainedKey(message) {
+  let key = message.event;
+  if (message.channel !== undefined) {
+    key = message.channel + '\\n' + key;
+  }
+  if (message.scope === 'tab') {
+    key = message.tabId + '\\t' + key;
+  }
+  return key;
+}
+
+/** Whether clientId runs in the tab a tab-scoped message is limited to. */
+function inScope(clientId, message) {
+  if (message.scope !== 'tab') {
+    return true;
+  }
+  const peer = peers.get(clientId);
+  return message.tabId !== undefined && !!peer && peer.tabId === message.tabId;
+}
+
+/**
+ * Client a tab-scoped targeted message is for: its target if that runs in
+ * the sender's tab, otherwise the target's <target>#<n> instance there.
+ * Other messages go to their target as addressed.
+ */
+function resolveTarget(message) {
+  if (message.scope !== 'tab' || inScope(message.target, message)) {
+    return message.target;
+  }
+  const prefix = message.target + '#';
+  let resolved = message.target;
+  ports.forEach(function findInstance(p, id) {
+    if (
+      resolved === message.target &&
+      id.indexOf(prefix) === 0 &&
+      inScope(id, message)
+    ) {
+      resolved = id;
+    }
+  });
+  return resolved;
+}
+
+/** Whether clientId may receive messages sent on channel. */
+function isMember(clientId, channel) {
+  if (channel === undefined) {
+    return true;
+  }
+  const joined = channels.get(clientId);
+  return !!joined && joined.has(channel);
+}
+
+/**
+ * Whether clientId wants broadcasts of event. Channel broadcasts reach
+ * every member of the channel; retained broadcasts are always delivered
+ * so every client knows the event's last value.
+ */
+function isSubscribed(clientId, message) {
+  if (message.channel !== undefined) {
+    return isMember(clientId, message.channel);
+  }
+  const patterns = subscriptions.get(clientId);
+  if (!patterns || message.retain) {
+    return true;
+  }
+  return patterns.some(function matchesEvent(pattern) {
+    return pattern.charAt(pattern.length - 1) === '*'
+      ? message.event.indexOf(pattern.slice(0, -1)) === 0
+      : message.event === pattern;
+  });
+}
+
+/** Post a presence notice to every registered client except exceptId. */
+function notifyPeers(type, peer, exceptId) {
+  ports.forEach(function forwardPresence(p, id) {
+    if (id !== exceptId) {
+      p.postMessage({ type: type, peer: peer });
+    }
+  });
+}
+
+/** Post an inspector update to every inspecting client. */
+function notifyInspectors(update) {
+  inspectors.forEach(function forwardUpdate(id) {
+    const p = ports.get(id);
+    if (p) {
+      p.postMessage({ type: '__swarm_inspector__', update: update });
+    }
+  });
+}
+
+/** Every registered client, as reported to inspectors. */
+function inspectedClients() {
+  const clients = [];
+  peers.forEach(function describeClient(peer, id) {
+    clients.push(Object.assign({}, peer, {
+      version: versions.get(id) || LEGACY_PROTOCOL_VERSION,
+      subscriptions: subscriptions.get(id) || null,
+      channels: Array.from(channels.get(id) || []),
+    }));
+  });
+  return clients;
+}
+
+/** Push the client list to inspectors after it changed. */
+function announceClients() {
+  notifyInspectors({ type: 'clients', clients: inspectedClients() });
+}
+
+/** Add a routed message to the traffic log and push it to inspectors. */
+function record(message, recipients) {
+  trafficSeq += 1;
+  const entry = {
+    seq: trafficSeq,
+    routedAt: Date.now(),
+    message: message,
+    recipients: recipients,
+  };
+  traffic.push(entry);
+  if (traffic.length > INSPECTOR_BUFFER_SIZE) {
+    traffic.shift();
+  }
+  notifyInspectors({ type: 'traffic', record: entry });
+}
+
+/**
+ * Apply the client's conflict policy when data.clientId is registered on
+ * another port. Returns the ID to register the client under, or null if
+ * it was rejected.
+ */
+function resolveConflict(port, data) {
+  const clientId = data.clientId;
+  const existing = ports.get(clientId);
+  if (!existing || existing === port) {
+    return clientId;
+  }
+  if (data.onConflict === 'reject') {
+    port.postMessage({
+      type: '__swarm_rejected__',
+      clientId: clientId,
+      code: 'CLIENT_ID_CONFLICT',
+      reason: 'Client ID "' + clientId + '" is already registered',
+    });
+    return null;
+  }
+  if (data.onConflict === 'suffix') {
+    let n = 2;
+    while (ports.has(clientId + '#' + n)) {
+      n += 1;
+    }
+    return clientId + '#' + n;
+  }
+  // Take over: the previous port no longer receives anything.
+  existing.postMessage({
+    type: '__swarm_evicted__',
+    clientId: clientId,
+    code: 'CLIENT_ID_CONFLICT',
+    reason: 'Another client registered as "' + clientId + '"',
+  });
+  return clientId;
+}
+
+/** Remove a candidate, telling the others if it was their leader. */
+function removeCandidate(name, clientId) {
+  const candidates = elections.get(name);
+  const index = candidates ? candidates.indexOf(clientId) : -1;
+  if (index < 0) {
+    return;
+  }
+  candidates.splice(index, 1);
+  if (candidates.length === 0) {
+    elections.delete(name);
+  } else if (index === 0) {
+    candidates.forEach(function notifyCandidate(id) {
+      const p = ports.get(id);
+      if (p) {
+        p.postMessage({
+          type: '__swarm_leader__',
+          name: name,
+          leader: candidates[0],
+        });
+      }
+    });
+  }
+}
+
+/** Remove clientId from every election it stands in. */
+function withdraw(clientId) {
+  Array.from(elections.keys()).forEach(function leaveElection(name) {
+    removeCandidate(name, clientId);
+  });
+}
+
+/** Remove clientId if port is still its registered port. */
+function unregister(clientId, port) {
+  // A newer connection for the same clientId (e.g. React StrictMode
+  // remount) may have already replaced us in the map.
+  if (ports.get(clientId) !== port) {
+    return;
+  }
+  ports.delete(clientId);
+  versions.delete(clientId);
+  subscriptions.delete(clientId);
+  channels.delete(clientId);
+  inspectors.delete(clientId);
+  withdraw(clientId);
+  const peer = peers.get(clientId);
+  peers.delete(clientId);
+  if (peer) {
+    notifyPeers('__swarm_peer_leave__', peer, clientId);
+  }
+  announceClients();
+}
+
+/**
+ * Post message to clientId, downgraded to the client's protocol version,
+ * moving the objects in transfer (if any) to it.
+ * Returns false if the client is unknown or cannot understand the message.
+ */
+function deliver(clientId, message, transfer) {
+  const port = ports.get(clientId);
+  if (!port) {
+    return false;
+  }
+  const version = versions.get(clientId) || LEGACY_PROTOCOL_VERSION;
+  // Older clients would handle an acknowledged message without confirming
+  // it, so its sender would keep sending it again.
+  if (message.ack && version < ACK_PROTOCOL_VERSION) {
+    return false;
+  }
+  // Older clients would hand stream frames to their event handlers.
+  if (message.stream && version < STREAM_PROTOCOL_VERSION) {
+    return false;
+  }
+  if (version === LEGACY_PROTOCOL_VERSION) {
+    // Protocol 1 has no request/response: a legacy client would hand the
+    // envelope to its event handlers as if it were an ordinary event.
+    if (message.rpc) {
+      return false;
+    }
+    const legacy = Object.assign({}, message);
+    delete legacy.version;
+    delete legacy.retain;
+    message = legacy;
+  }
+  port.postMessage(
+    { type: '__swarm_message__', message: message },
+    transfer || []
+  );
+  return true;
+}
+
+/** Deliver the retained broadcasts of channel to clientId. */
+function replayRetained(clientId, channel) {
+  retained.forEach(function replayMessage(message) {
+    if (
+      message.channel === channel &&
+      message.source !== clientId &&
+      inScope(clientId, message)
+    ) {
+      deliver(clientId, message);
+    }
+  });
+}
+
+/** Answer a request the target cannot receive with a ProtocolMismatch error. */
+function rejectRequest(message) {
+  const sourcePort = ports.get(message.source);
+  if (!sourcePort) {
+    return;
+  }
+  sourcePort.postMessage({
+    type: '__swarm_message__',
+    message: {
+      id: message.id + ':rejected',
+      source: message.target,
+      target: message.source,
+      event: message.event,
+      payload: undefined,
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      channel: message.channel,
+      rpc: {
+        kind: 'response',
+        requestId: message.id,
+        error: {
+          message:
+            'Client "' + message.target + '" speaks protocol ' +
+            LEGACY_PROTOCOL_VERSION + ' and cannot handle requests',
+          code: 'PROTOCOL_MISMATCH',
+        },
+      },
+    },
+  });
+}
+
+/** Tell the sender of an acknowledged message how far it got. */
+function acknowledge(message, status) {
+  const sourcePort = ports.get(message.source);
+  if (!sourcePort) {
+    return;
+  }
+  sourcePort.postMessage({
+    type: '__swarm_message__',
+    message: {
+      id: message.id + ':' + status,
+      source: message.target,
+      target: message.source,
+      event: message.event,
+      payload: undefined,
+      timestamp: Date.now(),
+      version: PROTOCOL_VERSION,
+      channel: message.channel,
+      ack: { kind: 'receipt', messageId: message.id, status: status },
+    },
+  });
+}
+
 self.onconnect = function handleConnect(e) {
   const port = e.ports[0];
   let clientId = null;
+  let heartbeatTimer = null;
+  let lastSeen = Date.now();
+
+  function stopHeartbeat() {
+    if (heartbeatTimer !== null) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  }
+
+  /** Ping the client every interval; drop it once silent for timeout. */
+  function startHeartbeat(interval, timeout) {
+    stopHeartbeat();
+    heartbeatTimer = setInterval(function checkClient() {
+      if (!clientId || ports.get(clientId) !== port) {
+        // Disconnected, or taken over by another port.
+        stopHeartbeat();
+        return;
+      }
+      if (Date.now() - lastSeen >= timeout) {
+        stopHeartbeat();
+        // The port may only be frozen; tell it in case it wakes up.
+        port.postMessage({
+          type: '__swarm_evicted__',
+          clientId: clientId,
+          code: 'TRANSPORT_ERROR',
+          reason: 'No heartbeat for ' + timeout + 'ms',
+        });
+        unregister(clientId, port);
+        clientId = null;
+        return;
+      }
+      port.postMessage({ type: '__swarm_ping__' });
+    }, interval);
+  }
 
   port.onmessage = function handleMessage(event) {
     const data = event.data;
+    lastSeen = Date.now();
+
+    // --- Heartbeats ---
+    if (data.type === '__swarm_pong__') {
+      return;
+    }
 
     // --- Registration ---
     if (data.type === '__swarm_register__') {
-      clientId = data.clientId;
+      // Clients from before protocol 2 send no version.
+      const clientVersion = data.version || LEGACY_PROTOCOL_VERSION;
+      const clientMin = data.minVersion || clientVersion;
+      const version = Math.min(PROTOCOL_VERSION, clientVersion);
+      if (version < Math.max(MIN_PROTOCOL_VERSION, clientMin)) {
+        port.postMessage({
+          type: '__swarm_rejected__',
+          clientId: data.clientId,
+          code: 'PROTOCOL_MISMATCH',
+          reason:
+            'Hub speaks protocol ' + MIN_PROTOCOL_VERSION + '-' +
+            PROTOCOL_VERSION + '; client speaks ' + clientMin + '-' +
+            clientVersion,
+          version: PROTOCOL_VERSION,
+          minVersion: MIN_PROTOCOL_VERSION,
+        });
+        return;
+      }
+
+      const registeredId = resolveConflict(port, data);
+      if (registeredId === null) {
+        return;
+      }
+      clientId = registeredId;
+      versions.set(clientId, version);
+      // A new connection starts out receiving everything, in no channel,
+      // not inspecting and standing in no election.
+      subscriptions.delete(clientId);
+      channels.delete(clientId);
+      inspectors.delete(clientId);
+      withdraw(clientId);
+      const isNew = !peers.has(clientId);
+      const peer = {
+        clientId: clientId,
+        metadata: data.metadata,
+        connectedAt: Date.now(),
+      };
+      if (typeof data.tabId === 'string') {
+        peer.tabId = data.tabId;
+      }
       ports.set(clientId, port);
-      port.postMessage({ type: '__swarm_registered__', clientId: clientId });
+      peers.set(clientId, peer);
+
+      // Clients from before heartbeats, or with them disabled, send none.
+      const heartbeatInterval = Number(data.heartbeatInterval) || 0;
+      if (heartbeatInterval > 0) {
+        startHeartbeat(
+          heartbeatInterval,
+          Number(data.heartbeatTimeout) || heartbeatInterval * 3
+        );
+      } else {
+        stopHeartbeat();
+      }
+
+      const others = [];
+      peers.forEach(function collectPeer(p, id) {
+        if (id !== clientId) {
+          others.push(p);
+        }
+      });
+      port.postMessage({
+        type: '__swarm_registered__',
+        clientId: clientId,
+        peers: others,
+        version: version,
+        heartbeatInterval: heartbeatInterval || undefined,
+      });
+
+      if (isNew) {
+        notifyPeers('__swarm_peer_join__', peer, clientId);
+      }
+
+      replayRetained(clientId, undefined);
+      announceClients();
+      return;
+    }
+
+    // --- Subscriptions ---
+    if (data.type === '__swarm_subscribe__') {
+      if (clientId && ports.get(clientId) === port && Array.isArray(data.patterns)) {
+        subscriptions.set(clientId, data.patterns);
+        announceClients();
+      }
+      return;
+    }
+
+    // --- Channels ---
+    if (data.type === '__swarm_join__' || data.type === '__swarm_leave__') {
+      if (
+        clientId &&
+        ports.get(clientId) === port &&
+        typeof data.channel === 'string'
+      ) {
+        const joined = channels.get(clientId) || new Set();
+        channels.set(clientId, joined);
+        if (data.type === '__swarm_leave__') {
+          if (joined.delete(data.channel)) {
+            announceClients();
+          }
+        } else if (!joined.has(data.channel)) {
+          joined.add(data.channel);
+          replayRetained(clientId, data.channel);
+          announceClients();
+        }
+      }
+      return;
+    }
+
+    // --- Inspection ---
+    if (data.type === '__swarm_inspect__') {
+      if (clientId && ports.get(clientId) === port) {
+        if (data.enabled === true) {
+          inspectors.add(clientId);
+          port.postMessage({
+            type: '__swarm_inspector__',
+            update: {
+              type: 'snapshot',
+              clients: inspectedClients(),
+              traffic: traffic.slice(),
+            },
+          });
+        } else {
+          inspectors.delete(clientId);
+        }
+      }
+      return;
+    }
+
+    // --- Elections ---
+    if (data.type === '__swarm_elect__' || data.type === '__swarm_resign__') {
+      if (
+        clientId &&
+        ports.get(clientId) === port &&
+        typeof data.name === 'string'
+      ) {
+        if (data.type === '__swarm_resign__') {
+          removeCandidate(data.name, clientId);
+        } else {
+          const candidates = elections.get(data.name) || [];
+          elections.set(data.name, candidates);
+          if (candidates.indexOf(clientId) < 0) {
+            candidates.push(clientId);
+          }
+          port.postMessage({
+            type: '__swarm_leader__',
+            name: data.name,
+            leader: candidates[0],
+          });
+        }
+      }
       return;
     }
 
     // --- Disconnection ---
     if (data.type === '__swarm_disconnect__') {
+      stopHeartbeat();
       if (clientId) {
-        // Only remove if this port is still the registered one.
-        // A newer connection for the same clientId (e.g. React StrictMode
-        // remount) may have already replaced us in the map.
-        if (ports.get(clientId) === port) {
-          ports.delete(clientId);
-        }
+        unregister(clientId, port);
         clientId = null;
       }
       return;
@@ -46,30 +625,89 @@ self.onconnect = function handleConnect(e) {
 
     // --- Message routing ---
     if (data.type === '__swarm_message__') {
-      const message = data.message;
+      let message = data.message;
+      // Only a registered client may send, and only as itself.
+      if (
+        !clientId ||
+        ports.get(clientId) !== port ||
+        !message ||
+        typeof message !== 'object' ||
+        message.source !== clientId
+      ) {
+        return;
+      }
+      const recipients = [];
+      // Objects the sender moved here, to move on for a targeted message.
+      const transfer = Array.isArray(data.transfer) ? data.transfer : null;
+
+      if (message.scope === 'tab') {
+        // Stamp the sender's tab, which its recipients must share.
+        const sender = peers.get(message.source);
+        message = Object.assign({}, message, {
+          tabId: sender ? sender.tabId : undefined,
+        });
+      }
 
       if (message.target) {
-        // Targeted: deliver to a single client
-        const targetPort = ports.get(message.target);
-        if (targetPort) {
-          targetPort.postMessage({ type: '__swarm_message__', message: message });
+        const target = resolveTarget(message);
+        if (target !== message.target) {
+          message = Object.assign({}, message, { target: target });
+        }
+
+        // Targeted: deliver to a single client, if it joined the channel
+        // and is in scope
+        const member =
+          isMember(message.target, message.channel) &&
+          inScope(message.target, message);
+        const delivered =
+          member && deliver(message.target, message, transfer);
+        const connected = member && ports.has(message.target);
+        if (delivered) {
+          recipients.push(message.target);
+          if (transfer && transfer.length > 0) {
+            // The payload moved on, so the traffic log cannot keep it.
+            message = Object.assign({}, message, { payload: undefined });
+          }
+        } else if (
+          connected &&
+          message.rpc &&
+          message.rpc.kind === 'request'
+        ) {
+          rejectRequest(message);
+        }
+        if (message.ack && message.ack.kind === 'request') {
+          let status = 'delivered';
+          if (!delivered) {
+            status = connected ? 'protocol-mismatch' : 'unknown-target';
+          }
+          acknowledge(message, status);
         }
       } else {
-        // Broadcast: deliver to every client except the sender
+        if (message.retain) {
+          retained.set(retainedKey(message), message);
+        }
+
+        // Broadcast: deliver to every subscribed client except the sender
         ports.forEach(function forwardBroadcast(p, id) {
-          if (id !== message.source) {
-            p.postMessage({ type: '__swarm_message__', message: message });
+          if (
+            id !== message.source &&
+            isSubscribed(id, message) &&
+            inScope(id, message) &&
+            deliver(id, message)
+          ) {
+            recipients.push(id);
           }
         });
       }
+
+      record(message, recipients);
     }
   };
 
   port.onmessageerror = function handleError() {
+    stopHeartbeat();
     if (clientId) {
-      if (ports.get(clientId) === port) {
-        ports.delete(clientId);
-      }
+      unregister(clientId, port);
       clientId = null;
     }
   };
@@ -26,10 +26,10 @@ export default defineConfig(() => ({
       transformMixedEsModules: true,
     },
     lib: {
-      // Could also be a dictionary or array of multiple entry points.
-      entry: 'src/index.ts',
+      // `hub` is the React-free entry point for server-side hubs.
+      entry: { index: 'src/index.ts', hub: 'src/hub.ts' },
       name: '@org/swarm-relay',
-      fileName: 'index',
+      fileName: (_format, entryName) => `${entryName}.js`,
       // Change this to the formats you want to support.
       // Don't forget to update your package.json as well.
       formats: ['es' as const],